@@ -0,0 +1,187 @@
+import { readFileSync } from "node:fs";
+import { ethers } from "ethers";
+import ganache, { type EthereumProvider } from "ganache";
+import solc from "solc";
+
+const SOURCE_FILE = "UniswapV2Devnet.sol";
+
+interface Artifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+}
+
+let artifacts: Record<string, Artifact> | null = null;
+
+/** Compiles the devnet contracts once per test run with solc-js. */
+function loadArtifacts() {
+  if (artifacts) return artifacts;
+  const input = {
+    language: "Solidity",
+    sources: {
+      [SOURCE_FILE]: {
+        content: readFileSync(
+          new URL(`./contracts/${SOURCE_FILE}`, import.meta.url),
+          "utf8"
+        ),
+      },
+    },
+    settings: {
+      // Matches contract/foundry.toml.
+      evmVersion: "paris",
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+    },
+  };
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors ?? []).filter(
+    (item: { severity: string }) => item.severity === "error"
+  );
+  if (errors.length) {
+    throw new Error(
+      errors.map((item: { formattedMessage: string }) => item.formattedMessage).join("\n")
+    );
+  }
+  const compiled: Record<string, { abi: ethers.InterfaceAbi; evm: { bytecode: { object: string } } }> =
+    output.contracts[SOURCE_FILE];
+  artifacts = Object.fromEntries(
+    Object.entries(compiled).map(([name, contract]) => [
+      name,
+      { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` },
+    ])
+  );
+  return artifacts;
+}
+
+export interface Devnet {
+  provider: ethers.BrowserProvider;
+  deployer: ethers.JsonRpcSigner;
+  /** A second funded account, e.g. to move the price under a pending swap. */
+  other: ethers.JsonRpcSigner;
+  deploy: (name: string, ...args: unknown[]) => Promise<ethers.Contract>;
+  stop: () => Promise<void>;
+}
+
+/** An in-process chain with funded, unlocked accounts. */
+export async function startDevnet(): Promise<Devnet> {
+  const chain: EthereumProvider = ganache.provider({
+    logging: { quiet: true },
+    wallet: { deterministic: true, totalAccounts: 2 },
+    chain: { chainId: 43114 },
+  });
+  // ethers looks for revert data in `error.data`; ganache nests it one deeper.
+  const eip1193: ethers.Eip1193Provider = {
+    request: async (request) => {
+      try {
+        return await chain.request(request as Parameters<typeof chain.request>[0]);
+      } catch (err) {
+        const data = (err as { data?: { result?: unknown } }).data;
+        if (typeof data?.result === "string") {
+          throw Object.assign(err as Error, { data: data.result });
+        }
+        throw err;
+      }
+    },
+  };
+  const provider = new ethers.BrowserProvider(eip1193, undefined, {
+    pollingInterval: 50,
+    // Balances are read right before and after a swap.
+    cacheTimeout: -1,
+  });
+  const [deployer, other] = await Promise.all([
+    provider.getSigner(0),
+    provider.getSigner(1),
+  ]);
+
+  const deploy = async (name: string, ...args: unknown[]) => {
+    const artifact = loadArtifacts()[name];
+    if (!artifact) throw new Error(`No devnet contract named ${name}.`);
+    const factory = new ethers.ContractFactory(
+      artifact.abi,
+      artifact.bytecode,
+      deployer
+    );
+    const contract = await factory.deploy(...args);
+    await contract.waitForDeployment();
+    return contract as ethers.Contract;
+  };
+
+  return {
+    provider,
+    deployer,
+    other,
+    deploy,
+    stop: async () => {
+      provider.destroy();
+      await chain.disconnect();
+    },
+  };
+}
+
+export interface UniswapV2Devnet {
+  factory: ethers.Contract;
+  router: ethers.Contract;
+  wavax: ethers.Contract;
+  /** Deploys a token and mints `supply` whole tokens to the deployer. */
+  createToken: (
+    symbol: string,
+    decimals: number,
+    supply: string
+  ) => Promise<ethers.Contract>;
+  /** Creates the pair and seeds it with the given raw amounts. */
+  seedPair: (
+    tokenA: ethers.Contract,
+    amountA: bigint,
+    tokenB: ethers.Contract,
+    amountB: bigint
+  ) => Promise<ethers.Contract>;
+}
+
+/** Deploys WAVAX, a factory and a router answering like LFJ V1. */
+export async function deployUniswapV2(devnet: Devnet): Promise<UniswapV2Devnet> {
+  const wavax = await devnet.deploy("DevnetWAVAX");
+  const factory = await devnet.deploy("DevnetFactory");
+  const router = await devnet.deploy(
+    "DevnetRouter",
+    await factory.getAddress(),
+    await wavax.getAddress()
+  );
+
+  const createToken = async (symbol: string, decimals: number, supply: string) => {
+    const token = await devnet.deploy("DevnetToken", `${symbol} Token`, symbol, decimals);
+    await (
+      await token.mint(
+        await devnet.deployer.getAddress(),
+        ethers.parseUnits(supply, decimals)
+      )
+    ).wait();
+    return token;
+  };
+
+  const seedPair = async (
+    tokenA: ethers.Contract,
+    amountA: bigint,
+    tokenB: ethers.Contract,
+    amountB: bigint
+  ) => {
+    const [addressA, addressB] = await Promise.all([
+      tokenA.getAddress(),
+      tokenB.getAddress(),
+    ]);
+    await (await factory.createPair(addressA, addressB)).wait();
+    const pairAddress: string = await factory.getPair(addressA, addressB);
+    const artifact = loadArtifacts().DevnetPair;
+    const pair = new ethers.Contract(pairAddress, artifact.abi, devnet.deployer);
+    if (addressA === (await wavax.getAddress())) {
+      await (await wavax.deposit({ value: amountA })).wait();
+    }
+    if (addressB === (await wavax.getAddress())) {
+      await (await wavax.deposit({ value: amountB })).wait();
+    }
+    await (await tokenA.transfer(pairAddress, amountA)).wait();
+    await (await tokenB.transfer(pairAddress, amountB)).wait();
+    await (await pair.sync()).wait();
+    return pair;
+  };
+
+  return { factory, router, wavax, createToken, seedPair };
+}
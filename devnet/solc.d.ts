@@ -0,0 +1,7 @@
+// solc-js ships without types; the fixture only uses the standard JSON entry.
+declare module "solc" {
+  const solc: {
+    compile: (input: string) => string;
+  };
+  export default solc;
+}
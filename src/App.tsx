@@ -11,18 +11,16 @@ import { InventoryTab } from "./components/Tabs/InventoryTab";
 import { DeepDiveTab } from "./components/Tabs/DeepDiveTab";
 import { LeaderboardTab } from "./components/Tabs/LeaderboardTab";
 import { Toast, ToastType } from "./components/UI/Toast";
-import { TOKENS_MAP } from "./constants";
-
-interface WalletActionSummary {
-  id: string;
-  title: string;
-  description?: string;
-  details?: Record<string, unknown>;
-  amount?: string;
-  tokenSymbol?: string;
-  status: "queued" | "awaiting_user" | "processing";
-  position: number;
-}
+import { formatLockCountdown, useAutoLock } from "./hooks/useAutoLock";
+import { useTokenRegistry } from "./hooks/useTokenRegistry";
+import { AccountSwitcher } from "./components/WalletInfo/AccountSwitcher";
+import {
+  tokenOptionKey,
+  type TransferRecipient,
+} from "./components/WalletInfo/TransferForm";
+import type { WalletActionSummary } from "./types";
+import { sendRpc } from "./lib/rpc";
+import { findTokenBySymbol } from "./lib/tokenRegistry";
 
 function App() {
   const [twitterUser, setTwitterUser] = useState<any>(null);
@@ -33,17 +31,22 @@ function App() {
     error,
     isUnlocked,
     tokens,
+    accounts,
     init,
     unlockWallet,
+    switchAccount,
+    addDerivedAccount,
+    importAccount,
+    renameAccount,
     transferTokens,
     getTokenBalance,
   } = useWallet();
+  const { remainingMs: autoLockRemainingMs } = useAutoLock();
+  const { tokens: registryTokens } = useTokenRegistry();
 
   const [_activeTab, setActiveTab] = useState<chrome.tabs.Tab | null>(null);
   const [activeNavTab, setActiveNavTab] = useState<TabType>("inventory");
   const [isExtension, setIsExtension] = useState(false);
-  const [showPrivateKey, setShowPrivateKey] = useState(false);
-  const [showMnemonic, setShowMnemonic] = useState(false);
   const [transferAmount, setTransferAmount] = useState("");
   const [recipientAddress, setRecipientAddress] = useState("");
   const [password, setPassword] = useState("");
@@ -88,15 +91,12 @@ function App() {
 
   const fetchAppState = () => {
     if (typeof chrome !== "undefined" && chrome.runtime?.id) {
-      chrome.runtime.sendMessage({ type: "GET_APP_STATE" }, (response) => {
-        if (chrome.runtime.lastError) {
-          console.error(
-            "Error getting app state:",
-            chrome.runtime.lastError.message
-          );
+      sendRpc("GET_APP_STATE").then((response) => {
+        if (!response.success) {
+          console.error("Error getting app state:", response.error);
           return;
         }
-        if (response?.twitterUser) {
+        if (response.twitterUser) {
           setTwitterUser(response.twitterUser);
         }
       });
@@ -114,8 +114,8 @@ function App() {
       });
 
       // Wallet setup check
-      chrome.runtime.sendMessage({ type: "CHECK_WALLET_SETUP" }, (response) => {
-        if (response?.isSetup) {
+      sendRpc("CHECK_WALLET_SETUP").then((response) => {
+        if (response.success && response.isSetup) {
           init();
         } else {
           chrome.tabs.create({ url: "welcome.html" });
@@ -154,17 +154,11 @@ function App() {
 
   useEffect(() => {
     if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
-    chrome.runtime.sendMessage(
-      { type: "GET_WALLET_ACTION_QUEUE" },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          return;
-        }
-        if (response?.queue) {
-          setWalletActionQueue(response.queue);
-        }
+    sendRpc("GET_WALLET_ACTION_QUEUE").then((response) => {
+      if (response.success) {
+        setWalletActionQueue(response.queue);
       }
-    );
+    });
 
     const queueListener = (message: any) => {
       if (message.type === "WALLET_ACTION_QUEUE_UPDATED") {
@@ -178,8 +172,8 @@ function App() {
   }, []);
 
   const handleTwitterLogin = () => {
-    chrome.runtime.sendMessage({ type: "TWITTER_LOGIN" }, (response) => {
-      if (response && !response.success) {
+    sendRpc("TWITTER_LOGIN").then((response) => {
+      if (!response.success) {
         console.error("Twitter login failed:", response.error);
         showToast("Twitter login failed. Please try again.", "error");
       }
@@ -187,8 +181,8 @@ function App() {
   };
 
   const handleLogout = () => {
-    chrome.runtime.sendMessage({ type: "TWITTER_LOGOUT" }, (response) => {
-      if (response && response.success) {
+    sendRpc("TWITTER_LOGOUT").then((response) => {
+      if (response.success) {
         setTwitterUser(null);
         showToast("You have been logged out.", "success");
       } else {
@@ -206,20 +200,11 @@ function App() {
     );
     if (!currentAction) return;
     setWalletActionDecisionLoading(true);
-    chrome.runtime.sendMessage(
-      { type: "RESPOND_WALLET_ACTION", id: currentAction.id, approved },
+    sendRpc("RESPOND_WALLET_ACTION", { id: currentAction.id, approved }).then(
       (response) => {
         setWalletActionDecisionLoading(false);
-        if (chrome.runtime.lastError) {
-          showToast(
-            chrome.runtime.lastError.message ||
-            "Failed to submit wallet decision.",
-            "error"
-          );
-          return;
-        }
-        if (!response?.success) {
-          showToast(response?.error || "Failed to submit decision.", "error");
+        if (!response.success) {
+          showToast(response.error || "Failed to submit decision.", "error");
         } else if (!approved) {
           showToast("Transaction request rejected.", "error");
         }
@@ -235,20 +220,35 @@ function App() {
     }
   };
 
-  const handleTransferSubmit = async (e: FormEvent): Promise<boolean> => {
+  const handleTransferSubmit = async (
+    e: FormEvent,
+    recipient: TransferRecipient
+  ): Promise<boolean> => {
     e.preventDefault();
     setTransferError(null);
 
-    if (!recipientAddress || !transferAmount) {
+    if (!recipient.address || !transferAmount) {
       setTransferError("Please provide both recipient address and amount");
       setTimeout(() => setTransferError(null), 5000);
       return false;
     }
 
+    const token = tokens.find((item) => tokenOptionKey(item) === selectedToken);
+    if (!token) {
+      setTransferError("Please choose a token");
+      setTimeout(() => setTransferError(null), 5000);
+      return false;
+    }
+
     try {
-      await transferTokens(recipientAddress, transferAmount, selectedToken);
+      await transferTokens(
+        recipient.address,
+        transferAmount,
+        token,
+        recipient.handle
+      );
       showToast(
-        `Successfully transferred ${transferAmount} ${selectedToken}`,
+        `Successfully transferred ${transferAmount} ${token.symbol}`,
         "success"
       );
       setTransferAmount("");
@@ -289,23 +289,28 @@ function App() {
     const tokenInfo = tokens.find(
       (token) => token.symbol?.toUpperCase() === tokenSymbol
     );
-    const tokenConfig = TOKENS_MAP[tokenSymbol];
+    const tokenConfig = findTokenBySymbol(registryTokens, tokenSymbol);
     const spendAmountRaw = Number(
       (activeWalletAction.amount || "").replace(/[^\d.]/g, "")
     );
     const spendAmount = Number.isNaN(spendAmountRaw) ? 0 : spendAmountRaw;
     const balanceNumeric = tokenInfo ? Number(tokenInfo.balance || 0) : null;
 
-    // Allow approval even if token info not available (e.g., reward tokens not in TOKENS_MAP)
+    // Allow approval even if token info not available (e.g., reward tokens not in the registry)
     const isWalletImpactReady = true; // Always ready, just show "Unknown" for missing tokens
     const insufficientBalance =
       tokenInfo && balanceNumeric !== null && spendAmount > balanceNumeric;
+    const fee = activeWalletAction.fee;
+    const feeEstimating = fee?.status === "estimating";
+    const insufficientGas = Boolean(fee?.insufficientFunds);
     const actionDisabled =
       walletActionDecisionLoading ||
       activeWalletAction.status === "processing" ||
       !isUnlocked ||
       !wallet ||
-      insufficientBalance;
+      insufficientBalance ||
+      feeEstimating ||
+      insufficientGas;
 
     return (
       <div className="pointer-events-auto absolute inset-0 z-40 flex justify-end bg-slate-900/80 backdrop-blur">
@@ -356,49 +361,133 @@ function App() {
                   </div>
                 )
               )}
-              <div className="rounded-2xl border border-slate-100 bg-slate-50 px-4 py-4">
-                <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-                  <span>Wallet Impact</span>
-                  <span>{tokenSymbol}</span>
+              {activeWalletAction.content && (
+                <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded-2xl bg-slate-50 px-4 py-3 font-mono text-xs text-slate-700">
+                  {activeWalletAction.content}
+                </pre>
+              )}
+              {activeWalletAction.typedData && (
+                <div className="rounded-2xl border border-slate-100 bg-slate-50 px-4 py-4">
+                  <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+                    <span>{activeWalletAction.typedData.primaryType}</span>
+                    <span>
+                      {[
+                        activeWalletAction.typedData.domain.name,
+                        activeWalletAction.typedData.domain.version &&
+                        `v${activeWalletAction.typedData.domain.version}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" ")}
+                    </span>
+                  </div>
+                  <div className="mt-3 max-h-48 space-y-2 overflow-auto">
+                    {activeWalletAction.typedData.fields.map((field) => (
+                      <div
+                        key={field.name}
+                        className="flex items-start justify-between gap-3"
+                      >
+                        <span className="shrink-0 text-slate-500">
+                          {field.name}
+                          <span className="ml-1 text-[10px] text-slate-400">
+                            {field.type}
+                          </span>
+                        </span>
+                        <span className="break-all text-right font-mono text-xs text-slate-900">
+                          {field.value || "-"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {activeWalletAction.typedData.domain.verifyingContract && (
+                    <p className="mt-3 break-all text-xs text-slate-400">
+                      Contract{" "}
+                      {activeWalletAction.typedData.domain.verifyingContract}
+                      {activeWalletAction.typedData.domain.chainId &&
+                        ` · chain ${activeWalletAction.typedData.domain.chainId}`}
+                    </p>
+                  )}
+                  <p className="mt-1 break-all font-mono text-[10px] text-slate-400">
+                    Digest {activeWalletAction.typedData.digest}
+                  </p>
                 </div>
-                {tokenInfo ? (
-                  <div className="mt-3 flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      {tokenConfig?.image ? (
-                        <img
-                          src={tokenConfig.image}
-                          alt={tokenInfo.symbol}
-                          className={`h-9 w-9 ${tokenConfig.isRounded ? "rounded-full" : "rounded-lg"
-                            } border border-white shadow`}
-                        />
-                      ) : (
-                        <div className="h-9 w-9 rounded-full bg-slate-200 text-center text-sm font-semibold leading-9 text-slate-600">
-                          {tokenInfo.symbol[0]}
+              )}
+              {activeWalletAction.amount && (
+                <div className="rounded-2xl border border-slate-100 bg-slate-50 px-4 py-4">
+                  <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+                    <span>Wallet Impact</span>
+                    <span>{tokenSymbol}</span>
+                  </div>
+                  {tokenInfo ? (
+                    <div className="mt-3 flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        {tokenConfig?.image ? (
+                          <img
+                            src={tokenConfig.image}
+                            alt={tokenInfo.symbol}
+                            className={`h-9 w-9 ${tokenConfig.isRounded ? "rounded-full" : "rounded-lg"
+                              } border border-white shadow`}
+                          />
+                        ) : (
+                          <div className="h-9 w-9 rounded-full bg-slate-200 text-center text-sm font-semibold leading-9 text-slate-600">
+                            {tokenInfo.symbol[0]}
+                          </div>
+                        )}
+                        <div>
+                          <p className="text-sm text-slate-500">You will spend</p>
+                          <p className="text-base font-semibold text-slate-900">
+                            - {activeWalletAction.amount} {tokenSymbol}
+                          </p>
                         </div>
-                      )}
-                      <div>
-                        <p className="text-sm text-slate-500">You will spend</p>
-                        <p className="text-base font-semibold text-slate-900">
-                          - {activeWalletAction.amount} {tokenSymbol}
-                        </p>
+                      </div>
+                      <div className="text-right text-xs text-slate-500">
+                        Balance: {balanceNumeric?.toFixed(4)}
                       </div>
                     </div>
-                    <div className="text-right text-xs text-slate-500">
-                      Balance: {balanceNumeric?.toFixed(4)}
+                  ) : (
+                    <div className="mt-4 text-sm text-slate-600">
+                      <p className="font-medium">You will spend:</p>
+                      <p className="mt-1 text-base font-semibold text-slate-900">
+                        {activeWalletAction.amount} {tokenSymbol}
+                      </p>
+                      <p className="mt-2 text-xs text-slate-500">
+                        Balance check unavailable for this token
+                      </p>
                     </div>
+                  )}
+                </div>
+              )}
+              {fee && (
+                <div className="rounded-2xl bg-slate-50 px-4 py-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-500">Network fee</span>
+                    <span className="font-semibold text-slate-900">
+                      {fee.status === "estimating"
+                        ? "Estimating..."
+                        : fee.status === "ready"
+                          ? `${fee.approximate ? "~" : ""}${Number(fee.estimated).toFixed(6)} AVAX`
+                          : "Unavailable"}
+                    </span>
                   </div>
-                ) : (
-                  <div className="mt-4 text-sm text-slate-600">
-                    <p className="font-medium">You will spend:</p>
-                    <p className="mt-1 text-base font-semibold text-slate-900">
-                      {activeWalletAction.amount} {tokenSymbol}
+                  {fee.status === "ready" && (
+                    <p className="mt-1 text-xs text-slate-400">
+                      Max {Number(fee.max).toFixed(6)} AVAX · {fee.gasLimit} gas
+                      at {fee.baseFeeGwei} + {fee.priorityFeeGwei} gwei
                     </p>
-                    <p className="mt-2 text-xs text-slate-500">
-                      Balance check unavailable for this token
+                  )}
+                  {fee.status === "unavailable" && fee.error && (
+                    <p className="mt-1 break-words text-xs text-slate-400">
+                      {fee.error}
                     </p>
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
+              )}
+              {insufficientGas && (
+                <p className="rounded-2xl bg-rose-50 px-4 py-3 text-sm font-semibold text-rose-600">
+                  Not enough AVAX for the network fee. You need about{" "}
+                  {Number(fee?.estimated).toFixed(6)} AVAX, but only{" "}
+                  {Number(fee?.balance).toFixed(6)} AVAX available.
+                </p>
+              )}
               {insufficientBalance && (
                 <p className="rounded-2xl bg-rose-50 px-4 py-3 text-sm font-semibold text-rose-600">
                   Insufficient balance. You need {spendAmount.toFixed(4)}{" "}
@@ -423,11 +512,13 @@ function App() {
                     ? "Processing..."
                     : walletActionDecisionLoading
                       ? "Confirming..."
-                      : insufficientBalance
+                      : insufficientBalance || insufficientGas
                         ? "Insufficient"
-                        : !isWalletImpactReady
-                          ? "Preparing..."
-                          : "Approve"}
+                        : feeEstimating
+                          ? "Estimating fee..."
+                          : !isWalletImpactReady
+                            ? "Preparing..."
+                            : "Approve"}
                 </button>
               </div>
             </div>
@@ -624,10 +715,24 @@ function App() {
               <span className="section-title">Arena Plus</span>
             </div>
             {wallet && (
-              <div className="flex items-center gap-2 rounded-full border border-white/60 bg-white/80 px-3 py-1.5 text-xs font-medium text-slate-500 shadow-sm backdrop-blur">
-                <span className="h-2 w-2 rounded-full bg-emerald-500" />
-                {wallet?.address.slice(0, 6)}...{wallet?.address.slice(-4)}
-              </div>
+              <AccountSwitcher
+                wallet={wallet}
+                accounts={accounts}
+                onSwitch={switchAccount}
+                onAddDerived={addDerivedAccount}
+                onImport={importAccount}
+                onRename={renameAccount}
+                suffix={
+                  autoLockRemainingMs != null && (
+                    <span
+                      className="text-slate-400"
+                      title="Time until the wallet auto-locks"
+                    >
+                      · {formatLockCountdown(autoLockRemainingMs)}
+                    </span>
+                  )
+                }
+              />
             )}
           </header>
         )}
@@ -644,10 +749,6 @@ function App() {
               <WalletTab
                 wallet={wallet}
                 tokens={tokens}
-                showPrivateKey={showPrivateKey}
-                setShowPrivateKey={setShowPrivateKey}
-                showMnemonic={showMnemonic}
-                setShowMnemonic={setShowMnemonic}
                 onTransfer={handleTransferSubmit}
                 recipientAddress={recipientAddress}
                 setRecipientAddress={setRecipientAddress}
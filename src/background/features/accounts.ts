@@ -0,0 +1,113 @@
+import { ethers } from "ethers";
+import type { WalletAccount, WalletSecrets } from "../../types";
+
+// Labels and the selected account are not secret, so they live outside the
+// encrypted keystore and can change without the password.
+const ACCOUNT_META_KEY = "walletAccounts";
+const HD_ACCOUNT_PATH = "m/44'/60'/0'/0";
+
+export interface UnlockedAccount extends WalletAccount {
+  privateKey: string;
+}
+
+interface AccountMeta {
+  activeAddress?: string;
+  labels: Record<string, string>;
+}
+
+export const sameAddress = (a?: string, b?: string) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+export async function loadAccountMeta(): Promise<AccountMeta> {
+  const data = await chrome.storage.local.get(ACCOUNT_META_KEY);
+  const stored = data[ACCOUNT_META_KEY] as Partial<AccountMeta> | undefined;
+  return {
+    activeAddress: stored?.activeAddress,
+    labels: stored?.labels ?? {},
+  };
+}
+
+async function saveAccountMeta(patch: Partial<AccountMeta>) {
+  const meta = await loadAccountMeta();
+  await chrome.storage.local.set({ [ACCOUNT_META_KEY]: { ...meta, ...patch } });
+}
+
+export const setActiveAccount = (address: string) =>
+  saveAccountMeta({ activeAddress: address });
+
+export async function setAccountLabel(address: string, label: string) {
+  const trimmed = label.trim().slice(0, 32);
+  if (!address || !trimmed) {
+    throw new Error("Account name cannot be empty.");
+  }
+  const { labels } = await loadAccountMeta();
+  await saveAccountMeta({
+    labels: { ...labels, [address.toLowerCase()]: trimmed },
+  });
+  return trimmed;
+}
+
+/**
+ * Expands the keystore into its accounts: the primary key first, further HD
+ * accounts from the mnemonic, then imported keys.
+ */
+export function deriveAccounts(
+  secrets: WalletSecrets,
+  labels: Record<string, string> = {}
+): UnlockedAccount[] {
+  const accounts: UnlockedAccount[] = [];
+  let importedSeen = 0;
+  const push = (privateKey: string, kind: WalletAccount["kind"], index?: number) => {
+    const wallet = new ethers.Wallet(privateKey);
+    if (accounts.some((account) => sameAddress(account.address, wallet.address))) {
+      return;
+    }
+    const isPrimary = accounts.length === 0;
+    if (kind === "imported" && !isPrimary) importedSeen += 1;
+    accounts.push({
+      address: wallet.address,
+      privateKey: wallet.privateKey,
+      kind,
+      index,
+      label:
+        labels[wallet.address.toLowerCase()] ??
+        (isPrimary || kind === "derived"
+          ? `Account ${(index ?? 0) + 1}`
+          : `Imported ${importedSeen}`),
+    });
+  };
+
+  const root = secrets.mnemonic
+    ? ethers.HDNodeWallet.fromPhrase(secrets.mnemonic, undefined, HD_ACCOUNT_PATH)
+    : null;
+  // Wallets created before the mnemonic was kept only have their private key.
+  const primaryIsHd =
+    !!root &&
+    sameAddress(
+      root.deriveChild(0).address,
+      new ethers.Wallet(secrets.privateKey).address
+    );
+
+  push(
+    secrets.privateKey,
+    primaryIsHd ? "derived" : "imported",
+    primaryIsHd ? 0 : undefined
+  );
+  if (root && primaryIsHd) {
+    const count = Math.max(1, secrets.derivedCount ?? 1);
+    for (let index = 1; index < count; index++) {
+      push(root.deriveChild(index).privateKey, "derived", index);
+    }
+  }
+  for (const key of secrets.importedKeys ?? []) {
+    push(key, "imported");
+  }
+  return accounts;
+}
+
+export const toWalletAccount = ({
+  address,
+  label,
+  kind,
+  index,
+}: UnlockedAccount): WalletAccount => ({ address, label, kind, index });
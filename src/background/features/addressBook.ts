@@ -0,0 +1,137 @@
+import { ethers } from "ethers";
+import type {
+  AddressBookEntry,
+  AddressBookEntryInput,
+} from "../../types/addressBook";
+import type { LogFn } from "../core/logger";
+import { sameAddress } from "./accounts";
+import { normalizeHandle, type HandleResolverApi } from "./handleResolver";
+
+const ADDRESS_BOOK_STORAGE_KEY = "addressBook";
+const MAX_LABEL_LENGTH = 64;
+const MAX_NOTE_LENGTH = 280;
+
+interface AddressBookOptions {
+  log: LogFn;
+  resolver: HandleResolverApi;
+}
+
+export interface AddressBookApi {
+  /** Favorites first, then most recently used. */
+  list: () => Promise<AddressBookEntry[]>;
+  /**
+   * Adds or updates the entry for an address, resolving the handle when
+   * no address is given. Fields left out keep their saved values.
+   */
+  save: (input: AddressBookEntryInput) => Promise<AddressBookEntry[]>;
+  remove: (address: string) => Promise<AddressBookEntry[]>;
+  /** Moves a saved recipient up the list after a transfer; unknown addresses are ignored. */
+  markUsed: (address: string) => Promise<void>;
+}
+
+const clip = (value: string | undefined, max: number) => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, max) : undefined;
+};
+
+const sortEntries = (entries: AddressBookEntry[]) =>
+  [...entries].sort(
+    (a, b) =>
+      Number(b.favorite) - Number(a.favorite) ||
+      (b.lastUsedAt ?? b.updatedAt) - (a.lastUsedAt ?? a.updatedAt)
+  );
+
+export function createAddressBook({
+  log,
+  resolver,
+}: AddressBookOptions): AddressBookApi {
+  // Read-modify-write cycles run one at a time so saves do not drop each other.
+  let tail: Promise<unknown> = Promise.resolve();
+
+  const load = async () => {
+    const data = await chrome.storage.local.get(ADDRESS_BOOK_STORAGE_KEY);
+    const raw = data[ADDRESS_BOOK_STORAGE_KEY];
+    return Array.isArray(raw) ? (raw as AddressBookEntry[]) : [];
+  };
+
+  const update = <T>(
+    mutate: (entries: AddressBookEntry[]) => Promise<T> | T
+  ): Promise<T> => {
+    const run = tail.then(async () => {
+      const entries = await load();
+      const result = await mutate(entries);
+      await chrome.storage.local.set({ [ADDRESS_BOOK_STORAGE_KEY]: entries });
+      return result;
+    });
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  const list = async () => sortEntries(await load());
+
+  const save = async (input: AddressBookEntryInput) => {
+    const handle = input.handle ? normalizeHandle(input.handle) : undefined;
+    let address = input.address?.trim();
+    if (!address && handle) {
+      const profile = await resolver.resolve(handle);
+      if (!profile) {
+        throw new Error(`No Arena user found for @${handle}.`);
+      }
+      address = profile.address;
+    }
+    if (!address || !ethers.isAddress(address)) {
+      throw new Error("Enter a valid address or Arena handle.");
+    }
+    const checksummed = ethers.getAddress(address);
+
+    await update((entries) => {
+      const now = Date.now();
+      const existing = entries.find((entry) =>
+        sameAddress(entry.address, checksummed)
+      );
+      const fields = {
+        handle: input.handle !== undefined ? handle || undefined : existing?.handle,
+        label:
+          input.label !== undefined
+            ? clip(input.label, MAX_LABEL_LENGTH)
+            : existing?.label,
+        note:
+          input.note !== undefined
+            ? clip(input.note, MAX_NOTE_LENGTH)
+            : existing?.note,
+        favorite: input.favorite ?? existing?.favorite ?? false,
+      };
+      if (existing) {
+        Object.assign(existing, fields, { updatedAt: now });
+      } else {
+        entries.push({
+          address: checksummed,
+          ...fields,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    });
+    log(`Address book: saved ${checksummed}`);
+    return list();
+  };
+
+  const remove = async (address: string) => {
+    await update((entries) => {
+      const index = entries.findIndex((entry) =>
+        sameAddress(entry.address, address)
+      );
+      if (index >= 0) entries.splice(index, 1);
+    });
+    return list();
+  };
+
+  const markUsed = async (address: string) => {
+    await update((entries) => {
+      const entry = entries.find((item) => sameAddress(item.address, address));
+      if (entry) entry.lastUsedAt = Date.now();
+    });
+  };
+
+  return { list, save, remove, markUsed };
+}
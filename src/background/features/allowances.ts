@@ -0,0 +1,323 @@
+import { ethers } from "ethers";
+import type { AllowanceScanStatus, TokenAllowance } from "../../types/allowances";
+import type { LogFn } from "../core/logger";
+import { ERC20_ABI, fetchErc20Metadata } from "./erc20";
+import { getPost2EarnSpenders } from "./post2earnClient";
+import type { TokenRegistryApi } from "./tokenRegistry";
+
+const SCAN_STORAGE_KEY = "allowanceScan";
+const APPROVAL_TOPIC = ethers.id("Approval(address,address,uint256)");
+// Public C-Chain nodes cap eth_getLogs at 2048 blocks per call.
+const LOG_CHUNK_BLOCKS = 2048;
+// About two days of blocks per listing. New blocks are searched first; the
+// rest goes to walking back toward the wallet's first tx, so older approvals
+// to other spenders turn up over a few listings. Post2Earn ones are always
+// checked.
+const MAX_SCAN_CHUNKS = 50;
+// Anything this large was approved as "unlimited" and barely spent since.
+const UNLIMITED_THRESHOLD = ethers.MaxUint256 / 2n;
+
+interface SeenPair {
+  token: string;
+  spender: string;
+}
+
+interface OwnerScan {
+  pairs: SeenPair[];
+  /** Every block from here to `scannedTo` has been searched. */
+  scannedFrom: number;
+  scannedTo: number;
+  /** The wallet's first tx; no approval of its own is older. */
+  firstTxBlock?: number;
+}
+
+interface AllowancesOptions {
+  log: LogFn;
+  getProvider: () => ethers.Provider;
+  tokenRegistry: TokenRegistryApi;
+}
+
+export interface AllowancesApi {
+  /**
+   * Non-zero allowances from `owner` to the Post2Earn contracts for every
+   * registry token, plus any token/spender pair seen in its Approval events.
+   */
+  list: (owner: string) => Promise<{
+    allowances: TokenAllowance[];
+    scan: AllowanceScanStatus;
+  }>;
+  /** Remembers a pair the wallet approved, so it is checked from now on. */
+  track: (owner: string, token: string, spender: string) => Promise<void>;
+  /** The encoded approve() call, with the token's decimals applied. */
+  buildApprove: (
+    token: string,
+    spender: string,
+    amount: string
+  ) => Promise<{ tx: ethers.TransactionRequest; symbol: string; value: bigint }>;
+  spenderLabel: (spender: string) => string | undefined;
+}
+
+const pairKey = (token: string, spender: string) =>
+  `${token.toLowerCase()}:${spender.toLowerCase()}`;
+
+const topicToAddress = (topic: string) =>
+  ethers.getAddress(ethers.dataSlice(topic, 12));
+
+export function createAllowances({
+  log,
+  getProvider,
+  tokenRegistry,
+}: AllowancesOptions): AllowancesApi {
+  let tail: Promise<unknown> = Promise.resolve();
+  // One scan per owner at a time; a second caller waits for the first.
+  const scanning = new Map<string, Promise<OwnerScan>>();
+  const spenders = getPost2EarnSpenders();
+
+  const load = async () => {
+    const data = await chrome.storage.local.get(SCAN_STORAGE_KEY);
+    return (data[SCAN_STORAGE_KEY] ?? {}) as Record<string, OwnerScan>;
+  };
+
+  const update = (owner: string, mutate: (scan: OwnerScan) => void) => {
+    const run = tail.then(async () => {
+      const scans = await load();
+      const key = owner.toLowerCase();
+      const scan = scans[key] ?? { pairs: [], scannedFrom: 0, scannedTo: 0 };
+      mutate(scan);
+      scans[key] = scan;
+      await chrome.storage.local.set({ [SCAN_STORAGE_KEY]: scans });
+      return scan;
+    });
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  const addPairs = (scan: OwnerScan, pairs: SeenPair[]) => {
+    const known = new Set(scan.pairs.map((p) => pairKey(p.token, p.spender)));
+    for (const pair of pairs) {
+      const key = pairKey(pair.token, pair.spender);
+      if (known.has(key)) continue;
+      known.add(key);
+      scan.pairs.push(pair);
+    }
+  };
+
+  /**
+   * Binary-searches the nonce for the block of the wallet's first tx. Needs
+   * historical state; null if the node cannot serve it.
+   */
+  const findFirstTxBlock = async (
+    provider: ethers.Provider,
+    owner: string,
+    latest: number
+  ) => {
+    try {
+      // Nothing sent yet: every later approval is found going forward.
+      if ((await provider.getTransactionCount(owner, latest)) === 0) return latest;
+      let low = 0;
+      let high = latest;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if ((await provider.getTransactionCount(owner, mid)) > 0) high = mid;
+        else low = mid + 1;
+      }
+      return low;
+    } catch (err) {
+      log(`Could not find the first transaction of ${owner}`, err);
+      return null;
+    }
+  };
+
+  /**
+   * Searches the blocks since the last scan for Approval events by `owner`,
+   * then walks further back from the oldest block searched so far.
+   */
+  const scanLogs = async (owner: string): Promise<OwnerScan> => {
+    const provider = getProvider();
+    const latest = await provider.getBlockNumber();
+    const previous = (await load())[owner.toLowerCase()];
+    const firstTxBlock =
+      previous?.firstTxBlock ??
+      (await findFirstTxBlock(provider, owner, latest)) ??
+      undefined;
+    const ownerTopic = ethers.zeroPadValue(owner, 32);
+
+    const found: SeenPair[] = [];
+    let chunks = 0;
+    const search = async (fromBlock: number, toBlock: number) => {
+      chunks++;
+      try {
+        const logs = await provider.getLogs({
+          fromBlock,
+          toBlock,
+          topics: [APPROVAL_TOPIC, ownerTopic],
+        });
+        // ERC-721 Approval has the same signature with an indexed tokenId.
+        for (const entry of logs) {
+          if (entry.topics.length !== 3) continue;
+          found.push({
+            token: ethers.getAddress(entry.address),
+            spender: topicToAddress(entry.topics[2]),
+          });
+        }
+        return true;
+      } catch (err) {
+        log(`Approval scan stopped at blocks ${fromBlock}-${toBlock}`, err);
+        return false;
+      }
+    };
+
+    // A first scan starts empty at the head and works back from there.
+    let scannedTo = previous?.scannedTo || latest;
+    let scannedFrom = previous?.scannedTo ? previous.scannedFrom : latest + 1;
+    while (scannedTo < latest && chunks < MAX_SCAN_CHUNKS) {
+      const end = Math.min(latest, scannedTo + LOG_CHUNK_BLOCKS);
+      if (!(await search(scannedTo + 1, end))) break;
+      scannedTo = end;
+    }
+    const floor = firstTxBlock ?? 0;
+    while (scannedFrom > floor && chunks < MAX_SCAN_CHUNKS) {
+      const start = Math.max(floor, scannedFrom - LOG_CHUNK_BLOCKS);
+      if (!(await search(start, scannedFrom - 1))) break;
+      scannedFrom = start;
+    }
+
+    return update(owner, (scan) => {
+      addPairs(scan, found);
+      scan.scannedFrom = scannedFrom;
+      scan.scannedTo = scannedTo;
+      scan.firstTxBlock = firstTxBlock;
+    });
+  };
+
+  const scanOnce = (owner: string) => {
+    const key = owner.toLowerCase();
+    let pending = scanning.get(key);
+    if (!pending) {
+      pending = scanLogs(owner).finally(() => scanning.delete(key));
+      scanning.set(key, pending);
+    }
+    return pending;
+  };
+
+  const spenderLabel = (spender: string) =>
+    spenders.find((item) => item.address.toLowerCase() === spender.toLowerCase())
+      ?.label;
+
+  const list = async (owner: string) => {
+    if (!ethers.isAddress(owner)) throw new Error("Invalid owner address.");
+    const [scan, tokens] = await Promise.all([
+      scanOnce(owner),
+      tokenRegistry.list(),
+    ]);
+
+    const pairs = new Map<string, SeenPair>();
+    for (const token of tokens) {
+      if (token.isNative) continue;
+      for (const spender of spenders) {
+        pairs.set(pairKey(token.address, spender.address), {
+          token: token.address,
+          spender: spender.address,
+        });
+      }
+    }
+    for (const pair of scan.pairs) {
+      pairs.set(pairKey(pair.token, pair.spender), pair);
+    }
+
+    const provider = getProvider();
+    const complete =
+      scan.firstTxBlock !== undefined && scan.scannedFrom <= scan.firstTxBlock;
+    const scannedFromTime = complete
+      ? undefined
+      : await provider
+        .getBlock(scan.scannedFrom)
+        .then((block) => block?.timestamp)
+        .catch(() => undefined);
+    const results = await Promise.all(
+      Array.from(pairs.values()).map(async ({ token, spender }) => {
+        try {
+          const contract = new ethers.Contract(token, ERC20_ABI, provider);
+          const amount: bigint = await contract.allowance(owner, spender);
+          if (amount === 0n) return null;
+
+          const known = tokens.find(
+            (item) => item.address.toLowerCase() === token.toLowerCase()
+          );
+          const meta = known ?? (await fetchErc20Metadata(provider, token));
+          const decimals = meta?.decimals ?? 18;
+          const allowance: TokenAllowance = {
+            tokenAddress: ethers.getAddress(token),
+            tokenSymbol: meta?.symbol || token.slice(0, 8),
+            tokenDecimals: decimals,
+            spender: ethers.getAddress(spender),
+            spenderLabel: spenderLabel(spender),
+            amount: amount.toString(),
+            formatted: ethers.formatUnits(amount, decimals),
+            unlimited: amount >= UNLIMITED_THRESHOLD,
+          };
+          return allowance;
+        } catch (err) {
+          log(`Failed to read allowance of ${token} for ${spender}`, err);
+          return null;
+        }
+      })
+    );
+
+    return {
+      allowances: results
+        .filter((item): item is TokenAllowance => item !== null)
+        .sort(
+          (a, b) =>
+            Number(!!b.spenderLabel) - Number(!!a.spenderLabel) ||
+            a.tokenSymbol.localeCompare(b.tokenSymbol)
+        ),
+      scan: {
+        scannedToBlock: scan.scannedTo,
+        scannedFromBlock: scan.scannedFrom,
+        scannedFromTime,
+        complete,
+      },
+    };
+  };
+
+  const track = async (owner: string, token: string, spender: string) => {
+    await update(owner, (scan) =>
+      addPairs(scan, [
+        { token: ethers.getAddress(token), spender: ethers.getAddress(spender) },
+      ])
+    );
+  };
+
+  const buildApprove = async (token: string, spender: string, amount: string) => {
+    if (!ethers.isAddress(token) || !ethers.isAddress(spender)) {
+      throw new Error("Invalid token or spender address.");
+    }
+    const provider = getProvider();
+    const meta =
+      (await tokenRegistry.get(token)) ??
+      (await fetchErc20Metadata(provider, token));
+    if (meta?.decimals == null) {
+      throw new Error("Could not read the token's decimals.");
+    }
+    let value: bigint;
+    try {
+      value = ethers.parseUnits(amount, meta.decimals);
+    } catch {
+      throw new Error("Invalid amount.");
+    }
+    if (value < 0n) throw new Error("Invalid amount.");
+
+    const contract = new ethers.Contract(token, ERC20_ABI, provider);
+    return {
+      tx: {
+        to: ethers.getAddress(token),
+        data: contract.interface.encodeFunctionData("approve", [spender, value]),
+      },
+      symbol: meta.symbol || token.slice(0, 8),
+      value,
+    };
+  };
+
+  return { list, track, buildApprove, spenderLabel };
+}
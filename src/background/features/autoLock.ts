@@ -0,0 +1,183 @@
+import {
+  DEFAULT_AUTO_LOCK_POLICY,
+  type AutoLockPolicy,
+  type AutoLockReason,
+  type AutoLockStatus,
+} from "../../types/autoLock";
+import type { LogFn } from "../core/logger";
+
+const AUTO_LOCK_ALARM = "wallet-auto-lock";
+const POLICY_STORAGE_KEY = "autoLockPolicy";
+const DEADLINE_STORAGE_KEY = "autoLockDeadline";
+// chrome.idle rejects detection intervals shorter than 15 seconds.
+const MIN_IDLE_DETECTION_SECONDS = 15;
+const DEFAULT_EXTEND_MINUTES = 15;
+
+interface AutoLockOptions {
+  log: LogFn;
+  isUnlocked: () => boolean;
+  onLock: (reason: AutoLockReason) => void;
+}
+
+export interface AutoLockApi {
+  /** Starts the inactivity window, e.g. right after an unlock. */
+  arm: () => Promise<void>;
+  /** Restarts the inactivity window after a signed action. */
+  touch: () => void;
+  extend: (minutes?: number) => Promise<AutoLockStatus>;
+  disarm: () => Promise<void>;
+  restore: () => Promise<void>;
+  getStatus: () => Promise<AutoLockStatus>;
+  setPolicy: (patch: Partial<AutoLockPolicy>) => Promise<AutoLockStatus>;
+}
+
+const normalizePolicy = (raw: unknown): AutoLockPolicy => {
+  const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<AutoLockPolicy>;
+  const merged = { ...DEFAULT_AUTO_LOCK_POLICY, ...stored };
+  const timeout = Number(merged.timeoutMinutes);
+  return {
+    enabled: Boolean(merged.enabled),
+    timeoutMinutes:
+      Number.isFinite(timeout) && timeout >= 1
+        ? Math.round(timeout)
+        : DEFAULT_AUTO_LOCK_POLICY.timeoutMinutes,
+    lockOnSystemLock: Boolean(merged.lockOnSystemLock),
+    lockOnIdle: Boolean(merged.lockOnIdle),
+  };
+};
+
+export function createAutoLock({
+  log,
+  isUnlocked,
+  onLock,
+}: AutoLockOptions): AutoLockApi {
+  let policy: AutoLockPolicy = DEFAULT_AUTO_LOCK_POLICY;
+  let deadline: number | null = null;
+
+  const policyReady = chrome.storage.local
+    .get(POLICY_STORAGE_KEY)
+    .then((data) => {
+      policy = normalizePolicy(data[POLICY_STORAGE_KEY]);
+      applyIdleDetection();
+    })
+    .catch((err) => log("Failed to load auto-lock policy", err));
+
+  function applyIdleDetection() {
+    if (!chrome.idle) return;
+    const seconds = Math.max(
+      MIN_IDLE_DETECTION_SECONDS,
+      policy.timeoutMinutes * 60
+    );
+    chrome.idle.setDetectionInterval(seconds);
+  }
+
+  const status = (): AutoLockStatus => ({ policy, deadline });
+
+  const notify = () => {
+    chrome.runtime.sendMessage(
+      { type: "AUTO_LOCK_UPDATED", status: status() },
+      () => void chrome.runtime.lastError
+    );
+  };
+
+  const schedule = async (nextDeadline: number | null) => {
+    deadline = nextDeadline;
+    await chrome.alarms.clear(AUTO_LOCK_ALARM);
+    if (nextDeadline == null) {
+      await chrome.storage.session.remove(DEADLINE_STORAGE_KEY);
+    } else {
+      chrome.alarms.create(AUTO_LOCK_ALARM, { when: nextDeadline });
+      await chrome.storage.session.set({ [DEADLINE_STORAGE_KEY]: nextDeadline });
+    }
+    notify();
+  };
+
+  const arm = async () => {
+    await policyReady;
+    if (!policy.enabled || !isUnlocked()) {
+      await schedule(null);
+      return;
+    }
+    await schedule(Date.now() + policy.timeoutMinutes * 60_000);
+  };
+
+  const touch = () => {
+    if (!isUnlocked()) return;
+    arm().catch((err) => log("Failed to reset auto-lock timer", err));
+  };
+
+  const extend = async (minutes = DEFAULT_EXTEND_MINUTES) => {
+    await policyReady;
+    if (policy.enabled && isUnlocked()) {
+      const base = Math.max(deadline ?? 0, Date.now());
+      await schedule(base + Math.max(1, minutes) * 60_000);
+    }
+    return status();
+  };
+
+  const disarm = () => schedule(null);
+
+  const lock = (reason: AutoLockReason) => {
+    if (!isUnlocked()) return;
+    log(`Auto-locking wallet (${reason})`);
+    onLock(reason);
+  };
+
+  // Called when the service worker starts with a wallet restored from the
+  // session: lock immediately if the deadline passed while we were asleep.
+  const restore = async () => {
+    await policyReady;
+    const data = await chrome.storage.session.get(DEADLINE_STORAGE_KEY);
+    const stored = Number(data[DEADLINE_STORAGE_KEY]);
+    if (!policy.enabled || !isUnlocked()) {
+      await schedule(null);
+      return;
+    }
+    if (!Number.isFinite(stored) || stored <= 0) {
+      await arm();
+      return;
+    }
+    if (stored <= Date.now()) {
+      lock("inactivity");
+      return;
+    }
+    await schedule(stored);
+  };
+
+  const setPolicy = async (patch: Partial<AutoLockPolicy>) => {
+    await policyReady;
+    policy = normalizePolicy({ ...policy, ...patch });
+    await chrome.storage.local.set({ [POLICY_STORAGE_KEY]: policy });
+    applyIdleDetection();
+    await arm();
+    return status();
+  };
+
+  const getStatus = async () => {
+    await policyReady;
+    return status();
+  };
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== AUTO_LOCK_ALARM) return;
+    lock("inactivity");
+  });
+
+  chrome.idle?.onStateChanged.addListener((state) => {
+    if (state === "locked" && policy.lockOnSystemLock) {
+      lock("system_locked");
+    } else if (state === "idle" && policy.lockOnIdle) {
+      lock("idle");
+    }
+  });
+
+  return {
+    arm,
+    touch,
+    extend,
+    disarm,
+    restore,
+    getStatus,
+    setPolicy,
+  };
+}
@@ -0,0 +1,153 @@
+import { ethers } from "ethers";
+import { DISPERSE_CONTRACT_ADDRESS } from "../../constants";
+import type { TxDetails } from "../../types/transactions";
+import { ERC20_ABI } from "./erc20";
+import { ERC20_APPROVE_GAS, type PlannedTx } from "./gasFees";
+import { waitForReceipt, type TxSchedulerApi } from "./txScheduler";
+
+const DISPERSE_ABI = [
+  "function disperseToken(address token, address[] recipients, uint256[] values)",
+] as const;
+
+// Fallback when disperseToken cannot be simulated before its approve() is mined.
+const DISPERSE_BASE_GAS = 60_000n;
+const DISPERSE_GAS_PER_RECIPIENT = 35_000n;
+
+let disperseDeployed: Promise<boolean> | null = null;
+
+/** False on chains or forks where the Disperse contract is missing. */
+export function isBatchTransferAvailable(provider: ethers.Provider) {
+  disperseDeployed ??= provider
+    .getCode(DISPERSE_CONTRACT_ADDRESS)
+    .then((code) => code !== "0x")
+    .catch(() => {
+      disperseDeployed = null;
+      return false;
+    });
+  return disperseDeployed;
+}
+
+const disperseInterface = new ethers.Interface(DISPERSE_ABI);
+
+/** The approve() step, when the allowance is short, then disperseToken. */
+export async function planBatchTransfer(
+  provider: ethers.Provider,
+  from: string,
+  tokenAddress: string,
+  recipients: string[],
+  amount: string
+): Promise<PlannedTx[]> {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+  const decimals = await token.decimals();
+  const value = ethers.parseUnits(amount, decimals);
+  const total = value * BigInt(recipients.length);
+  const allowance: bigint = await token.allowance(from, DISPERSE_CONTRACT_ADDRESS);
+
+  const plan: PlannedTx[] = [];
+  if (allowance < total) {
+    plan.push({
+      tx: {
+        to: tokenAddress,
+        data: token.interface.encodeFunctionData("approve", [
+          DISPERSE_CONTRACT_ADDRESS,
+          total,
+        ]),
+      },
+      fallbackGasLimit: ERC20_APPROVE_GAS,
+    });
+  }
+  plan.push({
+    tx: {
+      to: DISPERSE_CONTRACT_ADDRESS,
+      data: disperseInterface.encodeFunctionData("disperseToken", [
+        tokenAddress,
+        recipients,
+        recipients.map(() => value),
+      ]),
+    },
+    fallbackGasLimit:
+      DISPERSE_BASE_GAS + DISPERSE_GAS_PER_RECIPIENT * BigInt(recipients.length),
+  });
+  return plan;
+}
+
+export interface BatchTransferRequest {
+  signer: ethers.Wallet;
+  tokenAddress: string;
+  recipients: string[];
+  /** Whole tokens each recipient receives. */
+  amount: string;
+  label: string;
+  details?: TxDetails;
+}
+
+/**
+ * Pays every recipient the same amount in one disperseToken call, approving
+ * the exact total first when needed. The payout is all-or-nothing. Resolves
+ * with the mined receipt.
+ */
+export async function sendBatchTransfer(
+  txScheduler: TxSchedulerApi,
+  { signer, tokenAddress, recipients, amount, label, details }: BatchTransferRequest
+) {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, signer);
+  const disperse = new ethers.Contract(
+    DISPERSE_CONTRACT_ADDRESS,
+    DISPERSE_ABI,
+    signer
+  );
+  const decimals = await token.decimals();
+  const value = ethers.parseUnits(amount, decimals);
+  const total = value * BigInt(recipients.length);
+
+  const balance: bigint = await token.balanceOf(signer.address);
+  if (balance < total) {
+    throw new Error("INSUFFICIENT_BALANCE");
+  }
+
+  const batchDetails: TxDetails = {
+    ...details,
+    recipientCount: recipients.length,
+    amount: ethers.formatUnits(total, decimals),
+  };
+
+  const allowance: bigint = await token.allowance(
+    signer.address,
+    DISPERSE_CONTRACT_ADDRESS
+  );
+  if (allowance < total) {
+    const approveTx = await txScheduler.send({
+      label: "Approve batch transfer",
+      from: signer.address,
+      // An allowance, not a payment; the disperse tx carries the batch.
+      details: {
+        source: "ALLOWANCE",
+        recipient: DISPERSE_CONTRACT_ADDRESS,
+        tokenSymbol: details?.tokenSymbol,
+        amount: ethers.formatUnits(total, decimals),
+      },
+      build: ({ nonce }) =>
+        token.approve(DISPERSE_CONTRACT_ADDRESS, total, { nonce }),
+    });
+    // disperseToken pulls the total, so its gas estimate needs the allowance mined.
+    await waitForReceipt(approveTx);
+  }
+
+  const tx = await txScheduler.send({
+    label,
+    from: signer.address,
+    details: batchDetails,
+    build: ({ nonce }) =>
+      disperse.disperseToken(
+        tokenAddress,
+        recipients,
+        recipients.map(() => value),
+        { nonce }
+      ),
+  });
+  const receipt = await waitForReceipt(tx);
+  if (!receipt || receipt.status !== 1) {
+    throw new Error("Batch transfer reverted.");
+  }
+  return receipt;
+}
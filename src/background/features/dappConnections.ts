@@ -0,0 +1,134 @@
+import type { DappConnection, ProviderBridgeMessage } from "../../types/provider";
+import { PROVIDER_BRIDGE_CHANNEL } from "../../types/provider";
+import type { LogFn } from "../core/logger";
+import { sameAddress } from "./accounts";
+
+const CONNECTIONS_STORAGE_KEY = "dappConnections";
+
+interface DappConnectionsOptions {
+  log: LogFn;
+  /** The active account, or null while locked. */
+  getActiveAddress: () => string | null;
+}
+
+export interface DappConnectionsApi {
+  list: () => Promise<DappConnection[]>;
+  /**
+   * What `eth_accounts` returns for the origin: the active account if the
+   * origin was granted it and the wallet is unlocked, else nothing.
+   */
+  getExposedAccounts: (origin: string) => Promise<string[]>;
+  /** Adds the account to the origin's connection, creating it if needed. */
+  grant: (origin: string, address: string) => Promise<void>;
+  revoke: (origin: string) => Promise<void>;
+  /** Remembers a tab that talks to the provider so it receives events. */
+  trackTab: (origin: string, tabId: number) => void;
+  /** Sends `accountsChanged` to every tracked tab, e.g. after a switch or lock. */
+  notifyAccountsChanged: () => void;
+}
+
+export function createDappConnections({
+  log,
+  getActiveAddress,
+}: DappConnectionsOptions): DappConnectionsApi {
+  let tail: Promise<unknown> = Promise.resolve();
+  // Tabs by origin; a tab that navigated away just stops answering.
+  const tabs = new Map<string, Set<number>>();
+
+  const load = async () => {
+    const data = await chrome.storage.local.get(CONNECTIONS_STORAGE_KEY);
+    return (data[CONNECTIONS_STORAGE_KEY] ?? {}) as Record<string, DappConnection>;
+  };
+
+  const update = (mutate: (connections: Record<string, DappConnection>) => void) => {
+    const run = tail.then(async () => {
+      const connections = await load();
+      mutate(connections);
+      await chrome.storage.local.set({ [CONNECTIONS_STORAGE_KEY]: connections });
+    });
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  const list = async () =>
+    Object.values(await load()).sort((a, b) => b.connectedAt - a.connectedAt);
+
+  const getExposedAccounts = async (origin: string) => {
+    const active = getActiveAddress();
+    if (!active) return [];
+    const granted = (await load())[origin]?.accounts ?? [];
+    return granted.some((item) => sameAddress(item, active)) ? [active] : [];
+  };
+
+  const sendToOrigin = (origin: string, message: ProviderBridgeMessage) => {
+    for (const tabId of tabs.get(origin) ?? []) {
+      chrome.tabs.sendMessage(tabId, { type: "PROVIDER_EVENT", message }, () => {
+        if (chrome.runtime.lastError) {
+          tabs.get(origin)?.delete(tabId);
+        }
+      });
+    }
+  };
+
+  const notifyOrigin = async (origin: string) => {
+    sendToOrigin(origin, {
+      channel: PROVIDER_BRIDGE_CHANNEL,
+      event: "accountsChanged",
+      data: await getExposedAccounts(origin),
+    });
+  };
+
+  const notifyAccountsChanged = () => {
+    for (const origin of tabs.keys()) {
+      notifyOrigin(origin).catch((err) =>
+        log(`Failed to notify ${origin} of an account change`, err)
+      );
+    }
+  };
+
+  const grant = async (origin: string, address: string) => {
+    await update((connections) => {
+      const existing = connections[origin];
+      if (existing) {
+        if (!existing.accounts.some((item) => sameAddress(item, address))) {
+          existing.accounts.push(address);
+        }
+        return;
+      }
+      connections[origin] = {
+        origin,
+        accounts: [address],
+        connectedAt: Date.now(),
+      };
+    });
+    log(`Connected ${origin} to ${address}`);
+    await notifyOrigin(origin);
+  };
+
+  const revoke = async (origin: string) => {
+    await update((connections) => {
+      delete connections[origin];
+    });
+    log(`Disconnected ${origin}`);
+    await notifyOrigin(origin);
+  };
+
+  const trackTab = (origin: string, tabId: number) => {
+    const set = tabs.get(origin) ?? new Set<number>();
+    set.add(tabId);
+    tabs.set(origin, set);
+  };
+
+  chrome.tabs.onRemoved.addListener((tabId) => {
+    for (const set of tabs.values()) set.delete(tabId);
+  });
+
+  return {
+    list,
+    getExposedAccounts,
+    grant,
+    revoke,
+    trackTab,
+    notifyAccountsChanged,
+  };
+}
@@ -2,6 +2,8 @@ import { ethers } from "ethers";
 
 export const ERC20_ABI = [
   "function approve(address spender,uint256 amount) external returns (bool)",
+  "function transfer(address to,uint256 amount) returns (bool)",
+  "function transferFrom(address from,address to,uint256 amount) returns (bool)",
   "function balanceOf(address) view returns (uint256)",
   "function allowance(address,address) view returns (uint256)",
   "function decimals() view returns (uint8)",
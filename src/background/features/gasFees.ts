@@ -0,0 +1,124 @@
+import { ethers } from "ethers";
+import type { WalletActionFee, WalletInfo } from "../../types";
+import { ERC20_ABI } from "./erc20";
+
+// Used when a step cannot be simulated, e.g. a transfer the balance does not
+// cover yet, or a call that needs an approve() from an earlier step.
+export const ERC20_TRANSFER_GAS = 65_000n;
+export const ERC20_APPROVE_GAS = 60_000n;
+
+/** One transaction an action will send, for the fee preview. */
+export interface PlannedTx {
+  tx: ethers.TransactionRequest;
+  /** Skip simulation and use this limit, e.g. for a replacement tx. */
+  gasLimit?: bigint;
+  /** Used if simulation fails; without it the estimate fails. */
+  fallbackGasLimit?: bigint;
+  /** How many times the action sends this tx. Defaults to 1. */
+  repeat?: number;
+}
+
+const toGwei = (value: bigint) =>
+  Number(ethers.formatUnits(value, "gwei")).toFixed(2);
+
+/**
+ * Estimates gas for every step and prices it at the latest base fee plus the
+ * suggested priority fee, against the sender's AVAX balance.
+ */
+export async function estimateTxPlan(
+  provider: ethers.Provider,
+  from: string,
+  plan: PlannedTx[]
+): Promise<WalletActionFee> {
+  const [feeData, block, balance] = await Promise.all([
+    provider.getFeeData(),
+    provider.getBlock("latest"),
+    provider.getBalance(from),
+  ]);
+  const priorityFee = feeData.maxPriorityFeePerGas ?? 0n;
+  const baseFee =
+    block?.baseFeePerGas ?? (feeData.gasPrice ?? 0n) - priorityFee;
+  const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? baseFee + priorityFee;
+
+  let gasLimit = 0n;
+  let value = 0n;
+  let approximate = false;
+  for (const step of plan) {
+    const repeat = BigInt(step.repeat ?? 1);
+    let stepGas = step.gasLimit;
+    if (stepGas == null) {
+      try {
+        stepGas = await provider.estimateGas({ ...step.tx, from });
+      } catch (err) {
+        if (step.fallbackGasLimit == null) throw err;
+        stepGas = step.fallbackGasLimit;
+        approximate = true;
+      }
+    }
+    gasLimit += stepGas * repeat;
+    value += BigInt(step.tx.value ?? 0) * repeat;
+  }
+
+  const estimated = gasLimit * (baseFee + priorityFee);
+  return {
+    status: "ready",
+    estimated: ethers.formatEther(estimated),
+    max: ethers.formatEther(gasLimit * maxFeePerGas),
+    gasLimit: gasLimit.toString(),
+    baseFeeGwei: toGwei(baseFee),
+    priorityFeeGwei: toGwei(priorityFee),
+    balance: ethers.formatEther(balance),
+    insufficientFunds: balance < value + estimated,
+    approximate,
+  };
+}
+
+/** Plan for `repeat` ERC-20 transfers of `amount` whole tokens. */
+export async function planErc20Transfer(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  to: string,
+  amount: string,
+  repeat = 1
+): Promise<PlannedTx[]> {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+  const decimals = await token.decimals();
+  return [
+    {
+      tx: {
+        to: tokenAddress,
+        data: token.interface.encodeFunctionData("transfer", [
+          to,
+          ethers.parseUnits(amount, decimals),
+        ]),
+      },
+      fallbackGasLimit: ERC20_TRANSFER_GAS,
+      repeat,
+    },
+  ];
+}
+
+/**
+ * Builds the fee estimator for a queued action. The wallet is read when the
+ * action comes up, since it may still be locked when the action is queued.
+ */
+export const feeEstimator =
+  (
+    getWallet: () => WalletInfo | null,
+    plan: (wallet: WalletInfo & { provider: ethers.Provider }) => Promise<PlannedTx[]>
+  ) =>
+    async (): Promise<WalletActionFee> => {
+      const wallet = getWallet();
+      if (!wallet?.provider) {
+        return {
+          status: "unavailable",
+          error: "Unlock the wallet to estimate network fees.",
+        };
+      }
+      const provider = wallet.provider;
+      return estimateTxPlan(
+        provider,
+        wallet.address,
+        await plan({ ...wallet, provider })
+      );
+    };
@@ -0,0 +1,229 @@
+import type { ArenaProfile } from "../../types/addressBook";
+import type { LogFn } from "../core/logger";
+import { sameAddress } from "./accounts";
+
+const STARS_ARENA_API_URL =
+  import.meta.env.VITE_STARS_ARENA_API_URL || "https://api.starsarena.com";
+const CACHE_STORAGE_KEY = "handleCache";
+const ADDRESS_CACHE_STORAGE_KEY = "addressProfileCache";
+const FOUND_TTL_MS = 24 * 60 * 60 * 1000;
+// Unknown handles are retried sooner; the account may just have been created.
+const NOT_FOUND_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_HANDLES = 1000;
+const MAX_CACHED_ADDRESSES = 1000;
+
+interface CachedProfile {
+  profile: ArenaProfile | null;
+  fetchedAt: number;
+}
+
+interface HandleResolverOptions {
+  log: LogFn;
+}
+
+export interface HandleResolverApi {
+  /**
+   * Arena profile for a handle (with or without the @), or null if Arena
+   * has no such user. Cached per handle; concurrent lookups share a request.
+   */
+  resolve: (
+    handle: string,
+    options?: { refresh?: boolean }
+  ) => Promise<ArenaProfile | null>;
+  /**
+   * Arena profile that owns a wallet address, or null. A "no such user"
+   * answer is cached like a handle miss; a failed request is not cached and
+   * falls back to the last known profile.
+   */
+  resolveAddress: (address: string) => Promise<ArenaProfile | null>;
+}
+
+export const normalizeHandle = (handle: string) =>
+  handle.trim().replace(/^@/, "").toLowerCase();
+
+const toProfile = (user: any): ArenaProfile | null =>
+  user?.address
+    ? {
+      id: String(user.id ?? ""),
+      handle: user.handle || user.twitterHandle || "",
+      address: user.address,
+      userName: user.userName ?? user.twitterName ?? undefined,
+      profilePicture: user.profilePicture ?? user.twitterPicture ?? undefined,
+      twitterHandle: user.twitterHandle ?? undefined,
+      twitterFollowers: user.twitterFollowers ?? undefined,
+      followerCount: user.followerCount ?? undefined,
+      followingsCount: user.followingsCount ?? undefined,
+      threadCount: user.threadCount ?? undefined,
+      createdOn: user.createdOn ?? undefined,
+    }
+    : null;
+
+export function createHandleResolver({
+  log,
+}: HandleResolverOptions): HandleResolverApi {
+  let cache: Record<string, CachedProfile> | null = null;
+  /** By lowercase address. */
+  let addressCache: Record<string, CachedProfile> | null = null;
+  const inFlight = new Map<string, Promise<ArenaProfile | null>>();
+  const addressInFlight = new Map<string, Promise<ArenaProfile | null>>();
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const loadCache = async () => {
+    if (!cache) {
+      const data = await chrome.storage.local.get(CACHE_STORAGE_KEY);
+      cache ??= (data[CACHE_STORAGE_KEY] ?? {}) as Record<string, CachedProfile>;
+    }
+    return cache;
+  };
+
+  const loadAddressCache = async () => {
+    if (!addressCache) {
+      const data = await chrome.storage.local.get(ADDRESS_CACHE_STORAGE_KEY);
+      addressCache ??= (data[ADDRESS_CACHE_STORAGE_KEY] ?? {}) as Record<
+        string,
+        CachedProfile
+      >;
+    }
+    return addressCache;
+  };
+
+  const newest = (entries: Record<string, CachedProfile>, max: number) => {
+    const list = Object.entries(entries);
+    if (list.length <= max) return entries;
+    list.sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt);
+    return Object.fromEntries(list.slice(0, max));
+  };
+
+  // Tip showers resolve dozens of handles at once; write them out together.
+  const schedulePersist = () => {
+    if (persistTimer) return;
+    persistTimer = setTimeout(() => {
+      persistTimer = null;
+      const items: Record<string, Record<string, CachedProfile>> = {};
+      if (cache) {
+        cache = newest(cache, MAX_CACHED_HANDLES);
+        items[CACHE_STORAGE_KEY] = cache;
+      }
+      if (addressCache) {
+        addressCache = newest(addressCache, MAX_CACHED_ADDRESSES);
+        items[ADDRESS_CACHE_STORAGE_KEY] = addressCache;
+      }
+      chrome.storage.local
+        .set(items)
+        .catch((err) => log("Failed to persist handle cache", err));
+    }, 1000);
+  };
+
+  const isFresh = (entry: CachedProfile) =>
+    Date.now() - entry.fetchedAt <
+    (entry.profile ? FOUND_TTL_MS : NOT_FOUND_TTL_MS);
+
+  const fetchProfile = async (handle: string) => {
+    const { bearerToken } = await chrome.storage.local.get("bearerToken");
+    const response = await fetch(
+      `${STARS_ARENA_API_URL}/user/handle?handle=${encodeURIComponent(handle)}`,
+      bearerToken
+        ? { headers: { Authorization: `Bearer ${bearerToken}` } }
+        : undefined
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Handle lookup failed: HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    return toProfile(data?.user);
+  };
+
+  // `/user/address` is not used anywhere else in this repo and could not be
+  // checked against the live API or any published reference; it is assumed
+  // to answer like `/user/handle`. If the route is wrong every lookup fails
+  // or misses, and transfers simply show the sender's address.
+  const fetchProfileByAddress = async (address: string) => {
+    const { bearerToken } = await chrome.storage.local.get("bearerToken");
+    const response = await fetch(
+      `${STARS_ARENA_API_URL}/user/address?address=${encodeURIComponent(address)}`,
+      bearerToken
+        ? { headers: { Authorization: `Bearer ${bearerToken}` } }
+        : undefined
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Address lookup failed: HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    const profile = toProfile(data?.user);
+    // Guards against an answer for some other account.
+    return profile && sameAddress(profile.address, address) ? profile : null;
+  };
+
+  const resolve: HandleResolverApi["resolve"] = async (rawHandle, options) => {
+    const handle = normalizeHandle(rawHandle);
+    if (!handle) return null;
+
+    const cached = (await loadCache())[handle];
+    if (cached && !options?.refresh && isFresh(cached)) {
+      return cached.profile;
+    }
+
+    let pending = inFlight.get(handle);
+    if (!pending) {
+      pending = fetchProfile(handle)
+        .then((profile) => {
+          (cache ??= {})[handle] = { profile, fetchedAt: Date.now() };
+          schedulePersist();
+          return profile;
+        })
+        .catch((err) => {
+          // A stale answer beats none while the API is down or rate limiting.
+          if (cached) {
+            log(`Using stale profile for @${handle}`, err);
+            return cached.profile;
+          }
+          throw err;
+        })
+        .finally(() => inFlight.delete(handle));
+      inFlight.set(handle, pending);
+    }
+    return pending;
+  };
+
+  const resolveAddress: HandleResolverApi["resolveAddress"] = async (rawAddress) => {
+    const key = rawAddress.toLowerCase();
+    const cached = (await loadAddressCache())[key];
+    if (cached && isFresh(cached)) return cached.profile;
+
+    // A handle resolved earlier, e.g. for a tip, already names the address.
+    const known = Object.values(await loadCache()).find(
+      (entry) => isFresh(entry) && sameAddress(entry.profile?.address, key)
+    );
+    if (known) return known.profile;
+
+    let pending = addressInFlight.get(key);
+    if (!pending) {
+      pending = fetchProfileByAddress(rawAddress)
+        .then(
+          (profile) => {
+            (addressCache ??= {})[key] = { profile, fetchedAt: Date.now() };
+            if (profile?.handle) {
+              (cache ??= {})[normalizeHandle(profile.handle)] = {
+                profile,
+                fetchedAt: Date.now(),
+              };
+            }
+            schedulePersist();
+            return profile;
+          },
+          (err) => {
+            // Not cached, so the next transfer from this sender asks again.
+            log(`Profile lookup failed for ${rawAddress}`, err);
+            return cached?.profile ?? null;
+          }
+        )
+        .finally(() => addressInFlight.delete(key));
+      addressInFlight.set(key, pending);
+    }
+    return pending;
+  };
+
+  return { resolve, resolveAddress };
+}
@@ -0,0 +1,376 @@
+import { ethers } from "ethers";
+import type { IncomingTransfer } from "../../types/incomingTransfers";
+import type { LogFn } from "../core/logger";
+import type { AddressBookApi } from "./addressBook";
+import type { HandleResolverApi } from "./handleResolver";
+import type { TokenRegistryApi } from "./tokenRegistry";
+import type { TxJournalApi } from "./txJournal";
+
+// Watches the active account for incoming tokens and AVAX, also while the
+// wallet is locked. Token transfers come from Transfer logs. AVAX has no
+// logs, so it is noticed from the balance first: only when the balance rose
+// are the blocks since the last check scanned for the senders. Whatever part
+// of the rise the scanned transfers do not explain was sent by a contract
+// (Arena tips, for one) and is recorded without a sender. Tokens and AVAX
+// coming back from the wallet's own txs, like swaps, are skipped. Each
+// account keeps its own cursor, so switching back to one catches up on what
+// it missed.
+
+const FEED_STORAGE_KEY = "incomingTransfers";
+const STATE_STORAGE_KEY = "incomingTransfersState";
+const POLL_ALARM = "incoming-transfers";
+const POLL_PERIOD_MINUTES = 1;
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+// Public C-Chain nodes cap eth_getLogs at 2048 blocks per call.
+const LOG_CHUNK_BLOCKS = 2048;
+// After a long sleep, only the last few hours are caught up on.
+const MAX_CATCHUP_BLOCKS = 10_000;
+// Scanning blocks for AVAX senders costs a request per block, so a long
+// range is worked through over several polls.
+const MAX_NATIVE_SCAN_BLOCKS = 200;
+const MAX_FEED_ENTRIES = 200;
+const MAX_NOTIFICATIONS_PER_POLL = 3;
+const NOTIFICATION_PREFIX = "incoming-transfer:";
+const EXPLORER_URL = import.meta.env.VITE_SNOWTRACE_URL || "https://snowtrace.io";
+
+interface WatchCursor {
+  /** Last block scanned for token transfers. */
+  lastBlock: number;
+  /** Last block accounted for in AVAX; trails `lastBlock` while scanning. */
+  nativeBlock: number;
+  /**
+   * Wei when AVAX was last fully accounted for, as a decimal string. Stays
+   * put while a scan trails, so the whole rise is compared at the end.
+   */
+  nativeBalance: string;
+  /** Wei found by the trailing scan so far. */
+  nativeScanned?: string;
+}
+
+/** By lowercase address. */
+type WatchState = Record<string, WatchCursor>;
+
+interface IncomingTransfersOptions {
+  log: LogFn;
+  getProvider: () => ethers.Provider;
+  tokenRegistry: TokenRegistryApi;
+  resolver: HandleResolverApi;
+  addressBook: AddressBookApi;
+  txJournal: TxJournalApi;
+  /** The account to watch; the last selected one while locked. */
+  getWatchedAddress: () => Promise<string | null>;
+}
+
+export interface IncomingTransfersApi {
+  /** Newest first. */
+  list: (recipient: string, limit?: number) => Promise<IncomingTransfer[]>;
+  /** Looks for new transfers now; also runs every minute on an alarm. */
+  poll: () => Promise<void>;
+}
+
+const topicToAddress = (topic: string) =>
+  ethers.getAddress(ethers.dataSlice(topic, 12));
+
+const formatAmount = (amount: string) =>
+  Number(amount).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const describeSender = (transfer: IncomingTransfer) =>
+  transfer.fromHandle
+    ? `@${transfer.fromHandle}`
+    : transfer.fromLabel ??
+      (transfer.from
+        ? `${transfer.from.slice(0, 6)}...${transfer.from.slice(-4)}`
+        : null);
+
+export function createIncomingTransfers({
+  log,
+  getProvider,
+  tokenRegistry,
+  resolver,
+  addressBook,
+  txJournal,
+  getWatchedAddress,
+}: IncomingTransfersOptions): IncomingTransfersApi {
+  let running: Promise<void> | null = null;
+
+  const loadFeed = async () => {
+    const data = await chrome.storage.local.get(FEED_STORAGE_KEY);
+    const raw = data[FEED_STORAGE_KEY];
+    return Array.isArray(raw) ? (raw as IncomingTransfer[]) : [];
+  };
+
+  const list = async (recipient: string, limit?: number) => {
+    const entries = (await loadFeed()).filter(
+      (entry) => entry.recipient.toLowerCase() === recipient.toLowerCase()
+    );
+    return limit ? entries.slice(0, limit) : entries;
+  };
+
+  const loadState = async (): Promise<WatchState> => {
+    const data = await chrome.storage.local.get(STATE_STORAGE_KEY);
+    const raw = data[STATE_STORAGE_KEY];
+    if (!raw || typeof raw !== "object") return {};
+    // Earlier versions kept a single cursor for the watched account.
+    if (typeof raw.address === "string") {
+      return {
+        [raw.address.toLowerCase()]: {
+          lastBlock: raw.lastBlock,
+          nativeBlock: raw.lastBlock,
+          nativeBalance: raw.nativeBalance,
+        },
+      };
+    }
+    return raw as WatchState;
+  };
+
+  /** Handle from the address book, else the sender's Arena profile. */
+  const identify = async (from: string) => {
+    const entry = (await addressBook.list()).find(
+      (item) => item.address.toLowerCase() === from.toLowerCase()
+    );
+    if (entry?.handle) return { fromHandle: entry.handle };
+    const profile = await resolver.resolveAddress(from);
+    if (profile?.handle) return { fromHandle: profile.handle };
+    return entry?.label ? { fromLabel: entry.label } : {};
+  };
+
+  const scanTokens = async (
+    provider: ethers.Provider,
+    recipient: string,
+    fromBlock: number,
+    toBlock: number
+  ) => {
+    const tokens = (await tokenRegistry.list()).filter((token) => !token.isNative);
+    if (!tokens.length) return [];
+    const transfers: IncomingTransfer[] = [];
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+      const logs = await provider.getLogs({
+        address: tokens.map((token) => token.address),
+        topics: [TRANSFER_TOPIC, null, ethers.zeroPadValue(recipient, 32)],
+        fromBlock: start,
+        toBlock: Math.min(start + LOG_CHUNK_BLOCKS - 1, toBlock),
+      });
+      for (const entry of logs) {
+        const token = tokens.find(
+          (item) => item.address.toLowerCase() === entry.address.toLowerCase()
+        );
+        // ERC-721 transfers share the topic but index the token id.
+        if (!token || entry.topics.length !== 3) continue;
+        const from = topicToAddress(entry.topics[1]);
+        transfers.push({
+          id: `${entry.transactionHash}:${entry.index}`,
+          recipient,
+          from,
+          tokenAddress: token.address,
+          tokenSymbol: token.symbol,
+          amount: ethers.formatUnits(BigInt(entry.data), token.decimals),
+          txHash: entry.transactionHash,
+          blockNumber: entry.blockNumber,
+          receivedAt: Date.now(),
+        });
+      }
+    }
+    return transfers;
+  };
+
+  const scanNative = async (
+    provider: ethers.Provider,
+    recipient: string,
+    fromBlock: number,
+    toBlock: number
+  ) => {
+    const transfers: IncomingTransfer[] = [];
+    for (let number = fromBlock; number <= toBlock; number++) {
+      const block = await provider.getBlock(number, true);
+      if (!block) throw new Error(`Block ${number} is not available yet`);
+      for (const tx of block.prefetchedTransactions) {
+        if (
+          tx.value > 0n &&
+          tx.to?.toLowerCase() === recipient.toLowerCase() &&
+          tx.from.toLowerCase() !== recipient.toLowerCase()
+        ) {
+          transfers.push({
+            id: `${tx.hash}:native`,
+            recipient,
+            from: tx.from,
+            tokenSymbol: "AVAX",
+            amount: ethers.formatEther(tx.value),
+            txHash: tx.hash,
+            blockNumber: number,
+            receivedAt: Date.now(),
+          });
+        }
+      }
+    }
+    return transfers;
+  };
+
+  const notify = (transfers: IncomingTransfer[]) => {
+    for (const transfer of transfers.slice(0, MAX_NOTIFICATIONS_PER_POLL)) {
+      const sender = describeSender(transfer);
+      const amount = `${formatAmount(transfer.amount)} ${transfer.tokenSymbol}`;
+      chrome.notifications.create(
+        `${NOTIFICATION_PREFIX}${transfer.txHash ?? ""}:${transfer.id}`,
+        {
+          type: "basic",
+          iconUrl: "icon128.png",
+          title: transfer.fromHandle ? "Tip received" : "Transfer received",
+          message: transfer.fromHandle
+            ? `${sender} tipped you ${amount}`
+            : sender
+              ? `Received ${amount} from ${sender}`
+              : `Received ${amount}`,
+        },
+        () => void chrome.runtime.lastError
+      );
+    }
+    const rest = transfers.length - MAX_NOTIFICATIONS_PER_POLL;
+    if (rest > 0) {
+      chrome.notifications.create(
+        `${NOTIFICATION_PREFIX}:summary:${Date.now()}`,
+        {
+          type: "basic",
+          iconUrl: "icon128.png",
+          title: "Transfers received",
+          message: `And ${rest} more. Open the wallet to see them all.`,
+        },
+        () => void chrome.runtime.lastError
+      );
+    }
+  };
+
+  const runPoll = async () => {
+    const address = await getWatchedAddress();
+    if (!address) return;
+    const key = address.toLowerCase();
+    const provider = getProvider();
+    const latest = await provider.getBlockNumber();
+    // Read at `latest` so the balance matches the blocks scanned below.
+    const balance = await provider.getBalance(address, latest);
+
+    const state = await loadState();
+    const cursor = state[key];
+    const save = (native: Omit<WatchCursor, "lastBlock">) =>
+      chrome.storage.local.set({
+        [STATE_STORAGE_KEY]: {
+          ...state,
+          [key]: { lastBlock: latest, ...native },
+        } satisfies WatchState,
+      });
+    const settled = {
+      nativeBlock: latest,
+      nativeBalance: balance.toString(),
+    };
+    // A new account starts from now instead of notifying about its past.
+    if (!cursor) {
+      await save(settled);
+      return;
+    }
+    if (latest <= cursor.lastBlock) return;
+
+    const fromBlock = Math.max(cursor.lastBlock + 1, latest - MAX_CATCHUP_BLOCKS);
+    const nativeFrom = Math.max(
+      cursor.nativeBlock + 1,
+      latest - MAX_CATCHUP_BLOCKS
+    );
+    const ownTxs = (await txJournal.list({ address })).filter((tx) =>
+      tx.blockNumber
+        ? tx.blockNumber >= Math.min(fromBlock, nativeFrom)
+        : tx.status === "queued" || tx.status === "submitted"
+    );
+    const ownHashes = new Set(ownTxs.map((tx) => tx.hash?.toLowerCase()));
+    const found = (await scanTokens(provider, address, fromBlock, latest)).filter(
+      (transfer) => !ownHashes.has(transfer.txHash?.toLowerCase())
+    );
+    const received = balance - BigInt(cursor.nativeBalance);
+    // AVAX that arrived while the wallet spent more is not noticed; finding
+    // it would take scanning every block.
+    if (received <= 0n) {
+      await save(settled);
+    } else {
+      const nativeTo = Math.min(latest, nativeFrom + MAX_NATIVE_SCAN_BLOCKS - 1);
+      const native = await scanNative(provider, address, nativeFrom, nativeTo);
+      found.push(...native);
+      const scanned = native.reduce(
+        (sum, transfer) => sum + ethers.parseEther(transfer.amount),
+        BigInt(cursor.nativeScanned ?? "0")
+      );
+      if (nativeTo < latest) {
+        await save({
+          nativeBlock: nativeTo,
+          nativeBalance: cursor.nativeBalance,
+          nativeScanned: scanned.toString(),
+        });
+      } else {
+        // The rest of the rise came from a contract. Our own txs move the
+        // balance too, so it cannot be told apart from them.
+        const unexplained = received - scanned;
+        if (unexplained > 0n && !ownTxs.length) {
+          found.push({
+            id: `${key}:${latest}:native`,
+            recipient: address,
+            tokenSymbol: "AVAX",
+            amount: ethers.formatEther(unexplained),
+            blockNumber: latest,
+            receivedAt: Date.now(),
+          });
+        }
+        await save(settled);
+      }
+    }
+    if (!found.length) return;
+
+    const feed = await loadFeed();
+    const known = new Set(feed.map((entry) => entry.id));
+    const fresh: IncomingTransfer[] = [];
+    for (const transfer of found) {
+      if (known.has(transfer.id)) continue;
+      fresh.push({
+        ...transfer,
+        ...(transfer.from ? await identify(transfer.from) : {}),
+      });
+    }
+    if (!fresh.length) return;
+    fresh.sort((a, b) => b.blockNumber - a.blockNumber);
+    await chrome.storage.local.set({
+      [FEED_STORAGE_KEY]: [...fresh, ...feed].slice(0, MAX_FEED_ENTRIES),
+    });
+    log(`Received ${fresh.length} incoming transfer(s) for ${address}`);
+
+    notify(fresh);
+    chrome.runtime.sendMessage(
+      { type: "INCOMING_TRANSFERS_UPDATED", transfers: fresh },
+      () => void chrome.runtime.lastError
+    );
+    chrome.runtime.sendMessage(
+      { type: "BALANCE_UPDATED" },
+      () => void chrome.runtime.lastError
+    );
+  };
+
+  const poll = () => {
+    running ??= runPoll().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  chrome.alarms.create(POLL_ALARM, { periodInMinutes: POLL_PERIOD_MINUTES });
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== POLL_ALARM) return;
+    poll().catch((err) => log("Incoming transfer poll failed", err));
+  });
+
+  chrome.notifications.onClicked.addListener((notificationId) => {
+    if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return;
+    const [txHash] = notificationId.slice(NOTIFICATION_PREFIX.length).split(":");
+    if (txHash) {
+      chrome.tabs.create({ url: `${EXPLORER_URL}/tx/${txHash}` });
+    } else {
+      chrome.action.openPopup?.().catch(() => undefined);
+    }
+    chrome.notifications.clear(notificationId);
+  });
+
+  return { list, poll };
+}
@@ -1,8 +1,16 @@
 import { ethers } from "ethers";
+import type { SubscribedRewardToken } from "../../services/post2earn/types";
+import type { OnchainPromotion } from "../../types/rpc";
+import type { LogFn } from "../core/logger";
+import { fetchErc20Metadata } from "./erc20";
 import post2EarnAbi from "../../contract/Post2EarnABI.json";
+import legacyPost2EarnAbi from "../../contract/legacyPost2EarnABI.json";
 import post2EarnAddress from "../../contract/Post2EarnCA.json";
 
-type Post2EarnAddressJson = { POST2_EARN_CONTRACT_ADDRESS?: string };
+type Post2EarnAddressJson = {
+  POST2_EARN_CONTRACT_ADDRESS?: string;
+  LEGACY_POST2_EARN_CONTRACT_ADDRESS?: string;
+};
 
 export function getPost2EarnAddressOrThrow(): string {
   const addr = (post2EarnAddress as Post2EarnAddressJson)
@@ -22,3 +30,187 @@ export function getPost2EarnContract(runner: ethers.ContractRunner) {
   return new ethers.Contract(address, getPost2EarnAbi() as any, runner);
 }
 
+export function getLegacyPost2EarnContract(runner: ethers.ContractRunner) {
+  const address = (post2EarnAddress as Post2EarnAddressJson)
+    .LEGACY_POST2_EARN_CONTRACT_ADDRESS;
+  if (!address || !ethers.isAddress(address)) {
+    throw new Error("Invalid legacy Post2Earn contract address.");
+  }
+  return new ethers.Contract(
+    address,
+    (legacyPost2EarnAbi as any).abi,
+    runner
+  );
+}
+
+/** Post2Earn deployments that may hold token approvals, by display name. */
+export function getPost2EarnSpenders(): { address: string; label: string }[] {
+  const json = post2EarnAddress as Post2EarnAddressJson;
+  return [
+    { address: json.POST2_EARN_CONTRACT_ADDRESS, label: "Post2Earn" },
+    {
+      address: json.LEGACY_POST2_EARN_CONTRACT_ADDRESS,
+      label: "Post2Earn (legacy)",
+    },
+  ].filter(
+    (item): item is { address: string; label: string } =>
+      !!item.address && ethers.isAddress(item.address)
+  );
+}
+
+/** Every Post2Earn deployment the wallet will sign engagements for. */
+export function getKnownPost2EarnAddresses(): string[] {
+  const json = post2EarnAddress as Post2EarnAddressJson;
+  return [
+    json.POST2_EARN_CONTRACT_ADDRESS,
+    json.LEGACY_POST2_EARN_CONTRACT_ADDRESS,
+  ].filter((addr): addr is string => !!addr && ethers.isAddress(addr));
+}
+
+export interface EngagementMessage {
+  promotionId: bigint;
+  twitterUsername: string;
+  engagementPostId: string;
+  followerCount: bigint;
+  engager: string;
+  arenaUserId: string;
+}
+
+/** Matches the contract's `_hash`: EIP712("Post2Earn", "1") over `Engagement`. */
+export const ENGAGEMENT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Engagement: [
+    { name: "promotionId", type: "uint256" },
+    { name: "twitterUsername", type: "string" },
+    { name: "engagementPostId", type: "string" },
+    { name: "followerCount", type: "uint256" },
+    { name: "engager", type: "address" },
+    { name: "arenaUserId", type: "string" },
+  ],
+};
+
+export function getPost2EarnDomain(
+  chainId: bigint | number
+): ethers.TypedDataDomain {
+  return {
+    name: "Post2Earn",
+    version: "1",
+    chainId,
+    verifyingContract: getPost2EarnAddressOrThrow(),
+  };
+}
+
+/** Throws unless the contract's own `getHash` yields the same digest. */
+export async function verifyEngagementDigest(
+  runner: ethers.ContractRunner,
+  message: EngagementMessage,
+  digest: string
+) {
+  const contractDigest: string = await getPost2EarnContract(runner).getHash(
+    message.promotionId,
+    message.twitterUsername,
+    message.engagementPostId,
+    message.followerCount,
+    message.engager,
+    message.arenaUserId
+  );
+  if (contractDigest.toLowerCase() !== digest.toLowerCase()) {
+    throw new Error(
+      "Engagement digest does not match the Post2Earn contract. Not signing."
+    );
+  }
+}
+
+const toStringValue = (value: any) => value?.toString?.() ?? String(value);
+
+// likesMandatory lives in the inline JSON metadata of newer promotions.
+const readLikesMandatory = (contentURI: unknown) => {
+  if (
+    typeof contentURI !== "string" ||
+    !contentURI.startsWith("data:application/json;base64,")
+  ) {
+    return false;
+  }
+  try {
+    const metadata = JSON.parse(atob(contentURI.split(",")[1]));
+    return Boolean(metadata.likesMandatory);
+  } catch {
+    return false;
+  }
+};
+
+/** Normalizes the contract tuple into a plain object with serializable bigints. */
+export const toOnchainPromotion = (
+  id: number,
+  p: any,
+  engagementsCount: unknown
+): OnchainPromotion => ({
+  id,
+  promoter: p.promoter,
+  promotionType: Number(toStringValue(p.promotionType)),
+  slotsAvailable: Number(p.slotsAvailable ?? 0),
+  slotsTaken: Number(p.slotsTaken ?? 0),
+  vaultAmount: toStringValue(p.vaultAmount),
+  rewardPerSlot: toStringValue(p.rewardPerSlot),
+  minFollowers: Number(p.minFollowers ?? 0),
+  expiresOn: Number(p.expiresOn ?? 0),
+  postId: p.postId,
+  contentURI: p.contentURI,
+  contentHash: toStringValue(p.contentHash),
+  rewardToken: p.rewardToken || p[11],
+  active: Boolean(p.active),
+  engagementsCount: Number(engagementsCount),
+  likesMandatory: readLikesMandatory(p.contentURI),
+});
+
+/**
+ * Tokens with a live Post2Earn subscription, one entry per token with its
+ * latest expiry, plus whatever ERC-20 metadata the token contract returns.
+ */
+export async function fetchActiveSubscribedTokens(
+  provider: ethers.Provider,
+  log: LogFn
+): Promise<SubscribedRewardToken[]> {
+  const contract = getPost2EarnContract(provider);
+  // Returns [tokens[], expirations[], subscribers[]]; expirations are TTLs in seconds.
+  const [tokens, expirations, subscribers] =
+    await contract.getActiveSubscriptions();
+
+  const now = Math.floor(Date.now() / 1000);
+  const uniqueTokens = new Map<string, SubscribedRewardToken>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const tokenAddress = tokens[i];
+    if (!tokenAddress || tokenAddress === ethers.ZeroAddress) continue;
+
+    const ttlSeconds = Number(expirations[i] ?? 0n);
+    if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0) continue;
+
+    const expiresAt = now + ttlSeconds;
+    const normalized = tokenAddress.toLowerCase();
+    const existing = uniqueTokens.get(normalized);
+    if (!existing || expiresAt > existing.expiresAt) {
+      uniqueTokens.set(normalized, {
+        tokenAddress,
+        subscriber: subscribers[i],
+        expiresAt,
+      });
+    }
+  }
+
+  const finalTokens = Array.from(uniqueTokens.values());
+  await Promise.all(
+    finalTokens.map(async (token) => {
+      try {
+        const meta = await fetchErc20Metadata(provider, token.tokenAddress);
+        if (!meta) return;
+        if (meta.symbol) token.symbol = meta.symbol;
+        if (meta.name) token.name = meta.name;
+        if (meta.decimals != null) token.decimals = meta.decimals;
+      } catch (err) {
+        // Token metadata fetch failed, leave without metadata
+        log(`Failed to fetch metadata for ${token.tokenAddress}:`, err);
+      }
+    })
+  );
+  return finalTokens;
+}
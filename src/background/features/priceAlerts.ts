@@ -0,0 +1,248 @@
+import { ethers } from "ethers";
+import type {
+  PriceAlert,
+  PriceAlertCondition,
+  PriceAlertInput,
+} from "../../types/priceAlerts";
+import type { LogFn } from "../core/logger";
+import type { PriceServiceApi } from "./priceService";
+import type { TokenRegistryApi } from "./tokenRegistry";
+
+const PRICE_ALERTS_STORAGE_KEY = "priceAlerts";
+const PRICE_ALERT_ALARM = "price-alerts";
+const CHECK_PERIOD_MINUTES = 5;
+const NOTIFICATION_PREFIX = "price-alert:";
+const MAX_ALERTS = 50;
+// Price snapshots are recorded every 15 minutes; a shorter window would
+// compare against nothing.
+const MIN_WINDOW_MINUTES = 30;
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+const DEXSCREENER_TOKEN_URL = "https://dexscreener.com/avalanche";
+
+interface PriceAlertsOptions {
+  log: LogFn;
+  prices: PriceServiceApi;
+  tokenRegistry: TokenRegistryApi;
+}
+
+export interface PriceAlertsApi {
+  list: () => Promise<PriceAlert[]>;
+  /** Creates an alert, or updates the one with `input.id`. */
+  save: (input: PriceAlertInput) => Promise<PriceAlert>;
+  remove: (id: string) => Promise<PriceAlert[]>;
+  /** Checks every enabled alert against current prices; runs on the alarm. */
+  check: () => Promise<void>;
+}
+
+const validateCondition = (condition: PriceAlertCondition): PriceAlertCondition => {
+  if (condition.kind === "move") {
+    const { percent, windowMinutes } = condition;
+    if (!Number.isFinite(percent) || percent <= 0 || percent > 1000) {
+      throw new Error("Move must be between 0% and 1000%.");
+    }
+    if (
+      !Number.isInteger(windowMinutes) ||
+      windowMinutes < MIN_WINDOW_MINUTES ||
+      windowMinutes > MAX_WINDOW_MINUTES
+    ) {
+      throw new Error("Window must be between 30 minutes and 7 days.");
+    }
+    return { kind: "move", percent, windowMinutes };
+  }
+  if (!Number.isFinite(condition.priceUsd) || condition.priceUsd <= 0) {
+    throw new Error("Price must be greater than zero.");
+  }
+  return { kind: condition.kind, priceUsd: condition.priceUsd };
+};
+
+const formatPrice = (price: number) =>
+  price < 0.01 ? `$${price.toPrecision(3)}` : `$${price.toFixed(2)}`;
+
+const formatWindow = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : `${+(minutes / 60).toFixed(1)}h`;
+
+export function createPriceAlerts({
+  log,
+  prices,
+  tokenRegistry,
+}: PriceAlertsOptions): PriceAlertsApi {
+  // Read-modify-write cycles run one at a time so a check does not undo an edit.
+  let tail: Promise<unknown> = Promise.resolve();
+
+  const generateId = () =>
+    (crypto as Crypto)?.randomUUID?.() ??
+    `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+  const load = async () => {
+    const data = await chrome.storage.local.get(PRICE_ALERTS_STORAGE_KEY);
+    const raw = data[PRICE_ALERTS_STORAGE_KEY];
+    return Array.isArray(raw) ? (raw as PriceAlert[]) : [];
+  };
+
+  /** The alarm only runs while some alert is enabled. */
+  const syncAlarm = async (alerts: PriceAlert[]) => {
+    if (alerts.some((alert) => alert.enabled)) {
+      const existing = await chrome.alarms.get(PRICE_ALERT_ALARM);
+      if (!existing) {
+        chrome.alarms.create(PRICE_ALERT_ALARM, {
+          periodInMinutes: CHECK_PERIOD_MINUTES,
+        });
+      }
+    } else {
+      await chrome.alarms.clear(PRICE_ALERT_ALARM);
+    }
+  };
+
+  const update = <T>(
+    mutate: (alerts: PriceAlert[]) => Promise<T> | T
+  ): Promise<T> => {
+    const run = tail.then(async () => {
+      const alerts = await load();
+      const result = await mutate(alerts);
+      await chrome.storage.local.set({ [PRICE_ALERTS_STORAGE_KEY]: alerts });
+      await syncAlarm(alerts);
+      return result;
+    });
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  const save = async (input: PriceAlertInput) => {
+    if (!ethers.isAddress(input.tokenAddress)) {
+      throw new Error("Invalid token address.");
+    }
+    const token = await tokenRegistry.get(input.tokenAddress);
+    if (!token) {
+      throw new Error("Unknown token. Import it first.");
+    }
+    const condition = validateCondition(input.condition);
+    return update((alerts) => {
+      const existing = input.id
+        ? alerts.find((alert) => alert.id === input.id)
+        : undefined;
+      if (input.id && !existing) {
+        throw new Error("Alert not found.");
+      }
+      if (!existing && alerts.length >= MAX_ALERTS) {
+        throw new Error(`You can keep up to ${MAX_ALERTS} alerts.`);
+      }
+      const alert: PriceAlert = {
+        id: existing?.id ?? generateId(),
+        tokenAddress: token.address,
+        tokenSymbol: token.symbol,
+        condition,
+        enabled: input.enabled ?? existing?.enabled ?? true,
+        createdAt: existing?.createdAt ?? Date.now(),
+        // A changed rule starts over.
+        lastTriggeredAt: undefined,
+        active: undefined,
+      };
+      if (existing) {
+        alerts[alerts.indexOf(existing)] = alert;
+      } else {
+        alerts.push(alert);
+      }
+      return alert;
+    });
+  };
+
+  const remove = (id: string) =>
+    update((alerts) => {
+      const index = alerts.findIndex((alert) => alert.id === id);
+      if (index >= 0) alerts.splice(index, 1);
+      return [...alerts];
+    });
+
+  const notify = (alert: PriceAlert, message: string) => {
+    chrome.notifications.create(
+      `${NOTIFICATION_PREFIX}${alert.tokenAddress}:${alert.id}:${Date.now()}`,
+      {
+        type: "basic",
+        iconUrl: "icon128.png",
+        title: `${alert.tokenSymbol} price alert`,
+        message,
+      },
+      () => void chrome.runtime.lastError
+    );
+  };
+
+  const check = () =>
+    update(async (alerts) => {
+      const enabled = alerts.filter((alert) => alert.enabled);
+      if (!enabled.length) return;
+      const addresses = enabled.map((alert) => alert.tokenAddress);
+      const current = await prices.getPrices(addresses);
+      const longestWindow = Math.max(
+        0,
+        ...enabled.map((alert) =>
+          alert.condition.kind === "move" ? alert.condition.windowMinutes : 0
+        )
+      );
+      const history = longestWindow
+        ? await prices.getHistory(addresses, Date.now() - longestWindow * 60_000)
+        : {};
+      const now = Date.now();
+
+      for (const alert of enabled) {
+        const key = alert.tokenAddress.toLowerCase();
+        const price = current[key];
+        if (!price) continue;
+        const { condition } = alert;
+
+        if (condition.kind === "move") {
+          const windowMs = condition.windowMinutes * 60_000;
+          // One alert per window, or a steady trend would fire every check.
+          if (alert.lastTriggeredAt && now - alert.lastTriggeredAt < windowMs) {
+            continue;
+          }
+          const reference = (history[key] ?? []).find(
+            (snapshot) => snapshot.timestamp >= now - windowMs
+          );
+          if (!reference) continue;
+          const change =
+            ((price.priceUsd - reference.priceUsd) / reference.priceUsd) * 100;
+          if (Math.abs(change) >= condition.percent) {
+            alert.lastTriggeredAt = now;
+            notify(
+              alert,
+              `${alert.tokenSymbol} ${change > 0 ? "rose" : "fell"} ${Math.abs(change).toFixed(1)}% to ${formatPrice(price.priceUsd)} in the last ${formatWindow(condition.windowMinutes)}.`
+            );
+          }
+          continue;
+        }
+
+        const crossed =
+          condition.kind === "above"
+            ? price.priceUsd >= condition.priceUsd
+            : price.priceUsd <= condition.priceUsd;
+        if (crossed && !alert.active) {
+          alert.lastTriggeredAt = now;
+          notify(
+            alert,
+            `${alert.tokenSymbol} is ${condition.kind} ${formatPrice(condition.priceUsd)} at ${formatPrice(price.priceUsd)}.`
+          );
+        }
+        alert.active = crossed;
+      }
+    });
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== PRICE_ALERT_ALARM) return;
+    check().catch((err) => log("Price alert check failed", err));
+  });
+
+  chrome.notifications.onClicked.addListener((notificationId) => {
+    if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return;
+    const [tokenAddress] = notificationId
+      .slice(NOTIFICATION_PREFIX.length)
+      .split(":");
+    chrome.tabs.create({ url: `${DEXSCREENER_TOKEN_URL}/${tokenAddress}` });
+    chrome.notifications.clear(notificationId);
+  });
+
+  load()
+    .then(syncAlarm)
+    .catch((err) => log("Failed to schedule price alerts", err));
+
+  return { list: load, save, remove, check };
+}
@@ -0,0 +1,211 @@
+import { ethers } from "ethers";
+import { openDatabase, requestToPromise, transactionDone } from "../../lib/idb";
+import type { PriceSnapshot, TokenPrice } from "../../types/prices";
+import type { LogFn } from "../core/logger";
+
+// Prices come from DexScreener in batches and are cached for a minute. Every
+// fetch also records a snapshot, at most one per token per interval, so the
+// charts show prices the wallet actually saw instead of made-up points.
+
+const DEXSCREENER_API_URL =
+  import.meta.env.VITE_DEXSCREENER_API_URL || "https://api.dexscreener.com/latest";
+const CHAIN_ID = "avalanche";
+// DexScreener accepts up to 30 addresses per request.
+const MAX_ADDRESSES_PER_REQUEST = 30;
+const PRICE_TTL_MS = 60 * 1000;
+
+const DB_NAME = "arena-plus-price-history";
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = "snapshots";
+const ADDRESS_TIME_INDEX = "addressTimestamp";
+const TIMESTAMP_INDEX = "timestamp";
+const SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000;
+const SNAPSHOT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CachedPrice {
+  /** Null when no pair was found, so unknown tokens are not asked every call. */
+  price: TokenPrice | null;
+  fetchedAt: number;
+}
+
+interface DexPair {
+  chainId?: string;
+  priceUsd?: string;
+  baseToken?: { address?: string };
+  liquidity?: { usd?: number };
+  priceChange?: { h24?: number };
+}
+
+interface PriceServiceOptions {
+  log: LogFn;
+}
+
+export interface PriceServiceApi {
+  /**
+   * Prices keyed by lowercase address. Cached ones younger than a minute are
+   * reused unless `refresh` is set; tokens without a pair are left out.
+   */
+  getPrices: (
+    addresses: string[],
+    options?: { refresh?: boolean }
+  ) => Promise<Record<string, TokenPrice>>;
+  /** Recorded snapshots since `since`, oldest first, keyed by lowercase address. */
+  getHistory: (
+    addresses: string[],
+    since: number
+  ) => Promise<Record<string, PriceSnapshot[]>>;
+}
+
+const openHistory = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+      const store = db.createObjectStore(SNAPSHOT_STORE, { autoIncrement: true });
+      store.createIndex(ADDRESS_TIME_INDEX, ["address", "timestamp"]);
+      store.createIndex(TIMESTAMP_INDEX, "timestamp");
+    }
+  });
+
+const addressRange = (address: string, since: number) =>
+  IDBKeyRange.bound([address, since], [address, Number.MAX_SAFE_INTEGER]);
+
+/** The most liquid Avalanche pair quoting `address` as its base token. */
+const pickPair = (pairs: DexPair[], address: string) =>
+  pairs
+    .filter(
+      (pair) =>
+        pair.chainId === CHAIN_ID &&
+        pair.baseToken?.address?.toLowerCase() === address &&
+        Number(pair.priceUsd) > 0
+    )
+    .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0))[0];
+
+export function createPriceService({ log }: PriceServiceOptions): PriceServiceApi {
+  const cache = new Map<string, CachedPrice>();
+  // Keeps snapshot writes in order, so two fetches in a row do not both pass
+  // the interval check.
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const fetchBatch = async (addresses: string[]) => {
+    const response = await fetch(
+      `${DEXSCREENER_API_URL}/dex/tokens/${addresses.join(",")}`
+    );
+    if (!response.ok) {
+      throw new Error(`DexScreener request failed with status ${response.status}`);
+    }
+    const data = await response.json();
+    const pairs: DexPair[] = Array.isArray(data?.pairs) ? data.pairs : [];
+    const fetchedAt = Date.now();
+    return addresses.map((address): [string, CachedPrice] => {
+      const pair = pickPair(pairs, address);
+      const change = Number(pair?.priceChange?.h24);
+      return [
+        address,
+        {
+          price: pair
+            ? {
+                address: ethers.getAddress(address),
+                priceUsd: Number(pair.priceUsd),
+                change24h: Number.isFinite(change) ? change : null,
+                fetchedAt,
+              }
+            : null,
+          fetchedAt,
+        },
+      ];
+    });
+  };
+
+  const recordSnapshots = (prices: TokenPrice[]) => {
+    const write = writes.then(async () => {
+      const db = await openHistory();
+      try {
+        const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+        const done = transactionDone(tx);
+        const store = tx.objectStore(SNAPSHOT_STORE);
+        const index = store.index(ADDRESS_TIME_INDEX);
+        for (const price of prices) {
+          const address = price.address.toLowerCase();
+          const recent = await requestToPromise(
+            index.count(addressRange(address, price.fetchedAt - SNAPSHOT_INTERVAL_MS))
+          );
+          if (recent === 0) {
+            store.add({ address, priceUsd: price.priceUsd, timestamp: price.fetchedAt });
+          }
+        }
+        const expired = await requestToPromise(
+          store
+            .index(TIMESTAMP_INDEX)
+            .getAllKeys(IDBKeyRange.upperBound(Date.now() - SNAPSHOT_RETENTION_MS))
+        );
+        expired.forEach((key) => store.delete(key));
+        await done;
+      } finally {
+        db.close();
+      }
+    });
+    writes = write.catch((err) => log("Failed to record price snapshots", err));
+  };
+
+  const getPrices = async (
+    addresses: string[],
+    { refresh = false }: { refresh?: boolean } = {}
+  ) => {
+    const wanted = Array.from(
+      new Set(
+        addresses
+          .filter((address) => ethers.isAddress(address))
+          .map((address) => address.toLowerCase())
+      )
+    );
+    const now = Date.now();
+    const stale = wanted.filter((address) => {
+      const cached = cache.get(address);
+      return refresh || !cached || now - cached.fetchedAt > PRICE_TTL_MS;
+    });
+
+    const fetched: TokenPrice[] = [];
+    for (let i = 0; i < stale.length; i += MAX_ADDRESSES_PER_REQUEST) {
+      const batch = stale.slice(i, i + MAX_ADDRESSES_PER_REQUEST);
+      try {
+        for (const [address, entry] of await fetchBatch(batch)) {
+          cache.set(address, entry);
+          if (entry.price) fetched.push(entry.price);
+        }
+      } catch (err) {
+        // Older cached prices are still better than none.
+        log("Failed to fetch token prices", err);
+      }
+    }
+    if (fetched.length) recordSnapshots(fetched);
+
+    const prices: Record<string, TokenPrice> = {};
+    for (const address of wanted) {
+      const price = cache.get(address)?.price;
+      if (price) prices[address] = price;
+    }
+    return prices;
+  };
+
+  const getHistory = async (addresses: string[], since: number) => {
+    const db = await openHistory();
+    try {
+      const tx = db.transaction(SNAPSHOT_STORE, "readonly");
+      const done = transactionDone(tx);
+      const index = tx.objectStore(SNAPSHOT_STORE).index(ADDRESS_TIME_INDEX);
+      const unique = Array.from(new Set(addresses.map((item) => item.toLowerCase())));
+      const results = await Promise.all(
+        unique.map((address) =>
+          requestToPromise<PriceSnapshot[]>(index.getAll(addressRange(address, since)))
+        )
+      );
+      await done;
+      return Object.fromEntries(
+        unique.map((address, i) => [address, results[i]])
+      );
+    } finally {
+      db.close();
+    }
+  };
+
+  return { getPrices, getHistory };
+}
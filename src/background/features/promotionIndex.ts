@@ -0,0 +1,535 @@
+import { ethers } from "ethers";
+import { openDatabase, requestToPromise, transactionDone } from "../../lib/idb";
+import type { ContractSource } from "../../services/post2earn/types";
+import type { OnchainPromotion, PromotionLookupError } from "../../types/rpc";
+import type { LogFn } from "../core/logger";
+import {
+  getLegacyPost2EarnContract,
+  getPost2EarnContract,
+  toOnchainPromotion,
+} from "./post2earnClient";
+
+// Local copy of Post2Earn promotions, kept current from PromotionCreated,
+// Engaged and RewardClaimed logs of both deployments. A promotion's details
+// are read once and then only again after a log touches it, so listing
+// promotions costs the id list plus whatever changed since the last sync.
+// Engagements and claims are kept per engager from the same logs, as far
+// back as the index goes. Cancelling emits no log; callers still take the
+// active ids from the contract.
+
+const DB_NAME = "arena-plus-promotion-index";
+const DB_VERSION = 3;
+const PROMOTION_STORE = "promotions";
+const ENGAGEMENT_STORE = "engagements";
+const META_STORE = "meta";
+const CURSOR_KEY = "cursor";
+const SNAPSHOT_BLOCK_INDEX = "snapshotBlock";
+const EXPIRES_ON_INDEX = "expiresOn";
+const ENGAGER_INDEX = "engager";
+const ENGAGED_BLOCK_INDEX = "engagedBlock";
+const CLAIMED_BLOCK_INDEX = "claimedBlock";
+
+const SYNC_ALARM = "promotion-index";
+const SYNC_PERIOD_MINUTES = 5;
+// Public C-Chain nodes cap eth_getLogs at 2048 blocks per call.
+const LOG_CHUNK_BLOCKS = 2048;
+// Further behind than this, the index starts over instead of catching up.
+const MAX_CATCHUP_BLOCKS = 20_000;
+// How far back a reorg is rolled back once the cursor block is gone.
+const REORG_DEPTH_BLOCKS = 64;
+const MAX_REFRESH_PER_SYNC = 40;
+// Roughly 30 days of 2-second blocks.
+const ENGAGEMENT_RETENTION_BLOCKS = 1_300_000;
+const PROMOTION_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+interface PromotionRecord {
+  /** `${source}:${id}` */
+  key: string;
+  source: ContractSource;
+  id: number;
+  promotion: OnchainPromotion;
+  /** The cursor block when the details were read; they are at least as new. */
+  snapshotBlock: number;
+  /** Set when a log after `snapshotBlock` touched the promotion. */
+  stale: boolean;
+}
+
+interface EngagementRecord {
+  /** `${source}:${promotionId}:${engager}`, engager lowercase. */
+  key: string;
+  source: ContractSource;
+  promotionId: number;
+  engager: string;
+  twitterUsername?: string;
+  /** Wei, as a decimal string. */
+  reward: string;
+  /** Unset for claims of engagements made before the index started. */
+  engagedBlock?: number;
+  claimedBlock?: number;
+}
+
+/** An engagement seen in the Engaged or RewardClaimed logs. */
+export interface PromotionEngagement {
+  source: ContractSource;
+  promotionId: number;
+  twitterUsername?: string;
+  /** Wei, as a decimal string. */
+  reward: string;
+  claimed: boolean;
+}
+
+interface Cursor {
+  blockNumber: number;
+  blockHash: string;
+}
+
+interface IndexedContract {
+  source: ContractSource;
+  contract: ethers.Contract;
+  address: string;
+}
+
+interface PromotionIndexOptions {
+  log: LogFn;
+  getProvider: () => ethers.Provider;
+}
+
+export interface PromotionIndexApi {
+  /** Catches the index up with the chain; also runs every few minutes on an alarm. */
+  sync: () => Promise<void>;
+  /**
+   * Promotions in the order of `ids`. Indexed ones are served locally; new
+   * and changed ones are read from the contract and indexed.
+   */
+  getPromotions: (
+    source: ContractSource,
+    ids: number[]
+  ) => Promise<(OnchainPromotion | PromotionLookupError)[]>;
+  /**
+   * Engagements of `engager` in either deployment. Only those since the
+   * index started are known, so a missing one may still exist on chain.
+   */
+  getEngagements: (engager: string) => Promise<PromotionEngagement[]>;
+}
+
+const openIndex = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+    if (!db.objectStoreNames.contains(PROMOTION_STORE)) {
+      const store = db.createObjectStore(PROMOTION_STORE, { keyPath: "key" });
+      store.createIndex(SNAPSHOT_BLOCK_INDEX, "snapshotBlock");
+      store.createIndex(EXPIRES_ON_INDEX, "promotion.expiresOn");
+    }
+    // Version 1 records lack the engager index and the promotion fields.
+    if (oldVersion < 3 && db.objectStoreNames.contains(ENGAGEMENT_STORE)) {
+      db.deleteObjectStore(ENGAGEMENT_STORE);
+    }
+    if (!db.objectStoreNames.contains(ENGAGEMENT_STORE)) {
+      const store = db.createObjectStore(ENGAGEMENT_STORE, { keyPath: "key" });
+      store.createIndex(ENGAGER_INDEX, "engager");
+      store.createIndex(ENGAGED_BLOCK_INDEX, "engagedBlock");
+      store.createIndex(CLAIMED_BLOCK_INDEX, "claimedBlock");
+    }
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE);
+    }
+  });
+
+const promotionKey = (source: ContractSource, id: number) => `${source}:${id}`;
+
+const isIndexedPromotion = (
+  value: OnchainPromotion | PromotionLookupError
+): value is OnchainPromotion => !("error" in value);
+
+const readCursor = async (db: IDBDatabase) => {
+  const tx = db.transaction(META_STORE, "readonly");
+  const cursor = await requestToPromise(
+    tx.objectStore(META_STORE).get(CURSOR_KEY)
+  );
+  return (cursor as Cursor | undefined) ?? null;
+};
+
+const deleteKeys = async (index: IDBIndex, range: IDBKeyRange) => {
+  const keys = await requestToPromise(index.getAllKeys(range));
+  keys.forEach((key) => index.objectStore.delete(key));
+};
+
+export function createPromotionIndex({
+  log,
+  getProvider,
+}: PromotionIndexOptions): PromotionIndexApi {
+  // Syncs and reads run one at a time so a rollback cannot interleave with
+  // a snapshot write.
+  let tail: Promise<unknown> = Promise.resolve();
+  let running: Promise<void> | null = null;
+
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  const getContracts = (provider: ethers.Provider): IndexedContract[] => {
+    const contracts: IndexedContract[] = [];
+    const v2 = getPost2EarnContract(provider);
+    contracts.push({ source: "v2", contract: v2, address: String(v2.target) });
+    try {
+      const legacy = getLegacyPost2EarnContract(provider);
+      contracts.push({
+        source: "legacy",
+        contract: legacy,
+        address: String(legacy.target),
+      });
+    } catch {
+      // Without a legacy deployment only v2 is indexed.
+    }
+    return contracts;
+  };
+
+  /** Reads details and engagement counts; failures come back as lookup errors. */
+  const readPromotions = (contract: ethers.Contract, ids: number[]) =>
+    Promise.all(
+      ids.map(async (id): Promise<OnchainPromotion | PromotionLookupError> => {
+        try {
+          const [details, engagementsCount] = await Promise.all([
+            contract.getPromotionDetails(id),
+            contract.getEngagementsCount(id),
+          ]);
+          return toOnchainPromotion(id, details, engagementsCount);
+        } catch (err) {
+          log(`Promotion index: failed to read promotion id=${id}`, err);
+          return { id, error: String(err) };
+        }
+      })
+    );
+
+  const storeSnapshots = async (
+    db: IDBDatabase,
+    source: ContractSource,
+    promotions: OnchainPromotion[],
+    snapshotBlock: number
+  ) => {
+    if (!promotions.length) return;
+    const tx = db.transaction(PROMOTION_STORE, "readwrite");
+    const done = transactionDone(tx);
+    const store = tx.objectStore(PROMOTION_STORE);
+    for (const promotion of promotions) {
+      store.put({
+        key: promotionKey(source, promotion.id),
+        source,
+        id: promotion.id,
+        promotion,
+        snapshotBlock,
+        stale: false,
+      } satisfies PromotionRecord);
+    }
+    await done;
+  };
+
+  /** Drops everything a reorg past `forkBlock` may have changed. */
+  const rollback = async (db: IDBDatabase, forkBlock: number) => {
+    const tx = db.transaction([PROMOTION_STORE, ENGAGEMENT_STORE], "readwrite");
+    const done = transactionDone(tx);
+    const after = IDBKeyRange.lowerBound(forkBlock, true);
+    // Dropped promotions are read again the next time they are listed.
+    await deleteKeys(
+      tx.objectStore(PROMOTION_STORE).index(SNAPSHOT_BLOCK_INDEX),
+      after
+    );
+    const engagements = tx.objectStore(ENGAGEMENT_STORE);
+    await deleteKeys(engagements.index(ENGAGED_BLOCK_INDEX), after);
+    const claimed = await requestToPromise(
+      engagements.index(CLAIMED_BLOCK_INDEX).getAll(after)
+    );
+    for (const record of claimed as EngagementRecord[]) {
+      if (record.engagedBlock === undefined) {
+        engagements.delete(record.key);
+      } else {
+        engagements.put({ ...record, claimedBlock: undefined });
+      }
+    }
+    await done;
+  };
+
+  const reset = async (db: IDBDatabase) => {
+    const tx = db.transaction(
+      [PROMOTION_STORE, ENGAGEMENT_STORE, META_STORE],
+      "readwrite"
+    );
+    const done = transactionDone(tx);
+    tx.objectStore(PROMOTION_STORE).clear();
+    tx.objectStore(ENGAGEMENT_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await done;
+  };
+
+  /**
+   * Records the engagements in one chunk of logs and marks the promotions
+   * they touch as stale. Returns the keys of promotions created in the chunk.
+   */
+  const applyLogs = async (
+    db: IDBDatabase,
+    contracts: IndexedContract[],
+    logs: ethers.Log[]
+  ) => {
+    const created: string[] = [];
+    if (!logs.length) return created;
+    const tx = db.transaction([PROMOTION_STORE, ENGAGEMENT_STORE], "readwrite");
+    const done = transactionDone(tx);
+    const promotions = tx.objectStore(PROMOTION_STORE);
+    const engagements = tx.objectStore(ENGAGEMENT_STORE);
+
+    for (const entry of logs) {
+      const indexed = contracts.find(
+        (item) => item.address.toLowerCase() === entry.address.toLowerCase()
+      );
+      const parsed = indexed?.contract.interface.parseLog(entry);
+      if (!indexed || !parsed) continue;
+      const id = Number(parsed.args.promotionId);
+      const key = promotionKey(indexed.source, id);
+
+      if (parsed.name === "PromotionCreated") {
+        created.push(key);
+      } else {
+        const engager = String(parsed.args.engager).toLowerCase();
+        const engagementKey = `${key}:${engager}`;
+        const existing = (await requestToPromise(
+          engagements.get(engagementKey)
+        )) as EngagementRecord | undefined;
+        const record: EngagementRecord = existing ?? {
+          key: engagementKey,
+          source: indexed.source,
+          promotionId: id,
+          engager,
+          reward: parsed.args.reward.toString(),
+        };
+        if (parsed.name === "Engaged") {
+          record.engagedBlock = entry.blockNumber;
+          record.twitterUsername = parsed.args.twitterUsername;
+        } else {
+          record.claimedBlock = entry.blockNumber;
+        }
+        engagements.put(record);
+      }
+
+      const promotion = (await requestToPromise(promotions.get(key))) as
+        | PromotionRecord
+        | undefined;
+      if (
+        promotion &&
+        !promotion.stale &&
+        promotion.snapshotBlock < entry.blockNumber
+      ) {
+        promotions.put({ ...promotion, stale: true });
+      }
+    }
+    await done;
+    return created;
+  };
+
+  const prune = async (db: IDBDatabase, head: number) => {
+    const tx = db.transaction([PROMOTION_STORE, ENGAGEMENT_STORE], "readwrite");
+    const done = transactionDone(tx);
+    await deleteKeys(
+      tx.objectStore(PROMOTION_STORE).index(EXPIRES_ON_INDEX),
+      IDBKeyRange.upperBound(
+        Math.floor(Date.now() / 1000) - PROMOTION_RETENTION_SECONDS
+      )
+    );
+    const engagements = tx.objectStore(ENGAGEMENT_STORE);
+    const before = IDBKeyRange.upperBound(head - ENGAGEMENT_RETENTION_BLOCKS);
+    await deleteKeys(engagements.index(ENGAGED_BLOCK_INDEX), before);
+    await deleteKeys(engagements.index(CLAIMED_BLOCK_INDEX), before);
+    await done;
+  };
+
+  /** Reads new and stale promotions again, oldest change first. */
+  const refresh = async (
+    db: IDBDatabase,
+    contracts: IndexedContract[],
+    created: string[],
+    head: number
+  ) => {
+    const tx = db.transaction(PROMOTION_STORE, "readonly");
+    const records = (await requestToPromise(
+      tx.objectStore(PROMOTION_STORE).getAll()
+    )) as PromotionRecord[];
+    const known = new Set(records.map((record) => record.key));
+    const keys = [
+      ...records.filter((record) => record.stale).map((record) => record.key),
+      ...created.filter((key) => !known.has(key)),
+    ].slice(0, MAX_REFRESH_PER_SYNC);
+
+    for (const { source, contract } of contracts) {
+      const ids = keys
+        .filter((key) => key.startsWith(`${source}:`))
+        .map((key) => Number(key.slice(source.length + 1)));
+      if (!ids.length) continue;
+      const promotions = await readPromotions(contract, ids);
+      await storeSnapshots(db, source, promotions.filter(isIndexedPromotion), head);
+    }
+  };
+
+  const runSync = async () => {
+    const provider = getProvider();
+    const contracts = getContracts(provider);
+    const latest = await provider.getBlock("latest");
+    if (!latest?.hash) throw new Error("Latest block is unavailable.");
+    const head: Cursor = { blockNumber: latest.number, blockHash: latest.hash };
+
+    const db = await openIndex();
+    try {
+      let cursor = await readCursor(db);
+      if (cursor) {
+        const block =
+          cursor.blockNumber <= head.blockNumber
+            ? await provider.getBlock(cursor.blockNumber)
+            : null;
+        if (block?.hash !== cursor.blockHash) {
+          const forkBlock = Math.max(0, cursor.blockNumber - REORG_DEPTH_BLOCKS);
+          log(
+            `Promotion index: block ${cursor.blockNumber} was reorged, rolling back to ${forkBlock}`
+          );
+          await rollback(db, forkBlock);
+          cursor = { blockNumber: forkBlock, blockHash: "" };
+        }
+      }
+      // A new index, or one that slept too long, starts from the head; its
+      // promotions are read as they get listed.
+      if (!cursor || head.blockNumber - cursor.blockNumber > MAX_CATCHUP_BLOCKS) {
+        await reset(db);
+        const tx = db.transaction(META_STORE, "readwrite");
+        tx.objectStore(META_STORE).put(head, CURSOR_KEY);
+        await transactionDone(tx);
+        return;
+      }
+      if (head.blockNumber <= cursor.blockNumber) return;
+
+      const topics = [
+        ...new Set(
+          contracts.flatMap(({ contract }) =>
+            ["PromotionCreated", "Engaged", "RewardClaimed"].map(
+              (name) => contract.interface.getEvent(name)!.topicHash
+            )
+          )
+        ),
+      ];
+      const created: string[] = [];
+      for (
+        let start = cursor.blockNumber + 1;
+        start <= head.blockNumber;
+        start += LOG_CHUNK_BLOCKS
+      ) {
+        const end = Math.min(start + LOG_CHUNK_BLOCKS - 1, head.blockNumber);
+        const logs = await provider.getLogs({
+          address: contracts.map((item) => item.address),
+          topics: [topics],
+          fromBlock: start,
+          toBlock: end,
+        });
+        created.push(...(await applyLogs(db, contracts, logs)));
+        // Saved per chunk so a failed sync resumes where it stopped. Without
+        // a hash the cursor could not detect a reorg, so the chunk fails.
+        let next = head;
+        if (end !== head.blockNumber) {
+          const block = await provider.getBlock(end);
+          if (!block?.hash) throw new Error(`Block ${end} is unavailable.`);
+          next = { blockNumber: end, blockHash: block.hash };
+        }
+        const tx = db.transaction(META_STORE, "readwrite");
+        tx.objectStore(META_STORE).put(next, CURSOR_KEY);
+        await transactionDone(tx);
+      }
+
+      await refresh(db, contracts, created, head.blockNumber);
+      await prune(db, head.blockNumber);
+    } finally {
+      db.close();
+    }
+  };
+
+  const sync = () => {
+    running ??= exclusive(runSync).finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  const getPromotions = async (source: ContractSource, ids: number[]) => {
+    const synced = await sync().then(
+      () => true,
+      (err) => {
+        log("Promotion index sync failed; reading promotions from the contract", err);
+        return false;
+      }
+    );
+    const contract = getContracts(getProvider()).find(
+      (item) => item.source === source
+    )?.contract;
+    if (!contract) throw new Error(`No ${source} Post2Earn contract.`);
+    if (!synced) return readPromotions(contract, ids);
+
+    return exclusive(async () => {
+      const db = await openIndex();
+      try {
+        const cursor = await readCursor(db);
+        const tx = db.transaction(PROMOTION_STORE, "readonly");
+        const store = tx.objectStore(PROMOTION_STORE);
+        const records = (await Promise.all(
+          ids.map((id) => requestToPromise(store.get(promotionKey(source, id))))
+        )) as (PromotionRecord | undefined)[];
+
+        const missing = ids.filter((_, i) => !records[i] || records[i]!.stale);
+        const fetched = await readPromotions(contract, missing);
+        if (cursor) {
+          await storeSnapshots(
+            db,
+            source,
+            fetched.filter(isIndexedPromotion),
+            cursor.blockNumber
+          );
+        }
+        const byId = new Map(fetched.map((promotion) => [promotion.id, promotion]));
+        return ids.map((id, i) => byId.get(id) ?? records[i]!.promotion);
+      } finally {
+        db.close();
+      }
+    });
+  };
+
+  const getEngagements = async (engager: string) => {
+    await sync().catch((err) =>
+      log("Promotion index sync failed; serving engagements indexed so far", err)
+    );
+    return exclusive(async () => {
+      const db = await openIndex();
+      try {
+        const tx = db.transaction(ENGAGEMENT_STORE, "readonly");
+        const records = (await requestToPromise(
+          tx
+            .objectStore(ENGAGEMENT_STORE)
+            .index(ENGAGER_INDEX)
+            .getAll(engager.toLowerCase())
+        )) as EngagementRecord[];
+        return records.map(
+          (record): PromotionEngagement => ({
+            source: record.source,
+            promotionId: record.promotionId,
+            twitterUsername: record.twitterUsername,
+            reward: record.reward,
+            claimed: record.claimedBlock !== undefined,
+          })
+        );
+      } finally {
+        db.close();
+      }
+    });
+  };
+
+  chrome.alarms.create(SYNC_ALARM, { periodInMinutes: SYNC_PERIOD_MINUTES });
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== SYNC_ALARM) return;
+    sync().catch((err) => log("Promotion index sync failed", err));
+  });
+
+  return { sync, getPromotions, getEngagements };
+}
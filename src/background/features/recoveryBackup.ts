@@ -0,0 +1,89 @@
+import {
+  markRecoveryBackupVerified,
+  pickQuizIndices,
+  readRecoveryBackup,
+  type RecoveryBackupRecord,
+} from "../../lib/recoveryBackup";
+import type { LogFn } from "../core/logger";
+
+// Long enough to write the phrase down before taking the quiz.
+const QUIZ_TTL_MS = 15 * 60 * 1000;
+
+interface PendingQuiz {
+  address: string;
+  words: { index: number; word: string }[];
+  expiresAt: number;
+}
+
+interface RecoveryBackupOptions {
+  log: LogFn;
+}
+
+export interface RecoveryBackupApi {
+  /** Last successful quiz for the wallet whose first account is `address`. */
+  getStatus: (address: string) => Promise<RecoveryBackupRecord | null>;
+  /**
+   * Picks the words to ask for after a reveal and returns their positions.
+   * The expected words stay in the worker; the page only sends answers.
+   */
+  startQuiz: (address: string, mnemonic: string) => number[];
+  /** Answers in the order of the positions `startQuiz` returned. */
+  verifyQuiz: (
+    address: string,
+    answers: string[]
+  ) => Promise<RecoveryBackupRecord>;
+  /** Drops a pending quiz, e.g. when the wallet locks. */
+  reset: () => void;
+}
+
+const normalizeWord = (word: string) => word.trim().toLowerCase();
+
+export function createRecoveryBackup({
+  log,
+}: RecoveryBackupOptions): RecoveryBackupApi {
+  let pending: PendingQuiz | null = null;
+
+  const startQuiz = (address: string, mnemonic: string) => {
+    const words = mnemonic.trim().split(/\s+/);
+    const indices = pickQuizIndices(words.length);
+    pending = {
+      address,
+      words: indices.map((index) => ({ index, word: words[index] })),
+      expiresAt: Date.now() + QUIZ_TTL_MS,
+    };
+    return indices;
+  };
+
+  const verifyQuiz = async (address: string, answers: string[]) => {
+    const quiz = pending;
+    if (
+      !quiz ||
+      quiz.expiresAt < Date.now() ||
+      quiz.address.toLowerCase() !== address.toLowerCase()
+    ) {
+      pending = null;
+      throw new Error("The quiz expired. Reveal the recovery phrase again.");
+    }
+    const correct =
+      answers.length === quiz.words.length &&
+      quiz.words.every(
+        ({ word }, position) => normalizeWord(answers[position]) === word
+      );
+    if (!correct) {
+      throw new Error("Some words do not match. Check your backup and try again.");
+    }
+    pending = null;
+    const record = await markRecoveryBackupVerified(address);
+    log(`Recovery phrase backup verified for ${address}`);
+    return record;
+  };
+
+  return {
+    getStatus: readRecoveryBackup,
+    startQuiz,
+    verifyQuiz,
+    reset: () => {
+      pending = null;
+    },
+  };
+}
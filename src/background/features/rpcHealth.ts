@@ -0,0 +1,104 @@
+import {
+  checkRpcEndpoint,
+  MAX_BLOCK_LAG,
+  normalizeRpcEndpoints,
+  RPC_ENDPOINTS_STORAGE_KEY,
+  RPC_HEALTH_STORAGE_KEY,
+} from "../../lib/rpcProvider";
+import type { RpcEndpointHealth, RpcStatus } from "../../types/rpcHealth";
+import type { LogFn } from "../core/logger";
+
+const HEALTH_CHECK_ALARM = "rpc-health-check";
+const HEALTH_CHECK_PERIOD_MINUTES = 5;
+
+interface RpcHealthOptions {
+  log: LogFn;
+}
+
+export interface RpcHealthApi {
+  getStatus: () => Promise<RpcStatus>;
+  /** Checks every endpoint now and publishes the result. */
+  check: () => Promise<RpcStatus>;
+  setEndpoints: (urls: string[]) => Promise<RpcStatus>;
+}
+
+// The shared providers in every context re-order themselves from the stored
+// health, so publishing it is all a check has to do.
+export function createRpcHealth({ log }: RpcHealthOptions): RpcHealthApi {
+  let running: Promise<RpcStatus> | null = null;
+
+  const loadEndpoints = async () => {
+    const data = await chrome.storage.local.get(RPC_ENDPOINTS_STORAGE_KEY);
+    return normalizeRpcEndpoints(data[RPC_ENDPOINTS_STORAGE_KEY]);
+  };
+
+  const getStatus = async (): Promise<RpcStatus> => {
+    const data = await chrome.storage.local.get([
+      RPC_ENDPOINTS_STORAGE_KEY,
+      RPC_HEALTH_STORAGE_KEY,
+    ]);
+    const endpoints = normalizeRpcEndpoints(data[RPC_ENDPOINTS_STORAGE_KEY]);
+    const stored = (data[RPC_HEALTH_STORAGE_KEY] ?? []) as RpcEndpointHealth[];
+    return {
+      endpoints,
+      health: stored.filter((entry) => endpoints.includes(entry.url)),
+    };
+  };
+
+  const runCheck = async () => {
+    const endpoints = await loadEndpoints();
+    const results = await Promise.all(endpoints.map(checkRpcEndpoint));
+
+    // A node that answers quickly but serves stale blocks is worse than a slow one.
+    const bestBlock = Math.max(0, ...results.map((item) => item.blockNumber ?? 0));
+    const health = results.map((item) =>
+      item.healthy && bestBlock - (item.blockNumber ?? 0) > MAX_BLOCK_LAG
+        ? {
+          ...item,
+          healthy: false,
+          error: `Behind by ${bestBlock - item.blockNumber!} blocks`,
+        }
+        : item
+    );
+
+    const failing = health.filter((item) => !item.healthy);
+    if (failing.length) {
+      log(
+        `RPC health: ${failing.length}/${health.length} endpoint(s) failing`,
+        failing.map((item) => `${item.url}: ${item.error}`)
+      );
+    }
+
+    await chrome.storage.local.set({ [RPC_HEALTH_STORAGE_KEY]: health });
+    const status: RpcStatus = { endpoints, health };
+    chrome.runtime.sendMessage(
+      { type: "RPC_STATUS_UPDATED", status },
+      () => void chrome.runtime.lastError
+    );
+    return status;
+  };
+
+  const check = () => {
+    running ??= runCheck().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  const setEndpoints = async (urls: string[]) => {
+    await chrome.storage.local.set({
+      [RPC_ENDPOINTS_STORAGE_KEY]: normalizeRpcEndpoints(urls),
+    });
+    return check();
+  };
+
+  chrome.alarms.create(HEALTH_CHECK_ALARM, {
+    periodInMinutes: HEALTH_CHECK_PERIOD_MINUTES,
+  });
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== HEALTH_CHECK_ALARM) return;
+    check().catch((err) => log("RPC health check failed", err));
+  });
+
+  return { getStatus, check, setEndpoints };
+}
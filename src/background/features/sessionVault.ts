@@ -0,0 +1,150 @@
+import { ethers } from "ethers";
+import { openDatabase, requestToPromise, transactionDone } from "../../lib/idb";
+import type { UnlockedAccount } from "./accounts";
+
+// The unlocked private keys must survive service-worker restarts, but must not
+// sit in chrome.storage.session as readable strings. We encrypt them with an
+// ephemeral, non-extractable AES-GCM key that lives in IndexedDB, and keep
+// only the ciphertext in session storage. Neither store is useful on its own,
+// and the ciphertext disappears with the browser session.
+
+const DB_NAME = "arena-plus-session";
+const DB_VERSION = 1;
+const KEY_STORE = "keys";
+const WALLET_KEY_ID = "wallet";
+const SESSION_STORAGE_KEY = "walletSession";
+// Plaintext entries written by earlier versions.
+const LEGACY_SESSION_KEYS = ["isUnlocked", "wallet"];
+
+interface SessionWalletRecord {
+  address: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface SessionWallet {
+  activeAddress: string;
+  accounts: UnlockedAccount[];
+}
+
+const openVault = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(KEY_STORE)) {
+      db.createObjectStore(KEY_STORE);
+    }
+  });
+
+async function withKeyStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openVault();
+  try {
+    const tx = db.transaction(KEY_STORE, mode);
+    const result = requestToPromise(run(tx.objectStore(KEY_STORE)));
+    await transactionDone(tx);
+    return await result;
+  } finally {
+    db.close();
+  }
+}
+
+const additionalDataFor = (address: string) =>
+  new TextEncoder().encode(address.toLowerCase());
+
+// Each persist stores a new key and then the ciphertext. Run persist, restore
+// and clear one at a time so the stored key always matches the ciphertext.
+let tail: Promise<unknown> = Promise.resolve();
+
+const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = tail.then(task);
+  tail = run.catch(() => undefined);
+  return run;
+};
+
+export const persistSessionWallet = (session: SessionWallet): Promise<void> =>
+  exclusive(() => writeSessionWallet(session));
+
+export const restoreSessionWallet = (): Promise<SessionWallet | null> =>
+  exclusive(readSessionWallet);
+
+export const clearSessionWallet = (): Promise<void> => exclusive(clearVault);
+
+async function writeSessionWallet(session: SessionWallet): Promise<void> {
+  const address = session.activeAddress;
+  const key = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalDataFor(address) },
+    key,
+    new TextEncoder().encode(JSON.stringify(session.accounts))
+  );
+
+  await withKeyStore("readwrite", (store) => store.put(key, WALLET_KEY_ID));
+  const record: SessionWalletRecord = {
+    address,
+    iv: ethers.hexlify(iv),
+    ciphertext: ethers.hexlify(new Uint8Array(ciphertext)),
+  };
+  await chrome.storage.session.set({ [SESSION_STORAGE_KEY]: record });
+  await chrome.storage.session.remove(LEGACY_SESSION_KEYS);
+}
+
+async function readSessionWallet(): Promise<SessionWallet | null> {
+  const data = await chrome.storage.session.get([
+    SESSION_STORAGE_KEY,
+    ...LEGACY_SESSION_KEYS,
+  ]);
+  if (data.wallet) {
+    // Never trust (or keep) a plaintext key left behind by an older build.
+    await chrome.storage.session.remove(LEGACY_SESSION_KEYS);
+  }
+
+  const record = data[SESSION_STORAGE_KEY] as SessionWalletRecord | undefined;
+  if (!record?.ciphertext) {
+    await clearVault();
+    return null;
+  }
+
+  const key = await withKeyStore<CryptoKey | undefined>("readonly", (store) =>
+    store.get(WALLET_KEY_ID)
+  );
+  if (!key) {
+    await clearVault();
+    return null;
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: ethers.getBytes(record.iv),
+        additionalData: additionalDataFor(record.address),
+      },
+      key,
+      ethers.getBytes(record.ciphertext)
+    );
+    const accounts = JSON.parse(
+      new TextDecoder().decode(plaintext)
+    ) as UnlockedAccount[];
+    if (!Array.isArray(accounts) || !accounts.length) {
+      throw new Error("Session wallet has no accounts.");
+    }
+    return { activeAddress: record.address, accounts };
+  } catch {
+    await clearVault();
+    return null;
+  }
+}
+
+async function clearVault(): Promise<void> {
+  await chrome.storage.session.remove([
+    SESSION_STORAGE_KEY,
+    ...LEGACY_SESSION_KEYS,
+  ]);
+  await withKeyStore("readwrite", (store) => store.delete(WALLET_KEY_ID));
+}
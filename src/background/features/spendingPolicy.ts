@@ -0,0 +1,269 @@
+import { ethers } from "ethers";
+import {
+  DEFAULT_SPENDING_POLICY,
+  type AutoSpendRequest,
+  type SpendingPolicy,
+  type SpendingPolicyStatus,
+} from "../../types/spendingPolicy";
+import type { LogFn } from "../core/logger";
+import { sameAddress } from "./accounts";
+import type { TokenRegistryApi } from "./tokenRegistry";
+
+const POLICY_STORAGE_KEY = "spendingPolicy";
+const LEDGER_STORAGE_KEY = "spendingLedger";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Amounts are compared as fixed-point numbers with this many decimals.
+const AMOUNT_DECIMALS = 18;
+
+interface LedgerEntry {
+  id: string;
+  /** Lowercase token address. */
+  tokenAddress: string;
+  /** Set on entries written before limits were keyed by address. */
+  tokenSymbol?: string;
+  recipient: string;
+  amount: string;
+  at: number;
+}
+
+interface SpendingPolicyOptions {
+  log: LogFn;
+  tokenRegistry: TokenRegistryApi;
+}
+
+export type SpendingVerdict =
+  | {
+    allowed: true;
+    /** Drops the booking again when the send fails. */
+    release: () => void;
+  }
+  | { allowed: false; reason: string };
+
+export interface SpendingPolicyApi {
+  getStatus: () => Promise<SpendingPolicyStatus>;
+  setPolicy: (patch: Partial<SpendingPolicy>) => Promise<SpendingPolicyStatus>;
+  /**
+   * Checks an auto-signed transfer against the policy and, if it passes,
+   * books it against the caps before it is signed.
+   */
+  authorize: (request: AutoSpendRequest) => Promise<SpendingVerdict>;
+}
+
+const parseAmount = (value: string) => {
+  try {
+    return ethers.parseUnits(value, AMOUNT_DECIMALS);
+  } catch {
+    return null;
+  }
+};
+
+const formatAmount = (value: bigint) =>
+  ethers.formatUnits(value, AMOUNT_DECIMALS).replace(/\.0$/, "");
+
+/**
+ * Lowercase token address for a limit key, or null to drop it. Policies saved
+ * before limits were keyed by address use symbols.
+ */
+type TokenKeyFn = (key: string) => string | null;
+
+const normalizeAmounts = (raw: unknown, tokenKey: TokenKeyFn) => {
+  const amounts: Record<string, string> = {};
+  if (!raw || typeof raw !== "object") return amounts;
+  for (const [key, value] of Object.entries(raw)) {
+    const address = tokenKey(key);
+    const parsed = parseAmount(String(value ?? "").trim());
+    if (address && parsed != null && parsed > 0n) {
+      amounts[address] = formatAmount(parsed);
+    }
+  }
+  return amounts;
+};
+
+const normalizePolicy = (raw: unknown, tokenKey: TokenKeyFn): SpendingPolicy => {
+  const stored = (raw && typeof raw === "object" ? raw : {}) as Partial<SpendingPolicy>;
+  const merged = { ...DEFAULT_SPENDING_POLICY, ...stored };
+  const cooldown = Number(merged.recipientCooldownSeconds);
+  return {
+    allowedSources: Array.isArray(merged.allowedSources)
+      ? merged.allowedSources.filter((item) => typeof item === "string")
+      : DEFAULT_SPENDING_POLICY.allowedSources,
+    dailyCaps: normalizeAmounts(merged.dailyCaps, tokenKey),
+    maxSingleAmounts: normalizeAmounts(merged.maxSingleAmounts, tokenKey),
+    recipientCooldownSeconds:
+      Number.isFinite(cooldown) && cooldown > 0 ? Math.round(cooldown) : 0,
+  };
+};
+
+const describeCooldown = (seconds: number) =>
+  seconds >= 60 ? `${Math.ceil(seconds / 60)}m` : `${seconds}s`;
+
+export function createSpendingPolicy({
+  log,
+  tokenRegistry,
+}: SpendingPolicyOptions): SpendingPolicyApi {
+  let policy: SpendingPolicy = DEFAULT_SPENDING_POLICY;
+  // Checks and bookings run one at a time, so two quick tips cannot both
+  // squeeze under the same cap.
+  let tail: Promise<unknown> = Promise.resolve();
+
+  /** Resolves limit keys against the registry; symbols only for old data. */
+  const loadTokenKey = async (): Promise<TokenKeyFn> => {
+    const tokens = await tokenRegistry.list();
+    return (key) => {
+      const wanted = key.toUpperCase();
+      if (ethers.isAddress(key)) return key.toLowerCase();
+      const token = tokens.find((item) => item.symbol.toUpperCase() === wanted);
+      return token && !token.isNative ? token.address.toLowerCase() : null;
+    };
+  };
+
+  const policyReady = Promise.all([
+    chrome.storage.local.get(POLICY_STORAGE_KEY),
+    loadTokenKey(),
+  ])
+    .then(([data, tokenKey]) => {
+      policy = normalizePolicy(data[POLICY_STORAGE_KEY], tokenKey);
+    })
+    .catch((err) => log("Failed to load spending policy", err));
+
+  const describeToken = async (address: string) =>
+    (await tokenRegistry.get(address))?.symbol ??
+    `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+  const serialize = <T>(run: () => Promise<T>) => {
+    const result = tail.then(run);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+
+  const generateId = () =>
+    (crypto as Crypto)?.randomUUID?.() ??
+    `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+  const loadLedger = async () => {
+    const data = await chrome.storage.local.get(LEDGER_STORAGE_KEY);
+    const entries = (data[LEDGER_STORAGE_KEY] ?? []) as LedgerEntry[];
+    const since = Date.now() - DAY_MS;
+    if (!Array.isArray(entries)) return [];
+    const recent = entries.filter((entry) => entry.at > since);
+    if (recent.every((entry) => entry.tokenAddress)) return recent;
+    const tokenKey = await loadTokenKey();
+    return recent.flatMap((entry) => {
+      const tokenAddress =
+        entry.tokenAddress ?? (entry.tokenSymbol ? tokenKey(entry.tokenSymbol) : null);
+      return tokenAddress ? [{ ...entry, tokenAddress }] : [];
+    });
+  };
+
+  const saveLedger = (entries: LedgerEntry[]) =>
+    chrome.storage.local.set({ [LEDGER_STORAGE_KEY]: entries });
+
+  const spentByToken = (ledger: LedgerEntry[]) => {
+    const totals = new Map<string, bigint>();
+    for (const entry of ledger) {
+      const amount = parseAmount(entry.amount) ?? 0n;
+      totals.set(entry.tokenAddress, (totals.get(entry.tokenAddress) ?? 0n) + amount);
+    }
+    return totals;
+  };
+
+  const status = (ledger: LedgerEntry[]): SpendingPolicyStatus => ({
+    policy,
+    spentToday: Object.fromEntries(
+      [...spentByToken(ledger)].map(([address, total]) => [address, formatAmount(total)])
+    ),
+  });
+
+  const getStatus = async () => {
+    await policyReady;
+    return status(await loadLedger());
+  };
+
+  const setPolicy = async (patch: Partial<SpendingPolicy>) => {
+    await policyReady;
+    policy = normalizePolicy({ ...policy, ...patch }, await loadTokenKey());
+    await chrome.storage.local.set({ [POLICY_STORAGE_KEY]: policy });
+    return status(await loadLedger());
+  };
+
+  const violation = async (
+    request: AutoSpendRequest,
+    tokenAddress: string,
+    amount: bigint,
+    ledger: LedgerEntry[]
+  ): Promise<string | null> => {
+    if (!request.source || !policy.allowedSources.includes(request.source)) {
+      return `${request.source || "This request"} is not allowed to sign without approval.`;
+    }
+
+    const maxSingle = policy.maxSingleAmounts[tokenAddress];
+    if (maxSingle && amount > parseAmount(maxSingle)!) {
+      const symbol = await describeToken(tokenAddress);
+      return `Above the ${maxSingle} ${symbol} limit per auto-signed transfer.`;
+    }
+
+    if (policy.recipientCooldownSeconds > 0) {
+      const cooldownMs = policy.recipientCooldownSeconds * 1000;
+      const recent = ledger.find(
+        (entry) =>
+          sameAddress(entry.recipient, request.recipient) &&
+          entry.at > Date.now() - cooldownMs
+      );
+      if (recent) {
+        return `This recipient was paid less than ${describeCooldown(
+          policy.recipientCooldownSeconds
+        )} ago.`;
+      }
+    }
+
+    const cap = policy.dailyCaps[tokenAddress];
+    if (cap) {
+      const spent = spentByToken(ledger).get(tokenAddress) ?? 0n;
+      if (spent + amount > parseAmount(cap)!) {
+        const symbol = await describeToken(tokenAddress);
+        return `Daily auto-sign cap of ${cap} ${symbol} reached (${formatAmount(
+          spent
+        )} spent).`;
+      }
+    }
+    return null;
+  };
+
+  const release = (id: string) => {
+    serialize(async () => {
+      const ledger = await loadLedger();
+      await saveLedger(ledger.filter((entry) => entry.id !== id));
+    }).catch((err) => log("Failed to release spending reservation", err));
+  };
+
+  const authorize = (request: AutoSpendRequest) =>
+    serialize(async (): Promise<SpendingVerdict> => {
+      await policyReady;
+      const amount = parseAmount(request.amount);
+      if (amount == null || amount <= 0n) {
+        return { allowed: false, reason: "Invalid amount." };
+      }
+      if (!ethers.isAddress(request.tokenAddress)) {
+        return { allowed: false, reason: "Invalid token address." };
+      }
+      const tokenAddress = request.tokenAddress.toLowerCase();
+      const ledger = await loadLedger();
+      const reason = await violation(request, tokenAddress, amount, ledger);
+      if (reason) {
+        log(`Spending policy blocked ${request.amount} of ${tokenAddress}: ${reason}`);
+        return { allowed: false, reason };
+      }
+
+      const entry: LedgerEntry = {
+        id: generateId(),
+        tokenAddress,
+        recipient: request.recipient,
+        amount: formatAmount(amount),
+        at: Date.now(),
+      };
+      await saveLedger([...ledger, entry]);
+      return { allowed: true, release: () => release(entry.id) };
+    });
+
+  return { getStatus, setPolicy, authorize };
+}
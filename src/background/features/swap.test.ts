@@ -0,0 +1,295 @@
+import { ethers } from "ethers";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { deployUniswapV2, startDevnet, type Devnet, type UniswapV2Devnet } from "../../../devnet";
+import type { RegistryToken } from "../../types/tokens";
+import { estimateTxPlan, type PlannedTx } from "./gasFees";
+import { createSwapService, type SwapServiceApi } from "./swap";
+import type { TokenRegistryApi } from "./tokenRegistry";
+
+// The service keeps its settings in chrome.storage.local.
+const storage: Record<string, unknown> = {};
+Object.assign(globalThis, {
+  chrome: {
+    storage: {
+      local: {
+        get: async (key: string) => (key in storage ? { [key]: storage[key] } : {}),
+        set: async (items: Record<string, unknown>) => Object.assign(storage, items),
+      },
+    },
+  },
+});
+
+const registryOf = (tokens: RegistryToken[]): TokenRegistryApi => {
+  const find = (address: string) =>
+    tokens.find((token) => token.address.toLowerCase() === address.toLowerCase()) ?? null;
+  return {
+    list: async () => tokens,
+    get: async (address) => find(address),
+    findBySymbol: async (symbol) => tokens.find((token) => token.symbol === symbol) ?? null,
+    importToken: async (address) => {
+      throw new Error(`Unexpected import of ${address}`);
+    },
+    removeToken: async () => {},
+    refreshSubscribed: async () => {},
+  };
+};
+
+const registryToken = async (
+  contract: ethers.Contract,
+  symbol: string,
+  decimals: number,
+  isNative = false
+): Promise<RegistryToken> => ({
+  address: await contract.getAddress(),
+  symbol,
+  name: symbol,
+  decimals,
+  image: "",
+  isNative,
+  tippable: false,
+  sources: ["imported"],
+});
+
+const sendPlan = async (signer: ethers.Signer, steps: PlannedTx[]) => {
+  const receipts: ethers.TransactionReceipt[] = [];
+  for (const step of steps) {
+    const tx = await signer.sendTransaction({ ...step.tx, gasLimit: step.gasLimit });
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error("Transaction was not mined.");
+    receipts.push(receipt);
+  }
+  return receipts;
+};
+
+describe("swap service against a Uniswap V2 devnet", () => {
+  let devnet: Devnet;
+  let v2: UniswapV2Devnet;
+  let usdc: ethers.Contract;
+  let arena: ethers.Contract;
+  let lonely: ethers.Contract;
+  let trader: string;
+  let avaxAddress: string;
+  let usdcAddress: string;
+  let arenaAddress: string;
+  let lonelyAddress: string;
+  let swap: SwapServiceApi;
+
+  beforeAll(async () => {
+    devnet = await startDevnet();
+    v2 = await deployUniswapV2(devnet);
+    trader = await devnet.deployer.getAddress();
+    usdc = await v2.createToken("USDC", 6, "1000000");
+    arena = await v2.createToken("ARENA", 18, "100000000");
+    // Only trades against WAVAX, so USDC reaches it in two hops.
+    lonely = await v2.createToken("LONELY", 18, "1000000");
+
+    await v2.seedPair(usdc, ethers.parseUnits("100000", 6), arena, ethers.parseUnits("10000000", 18));
+    await v2.seedPair(v2.wavax, ethers.parseEther("100"), usdc, ethers.parseUnits("2500", 6));
+    await v2.seedPair(v2.wavax, ethers.parseEther("100"), arena, ethers.parseUnits("250000", 18));
+    await v2.seedPair(v2.wavax, ethers.parseEther("100"), lonely, ethers.parseUnits("500000", 18));
+
+    [avaxAddress, usdcAddress, arenaAddress, lonelyAddress] = await Promise.all([
+      v2.wavax.getAddress(),
+      usdc.getAddress(),
+      arena.getAddress(),
+      lonely.getAddress(),
+    ]);
+    swap = createSwapService({
+      log: () => {},
+      getProvider: () => devnet.provider,
+      tokenRegistry: registryOf([
+        await registryToken(v2.wavax, "AVAX", 18, true),
+        await registryToken(usdc, "USDC", 6),
+        await registryToken(arena, "ARENA", 18),
+        await registryToken(lonely, "LONELY", 18),
+      ]),
+    });
+    await swap.setSettings({ routerAddress: await v2.router.getAddress() });
+  });
+
+  afterAll(async () => {
+    await devnet?.stop();
+  });
+
+  it("rejects a router address that is not a Uniswap V2 router", async () => {
+    await expect(swap.setSettings({ routerAddress: usdcAddress })).rejects.toThrow(
+      "not a Uniswap V2 style router"
+    );
+  });
+
+  it("quotes the direct pool and asks for the missing allowance", async () => {
+    const prepared = await swap.prepare(
+      { tokenIn: usdcAddress, tokenOut: arenaAddress, amountIn: "100" },
+      trader
+    );
+    const amounts: bigint[] = await v2.router.getAmountsOut(
+      ethers.parseUnits("100", 6),
+      [usdcAddress, arenaAddress]
+    );
+
+    expect(prepared.quote.path).toEqual([usdcAddress, arenaAddress]);
+    expect(prepared.quote.pathSymbols).toEqual(["USDC", "ARENA"]);
+    expect(prepared.quote.amountOut).toBe(ethers.formatUnits(amounts[1], 18));
+    expect(prepared.amountOutMin).toBe((amounts[1] * 9950n) / 10_000n);
+    // 0.3% pool fee plus about 0.1% for moving a 100k pool by 100.
+    expect(prepared.quote.priceImpactBps).toBeGreaterThanOrEqual(30);
+    expect(prepared.quote.priceImpactBps).toBeLessThan(50);
+    expect(prepared.quote.needsApproval).toBe(true);
+
+    const steps = swap.plan(prepared, trader);
+    expect(steps).toHaveLength(2);
+    expect(steps[0].tx.to).toBe(usdcAddress);
+    expect(steps[1].tx.to).toBe(await v2.router.getAddress());
+
+    // The swap cannot be simulated before the approve() is mined.
+    const fee = await estimateTxPlan(devnet.provider, trader, steps);
+    expect(fee.approximate).toBe(true);
+  });
+
+  it("fails the swap when the approve() step is skipped", async () => {
+    const prepared = await swap.prepare(
+      { tokenIn: usdcAddress, tokenOut: arenaAddress, amountIn: "100" },
+      trader
+    );
+    const [, swapStep] = swap.plan(prepared, trader);
+    await expect(sendPlan(devnet.deployer, [swapStep])).rejects.toThrow(
+      "TRANSFER_FROM_FAILED"
+    );
+  });
+
+  it("approves, swaps and pays out at least the minimum", async () => {
+    const prepared = await swap.prepare(
+      { tokenIn: usdcAddress, tokenOut: arenaAddress, amountIn: "100" },
+      trader
+    );
+    const before: bigint = await arena.balanceOf(trader);
+    await sendPlan(devnet.deployer, swap.plan(prepared, trader));
+    const received = (await arena.balanceOf(trader)) - before;
+
+    expect(received).toBe(ethers.parseUnits(prepared.quote.amountOut, 18));
+    expect(received).toBeGreaterThanOrEqual(prepared.amountOutMin);
+  });
+
+  it("skips approve() when the allowance covers the amount", async () => {
+    await (
+      await usdc.approve(await v2.router.getAddress(), ethers.MaxUint256)
+    ).wait();
+    const prepared = await swap.prepare(
+      { tokenIn: usdcAddress, tokenOut: arenaAddress, amountIn: "100" },
+      trader
+    );
+    expect(prepared.quote.needsApproval).toBe(false);
+    expect(swap.plan(prepared, trader)).toHaveLength(1);
+  });
+
+  it("reverts when the price moves past the slippage setting", async () => {
+    await swap.setSettings({ slippageBps: 100 });
+    const prepared = await swap.prepare(
+      { tokenIn: usdcAddress, tokenOut: arenaAddress, amountIn: "100" },
+      trader
+    );
+    expect(prepared.amountOutMin).toBe(
+      (ethers.parseUnits(prepared.quote.amountOut, 18) * 9900n) / 10_000n
+    );
+    const steps = swap.plan(prepared, trader);
+
+    // Another account buys ARENA first and moves the price by about 5%.
+    const other = await devnet.other.getAddress();
+    const push = ethers.parseUnits("2500", 6);
+    await (await usdc.mint(other, push)).wait();
+    const usdcAsOther = usdc.connect(devnet.other) as ethers.Contract;
+    const routerAsOther = v2.router.connect(devnet.other) as ethers.Contract;
+    await (await usdcAsOther.approve(await v2.router.getAddress(), push)).wait();
+    await (
+      await routerAsOther.swapExactTokensForTokens(
+        push,
+        0n,
+        [usdcAddress, arenaAddress],
+        other,
+        BigInt(Math.floor(Date.now() / 1000) + 600)
+      )
+    ).wait();
+
+    await expect(sendPlan(devnet.deployer, steps)).rejects.toThrow(
+      "INSUFFICIENT_OUTPUT_AMOUNT"
+    );
+
+    // A fresh quote at the new price goes through.
+    const requoted = await swap.prepare(
+      { tokenIn: usdcAddress, tokenOut: arenaAddress, amountIn: "100" },
+      trader
+    );
+    expect(requoted.amountOutMin).toBeLessThan(prepared.amountOutMin);
+    await sendPlan(devnet.deployer, swap.plan(requoted, trader));
+    await swap.setSettings({ slippageBps: 50 });
+  });
+
+  it("routes through WAVAX when there is no direct pool", async () => {
+    const prepared = await swap.prepare(
+      { tokenIn: usdcAddress, tokenOut: lonelyAddress, amountIn: "10" },
+      trader
+    );
+    expect(prepared.quote.path).toEqual([usdcAddress, avaxAddress, lonelyAddress]);
+    expect(prepared.quote.pathSymbols).toEqual(["USDC", "AVAX", "LONELY"]);
+
+    const before: bigint = await lonely.balanceOf(trader);
+    await sendPlan(devnet.deployer, swap.plan(prepared, trader));
+    expect((await lonely.balanceOf(trader)) - before).toBeGreaterThanOrEqual(
+      prepared.amountOutMin
+    );
+  });
+
+  it("sells native AVAX without an approve()", async () => {
+    const prepared = await swap.prepare(
+      { tokenIn: avaxAddress, tokenOut: arenaAddress, amountIn: "1" },
+      trader
+    );
+    expect(prepared.nativeIn).toBe(true);
+    expect(prepared.quote.needsApproval).toBe(false);
+    const steps = swap.plan(prepared, trader);
+    expect(steps).toHaveLength(1);
+    expect(steps[0].tx.value).toBe(ethers.parseEther("1"));
+
+    const before: bigint = await arena.balanceOf(trader);
+    await sendPlan(devnet.deployer, steps);
+    expect((await arena.balanceOf(trader)) - before).toBeGreaterThanOrEqual(
+      prepared.amountOutMin
+    );
+  });
+
+  it("buys native AVAX", async () => {
+    await (
+      await arena.approve(await v2.router.getAddress(), ethers.MaxUint256)
+    ).wait();
+    const prepared = await swap.prepare(
+      { tokenIn: arenaAddress, tokenOut: avaxAddress, amountIn: "1000" },
+      trader
+    );
+    expect(prepared.nativeOut).toBe(true);
+
+    const before = await devnet.provider.getBalance(trader);
+    const [receipt] = await sendPlan(devnet.deployer, swap.plan(prepared, trader));
+    const gasCost = receipt.gasUsed * receipt.gasPrice;
+    const received = (await devnet.provider.getBalance(trader)) - before + gasCost;
+    expect(received).toBeGreaterThanOrEqual(prepared.amountOutMin);
+  });
+
+  it("rejects a pair without liquidity on the router", async () => {
+    const orphan = await v2.createToken("ORPHAN", 18, "1000");
+    const orphanSwap = createSwapService({
+      log: () => {},
+      getProvider: () => devnet.provider,
+      tokenRegistry: registryOf([
+        await registryToken(usdc, "USDC", 6),
+        await registryToken(orphan, "ORPHAN", 18),
+      ]),
+    });
+    await expect(
+      orphanSwap.prepare({
+        tokenIn: usdcAddress,
+        tokenOut: await orphan.getAddress(),
+        amountIn: "1",
+      })
+    ).rejects.toThrow("No USDC/ORPHAN liquidity on this router.");
+  });
+});
@@ -0,0 +1,317 @@
+import { ethers } from "ethers";
+import { DEFAULT_SWAP_ROUTER } from "../../constants";
+import type { SwapQuote, SwapQuoteRequest, SwapSettings } from "../../types/swap";
+import type { RegistryToken } from "../../types/tokens";
+import type { LogFn } from "../core/logger";
+import { ERC20_ABI } from "./erc20";
+import { ERC20_APPROVE_GAS, type PlannedTx } from "./gasFees";
+import type { TokenRegistryApi } from "./tokenRegistry";
+
+const SETTINGS_STORAGE_KEY = "swapSettings";
+// A swap cannot be simulated before its approve() is mined.
+export const SWAP_FALLBACK_GAS = 300_000n;
+// The swap handler refuses trades past this unless the user accepts them.
+export const MAX_PRICE_IMPACT_BPS = 1500;
+
+const DEFAULT_SETTINGS: SwapSettings = {
+  routerAddress: DEFAULT_SWAP_ROUTER,
+  slippageBps: 50,
+  deadlineMinutes: 20,
+};
+
+// Uniswap V2 forks on Avalanche name the native legs either AVAX or ETH.
+const ROUTER_ABI = [
+  "function factory() view returns (address)",
+  "function WAVAX() view returns (address)",
+  "function WETH() view returns (address)",
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+  "function swapExactAVAXForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)",
+  "function swapExactTokensForAVAX(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+  "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)",
+  "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+] as const;
+
+const FACTORY_ABI = [
+  "function getPair(address tokenA, address tokenB) view returns (address)",
+] as const;
+
+const PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+] as const;
+
+interface RouterInfo {
+  factory: string;
+  wrappedNative: string;
+  nativeName: "AVAX" | "ETH";
+}
+
+/** A quote plus the raw values the swap is sent with. */
+export interface PreparedSwap {
+  quote: SwapQuote;
+  amountIn: bigint;
+  amountOutMin: bigint;
+  nativeIn: boolean;
+  nativeOut: boolean;
+  router: RouterInfo;
+  deadlineMinutes: number;
+}
+
+interface SwapServiceOptions {
+  log: LogFn;
+  getProvider: () => ethers.Provider;
+  tokenRegistry: TokenRegistryApi;
+}
+
+export interface SwapServiceApi {
+  getSettings: () => Promise<SwapSettings>;
+  /** Checks that a new router answers like a Uniswap V2 router first. */
+  setSettings: (patch: Partial<SwapSettings>) => Promise<SwapSettings>;
+  /**
+   * Quotes the direct pool and the route through WAVAX and keeps the better
+   * one. With `owner`, also checks whether an approve() is needed.
+   */
+  prepare: (request: SwapQuoteRequest, owner?: string) => Promise<PreparedSwap>;
+  /**
+   * approve() when needed, then the swap, to run in that order. The deadline
+   * counts from the call, so build again right before sending.
+   */
+  plan: (swap: PreparedSwap, recipient: string) => PlannedTx[];
+}
+
+const sameToken = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function createSwapService({
+  log,
+  getProvider,
+  tokenRegistry,
+}: SwapServiceOptions): SwapServiceApi {
+  const routers = new Map<string, Promise<RouterInfo>>();
+
+  const loadRouter = (address: string) => {
+    const key = address.toLowerCase();
+    let info = routers.get(key);
+    if (!info) {
+      info = (async (): Promise<RouterInfo> => {
+        const router = new ethers.Contract(address, ROUTER_ABI, getProvider());
+        const factory: string = await router.factory();
+        try {
+          return { factory, wrappedNative: await router.WAVAX(), nativeName: "AVAX" };
+        } catch {
+          return { factory, wrappedNative: await router.WETH(), nativeName: "ETH" };
+        }
+      })();
+      routers.set(key, info);
+      info.catch(() => routers.delete(key));
+    }
+    return info;
+  };
+
+  const getSettings = async (): Promise<SwapSettings> => {
+    const data = await chrome.storage.local.get(SETTINGS_STORAGE_KEY);
+    return { ...DEFAULT_SETTINGS, ...data[SETTINGS_STORAGE_KEY] };
+  };
+
+  const setSettings = async (patch: Partial<SwapSettings>) => {
+    const next = { ...(await getSettings()), ...patch };
+    if (!ethers.isAddress(next.routerAddress)) {
+      throw new Error("Invalid router address.");
+    }
+    if (
+      !Number.isInteger(next.slippageBps) ||
+      next.slippageBps < 1 ||
+      next.slippageBps > 5000
+    ) {
+      throw new Error("Slippage must be between 0.01% and 50%.");
+    }
+    if (
+      !Number.isInteger(next.deadlineMinutes) ||
+      next.deadlineMinutes < 1 ||
+      next.deadlineMinutes > 180
+    ) {
+      throw new Error("Deadline must be between 1 and 180 minutes.");
+    }
+    next.routerAddress = ethers.getAddress(next.routerAddress);
+    try {
+      await loadRouter(next.routerAddress);
+    } catch (err) {
+      log("Rejected swap router", next.routerAddress, err);
+      throw new Error("That address is not a Uniswap V2 style router.");
+    }
+    await chrome.storage.local.set({ [SETTINGS_STORAGE_KEY]: next });
+    return next;
+  };
+
+  /** Mid-price output of `amountIn` along `path`, from the pool reserves. */
+  const midPriceOut = async (info: RouterInfo, path: string[], amountIn: bigint) => {
+    const provider = getProvider();
+    const factory = new ethers.Contract(info.factory, FACTORY_ABI, provider);
+    let amount = amountIn;
+    for (let i = 0; i < path.length - 1; i++) {
+      const pairAddress: string = await factory.getPair(path[i], path[i + 1]);
+      const pair = new ethers.Contract(pairAddress, PAIR_ABI, provider);
+      const [token0, [reserve0, reserve1]] = await Promise.all([
+        pair.token0() as Promise<string>,
+        pair.getReserves() as Promise<[bigint, bigint, bigint]>,
+      ]);
+      const [reserveIn, reserveOut] = sameToken(token0, path[i])
+        ? [reserve0, reserve1]
+        : [reserve1, reserve0];
+      if (reserveIn === 0n) return 0n;
+      amount = (amount * reserveOut) / reserveIn;
+    }
+    return amount;
+  };
+
+  const resolveToken = async (address: string) => {
+    const token = await tokenRegistry.get(address);
+    if (!token) throw new Error(`Unknown token ${address}. Import it first.`);
+    return token;
+  };
+
+  const prepare = async (request: SwapQuoteRequest, owner?: string) => {
+    const settings = await getSettings();
+    const info = await loadRouter(settings.routerAddress);
+    const [tokenIn, tokenOut] = await Promise.all([
+      resolveToken(request.tokenIn),
+      resolveToken(request.tokenOut),
+    ]);
+    const pathAddress = (token: RegistryToken) =>
+      token.isNative ? info.wrappedNative : token.address;
+    const from = pathAddress(tokenIn);
+    const to = pathAddress(tokenOut);
+    if (sameToken(from, to)) {
+      throw new Error("Pick two different tokens.");
+    }
+
+    let amountIn: bigint;
+    try {
+      amountIn = ethers.parseUnits(request.amountIn, tokenIn.decimals);
+    } catch {
+      throw new Error("Invalid amount.");
+    }
+    if (amountIn <= 0n) throw new Error("Amount must be greater than zero.");
+
+    const router = new ethers.Contract(
+      settings.routerAddress,
+      ROUTER_ABI,
+      getProvider()
+    );
+    const candidates = [[from, to]];
+    if (!sameToken(from, info.wrappedNative) && !sameToken(to, info.wrappedNative)) {
+      candidates.push([from, info.wrappedNative, to]);
+    }
+    const quotes = await Promise.all(
+      candidates.map(async (path) => {
+        try {
+          const amounts: bigint[] = await router.getAmountsOut(amountIn, path);
+          return { path, amountOut: amounts[amounts.length - 1] };
+        } catch {
+          // No pool for one of the hops.
+          return null;
+        }
+      })
+    );
+    const best = quotes
+      .filter((item): item is { path: string[]; amountOut: bigint } => !!item)
+      .sort((a, b) => (b.amountOut > a.amountOut ? 1 : -1))[0];
+    if (!best || best.amountOut === 0n) {
+      throw new Error(
+        `No ${tokenIn.symbol}/${tokenOut.symbol} liquidity on this router.`
+      );
+    }
+
+    // Includes the pool fee, so even a tiny trade shows about 0.3% per hop.
+    const mid = await midPriceOut(info, best.path, amountIn);
+    const priceImpactBps =
+      mid > best.amountOut
+        ? Number(((mid - best.amountOut) * 10_000n) / mid)
+        : 0;
+
+    const amountOutMin =
+      (best.amountOut * BigInt(10_000 - settings.slippageBps)) / 10_000n;
+
+    let needsApproval = false;
+    if (owner && !tokenIn.isNative) {
+      const token = new ethers.Contract(tokenIn.address, ERC20_ABI, getProvider());
+      const allowance: bigint = await token.allowance(owner, settings.routerAddress);
+      needsApproval = allowance < amountIn;
+    }
+
+    const symbolOf = async (address: string) =>
+      sameToken(address, info.wrappedNative)
+        ? "AVAX"
+        : (await tokenRegistry.get(address))?.symbol ?? address.slice(0, 8);
+
+    const quote: SwapQuote = {
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      amountIn: request.amountIn,
+      tokenInSymbol: tokenIn.symbol,
+      tokenOutSymbol: tokenOut.symbol,
+      path: best.path,
+      pathSymbols: await Promise.all(best.path.map(symbolOf)),
+      amountOut: ethers.formatUnits(best.amountOut, tokenOut.decimals),
+      minimumOut: ethers.formatUnits(amountOutMin, tokenOut.decimals),
+      priceImpactBps,
+      needsApproval,
+      routerAddress: settings.routerAddress,
+      slippageBps: settings.slippageBps,
+    };
+    return {
+      quote,
+      amountIn,
+      amountOutMin,
+      nativeIn: !!tokenIn.isNative,
+      nativeOut: !!tokenOut.isNative,
+      router: info,
+      deadlineMinutes: settings.deadlineMinutes,
+    };
+  };
+
+  const plan = (swap: PreparedSwap, recipient: string): PlannedTx[] => {
+    const { quote, amountIn, amountOutMin, nativeIn, nativeOut, router } = swap;
+    const routerIface = new ethers.Interface(ROUTER_ABI);
+    const deadline = BigInt(
+      Math.floor(Date.now() / 1000) + swap.deadlineMinutes * 60
+    );
+    const steps: PlannedTx[] = [];
+    if (quote.needsApproval) {
+      steps.push({
+        tx: {
+          to: quote.tokenIn,
+          data: new ethers.Interface(ERC20_ABI).encodeFunctionData("approve", [
+            quote.routerAddress,
+            amountIn,
+          ]),
+        },
+        fallbackGasLimit: ERC20_APPROVE_GAS,
+      });
+    }
+
+    const native = router.nativeName;
+    const data = nativeIn
+      ? routerIface.encodeFunctionData(`swapExact${native}ForTokens`, [
+          amountOutMin,
+          quote.path,
+          recipient,
+          deadline,
+        ])
+      : routerIface.encodeFunctionData(
+          nativeOut ? `swapExactTokensFor${native}` : "swapExactTokensForTokens",
+          [amountIn, amountOutMin, quote.path, recipient, deadline]
+        );
+    steps.push({
+      tx: {
+        to: quote.routerAddress,
+        data,
+        value: nativeIn ? amountIn : 0n,
+      },
+      fallbackGasLimit: SWAP_FALLBACK_GAS,
+    });
+    return steps;
+  };
+
+  return { getSettings, setSettings, prepare, plan };
+}
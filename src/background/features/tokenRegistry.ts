@@ -0,0 +1,204 @@
+import { ethers } from "ethers";
+import { BUILTIN_TOKENS, PARTNER_SYMBOLS } from "../../constants";
+import type { RegistryToken, TokenSource } from "../../types/tokens";
+import type { LogFn } from "../core/logger";
+import { fetchErc20Metadata } from "./erc20";
+import { fetchActiveSubscribedTokens } from "./post2earnClient";
+
+const REGISTRY_STORAGE_KEY = "tokenRegistry";
+// Subscriptions change weekly at most; a few hours of lag is fine.
+const SUBSCRIBED_TTL_MS = 6 * 60 * 60 * 1000;
+const REFRESH_RETRY_MS = 60 * 1000;
+
+interface StoredTokenRegistry {
+  /** By lowercase address. */
+  subscribed: Record<string, RegistryToken>;
+  imported: Record<string, RegistryToken>;
+  subscribedAt: number;
+}
+
+interface TokenRegistryOptions {
+  log: LogFn;
+  getProvider: () => ethers.Provider;
+}
+
+export interface TokenRegistryApi {
+  /** Built-ins first, then subscribed, then imported tokens. */
+  list: () => Promise<RegistryToken[]>;
+  get: (address: string) => Promise<RegistryToken | null>;
+  /**
+   * For callers that still only have a symbol. Built-ins win a clash, so a
+   * look-alike token cannot take over a known symbol.
+   */
+  findBySymbol: (symbol: string) => Promise<RegistryToken | null>;
+  /** Reads the token's metadata on chain and adds it to the registry. */
+  importToken: (address: string) => Promise<RegistryToken>;
+  /** Removes an imported token; built-in and subscribed tokens stay. */
+  removeToken: (address: string) => Promise<void>;
+  refreshSubscribed: () => Promise<void>;
+}
+
+const emptyRegistry = (): StoredTokenRegistry => ({
+  subscribed: {},
+  imported: {},
+  subscribedAt: 0,
+});
+
+const BUILTIN_REGISTRY: RegistryToken[] = BUILTIN_TOKENS.map((token) => ({
+  address: ethers.getAddress(token.address),
+  symbol: token.symbol,
+  name: token.name,
+  decimals: token.decimals,
+  image: token.image,
+  isNative: token.isNative,
+  isRounded: token.isRounded,
+  tippable: PARTNER_SYMBOLS.includes(token.symbol),
+  sources: ["builtin"],
+}));
+
+const fromMetadata = (
+  address: string,
+  meta: { symbol?: string; name?: string; decimals?: number },
+  source: TokenSource
+): RegistryToken => ({
+  address: ethers.getAddress(address),
+  symbol: meta.symbol || `TOKEN ${address.slice(2, 6).toUpperCase()}`,
+  name: meta.name || meta.symbol || address,
+  decimals: meta.decimals ?? 18,
+  image: "",
+  tippable: true,
+  sources: [source],
+});
+
+const notifyRegistryUpdated = () =>
+  chrome.runtime.sendMessage(
+    { type: "TOKEN_REGISTRY_UPDATED" },
+    () => void chrome.runtime.lastError
+  );
+
+export function createTokenRegistry({
+  log,
+  getProvider,
+}: TokenRegistryOptions): TokenRegistryApi {
+  let tail: Promise<unknown> = Promise.resolve();
+  let refreshing: Promise<void> | null = null;
+  let lastRefreshAttempt = 0;
+
+  const load = async (): Promise<StoredTokenRegistry> => {
+    const data = await chrome.storage.local.get(REGISTRY_STORAGE_KEY);
+    return { ...emptyRegistry(), ...data[REGISTRY_STORAGE_KEY] };
+  };
+
+  const update = (mutate: (registry: StoredTokenRegistry) => void) => {
+    const run = tail.then(async () => {
+      const registry = await load();
+      mutate(registry);
+      await chrome.storage.local.set({ [REGISTRY_STORAGE_KEY]: registry });
+    });
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  const merge = (registry: StoredTokenRegistry) => {
+    const byAddress = new Map<string, RegistryToken>();
+    const add = (token: RegistryToken) => {
+      const key = token.address.toLowerCase();
+      const existing = byAddress.get(key);
+      if (!existing) {
+        byAddress.set(key, { ...token, sources: [...token.sources] });
+        return;
+      }
+      // Keep the earlier (more trusted) metadata, record the extra source.
+      existing.sources = [...new Set([...existing.sources, ...token.sources])];
+      existing.tippable = existing.tippable || token.tippable;
+    };
+    BUILTIN_REGISTRY.forEach(add);
+    Object.values(registry.subscribed).forEach(add);
+    Object.values(registry.imported).forEach(add);
+    return Array.from(byAddress.values());
+  };
+
+  const refreshSubscribed = () => {
+    refreshing ??= (async () => {
+      lastRefreshAttempt = Date.now();
+      const tokens = await fetchActiveSubscribedTokens(getProvider(), log);
+      await update((registry) => {
+        registry.subscribed = {};
+        for (const token of tokens) {
+          registry.subscribed[token.tokenAddress.toLowerCase()] = fromMetadata(
+            token.tokenAddress,
+            token,
+            "subscribed"
+          );
+        }
+        registry.subscribedAt = Date.now();
+      });
+      log(`Token registry: ${tokens.length} subscribed tokens`);
+      notifyRegistryUpdated();
+    })().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  };
+
+  const list = async () => {
+    const registry = await load();
+    const now = Date.now();
+    if (
+      now - registry.subscribedAt > SUBSCRIBED_TTL_MS &&
+      now - lastRefreshAttempt > REFRESH_RETRY_MS
+    ) {
+      // Answer from what we have; pages re-read on TOKEN_REGISTRY_UPDATED.
+      refreshSubscribed().catch((err) =>
+        log("Failed to refresh subscribed tokens", err)
+      );
+    }
+    return merge(registry);
+  };
+
+  const get = async (address: string) => {
+    if (!ethers.isAddress(address)) return null;
+    const key = address.toLowerCase();
+    return (
+      (await list()).find((token) => token.address.toLowerCase() === key) ??
+      null
+    );
+  };
+
+  const findBySymbol = async (symbol: string) => {
+    const wanted = symbol.toUpperCase();
+    return (
+      (await list()).find((token) => token.symbol.toUpperCase() === wanted) ??
+      null
+    );
+  };
+
+  const importToken = async (address: string) => {
+    if (!ethers.isAddress(address) || address === ethers.ZeroAddress) {
+      throw new Error("Invalid token address.");
+    }
+    const existing = await get(address);
+    if (existing) return existing;
+
+    const meta = await fetchErc20Metadata(getProvider(), address);
+    if (!meta?.symbol || meta.decimals == null) {
+      throw new Error("No ERC-20 token found at this address.");
+    }
+    const token = fromMetadata(address, meta, "imported");
+    await update((registry) => {
+      registry.imported[address.toLowerCase()] = token;
+    });
+    log(`Imported token ${token.symbol} (${token.address})`);
+    notifyRegistryUpdated();
+    return token;
+  };
+
+  const removeToken = async (address: string) => {
+    await update((registry) => {
+      delete registry.imported[address.toLowerCase()];
+    });
+    notifyRegistryUpdated();
+  };
+
+  return { list, get, findBySymbol, importToken, removeToken, refreshSubscribed };
+}
@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+import { openDatabase, requestToPromise, transactionDone } from "../../lib/idb";
+import type { ScheduledTx, ScheduledTxStatus } from "../../types/transactions";
+import type { LogFn } from "../core/logger";
+import { sameAddress } from "./accounts";
+
+// Every tx the scheduler sends is mirrored here, so the wallet keeps its own
+// history across service-worker restarts and while the explorer API is down.
+// The scheduler only knows about txs sent by the current worker; entries left
+// unsettled by an earlier one are checked against the chain on startup.
+
+const DB_NAME = "arena-plus-tx-journal";
+const DB_VERSION = 1;
+const TX_STORE = "transactions";
+const CREATED_AT_INDEX = "createdAt";
+const MAX_JOURNAL_ENTRIES = 500;
+// Give up watching a still-pending tx after this long; the next startup
+// checks it again.
+const PENDING_WATCH_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface TxJournalOptions {
+  log: LogFn;
+  getProvider: () => ethers.Provider;
+}
+
+export interface TxHistoryQuery {
+  /** Only txs signed by this account. */
+  address?: string;
+  limit?: number;
+}
+
+export interface TxJournalApi {
+  /** Inserts or updates an entry; pass it every scheduler update. */
+  record: (tx: ScheduledTx) => Promise<void>;
+  /** Newest first. */
+  list: (query?: TxHistoryQuery) => Promise<ScheduledTx[]>;
+  /**
+   * Settles entries an earlier worker left queued or submitted, and prunes
+   * the oldest entries past the cap.
+   */
+  reconcile: () => Promise<void>;
+}
+
+const openJournal = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(TX_STORE)) {
+      const store = db.createObjectStore(TX_STORE, { keyPath: "id" });
+      store.createIndex(CREATED_AT_INDEX, "createdAt");
+    }
+  });
+
+async function withTxStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openJournal();
+  try {
+    const tx = db.transaction(TX_STORE, mode);
+    const result = requestToPromise(run(tx.objectStore(TX_STORE)));
+    await transactionDone(tx);
+    return await result;
+  } finally {
+    db.close();
+  }
+}
+
+const readAll = () =>
+  withTxStore<ScheduledTx[]>("readonly", (store) =>
+    store.index(CREATED_AT_INDEX).getAll()
+  );
+
+async function prune(): Promise<void> {
+  const db = await openJournal();
+  try {
+    const tx = db.transaction(TX_STORE, "readwrite");
+    const index = tx.objectStore(TX_STORE).index(CREATED_AT_INDEX);
+    const excess = (await requestToPromise(index.count())) - MAX_JOURNAL_ENTRIES;
+    if (excess > 0) {
+      // The index is ascending, so the first keys are the oldest entries.
+      const keys = await requestToPromise(index.getAllKeys(null, excess));
+      const store = tx.objectStore(TX_STORE);
+      keys.forEach((key) => store.delete(key));
+    }
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+export function createTxJournal({
+  log,
+  getProvider,
+}: TxJournalOptions): TxJournalApi {
+  // Scheduler updates arrive in bursts; keep the writes in order so a late
+  // "submitted" never overwrites "confirmed".
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const record = (tx: ScheduledTx) => {
+    const write = writes.then(() =>
+      withTxStore("readwrite", (store) => store.put(tx))
+    );
+    writes = write.catch(() => undefined);
+    return write.then(() => undefined);
+  };
+
+  const list = async ({ address, limit }: TxHistoryQuery = {}) => {
+    const entries = (await readAll())
+      .reverse()
+      .filter((tx) => !address || sameAddress(tx.from, address));
+    return limit ? entries.slice(0, limit) : entries;
+  };
+
+  const settle = async (
+    entry: ScheduledTx,
+    status: ScheduledTxStatus,
+    patch: Partial<ScheduledTx> = {}
+  ) => {
+    const tx: ScheduledTx = { ...entry, ...patch, status, updatedAt: Date.now() };
+    await record(tx);
+    log(`Journal: ${tx.label} reconciled as ${status}`);
+    chrome.runtime.sendMessage(
+      { type: "TX_LIFECYCLE_UPDATED", tx },
+      () => void chrome.runtime.lastError
+    );
+  };
+
+  const settleFromReceipt = (
+    entry: ScheduledTx,
+    receipt: ethers.TransactionReceipt
+  ) =>
+    receipt.status === 0
+      ? settle(entry, "failed", {
+        blockNumber: receipt.blockNumber,
+        error: "Transaction reverted.",
+      })
+      : settle(entry, "confirmed", { blockNumber: receipt.blockNumber });
+
+  const reconcileEntry = async (provider: ethers.Provider, entry: ScheduledTx) => {
+    if (!entry.hash) {
+      await settle(entry, "failed", {
+        error: "Interrupted before it was broadcast.",
+      });
+      return;
+    }
+
+    const receipt = await provider.getTransactionReceipt(entry.hash);
+    if (receipt) {
+      await settleFromReceipt(entry, receipt);
+      return;
+    }
+
+    if (await provider.getTransaction(entry.hash)) {
+      provider
+        .waitForTransaction(entry.hash, 1, PENDING_WATCH_TIMEOUT_MS)
+        .then((mined) => (mined ? settleFromReceipt(entry, mined) : undefined))
+        .catch((err) => log(`Journal: stopped watching ${entry.hash}`, err));
+      return;
+    }
+
+    // Neither mined nor known to the node: either something else used the
+    // nonce (a speed-up or cancel) or the tx fell out of the mempool.
+    const nonceUsed =
+      entry.from != null &&
+      entry.nonce != null &&
+      (await provider.getTransactionCount(entry.from, "latest")) > entry.nonce;
+    if (nonceUsed || entry.replacedBy) {
+      await settle(entry, "replaced");
+    } else {
+      await settle(entry, "failed", { error: "Dropped from the mempool." });
+    }
+  };
+
+  const reconcile = async () => {
+    const unsettled = (await readAll()).filter(
+      (tx) => tx.status === "queued" || tx.status === "submitted"
+    );
+    if (unsettled.length) {
+      log(`Journal: reconciling ${unsettled.length} unsettled transaction(s)`);
+      const provider = getProvider();
+      for (const entry of unsettled) {
+        try {
+          await reconcileEntry(provider, entry);
+        } catch (err) {
+          log(`Journal: failed to reconcile ${entry.hash ?? entry.id}`, err);
+        }
+      }
+    }
+    await prune();
+  };
+
+  return { record, list, reconcile };
+}
@@ -0,0 +1,367 @@
+import { ethers } from "ethers";
+import type {
+  ScheduledTx,
+  ScheduledTxStatus,
+  TxDetails,
+  TxReplacementMode,
+} from "../../types/transactions";
+import type { LogFn } from "../core/logger";
+
+// How often a send is rebuilt with a freshly synced nonce before giving up.
+const MAX_NONCE_RETRIES = 2;
+const MAX_TRACKED_TXS = 50;
+// Nodes reject replacements that do not raise the fee by at least 10%; a 25%
+// bump also clears the pool when the base fee rises meanwhile.
+const REPLACEMENT_FEE_BUMP_PERCENT = 125n;
+
+export interface TxBuildContext {
+  signer: ethers.Wallet;
+  nonce: number;
+}
+
+export interface TxRequest {
+  label: string;
+  /**
+   * Account that signs the tx; defaults to the active one. Pass it whenever
+   * `build` uses a contract connected to a specific signer.
+   */
+  from?: string;
+  /**
+   * Rejects the send while another unsettled tx holds the same key, e.g. to
+   * stop a double click from cancelling one promotion twice.
+   */
+  dedupeKey?: string;
+  /** Recorded with the tx for the transaction history. */
+  details?: TxDetails;
+  /** Must broadcast exactly one transaction using the given nonce. */
+  build: (ctx: TxBuildContext) => Promise<ethers.TransactionResponse>;
+}
+
+interface TxSchedulerOptions {
+  log: LogFn;
+  /** Signer for the given account, or the active one; null while locked. */
+  getSigner: (address?: string) => ethers.Wallet | null;
+}
+
+export interface TxSchedulerApi {
+  /**
+   * Queues a signed send. Sends are submitted one at a time in order, so each
+   * gets the next nonce; confirmations are awaited in parallel. Resolves once
+   * the transaction is broadcast.
+   */
+  send: (request: TxRequest) => Promise<ethers.TransactionResponse>;
+  /** Re-reads the active account's pending nonce from the chain. */
+  sync: () => Promise<number>;
+  /**
+   * Re-sends a submitted tx at the same nonce with a higher fee, either with
+   * the original call (speed up) or as a 0-value self-send (cancel).
+   */
+  replace: (
+    id: string,
+    mode: TxReplacementMode
+  ) => Promise<ethers.TransactionResponse>;
+  /** Forgets all nonces, e.g. when the wallet locks. */
+  reset: () => void;
+  getRecent: () => ScheduledTx[];
+  getPending: () => ScheduledTx[];
+  onUpdate: (listener: (tx: ScheduledTx) => void) => () => void;
+}
+
+const errorMessage = (err: any) =>
+  err?.reason ||
+  err?.shortMessage ||
+  err?.data?.message ||
+  err?.error?.message ||
+  err?.message ||
+  String(err);
+
+const isNonceError = (err: any) =>
+  err?.code === "NONCE_EXPIRED" ||
+  err?.code === "REPLACEMENT_UNDERPRICED" ||
+  /nonce (too low|already used|has already been used)|replacement (transaction )?underpriced/i.test(
+    String(errorMessage(err))
+  );
+
+const bumpFee = (original: bigint | null | undefined, current: bigint | null) => {
+  const bumped = ((original ?? 0n) * REPLACEMENT_FEE_BUMP_PERCENT) / 100n;
+  return current != null && current > bumped ? current : bumped;
+};
+
+/**
+ * Waits for a scheduled tx, following it through a speed-up. Rejects if the
+ * tx was cancelled or replaced by something else.
+ */
+export async function waitForReceipt(response: ethers.TransactionResponse) {
+  try {
+    return await response.wait();
+  } catch (err) {
+    if (ethers.isError(err, "TRANSACTION_REPLACED") && !err.cancelled) {
+      return err.receipt;
+    }
+    if (ethers.isError(err, "TRANSACTION_REPLACED")) {
+      throw new Error("Transaction was cancelled.");
+    }
+    throw err;
+  }
+}
+
+export function createTxScheduler({
+  log,
+  getSigner,
+}: TxSchedulerOptions): TxSchedulerApi {
+  // Next nonce per account, keyed by lowercased address.
+  const nonces = new Map<string, number>();
+  let tail: Promise<unknown> = Promise.resolve();
+  const txs: ScheduledTx[] = [];
+  // Broadcast but unconfirmed transactions, by scheduled tx id.
+  const inFlight = new Map<string, ethers.TransactionResponse>();
+  const activeKeys = new Set<string>();
+  const listeners = new Set<(tx: ScheduledTx) => void>();
+
+  const generateId = () =>
+    (crypto as Crypto)?.randomUUID?.() ??
+    `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+  const update = (
+    tx: ScheduledTx,
+    status: ScheduledTxStatus,
+    patch: Partial<ScheduledTx> = {}
+  ) => {
+    Object.assign(tx, patch, { status, updatedAt: Date.now() });
+    const snapshot = { ...tx };
+    listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (err) {
+        log("Transaction listener failed", err);
+      }
+    });
+    chrome.runtime.sendMessage(
+      { type: "TX_LIFECYCLE_UPDATED", tx: snapshot },
+      () => void chrome.runtime.lastError
+    );
+  };
+
+  const requireSigner = (address?: string) => {
+    const signer = getSigner(address);
+    if (!signer) {
+      throw new Error("Wallet is locked.");
+    }
+    return signer;
+  };
+
+  const syncSigner = async (signer: ethers.Wallet) => {
+    const next = await signer.getNonce("pending");
+    nonces.set(signer.address.toLowerCase(), next);
+    log(`Nonce for ${signer.address} synced to ${next}`);
+    return next;
+  };
+
+  const sync = () => syncSigner(requireSigner());
+
+  const track = (label: string, patch: Partial<ScheduledTx> = {}) => {
+    const now = Date.now();
+    const tx: ScheduledTx = {
+      id: generateId(),
+      label,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+    };
+    txs.unshift(tx);
+    txs.splice(MAX_TRACKED_TXS);
+    update(tx, "queued", patch);
+    return tx;
+  };
+
+  const trackConfirmation = (
+    tx: ScheduledTx,
+    response: ethers.TransactionResponse,
+    release: () => void = () => undefined
+  ) => {
+    inFlight.set(tx.id, response);
+    response
+      .wait()
+      .then((receipt) => {
+        update(tx, "confirmed", { blockNumber: receipt?.blockNumber });
+        log(`${tx.label} confirmed: ${response.hash}`);
+      })
+      .catch((err) => {
+        if (ethers.isError(err, "TRANSACTION_REPLACED")) {
+          update(tx, "replaced");
+          log(`${tx.label} replaced (${err.reason}) by ${err.hash}`);
+          return;
+        }
+        update(tx, "failed", { error: errorMessage(err) });
+        log(`${tx.label} failed after submission: ${response.hash}`, err);
+      })
+      .finally(() => {
+        inFlight.delete(tx.id);
+        release();
+      });
+  };
+
+  const submit = async (
+    tx: ScheduledTx,
+    request: TxRequest,
+    signer: ethers.Wallet
+  ) => {
+    const key = signer.address.toLowerCase();
+    for (let attempt = 0; ; attempt++) {
+      // The account may have been removed from the keyring or locked since.
+      requireSigner(signer.address);
+      const assigned = nonces.get(key) ?? (await syncSigner(signer));
+      try {
+        const response = await request.build({ signer, nonce: assigned });
+        nonces.set(key, assigned + 1);
+        update(tx, "submitted", { nonce: assigned, hash: response.hash });
+        log(`${tx.label} submitted: ${response.hash} (nonce=${assigned})`);
+        return response;
+      } catch (err) {
+        // Whatever went wrong, the local counter can no longer be trusted.
+        nonces.delete(key);
+        if (isNonceError(err) && attempt < MAX_NONCE_RETRIES) {
+          log(`${tx.label}: nonce ${assigned} rejected, re-syncing and retrying`);
+          continue;
+        }
+        throw err;
+      }
+    }
+  };
+
+  const send = (request: TxRequest) => {
+    const { dedupeKey } = request;
+    let signer: ethers.Wallet;
+    try {
+      // Bind the account now, even if the user switches accounts before the
+      // send reaches the front of the queue.
+      signer = requireSigner(request.from);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    if (dedupeKey && activeKeys.has(dedupeKey)) {
+      return Promise.reject(
+        new Error("A transaction for this action is already pending.")
+      );
+    }
+    if (dedupeKey) activeKeys.add(dedupeKey);
+    const release = () => {
+      if (dedupeKey) activeKeys.delete(dedupeKey);
+    };
+
+    const tx = track(request.label, {
+      from: signer.address,
+      details: request.details,
+    });
+    const run = tail.then(() => submit(tx, request, signer));
+    tail = run.catch(() => undefined);
+
+    return run.then(
+      (response) => {
+        trackConfirmation(tx, response, release);
+        return response;
+      },
+      (err) => {
+        release();
+        update(tx, "failed", { error: errorMessage(err) });
+        throw err;
+      }
+    );
+  };
+
+  const replace = async (id: string, mode: TxReplacementMode) => {
+    const original = inFlight.get(id);
+    const entry = txs.find((item) => item.id === id);
+    if (!original || !entry || entry.status !== "submitted") {
+      throw new Error("Transaction is no longer pending.");
+    }
+    const signer = requireSigner(original.from);
+
+    const feeData = await signer.provider!.getFeeData();
+    let fees: Partial<ethers.TransactionRequest>;
+    if (original.maxFeePerGas != null) {
+      const maxPriorityFeePerGas = bumpFee(
+        original.maxPriorityFeePerGas,
+        feeData.maxPriorityFeePerGas
+      );
+      const maxFeePerGas = bumpFee(original.maxFeePerGas, feeData.maxFeePerGas);
+      fees = {
+        maxPriorityFeePerGas,
+        maxFeePerGas:
+          maxFeePerGas > maxPriorityFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+      };
+    } else {
+      fees = { gasPrice: bumpFee(original.gasPrice, feeData.gasPrice) };
+    }
+
+    const request: ethers.TransactionRequest =
+      mode === "speed_up"
+        ? {
+          to: original.to,
+          data: original.data,
+          value: original.value,
+          gasLimit: original.gasLimit,
+        }
+        : { to: signer.address, data: "0x", value: 0n, gasLimit: 21000n };
+
+    const label =
+      mode === "speed_up" ? `Speed up: ${entry.label}` : `Cancel: ${entry.label}`;
+    const replacement = track(label, {
+      replaces: id,
+      nonce: original.nonce,
+      from: signer.address,
+      // A cancel is a 0 AVAX send to self, not the original payment.
+      details:
+        mode === "speed_up"
+          ? entry.details
+          : {
+            source: entry.details?.source,
+            sourceId: entry.details?.sourceId,
+            recipient: signer.address,
+            tokenSymbol: "AVAX",
+            amount: "0",
+          },
+    });
+    try {
+      const response = await signer.sendTransaction({
+        ...request,
+        ...fees,
+        nonce: original.nonce,
+      });
+      update(replacement, "submitted", { hash: response.hash });
+      update(entry, entry.status, { replacedBy: replacement.id });
+      log(`${label} submitted: ${response.hash} (nonce=${original.nonce})`);
+      trackConfirmation(replacement, response);
+      return response;
+    } catch (err) {
+      update(replacement, "failed", { error: errorMessage(err) });
+      throw err;
+    }
+  };
+
+  const reset = () => {
+    nonces.clear();
+  };
+
+  const getRecent = () => txs.map((tx) => ({ ...tx }));
+
+  const getPending = () =>
+    txs.filter((tx) => tx.status === "submitted").map((tx) => ({ ...tx }));
+
+  const onUpdate = (listener: (tx: ScheduledTx) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    send,
+    sync,
+    replace,
+    reset,
+    getRecent,
+    getPending,
+    onUpdate,
+  };
+}
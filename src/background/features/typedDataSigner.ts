@@ -0,0 +1,227 @@
+import { ethers } from "ethers";
+import { AVALANCHE_CHAIN_ID } from "../../constants";
+import type {
+  TypedDataReviewField,
+  WalletActionTypedData,
+  WalletInfo,
+} from "../../types";
+import type { LogFn } from "../core/logger";
+import { sameAddress } from "./accounts";
+import type { AutoLockApi } from "./autoLock";
+import {
+  waitForWalletAction,
+  type WalletActionQueueApi,
+} from "./walletActionQueue";
+
+export type TypedDataTypes = Record<string, ethers.TypedDataField[]>;
+
+export interface TypedDataSignRequest {
+  /** The account that must be active when the user approves. */
+  account: string;
+  domain: ethers.TypedDataDomain;
+  /** May include `EIP712Domain`; it is derived from the domain and dropped. */
+  types: TypedDataTypes;
+  /** Checked against the primary type ethers infers from `types`. */
+  primaryType?: string;
+  message: Record<string, unknown>;
+  title: string;
+  description?: string;
+  details?: Record<string, unknown>;
+  /** When set, the domain must name one of these contracts and a chainId. */
+  verifyingContracts?: string[];
+  /** Runs on the digest before the user is asked, e.g. against a contract view. */
+  verifyDigest?: (digest: string) => Promise<void>;
+  openPopup?: boolean;
+}
+
+export type TypedDataSignResult =
+  | { success: true; signature: string; digest: string }
+  | { success: false; error: string };
+
+/** The typed data or its domain cannot be signed as given. */
+export class TypedDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TypedDataError";
+  }
+}
+
+interface TypedDataSignerOptions {
+  log: LogFn;
+  walletActions: WalletActionQueueApi;
+  autoLock: AutoLockApi;
+  /** The active account, or null while locked. */
+  getWallet: () => WalletInfo | null;
+}
+
+export interface TypedDataSignerApi {
+  /**
+   * Checks the domain, hashes the data, asks the user to approve the
+   * flattened fields and signs with the active account.
+   */
+  sign: (request: TypedDataSignRequest) => Promise<TypedDataSignResult>;
+}
+
+const ARRAY_TYPE = /^(.*)\[(\d*)\]$/;
+
+const formatFieldValue = (type: string, value: unknown) => {
+  if (value == null) return "";
+  if (type === "address" && typeof value === "string" && ethers.isAddress(value)) {
+    return ethers.getAddress(value);
+  }
+  if (type.startsWith("bytes") && value instanceof Uint8Array) {
+    return ethers.hexlify(value);
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const flattenFields = (
+  types: TypedDataTypes,
+  type: string,
+  value: unknown,
+  path: string,
+  out: TypedDataReviewField[]
+) => {
+  const array = type.match(ARRAY_TYPE);
+  if (array) {
+    (Array.isArray(value) ? value : []).forEach((item, index) =>
+      flattenFields(types, array[1], item, `${path}[${index}]`, out)
+    );
+    return;
+  }
+  const struct = types[type];
+  if (struct) {
+    for (const field of struct) {
+      flattenFields(
+        types,
+        field.type,
+        (value as Record<string, unknown> | undefined)?.[field.name],
+        path ? `${path}.${field.name}` : field.name,
+        out
+      );
+    }
+    return;
+  }
+  out.push({ name: path, type, value: formatFieldValue(type, value) });
+};
+
+const verifyDomain = (
+  domain: ethers.TypedDataDomain,
+  verifyingContracts?: string[]
+) => {
+  if (domain.chainId == null) {
+    if (verifyingContracts) {
+      throw new TypedDataError("Typed data domain is missing its chainId.");
+    }
+  } else if (ethers.getBigInt(domain.chainId) !== BigInt(AVALANCHE_CHAIN_ID)) {
+    throw new TypedDataError(
+      `Typed data is for chain ${domain.chainId}, not Avalanche.`
+    );
+  }
+  if (!verifyingContracts) return;
+  const contract = domain.verifyingContract;
+  if (
+    !contract ||
+    !verifyingContracts.some((known) => sameAddress(known, contract))
+  ) {
+    throw new TypedDataError(
+      `Unexpected verifying contract ${contract ?? "(none)"}.`
+    );
+  }
+};
+
+/**
+ * Validates and hashes typed data and builds what the approval prompt shows.
+ * Throws a {@link TypedDataError} for malformed types or a rejected domain.
+ */
+export const prepareTypedData = ({
+  domain,
+  types: rawTypes,
+  primaryType,
+  message,
+  verifyingContracts,
+}: Pick<
+  TypedDataSignRequest,
+  "domain" | "types" | "primaryType" | "message" | "verifyingContracts"
+>) => {
+  // ethers derives the domain type itself and rejects it in `types`.
+  const { EIP712Domain: _domainType, ...types } = rawTypes;
+  verifyDomain(domain, verifyingContracts);
+
+  let encoder: ethers.TypedDataEncoder;
+  let digest: string;
+  try {
+    encoder = ethers.TypedDataEncoder.from(types);
+    digest = ethers.TypedDataEncoder.hash(domain, types, message);
+  } catch (err: any) {
+    throw new TypedDataError(
+      `Invalid typed data: ${err?.shortMessage || err?.message || err}`
+    );
+  }
+
+  if (primaryType && primaryType !== encoder.primaryType) {
+    throw new TypedDataError(
+      `Primary type ${primaryType} does not match the types (${encoder.primaryType}).`
+    );
+  }
+
+  const fields: TypedDataReviewField[] = [];
+  flattenFields(encoder.types, encoder.primaryType, message, "", fields);
+  const review: WalletActionTypedData = {
+    primaryType: encoder.primaryType,
+    domain: {
+      ...(domain.name != null ? { name: domain.name } : {}),
+      ...(domain.version != null ? { version: domain.version } : {}),
+      ...(domain.chainId != null ? { chainId: String(domain.chainId) } : {}),
+      ...(domain.verifyingContract
+        ? { verifyingContract: ethers.getAddress(domain.verifyingContract) }
+        : {}),
+    },
+    fields,
+    digest,
+  };
+  return { types, digest, review };
+};
+
+export function createTypedDataSigner({
+  log,
+  walletActions,
+  autoLock,
+  getWallet,
+}: TypedDataSignerOptions): TypedDataSignerApi {
+  const sign = async (
+    request: TypedDataSignRequest
+  ): Promise<TypedDataSignResult> => {
+    const { types, digest, review } = prepareTypedData(request);
+    if (request.verifyDigest) await request.verifyDigest(digest);
+
+    return waitForWalletAction<TypedDataSignResult>(
+      walletActions,
+      {
+        title: request.title,
+        description: request.description,
+        details: request.details,
+        typedData: review,
+      },
+      async () => {
+        const wallet = getWallet();
+        if (!wallet) return { success: false, error: "Wallet is locked." };
+        if (!sameAddress(wallet.address, request.account)) {
+          return {
+            success: false,
+            error: "The active account changed. Please retry.",
+          };
+        }
+        autoLock.touch();
+        const signature = await new ethers.Wallet(
+          wallet.privateKey
+        ).signTypedData(request.domain, types, request.message);
+        log(`Signed ${review.primaryType} typed data`, digest);
+        return { success: true, signature, digest };
+      },
+      { openPopup: request.openPopup }
+    );
+  };
+
+  return { sign };
+}
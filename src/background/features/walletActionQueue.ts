@@ -1,3 +1,4 @@
+import type { WalletActionFee, WalletActionTypedData } from "../../types";
 import type { LogFn } from "../core/logger";
 
 type WalletActionStatus = "queued" | "awaiting_user" | "processing";
@@ -8,12 +9,24 @@ export interface WalletActionMeta {
   details?: Record<string, unknown>;
   amount?: string;
   tokenSymbol?: string;
+  /** Shown in full for review, e.g. a message or typed data to sign. */
+  content?: string;
+  /** Typed data to review field by field before signing. */
+  typedData?: WalletActionTypedData;
+  /** Prices the action's transactions; runs when the action comes up. */
+  estimateFee?: () => Promise<WalletActionFee>;
+}
+
+export interface WalletActionEnqueueOptions {
+  /** Set to false when the request already comes from an open wallet page. */
+  openPopup?: boolean;
 }
 
 interface WalletActionQueueEntry {
   id: string;
   meta: WalletActionMeta;
   status: WalletActionStatus;
+  fee?: WalletActionFee;
   perform: () => Promise<unknown>;
   sendResponse: (payload: unknown) => void;
 }
@@ -25,25 +38,50 @@ export interface WalletActionQueueSummaryEntry {
   details?: Record<string, unknown>;
   amount?: string;
   tokenSymbol?: string;
+  content?: string;
+  typedData?: WalletActionTypedData;
   status: WalletActionStatus;
   position: number;
+  fee?: WalletActionFee;
 }
 
 export interface WalletActionQueueApi {
   enqueue: (
     meta: WalletActionMeta,
     perform: () => Promise<unknown>,
-    sendResponse: (payload: unknown) => void
+    sendResponse: (payload: unknown) => void,
+    options?: WalletActionEnqueueOptions
   ) => string;
   getSummary: () => WalletActionQueueSummaryEntry[];
   respond: (id: string, approved: boolean) => { success: boolean; error?: string };
   cancelById: (id: string, reason: string) => boolean;
   rejectActive: (reason: string) => void;
+  /** Re-estimates the active action's fee, e.g. after an unlock or account switch. */
+  refreshFee: () => void;
   openPopup: () => Promise<void>;
 }
 
 const walletPopupSize = { width: 420, height: 640 };
 
+/**
+ * Queues an action and resolves with its result once the user decides, or
+ * with the rejection the queue sends when it is declined or cancelled.
+ */
+export const waitForWalletAction = <T>(
+  queue: WalletActionQueueApi,
+  meta: WalletActionMeta,
+  perform: () => Promise<T>,
+  options?: WalletActionEnqueueOptions
+) =>
+  new Promise<T | { success: false; error: string }>((resolve) => {
+    queue.enqueue(
+      meta,
+      perform,
+      (payload) => resolve(payload as T | { success: false; error: string }),
+      options
+    );
+  });
+
 export function createWalletActionQueue(log: LogFn): WalletActionQueueApi {
   let unlockWindowId: number | null = null;
   const walletActionQueue: WalletActionQueueEntry[] = [];
@@ -60,8 +98,11 @@ export function createWalletActionQueue(log: LogFn): WalletActionQueueApi {
       details: entry.meta.details,
       amount: entry.meta.amount,
       tokenSymbol: entry.meta.tokenSymbol,
+      content: entry.meta.content,
+      typedData: entry.meta.typedData,
       status: entry.status,
       position: index,
+      fee: entry.fee,
     }));
 
   const notifyWalletActionQueue = () => {
@@ -194,9 +235,39 @@ export function createWalletActionQueue(log: LogFn): WalletActionQueueApi {
     });
   };
 
+  const estimateFee = (entry: WalletActionQueueEntry) => {
+    const { estimateFee } = entry.meta;
+    if (!estimateFee) return;
+    const estimating: WalletActionFee = { status: "estimating" };
+    entry.fee = estimating;
+    estimateFee()
+      .catch((err): WalletActionFee => {
+        log(`Fee estimate failed for "${entry.meta.title}":`, err);
+        return {
+          status: "unavailable",
+          error: err?.shortMessage || err?.reason || err?.message || String(err),
+        };
+      })
+      .then((fee) => {
+        // Dropped, or superseded by a newer estimate.
+        if (entry.fee !== estimating) return;
+        entry.fee = fee;
+        notifyWalletActionQueue();
+      });
+  };
+
+  const refreshFee = () => {
+    const active = walletActionQueue[0];
+    if (!active || active.status !== "awaiting_user") return;
+    estimateFee(active);
+    notifyWalletActionQueue();
+  };
+
   const advanceWalletQueue = () => {
-    if (walletActionQueue.length > 0) {
-      walletActionQueue[0].status = "awaiting_user";
+    const next = walletActionQueue[0];
+    if (next && next.status === "queued") {
+      next.status = "awaiting_user";
+      estimateFee(next);
     }
     notifyWalletActionQueue();
   };
@@ -231,7 +302,12 @@ export function createWalletActionQueue(log: LogFn): WalletActionQueueApi {
     return true;
   };
 
-  const enqueue: WalletActionQueueApi["enqueue"] = (meta, perform, sendResponse) => {
+  const enqueue: WalletActionQueueApi["enqueue"] = (
+    meta,
+    perform,
+    sendResponse,
+    options = {}
+  ) => {
     const entry: WalletActionQueueEntry = {
       id: generateActionId(),
       meta,
@@ -240,8 +316,13 @@ export function createWalletActionQueue(log: LogFn): WalletActionQueueApi {
       status: walletActionQueue.length === 0 ? "awaiting_user" : "queued",
     };
     walletActionQueue.push(entry);
+    if (entry.status === "awaiting_user") {
+      estimateFee(entry);
+    }
     notifyWalletActionQueue();
-    openPopup().catch((err) => log("Failed to open wallet popup:", err));
+    if (options.openPopup !== false) {
+      openPopup().catch((err) => log("Failed to open wallet popup:", err));
+    }
     return entry.id;
   };
 
@@ -263,6 +344,15 @@ export function createWalletActionQueue(log: LogFn): WalletActionQueueApi {
     if (entry.status === "processing") {
       return { success: false, error: "Request already processing." };
     }
+    if (entry.fee?.status === "estimating") {
+      return { success: false, error: "Still estimating the network fee." };
+    }
+    if (entry.fee?.insufficientFunds) {
+      return {
+        success: false,
+        error: `Not enough AVAX to cover the network fee (about ${entry.fee.estimated} AVAX).`,
+      };
+    }
 
     entry.status = "processing";
     notifyWalletActionQueue();
@@ -301,6 +391,7 @@ export function createWalletActionQueue(log: LogFn): WalletActionQueueApi {
     respond,
     cancelById,
     rejectActive,
+    refreshFee,
     openPopup,
   };
 }
@@ -1,43 +1,143 @@
 import { ethers } from "ethers";
-import * as CryptoJS from "crypto-js";
-import type { StoredWalletData, WalletInfo } from "../../types";
-import { AVALANCHE_RPC } from "../../constants";
+import type { AddAccountRequest, WalletSecrets } from "../../types";
+import {
+  decryptLegacyWalletData,
+  decryptWalletSecrets,
+  encryptWalletSecrets,
+  isLegacyWalletData,
+  isVersionedKeystore,
+} from "../../utils/keystore";
 import type { LogFn } from "../core/logger";
+import {
+  deriveAccounts,
+  loadAccountMeta,
+  sameAddress,
+  type UnlockedAccount,
+} from "./accounts";
 
-export async function unlockAndInitializeWallet(
+async function migrateLegacyWalletData(
+  address: string,
+  secrets: WalletSecrets,
   userPassword: string,
   log?: LogFn
-): Promise<WalletInfo> {
+) {
+  try {
+    const walletData = await encryptWalletSecrets(address, secrets, userPassword);
+    await chrome.storage.local.set({ walletData });
+    // The unsalted SHA-256 password hash is no longer needed for anything.
+    await chrome.storage.local.remove("password");
+    log?.("Migrated legacy wallet data to versioned keystore");
+  } catch (err) {
+    // Keep the legacy record; we will retry on the next unlock.
+    log?.("Failed to migrate legacy wallet data", err);
+  }
+}
+
+/**
+ * Decrypts the stored keystore with the user's password. Used by unlock and
+ * by flows that must re-confirm the password, such as revealing the key.
+ */
+export async function readWalletSecrets(
+  userPassword: string,
+  log?: LogFn
+): Promise<{ secrets: WalletSecrets; legacy: boolean }> {
   const data = await chrome.storage.local.get("walletData");
   if (!data.walletData) {
     throw new Error("No wallet found in storage.");
   }
 
-  const walletData: StoredWalletData = data.walletData;
+  const walletData: unknown = data.walletData;
+  try {
+    if (isVersionedKeystore(walletData)) {
+      return {
+        secrets: await decryptWalletSecrets(walletData, userPassword),
+        legacy: false,
+      };
+    }
+    if (isLegacyWalletData(walletData)) {
+      return {
+        secrets: decryptLegacyWalletData(walletData, userPassword),
+        legacy: true,
+      };
+    }
+  } catch (decryptError) {
+    log?.("Decryption failed", decryptError);
+    throw new Error("Invalid password.");
+  }
+  throw new Error("Unsupported wallet data format.");
+}
+
+export async function unlockAndInitializeWallet(
+  userPassword: string,
+  log?: LogFn
+): Promise<UnlockedAccount[]> {
+  const { secrets, legacy } = await readWalletSecrets(userPassword, log);
+  const { labels } = await loadAccountMeta();
 
+  let accounts: UnlockedAccount[];
   try {
-    const bytes = CryptoJS.AES.decrypt(
-      walletData.encryptedPrivateKey,
-      userPassword
+    accounts = deriveAccounts(secrets, labels);
+  } catch (keyError) {
+    log?.("Stored private key is invalid", keyError);
+    throw new Error("Invalid password.");
+  }
+
+  if (legacy) {
+    await migrateLegacyWalletData(
+      accounts[0].address,
+      { privateKey: accounts[0].privateKey },
+      userPassword,
+      log
     );
-    const privateKey = bytes.toString(CryptoJS.enc.Utf8);
+  }
+
+  return accounts;
+}
 
-    if (!privateKey) {
-      throw new Error("Invalid password.");
+/**
+ * Adds an HD or imported account to the keystore. Re-encrypting the keystore
+ * needs the password, so the caller must supply it again.
+ */
+export async function addAccount(
+  password: string,
+  request: AddAccountRequest,
+  log?: LogFn
+): Promise<{ accounts: UnlockedAccount[]; added: UnlockedAccount }> {
+  const { secrets } = await readWalletSecrets(password, log);
+  const { labels } = await loadAccountMeta();
+  const existing = deriveAccounts(secrets, labels);
+  const next: WalletSecrets = { ...secrets };
+
+  if (request.kind === "derived") {
+    if (!secrets.mnemonic || existing[0]?.kind !== "derived") {
+      throw new Error(
+        "This wallet has no recovery phrase, so new accounts cannot be derived. Import a private key instead."
+      );
+    }
+    next.derivedCount = Math.max(1, secrets.derivedCount ?? 1) + 1;
+  } else {
+    let imported: ethers.Wallet;
+    try {
+      const raw = request.privateKey.trim();
+      imported = new ethers.Wallet(raw.startsWith("0x") ? raw : `0x${raw}`);
+    } catch {
+      throw new Error("Invalid private key format.");
     }
+    if (existing.some((account) => sameAddress(account.address, imported.address))) {
+      throw new Error("This account is already in your wallet.");
+    }
+    next.importedKeys = [...(secrets.importedKeys ?? []), imported.privateKey];
+  }
 
-    const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
-    const ethersWallet = new ethers.Wallet(privateKey, provider);
+  const accounts = deriveAccounts(next, labels);
+  const walletData = await encryptWalletSecrets(accounts[0].address, next, password);
+  await chrome.storage.local.set({ walletData });
 
-    return {
-      address: ethersWallet.address,
-      privateKey: ethersWallet.privateKey,
-      mnemonic: "",
-      provider,
-    };
-  } catch (decryptError) {
-    log?.("Decryption failed", decryptError);
-    throw new Error("Invalid password.");
+  const added = accounts.find(
+    (account) => !existing.some((old) => sameAddress(old.address, account.address))
+  );
+  if (!added) {
+    throw new Error("Failed to add account.");
   }
+  return { accounts, added };
 }
-
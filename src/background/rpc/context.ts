@@ -0,0 +1,70 @@
+import type { ethers } from "ethers";
+import type { User } from "@supabase/supabase-js";
+import type { WalletInfo } from "../../types";
+import type { AutoLockReason } from "../../types/autoLock";
+import type { WalletAccountsState } from "../../types/rpc";
+import type { LogFn } from "../core/logger";
+import type { UnlockedAccount } from "../features/accounts";
+import type { AddressBookApi } from "../features/addressBook";
+import type { AllowancesApi } from "../features/allowances";
+import type { AutoLockApi } from "../features/autoLock";
+import type { DappConnectionsApi } from "../features/dappConnections";
+import type { HandleResolverApi } from "../features/handleResolver";
+import type { IncomingTransfersApi } from "../features/incomingTransfers";
+import type { PriceAlertsApi } from "../features/priceAlerts";
+import type { PriceServiceApi } from "../features/priceService";
+import type { PromotionIndexApi } from "../features/promotionIndex";
+import type { RecoveryBackupApi } from "../features/recoveryBackup";
+import type { RpcHealthApi } from "../features/rpcHealth";
+import type { SpendingPolicyApi } from "../features/spendingPolicy";
+import type { SwapServiceApi } from "../features/swap";
+import type { TokenRegistryApi } from "../features/tokenRegistry";
+import type { TxJournalApi } from "../features/txJournal";
+import type { TxSchedulerApi } from "../features/txScheduler";
+import type { TypedDataSignerApi } from "../features/typedDataSigner";
+import type { WalletActionQueueApi } from "../features/walletActionQueue";
+
+/**
+ * Background state and services the message handlers work with. The
+ * service worker owns the state; handlers only go through these accessors.
+ */
+export interface BackgroundContext {
+  log: LogFn;
+  walletActions: WalletActionQueueApi;
+  txScheduler: TxSchedulerApi;
+  txJournal: TxJournalApi;
+  autoLock: AutoLockApi;
+  spendingPolicy: SpendingPolicyApi;
+  rpcHealth: RpcHealthApi;
+  handleResolver: HandleResolverApi;
+  addressBook: AddressBookApi;
+  dappConnections: DappConnectionsApi;
+  typedDataSigner: TypedDataSignerApi;
+  tokenRegistry: TokenRegistryApi;
+  allowances: AllowancesApi;
+  swap: SwapServiceApi;
+  recoveryBackup: RecoveryBackupApi;
+  prices: PriceServiceApi;
+  priceAlerts: PriceAlertsApi;
+  incomingTransfers: IncomingTransfersApi;
+  promotionIndex: PromotionIndexApi;
+  /** The active account, or null while locked. */
+  getWallet: () => WalletInfo | null;
+  /** Provider for reads, available while locked too. */
+  getProvider: () => ethers.Provider;
+  getTwitterUser: () => User | null;
+  setTwitterUser: (user: User | null) => void;
+  getUnlockedAccounts: () => UnlockedAccount[];
+  getAccountsState: () => WalletAccountsState;
+  /**
+   * Loads the keyring and makes one account active. Falls back to the last
+   * selected account, then to the first one.
+   */
+  activateAccounts: (
+    accounts: UnlockedAccount[],
+    preferredAddress?: string
+  ) => Promise<void>;
+  /** Applies a label change to the unlocked keyring and notifies pages. */
+  relabelAccount: (address: string, label: string) => void;
+  lockWallet: (reason: AutoLockReason) => void;
+}
@@ -0,0 +1,60 @@
+import type { BackgroundContext } from "../context";
+import type { RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type AddressBookRpcType =
+  | "RESOLVE_HANDLE"
+  | "GET_ADDRESS_BOOK"
+  | "SAVE_ADDRESS_BOOK_ENTRY"
+  | "REMOVE_ADDRESS_BOOK_ENTRY";
+
+export function createAddressBookHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<AddressBookRpcType> {
+  const { handleResolver, addressBook } = ctx;
+
+  return {
+    RESOLVE_HANDLE: {
+      validate: v.object({
+        handle: v.string(),
+        refresh: v.optional(v.boolean()),
+      }),
+      handle: async ({ handle, refresh }) => ({
+        success: true,
+        profile: await handleResolver.resolve(handle, { refresh }),
+      }),
+    },
+
+    GET_ADDRESS_BOOK: {
+      extensionPagesOnly: true,
+      validate: v.empty(),
+      handle: async () => ({ success: true, entries: await addressBook.list() }),
+    },
+
+    SAVE_ADDRESS_BOOK_ENTRY: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        entry: v.object({
+          address: v.optional(v.string()),
+          handle: v.optional(v.string()),
+          label: v.optional(v.string()),
+          note: v.optional(v.string()),
+          favorite: v.optional(v.boolean()),
+        }),
+      }),
+      handle: async ({ entry }) => ({
+        success: true,
+        entries: await addressBook.save(entry),
+      }),
+    },
+
+    REMOVE_ADDRESS_BOOK_ENTRY: {
+      extensionPagesOnly: true,
+      validate: v.object({ address: v.string() }),
+      handle: async ({ address }) => ({
+        success: true,
+        entries: await addressBook.remove(address),
+      }),
+    },
+  };
+}
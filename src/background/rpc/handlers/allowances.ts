@@ -0,0 +1,108 @@
+import { ethers } from "ethers";
+import { formatAddressShort } from "../../../utils/formatters";
+import { ERC20_APPROVE_GAS, feeEstimator } from "../../features/gasFees";
+import { waitForReceipt } from "../../features/txScheduler";
+import { waitForWalletAction } from "../../features/walletActionQueue";
+import type { BackgroundContext } from "../context";
+import {
+  rpcFailure,
+  type RpcHandlerGroup,
+  type RpcHandlerResult,
+} from "../router";
+import * as v from "../validate";
+
+type AllowanceRpcType = "GET_ALLOWANCES" | "SET_ALLOWANCE";
+
+export function createAllowanceHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<AllowanceRpcType> {
+  const { log, autoLock, txScheduler, walletActions, allowances } = ctx;
+
+  return {
+    GET_ALLOWANCES: {
+      extensionPagesOnly: true,
+      validate: v.object({ address: v.optional(v.string()) }),
+      handle: async ({ address }) => {
+        const owner = address ?? ctx.getWallet()?.address;
+        if (!owner) {
+          return rpcFailure("Wallet is locked.");
+        }
+        return { success: true, ...(await allowances.list(owner)) };
+      },
+    },
+
+    // An amount of "0" revokes the approval.
+    SET_ALLOWANCE: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          tokenAddress: v.string(),
+          spender: v.string(),
+          amount: v.string(),
+        }),
+      }),
+      handle: async ({ payload: { tokenAddress, spender, amount } }) => {
+        const wallet = ctx.getWallet();
+        if (!wallet) {
+          return rpcFailure("Wallet is locked.");
+        }
+        const owner = wallet.address;
+        const { tx, symbol, value } = await allowances.buildApprove(
+          tokenAddress,
+          spender,
+          amount
+        );
+        const revoke = value === 0n;
+        const spenderName =
+          allowances.spenderLabel(spender) ?? formatAddressShort(spender);
+        const label = revoke ? `Revoke ${symbol} approval` : `Approve ${symbol}`;
+
+        return waitForWalletAction(
+          walletActions,
+          {
+            title: revoke ? "Revoke approval" : "Set approval",
+            description: revoke
+              ? `Stop ${spenderName} from spending your ${symbol}`
+              : `Let ${spenderName} spend up to ${amount} ${symbol}`,
+            details: {
+              token: symbol,
+              spender: ethers.getAddress(spender),
+              allowance: revoke ? "0" : amount,
+            },
+            estimateFee: feeEstimator(ctx.getWallet, async () => [
+              { tx, fallbackGasLimit: ERC20_APPROVE_GAS },
+            ]),
+          },
+          async (): Promise<RpcHandlerResult<"SET_ALLOWANCE">> => {
+            autoLock.touch();
+            try {
+              const sent = await txScheduler.send({
+                label,
+                from: owner,
+                dedupeKey: `allowance:${tx.to}:${spender}`.toLowerCase(),
+                details: {
+                  source: "ALLOWANCE",
+                  recipient: ethers.getAddress(spender),
+                  tokenSymbol: symbol,
+                  amount: revoke ? "0" : amount,
+                },
+                build: ({ signer, nonce }) =>
+                  signer.sendTransaction({ ...tx, nonce }),
+              });
+              await allowances
+                .track(owner, tokenAddress, spender)
+                .catch((err) => log("Failed to track approval", err));
+              await waitForReceipt(sent);
+              return { success: true, txHash: sent.hash };
+            } catch (err: any) {
+              const reason =
+                err?.reason || err?.shortMessage || err?.message || "Approval failed";
+              log(`${label} failed:`, reason, err);
+              return rpcFailure(reason);
+            }
+          }
+        );
+      },
+    },
+  };
+}
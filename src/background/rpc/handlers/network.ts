@@ -0,0 +1,178 @@
+import { StorageClient, immutable } from "@lens-chain/storage-client";
+import { chains } from "@lens-chain/sdk/viem";
+import { ARENA_TOKEN } from "../../../constants";
+import type { BackgroundContext } from "../context";
+import { rpcFailure, type RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type NetworkRpcType =
+  | "FETCH_DEV_TRADES"
+  | "FETCH_PRESALE_TRADES"
+  | "FETCH_ARENA_PRICE"
+  | "FETCH_TEXT"
+  | "UPLOAD_GROVE_JSON"
+  | "GET_RPC_STATUS"
+  | "CHECK_RPC_HEALTH"
+  | "SET_RPC_ENDPOINTS";
+
+const ARENAPRO_API_URL =
+  import.meta.env.VITE_ARENAPRO_API_URL || "https://api.arenapro.io";
+const GROVE_API_URL =
+  import.meta.env.VITE_GROVE_API_URL || "https://api.grove.storage";
+
+const tradesRequest = v.object({
+  payload: v.object({ tokenAddress: v.string(), userAddress: v.string() }),
+});
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(
+      `HTTP ${response.status} ${response.statusText}${body ? `: ${body}` : ""}`
+    );
+  }
+  return response.json();
+};
+
+const decodeDataUri = (url: string) => {
+  const payload = url.split(",")[1] || "";
+  if (!/;base64,/.test(url)) {
+    try {
+      return decodeURIComponent(payload);
+    } catch {
+      return payload;
+    }
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder("utf-8").decode(bytes);
+};
+
+const toDataUri = (obj: unknown) => {
+  const json = JSON.stringify(obj ?? {}, null, 2);
+  const base64 = btoa(unescape(encodeURIComponent(json)));
+  return `data:application/json;base64,${base64}`;
+};
+
+export function createNetworkHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<NetworkRpcType> {
+  const { log, rpcHealth, prices } = ctx;
+
+  return {
+    FETCH_DEV_TRADES: {
+      validate: tradesRequest,
+      handle: async ({ payload: { tokenAddress, userAddress } }) => {
+        log(`Fetching dev trades for ${tokenAddress} and user ${userAddress}`);
+        const data = await fetchJson(
+          `${ARENAPRO_API_URL}/dex_trades_view?token_contract_address=eq.${tokenAddress.toLowerCase()}&order=create_time.desc&limit=1000&offset=0&sender_address=eq.${userAddress}`
+        );
+        return { success: true, data };
+      },
+    },
+
+    FETCH_PRESALE_TRADES: {
+      validate: tradesRequest,
+      handle: async ({ payload: { tokenAddress, userAddress } }) => {
+        log(
+          `Fetching presale trades for ${tokenAddress} and user ${userAddress}`
+        );
+        const data = await fetchJson(
+          `${ARENAPRO_API_URL}/token_trades_view?token_contract_address=eq.${tokenAddress.toLowerCase()}&order=create_time.desc&limit=15&offset=0&user_address=eq.${userAddress.toLowerCase()}`
+        );
+        return { success: true, data };
+      },
+    },
+
+    // Background script can make API calls without CORS restrictions
+    FETCH_ARENA_PRICE: {
+      validate: v.empty(),
+      handle: async () => {
+        const { [ARENA_TOKEN.address.toLowerCase()]: price } =
+          await prices.getPrices([ARENA_TOKEN.address]);
+        return price
+          ? { success: true, price: price.priceUsd, data: price }
+          : rpcFailure("ARENA price is unavailable.");
+      },
+    },
+
+    FETCH_TEXT: {
+      validate: v.object({ url: v.string() }),
+      handle: async ({ url }) => {
+        if (url.startsWith("data:")) {
+          try {
+            return { success: true, text: decodeDataUri(url) };
+          } catch (decodeError: any) {
+            log("Failed to decode data URI", decodeError);
+            return rpcFailure(
+              decodeError?.message || "Failed to decode data URI"
+            );
+          }
+        }
+        const target = url.startsWith("lens://")
+          ? `${GROVE_API_URL}/${url.replace("lens://", "")}`
+          : url;
+        const res = await fetch(target);
+        if (!res.ok) {
+          return rpcFailure(`HTTP ${res.status}`);
+        }
+        return { success: true, text: await res.text() };
+      },
+    },
+
+    UPLOAD_GROVE_JSON: {
+      validate: v.object({ payload: v.unknown() }),
+      handle: async ({ payload }) => {
+        try {
+          // Initialize client per call to avoid stale context
+          const storageClient = StorageClient.create();
+          // Use immutable ACL on testnet by default (adjust to mainnet if needed)
+          const acl = immutable(chains.testnet.id);
+          const result: any = await storageClient.uploadAsJson(
+            (payload ?? {}) as object,
+            { acl }
+          );
+          return {
+            success: true,
+            uri: result.uri,
+            gatewayUrl: result.gatewayUrl,
+            storageKey: result.storageKey,
+          };
+        } catch (e: any) {
+          // Fallback to data URI to keep UX unblocked
+          return {
+            success: true,
+            uri: toDataUri(payload),
+            warning: e?.message || String(e),
+          };
+        }
+      },
+    },
+
+    GET_RPC_STATUS: {
+      validate: v.empty(),
+      handle: async () => ({ success: true, status: await rpcHealth.getStatus() }),
+    },
+
+    CHECK_RPC_HEALTH: {
+      validate: v.empty(),
+      handle: async () => ({ success: true, status: await rpcHealth.check() }),
+    },
+
+    // Every read and signed send goes through these endpoints.
+    SET_RPC_ENDPOINTS: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({ endpoints: v.array(v.string()) }),
+      }),
+      handle: async ({ payload }) => ({
+        success: true,
+        status: await rpcHealth.setEndpoints(payload.endpoints),
+      }),
+    },
+  };
+}
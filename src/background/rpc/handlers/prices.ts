@@ -0,0 +1,95 @@
+import type { PriceAlertCondition } from "../../../types/priceAlerts";
+import type { BackgroundContext } from "../context";
+import type { RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type PriceRpcType =
+  | "GET_TOKEN_PRICES"
+  | "GET_PRICE_HISTORY"
+  | "GET_PRICE_ALERTS"
+  | "SAVE_PRICE_ALERT"
+  | "REMOVE_PRICE_ALERT";
+
+const DEFAULT_HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+
+const alertCondition: v.Validator<PriceAlertCondition> = (value, path) => {
+  const { kind, priceUsd, percent, windowMinutes } = v.object({
+    kind: v.literal("above", "below", "move"),
+    priceUsd: v.optional(v.number()),
+    percent: v.optional(v.number()),
+    windowMinutes: v.optional(v.number()),
+  })(value, path);
+  if (kind === "move") {
+    return {
+      kind,
+      percent: v.number()(percent, `${path}.percent`),
+      windowMinutes: v.number()(windowMinutes, `${path}.windowMinutes`),
+    };
+  }
+  return { kind, priceUsd: v.number()(priceUsd, `${path}.priceUsd`) };
+};
+
+export function createPriceHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<PriceRpcType> {
+  const { prices, priceAlerts } = ctx;
+
+  return {
+    GET_TOKEN_PRICES: {
+      validate: v.object({
+        addresses: v.array(v.string()),
+        refresh: v.optional(v.boolean()),
+      }),
+      handle: async ({ addresses, refresh }) => ({
+        success: true,
+        prices: await prices.getPrices(addresses, { refresh }),
+      }),
+    },
+
+    GET_PRICE_HISTORY: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        addresses: v.array(v.string()),
+        since: v.optional(v.number()),
+      }),
+      handle: async ({ addresses, since }) => ({
+        success: true,
+        history: await prices.getHistory(
+          addresses,
+          since ?? Date.now() - DEFAULT_HISTORY_MS
+        ),
+      }),
+    },
+
+    GET_PRICE_ALERTS: {
+      extensionPagesOnly: true,
+      validate: v.empty(),
+      handle: async () => ({ success: true, alerts: await priceAlerts.list() }),
+    },
+
+    SAVE_PRICE_ALERT: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        alert: v.object({
+          id: v.optional(v.string()),
+          tokenAddress: v.string(),
+          condition: alertCondition,
+          enabled: v.optional(v.boolean()),
+        }),
+      }),
+      handle: async ({ alert }) => {
+        const saved = await priceAlerts.save(alert);
+        return { success: true, alert: saved, alerts: await priceAlerts.list() };
+      },
+    },
+
+    REMOVE_PRICE_ALERT: {
+      extensionPagesOnly: true,
+      validate: v.object({ id: v.string() }),
+      handle: async ({ id }) => ({
+        success: true,
+        alerts: await priceAlerts.remove(id),
+      }),
+    },
+  };
+}
@@ -0,0 +1,1091 @@
+import { ethers } from "ethers";
+import type {
+  OnchainPromotion,
+  PromotionLookupError,
+  RpcRequest,
+  UnclaimedPromotion,
+} from "../../../types/rpc";
+import type { TxDetails } from "../../../types/transactions";
+import type { ContractSource } from "../../../services/post2earn/types";
+import { ERC20_ABI, fetchErc20Metadata } from "../../features/erc20";
+import {
+  ERC20_APPROVE_GAS,
+  feeEstimator,
+  type PlannedTx,
+} from "../../features/gasFees";
+import {
+  ENGAGEMENT_TYPES,
+  getKnownPost2EarnAddresses,
+  getLegacyPost2EarnContract,
+  getPost2EarnAddressOrThrow,
+  getPost2EarnContract,
+  getPost2EarnDomain,
+  verifyEngagementDigest,
+  type EngagementMessage,
+} from "../../features/post2earnClient";
+import { waitForReceipt } from "../../features/txScheduler";
+import type { BackgroundContext } from "../context";
+import {
+  rpcFailure,
+  type RpcHandlerGroup,
+  type RpcHandlerResult,
+} from "../router";
+import * as v from "../validate";
+
+type PromotionRpcType =
+  | "REQUEST_CREATE_PROMOTION_APPROVAL"
+  | "CANCEL_CREATE_PROMOTION_APPROVAL"
+  | "CREATE_PROMOTION"
+  | "CANCEL_PROMOTION"
+  | "ENGAGE_IN_PROMOTION"
+  | "CLAIM_REWARD"
+  | "FETCH_PROMOTIONS"
+  | "FETCH_PROMOTIONS_FILTERED"
+  | "FETCH_MY_PROMOTIONS"
+  | "FETCH_UNCLAIMED_REWARDS"
+  | "GET_REWARD_TOKEN_METADATA";
+
+type CreatePromotionInput = {
+  promotionType: number;
+  slots: number;
+  amount: number;
+  minFollowers: number;
+  expiresOn: number;
+  postId: string;
+  contentURI: string;
+  content: string;
+  rewardTokenAddress?: string;
+  arenaUserId: string;
+};
+
+type PendingCreatePromotionApproval = Omit<CreatePromotionInput, "content"> & {
+  rewardTokenSymbol: string;
+  queueId?: string;
+  approved: boolean;
+  tabId?: number;
+};
+
+const GROVE_API_URL =
+  import.meta.env.VITE_GROVE_API_URL || "https://api.grove.storage";
+const ENGAGE_API_URL =
+  import.meta.env.VITE_ENGAGE_API_URL || "http://paid4.daki.cc:4008/engage/iframe";
+
+// createPromotion cannot be simulated before its approve() is mined.
+const CREATE_PROMOTION_GAS = 500_000n;
+
+const TASK_LABELS: Record<number, string> = {
+  0: "Comment",
+  1: "Repost",
+  2: "Quote",
+};
+
+const promotionFields = {
+  promotionType: v.optional(v.numeric()),
+  slots: v.optional(v.numeric()),
+  amount: v.optional(v.numeric()),
+  minFollowers: v.optional(v.numeric()),
+  expiresOn: v.optional(v.numeric()),
+  postId: v.optional(v.string()),
+  contentURI: v.optional(v.string()),
+  rewardTokenAddress: v.optional(v.string()),
+  arenaUserId: v.optional(v.string()),
+};
+
+const toCreatePromotionInput = (
+  payload: RpcRequest<"CREATE_PROMOTION">["payload"]
+): CreatePromotionInput => ({
+  promotionType: Number(payload.promotionType ?? 0),
+  slots: Number(payload.slots || 0),
+  amount: Number(payload.amount || 0),
+  minFollowers: Number(payload.minFollowers || 0),
+  expiresOn: Number(payload.expiresOn || 0),
+  postId: payload.postId || "",
+  contentURI: payload.contentURI || "",
+  content: payload.content || "",
+  rewardTokenAddress: payload.rewardTokenAddress,
+  arenaUserId: payload.arenaUserId || "",
+});
+
+/** The approve() step, when the allowance is short, then createPromotion. */
+async function planCreatePromotion(
+  provider: ethers.Provider,
+  from: string,
+  input: CreatePromotionInput
+): Promise<PlannedTx[]> {
+  const contract = getPost2EarnContract(provider);
+  const rewardToken: string =
+    input.rewardTokenAddress || (await contract.platformToken());
+  const token = new ethers.Contract(rewardToken, ERC20_ABI, provider);
+  const decimals = await token.decimals().catch(() => 18);
+  const vaultAmount = ethers.parseUnits(input.amount.toString(), decimals);
+  const allowance: bigint = await token.allowance(from, contract.target);
+
+  const plan: PlannedTx[] = [];
+  if (allowance < vaultAmount) {
+    plan.push({
+      tx: {
+        to: rewardToken,
+        data: token.interface.encodeFunctionData("approve", [
+          contract.target,
+          vaultAmount,
+        ]),
+      },
+      fallbackGasLimit: ERC20_APPROVE_GAS,
+    });
+  }
+  plan.push({
+    tx: {
+      to: contract.target as string,
+      data: contract.interface.encodeFunctionData("createPromotion", [
+        rewardToken,
+        input.promotionType,
+        input.slots,
+        vaultAmount,
+        input.minFollowers,
+        input.expiresOn,
+        input.postId,
+        input.contentURI,
+        input.content,
+        input.arenaUserId,
+      ]),
+    },
+    fallbackGasLimit: CREATE_PROMOTION_GAS,
+  });
+  return plan;
+}
+
+const toNumber = (value: unknown) =>
+  typeof value === "bigint" ? Number(value) : Number(value);
+
+// The index already logs promotions it could not read.
+const isPromotion = (
+  value: OnchainPromotion | PromotionLookupError
+): value is OnchainPromotion => !("error" in value);
+
+const readResponseContent = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) return "";
+  const text = await res.text();
+  try {
+    return JSON.parse(text).content || text;
+  } catch {
+    return text;
+  }
+};
+
+const sendPromotionMessage = (
+  payload: any,
+  reason: string,
+  tabId?: number
+) => {
+  if (typeof tabId === "number") {
+    chrome.tabs.sendMessage(tabId, payload).catch((err) => {
+      console.warn(`[AREX] Failed to send ${reason} message to tab ${tabId}:`, err);
+    });
+  } else {
+    chrome.tabs.query({}, (tabs) => {
+      tabs.forEach((tab) => {
+        if (tab.id) {
+          chrome.tabs.sendMessage(tab.id, payload).catch(() => { });
+        }
+      });
+    });
+  }
+};
+
+const notifyCreatePromotionApprovalEvent = (
+  contextId: string | undefined,
+  tabId: number | undefined,
+  type: "CREATE_PROMOTION_APPROVAL_GRANTED" | "CREATE_PROMOTION_APPROVAL_DENIED",
+  error?: string
+) => {
+  if (!contextId) return;
+  sendPromotionMessage(
+    {
+      type,
+      contextId,
+      error,
+    },
+    "create promotion approval",
+    tabId
+  );
+};
+
+const notifyCreatePromotionApprovalGranted = (
+  contextId?: string,
+  tabId?: number
+) => notifyCreatePromotionApprovalEvent(contextId, tabId, "CREATE_PROMOTION_APPROVAL_GRANTED");
+
+const notifyCreatePromotionApprovalDenied = (
+  contextId?: string,
+  tabId?: number,
+  error?: string
+) =>
+  notifyCreatePromotionApprovalEvent(
+    contextId,
+    tabId,
+    "CREATE_PROMOTION_APPROVAL_DENIED",
+    error
+  );
+
+const contractFailureReason = (err: any, fallback: string): string =>
+  err?.reason ||
+  err?.shortMessage ||
+  err?.data?.message ||
+  err?.error?.message ||
+  err?.message ||
+  fallback;
+
+export function createPromotionHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<PromotionRpcType> {
+  const {
+    log,
+    autoLock,
+    txScheduler,
+    walletActions,
+    handleResolver,
+    typedDataSigner,
+  } = ctx;
+  const pendingCreatePromotionApprovals = new Map<
+    string,
+    PendingCreatePromotionApproval
+  >();
+  let engageInPromotionInFlight = false;
+
+  async function executeCreatePromotion({
+    promotionType,
+    slots,
+    amount,
+    minFollowers,
+    expiresOn,
+    postId,
+    contentURI,
+    content,
+    rewardTokenAddress,
+    arenaUserId,
+  }: CreatePromotionInput): Promise<RpcHandlerResult<"CREATE_PROMOTION">> {
+    const wallet = ctx.getWallet();
+    if (!wallet) {
+      return rpcFailure("Wallet is locked.");
+    }
+
+    autoLock.touch();
+    try {
+      if (!postId) {
+        log("CREATE_PROMOTION: Missing postId");
+        return rpcFailure("Missing postId.");
+      }
+      if (!slots || slots < 1) {
+        log("CREATE_PROMOTION: Invalid slots value", slots);
+        return rpcFailure("Slots must be at least 1.");
+      }
+      if (!amount || amount <= 0) {
+        log("CREATE_PROMOTION: Invalid amount value", amount);
+        return rpcFailure("Amount must be greater than 0.");
+      }
+      if (!arenaUserId) {
+        log("CREATE_PROMOTION: Missing arenaUserId");
+        return rpcFailure("Arena User ID is required.");
+      }
+
+      const signer = new ethers.Wallet(wallet.privateKey, wallet.provider);
+      let post2EarnCA: string;
+      let contract: any;
+      try {
+        post2EarnCA = getPost2EarnAddressOrThrow();
+        contract = getPost2EarnContract(signer);
+      } catch (e: any) {
+        return rpcFailure(e?.message || "Invalid Post2Earn contract address.");
+      }
+      log(`CREATE_PROMOTION: Using Post2Earn at ${post2EarnCA}`);
+
+      let onchainRewardToken = rewardTokenAddress;
+      if (!onchainRewardToken) {
+        onchainRewardToken = await contract.platformToken();
+      }
+
+      if (
+        !onchainRewardToken ||
+        !ethers.isAddress(onchainRewardToken) ||
+        onchainRewardToken === ethers.ZeroAddress
+      ) {
+        return rpcFailure("Invalid reward token address returned by contract.");
+      }
+      log(`CREATE_PROMOTION: Resolved reward token ${onchainRewardToken}`);
+      const token = new ethers.Contract(onchainRewardToken, ERC20_ABI, signer);
+
+      let tokenDecimalsRaw: any = 18;
+      try {
+        tokenDecimalsRaw = await token.decimals();
+      } catch (_) {
+        log("CREATE_PROMOTION: decimals() not available on token, assuming 18");
+      }
+      const tokenDecimals = toNumber(tokenDecimalsRaw);
+      if (!Number.isFinite(tokenDecimals)) {
+        log(
+          `CREATE_PROMOTION: Could not parse token decimals (typeof=${typeof tokenDecimalsRaw}), assuming 18`
+        );
+      }
+
+      const vaultAmount = ethers.parseUnits(amount.toString(), tokenDecimals);
+      const rewardPerSlot = vaultAmount / BigInt(slots);
+      if (vaultAmount <= 0n) {
+        return rpcFailure("Vault amount must be greater than 0.");
+      }
+
+      const nowTs = Math.floor(Date.now() / 1000);
+      if (expiresOn <= nowTs) {
+        log(
+          `CREATE_PROMOTION: Expiry in past nowTs=${nowTs} expiresOn=${expiresOn}`
+        );
+        return rpcFailure("Expiry must be in the future.");
+      }
+      if (rewardPerSlot <= 0n) {
+        log("CREATE_PROMOTION: Reward per slot computed as 0");
+        return rpcFailure("Amount too low for given slots.");
+      }
+
+      const signerAddress = signer.address;
+      const balance: bigint = await token.balanceOf(signerAddress);
+      if (balance < vaultAmount) {
+        const need = ethers.formatUnits(vaultAmount, tokenDecimals);
+        const have = ethers.formatUnits(balance, tokenDecimals);
+        log(`CREATE_PROMOTION: Insufficient balance. Need ${need}, have ${have}`);
+        return rpcFailure(`Insufficient balance. Need ${need}, have ${have}.`);
+      }
+
+      const currentAllowance: bigint = await token.allowance(
+        signerAddress,
+        contract.target
+      );
+      const dedupeKey = `create-promotion:${postId}`;
+      const details: TxDetails = {
+        source: "CREATE_PROMOTION",
+        sourceId: postId,
+        tokenSymbol: await token.symbol().catch(() => undefined),
+        amount: amount.toString(),
+      };
+      if (currentAllowance < vaultAmount) {
+        log(
+          `CREATE_PROMOTION: Approving allowance from ${ethers.formatUnits(
+            currentAllowance,
+            tokenDecimals
+          )} to ${ethers.formatUnits(vaultAmount, tokenDecimals)}`
+        );
+        const approveTx = await txScheduler.send({
+          label: "Approve promotion vault",
+          from: signer.address,
+          dedupeKey,
+          details,
+          build: ({ nonce }) =>
+            token.approve(contract.target, vaultAmount, { nonce }),
+        });
+        // createPromotion pulls the vault, so its gas estimate needs the allowance mined.
+        const approveRcpt = await waitForReceipt(approveTx);
+        log(
+          `CREATE_PROMOTION: Approve tx confirmed in block ${approveRcpt?.blockNumber}`
+        );
+      } else {
+        log(
+          `CREATE_PROMOTION: Existing allowance sufficient: ${ethers.formatUnits(
+            currentAllowance,
+            tokenDecimals
+          )}`
+        );
+      }
+
+      log(
+        `CREATE_PROMOTION: Submitting createPromotion type=${promotionType} slots=${slots} vault=${vaultAmount.toString()} minFollowers=${minFollowers} expiresOn=${expiresOn} postId=${postId}`
+      );
+      const tx = await txScheduler.send({
+        label: "Create promotion",
+        from: signer.address,
+        dedupeKey,
+        details,
+        build: ({ nonce }) =>
+          contract.createPromotion(
+            onchainRewardToken,
+            promotionType,
+            slots,
+            vaultAmount,
+            minFollowers,
+            expiresOn,
+            postId,
+            contentURI,
+            content,
+            arenaUserId,
+            { nonce }
+          ),
+      });
+
+      waitForReceipt(tx)
+        .then(() => chrome.runtime.sendMessage({ type: "BALANCE_UPDATED" }))
+        .catch(() => undefined);
+
+      return { success: true, txHash: tx.hash };
+    } catch (err: any) {
+      const reason = contractFailureReason(err, "Transaction failed");
+      log("Error creating promotion:", reason, err);
+      return rpcFailure(reason);
+    }
+  }
+
+  async function executeEngage({
+    promotionId,
+    engagementPostId,
+    promotionPostId,
+    engagementType,
+    content: contentFromFrontend,
+    followerCount: followerCountFromFrontend,
+  }: RpcRequest<"ENGAGE_IN_PROMOTION">["payload"]): Promise<
+    RpcHandlerResult<"ENGAGE_IN_PROMOTION">
+  > {
+    const wallet = ctx.getWallet();
+    const twitterUser = ctx.getTwitterUser();
+    if (!wallet || !wallet.provider) {
+      log("Wallet is locked, returning error");
+      return rpcFailure("Wallet is locked.");
+    }
+    if (!twitterUser) {
+      log("User not logged in, returning error");
+      return rpcFailure("User not logged in.");
+    }
+    if (engageInPromotionInFlight) {
+      log("Another engagement in progress, returning error");
+      return rpcFailure("Another engagement is in progress.");
+    }
+
+    engageInPromotionInFlight = true;
+    autoLock.touch();
+    try {
+      const engager = wallet.address;
+      log("Starting engagement process...", {
+        promotionId,
+        engagementPostId,
+        promotionPostId,
+        signer: engager,
+      });
+
+      // Saves a signature and a backend round trip for a repeat engagement.
+      const engagements = await ctx.promotionIndex
+        .getEngagements(engager)
+        .catch((err) => {
+          log("Engagement lookup failed", err);
+          return [];
+        });
+      if (
+        engagements.some(
+          (item) =>
+            item.source === "v2" && item.promotionId === Number(promotionId)
+        )
+      ) {
+        return rpcFailure("You already engaged in this promotion.");
+      }
+
+      const twitterUsername = twitterUser.user_metadata?.user_name || "";
+      const loggedInUsername = twitterUser.user_metadata?.user_name || "";
+
+      // Prefer followerCount from frontend payload; fallback to API if missing
+      let followerCount = Number(followerCountFromFrontend ?? NaN);
+      if (Number.isNaN(followerCount)) {
+        log("Frontend did not provide followerCount; fetching for:", twitterUsername);
+        followerCount = 100; // fallback
+        try {
+          const profile = await handleResolver.resolve(twitterUsername);
+          if (profile) {
+            followerCount = profile.followerCount || 100;
+            log("Fetched actual follower count:", followerCount);
+          } else {
+            log("Arena user not found, using fallback follower count:", followerCount);
+          }
+        } catch (error) {
+          log("Error fetching follower count:", error);
+          log("Using fallback follower count:", followerCount);
+        }
+      } else {
+        log("Using followerCount provided by frontend:", followerCount);
+      }
+
+      // Read promotion details to enforce minFollowers
+      const readContract = getPost2EarnContract(ctx.getProvider());
+      const promoDetails = await readContract.getPromotionDetails(
+        Number(promotionId)
+      );
+      const minFollowersRequired = Number(promoDetails?.minFollowers ?? 0);
+      if (minFollowersRequired > 0 && followerCount < minFollowersRequired) {
+        const msg = `Insufficient followers. Required: ${minFollowersRequired}, Actual: ${followerCount}`;
+        log("ENGAGE_IN_PROMOTION blocked:", msg);
+        return rpcFailure(msg);
+      }
+
+      const message: EngagementMessage = {
+        promotionId: BigInt(promotionId),
+        twitterUsername,
+        engagementPostId,
+        followerCount: BigInt(followerCount),
+        engager,
+        arenaUserId: twitterUser.id,
+      };
+      const signed = await typedDataSigner.sign({
+        account: engager,
+        domain: getPost2EarnDomain((await wallet.provider.getNetwork()).chainId),
+        types: ENGAGEMENT_TYPES,
+        message: { ...message },
+        title: "Sign engagement",
+        description: `Promotion #${promotionId}`,
+        details: {
+          ...(engagementType ? { task: engagementType } : {}),
+          followers: followerCount,
+        },
+        verifyingContracts: getKnownPost2EarnAddresses(),
+        verifyDigest: (digest) =>
+          verifyEngagementDigest(ctx.getProvider(), message, digest),
+      });
+      if (!signed.success) {
+        log("Engagement signature not given:", signed.error);
+        return rpcFailure(signed.error);
+      }
+      const { signature } = signed;
+      log("Signature generated:", signature);
+
+      // Resolve content for this promotion. If frontend provided content (including empty string), prefer that.
+      let contentForEngagement: string =
+        typeof contentFromFrontend === "string" ? contentFromFrontend : "";
+      if (!contentForEngagement && engagementType !== "repost") {
+        try {
+          const uri: string = promoDetails.contentURI || "";
+          if (uri.startsWith("data:")) {
+            contentForEngagement = atob(uri.split(",")[1] || "");
+          } else if (uri.startsWith("lens://")) {
+            contentForEngagement = await readResponseContent(
+              `${GROVE_API_URL}/${uri.replace("lens://", "")}`
+            );
+          } else if (uri) {
+            contentForEngagement = await readResponseContent(uri);
+          }
+        } catch (e) {
+          log("Failed to resolve promotion content", e);
+        }
+      }
+
+      const payload = {
+        promotionId,
+        twitterUsername,
+        engagementPostId,
+        followerCount,
+        engager,
+        signature,
+        loggedInUsername,
+        promotionPostId,
+        content: contentForEngagement,
+        engagementType,
+        arenaUserId: twitterUser.id,
+      };
+      log("Calling backend API:", ENGAGE_API_URL, payload);
+
+      const apiResponse = await fetch(ENGAGE_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+      log("Backend API response status:", apiResponse.status);
+
+      if (!apiResponse.ok) {
+        const errorText = await apiResponse.text();
+        log("Backend API error response:", errorText);
+        let errorResult;
+        try {
+          errorResult = JSON.parse(errorText);
+        } catch {
+          errorResult = { error: errorText };
+        }
+        throw new Error(errorResult.error || "Backend API error");
+      }
+
+      const result = await apiResponse.json();
+      log("Backend API success:", result);
+      return {
+        success: true,
+        txHash: result.data?.contractTxHash || "backend-processed",
+      };
+    } catch (err: any) {
+      log("Engagement failed:", err);
+      return rpcFailure(contractFailureReason(err, "Engagement failed"));
+    } finally {
+      engageInPromotionInFlight = false;
+    }
+  }
+
+  return {
+    REQUEST_CREATE_PROMOTION_APPROVAL: {
+      validate: v.object({
+        payload: v.object({
+          ...promotionFields,
+          contextId: v.string(),
+          rewardTokenSymbol: v.optional(v.string()),
+        }),
+      }),
+      handle: ({ payload }, sender) => {
+        const contextId = payload.contextId;
+        const input = toCreatePromotionInput(payload);
+        const rewardTokenSymbol = payload.rewardTokenSymbol || "ARENA";
+        const requestTabId = sender.tab?.id;
+
+        if (!contextId) {
+          return rpcFailure("Missing promotion context.");
+        }
+        if (pendingCreatePromotionApprovals.has(contextId)) {
+          return rpcFailure("A promotion approval is already pending.");
+        }
+        if (!input.slots || input.slots <= 0) {
+          return rpcFailure("Invalid slots count.");
+        }
+        if (!input.amount || input.amount < 100) {
+          return rpcFailure("Minimum amount is 100 ARENA.");
+        }
+
+        const taskLabel = TASK_LABELS[input.promotionType] || "Unknown";
+        const queueId = walletActions.enqueue(
+          {
+            title: "Create Promotion",
+            description: `${taskLabel} promotion (${input.slots} slot${input.slots > 1 ? "s" : ""})`,
+            amount: input.amount.toString(),
+            tokenSymbol: rewardTokenSymbol,
+            estimateFee: feeEstimator(ctx.getWallet, ({ provider, address }) =>
+              planCreatePromotion(provider, address, input)
+            ),
+          },
+          async () => {
+            const pending = pendingCreatePromotionApprovals.get(contextId);
+            if (!pending) {
+              notifyCreatePromotionApprovalDenied(
+                contextId,
+                requestTabId,
+                "Promotion request expired."
+              );
+              return rpcFailure("Promotion request expired.");
+            }
+            pending.approved = true;
+            notifyCreatePromotionApprovalGranted(
+              contextId,
+              pending.tabId ?? requestTabId
+            );
+            return { success: true };
+          },
+          (response: any) => {
+            if (response?.success) return;
+            const pendingEntry = pendingCreatePromotionApprovals.get(contextId);
+            pendingCreatePromotionApprovals.delete(contextId);
+            notifyCreatePromotionApprovalDenied(
+              contextId,
+              pendingEntry?.tabId ?? requestTabId,
+              response?.error || "Wallet approval was rejected."
+            );
+          }
+        );
+
+        const { content: _content, ...approved } = input;
+        pendingCreatePromotionApprovals.set(contextId, {
+          ...approved,
+          rewardTokenAddress: payload.rewardTokenAddress || "",
+          rewardTokenSymbol,
+          queueId,
+          approved: false,
+          tabId: requestTabId,
+        });
+        return { success: true };
+      },
+    },
+
+    CANCEL_CREATE_PROMOTION_APPROVAL: {
+      validate: v.object({
+        contextId: v.string(),
+        reason: v.optional(v.string()),
+      }),
+      handle: ({ contextId, reason }) => {
+        if (!contextId) {
+          return rpcFailure("Missing promotion context.");
+        }
+        const pending = pendingCreatePromotionApprovals.get(contextId);
+        if (!pending) {
+          return rpcFailure("No pending promotion approval to cancel.");
+        }
+        if (!pending.approved && pending.queueId) {
+          walletActions.cancelById(
+            pending.queueId,
+            reason || "Promotion cancelled."
+          );
+        }
+        pendingCreatePromotionApprovals.delete(contextId);
+        return { success: true };
+      },
+    },
+
+    CREATE_PROMOTION: {
+      validate: v.object({
+        payload: v.object({
+          ...promotionFields,
+          contextId: v.optional(v.string()),
+          content: v.optional(v.string()),
+        }),
+      }),
+      handle: ({ payload }) => {
+        log("CREATE_PROMOTION received", payload);
+        const pending = payload.contextId
+          ? pendingCreatePromotionApprovals.get(payload.contextId)
+          : undefined;
+        if (!pending) {
+          // Fall back to direct execution (legacy support)
+          return executeCreatePromotion(toCreatePromotionInput(payload));
+        }
+        if (!pending.approved) {
+          return rpcFailure("Wallet approval is still pending.");
+        }
+        pendingCreatePromotionApprovals.delete(payload.contextId!);
+        // Approved data first; the request may still override it.
+        return executeCreatePromotion(
+          toCreatePromotionInput({ ...pending, ...payload })
+        );
+      },
+    },
+
+    CANCEL_PROMOTION: {
+      validate: v.object({
+        payload: v.object({ promotionId: v.number() }),
+      }),
+      handle: async ({ payload: { promotionId } }) => {
+        const wallet = ctx.getWallet();
+        if (!wallet || !wallet.provider) {
+          return rpcFailure("Wallet is locked. Please unlock your wallet first.");
+        }
+        if (promotionId < 0) {
+          return rpcFailure("Invalid promotion id.");
+        }
+
+        autoLock.touch();
+        const signer = new ethers.Wallet(wallet.privateKey, wallet.provider);
+        let contract: any;
+        try {
+          contract = getPost2EarnContract(signer);
+        } catch (e: any) {
+          return rpcFailure(e?.message || "Invalid Post2Earn contract address.");
+        }
+
+        const tx = await txScheduler.send({
+          label: "Cancel promotion",
+          from: signer.address,
+          dedupeKey: `cancel-promotion:${promotionId}`,
+          details: { source: "CANCEL_PROMOTION", sourceId: String(promotionId) },
+          build: ({ nonce }) => contract.cancelPromotion(promotionId, { nonce }),
+        });
+        const receipt = await waitForReceipt(tx);
+        return {
+          success: true,
+          txHash: tx.hash,
+          blockNumber: receipt?.blockNumber,
+        };
+      },
+    },
+
+    ENGAGE_IN_PROMOTION: {
+      validate: v.object({
+        payload: v.object({
+          promotionId: v.numeric(),
+          engagementPostId: v.string(),
+          promotionPostId: v.optional(v.string()),
+          engagementType: v.optional(v.string()),
+          content: v.optional(v.string()),
+          followerCount: v.optional(v.number()),
+        }),
+      }),
+      handle: ({ payload }) => {
+        log("ENGAGE_IN_PROMOTION message received:", payload);
+        return executeEngage(payload);
+      },
+    },
+
+    CLAIM_REWARD: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          promotionId: v.number(),
+          source: v.optional(v.literal("v2", "legacy")),
+        }),
+      }),
+      handle: async ({ payload: { promotionId, source } }) => {
+        const wallet = ctx.getWallet();
+        if (!wallet) {
+          return rpcFailure("Wallet is locked. Unlock to claim rewards.");
+        }
+        if (!Number.isInteger(promotionId) || promotionId < 0) {
+          return rpcFailure("Invalid promotion id.");
+        }
+
+        autoLock.touch();
+        try {
+          const signer = new ethers.Wallet(wallet.privateKey, wallet.provider);
+          const contract =
+            source === "legacy"
+              ? getLegacyPost2EarnContract(signer)
+              : getPost2EarnContract(signer);
+
+          const tx = await txScheduler.send({
+            label: "Claim reward",
+            from: signer.address,
+            dedupeKey: `claim:${source}:${promotionId}`,
+            details: { source: "CLAIM_REWARD", sourceId: String(promotionId) },
+            build: ({ nonce }) => contract.claimReward(promotionId, { nonce }),
+          });
+          await waitForReceipt(tx);
+          return { success: true, txHash: tx.hash };
+        } catch (err: any) {
+          const reason = contractFailureReason(err, "Failed to claim reward");
+          log("Error claiming reward:", reason, err);
+          return rpcFailure(reason);
+        }
+      },
+    },
+
+    FETCH_PROMOTIONS: {
+      validate: v.empty(),
+      handle: async () => {
+        let contract: any;
+        try {
+          contract = getPost2EarnContract(ctx.getProvider());
+        } catch (e: any) {
+          return rpcFailure(e?.message || "Invalid Post2Earn contract address.");
+        }
+
+        const promotionCount = toNumber(await contract.promotionCount());
+        if (!Number.isFinite(promotionCount) || promotionCount < 0) {
+          return rpcFailure("Invalid promotion count");
+        }
+
+        const indices = Array.from({ length: promotionCount }, (_, i) => i);
+        const data = await ctx.promotionIndex.getPromotions("v2", indices);
+
+        log("FETCH_PROMOTIONS: Result", data);
+        return { success: true, data };
+      },
+    },
+
+    FETCH_PROMOTIONS_FILTERED: {
+      validate: v.object({
+        payload: v.object({
+          sortKey: v.optional(
+            v.literal("latest", "oldest", "vault", "engagers")
+          ),
+          newestFirst: v.optional(v.boolean()),
+          offset: v.optional(v.number()),
+          limit: v.optional(v.number()),
+          minVaultPlus: v.optional(v.string()),
+          maxVaultPlus: v.optional(v.string()),
+          minEngagers: v.optional(v.number()),
+          maxEngagers: v.optional(v.number()),
+        }),
+      }),
+      handle: async ({ payload: options }) => {
+        let contract: any;
+        try {
+          contract = getPost2EarnContract(ctx.getProvider());
+        } catch (e: any) {
+          return rpcFailure(e?.message || "Invalid Post2Earn contract address.");
+        }
+
+        const sortKey = options.sortKey || "latest";
+        const offset = options.offset || 0;
+        const limit = options.limit || 10;
+        const newestFirst = options.newestFirst ?? sortKey !== "oldest";
+        const minEngagers = options.minEngagers || 0;
+        const maxEngagers = options.maxEngagers ?? Number.MAX_SAFE_INTEGER;
+
+        // Parse PLUS amounts to 18-decimal units
+        const parsePlus = (value?: string): bigint => {
+          if (!value || Number.isNaN(Number(value))) return 0n;
+          try {
+            return ethers.parseUnits(value, 18);
+          } catch {
+            return 0n;
+          }
+        };
+        const minVault = parsePlus(options.minVaultPlus);
+        const maxVault =
+          options.maxVaultPlus != null
+            ? parsePlus(options.maxVaultPlus)
+            : ethers.MaxUint256;
+
+        let ids: any[] = [];
+        if (sortKey === "latest") {
+          ids = await contract.getActivePromotionsByLatest(offset, limit);
+        } else if (sortKey === "oldest") {
+          ids = await contract.getActivePromotionsByOldest(offset, limit);
+        } else if (sortKey === "vault") {
+          ids = await contract.getActivePromotionsByVaultAmount(
+            minVault,
+            maxVault,
+            offset,
+            limit,
+            newestFirst
+          );
+        } else {
+          ids = await contract.getActivePromotionsByEngagersRange(
+            BigInt(minEngagers),
+            BigInt(maxEngagers),
+            offset,
+            limit,
+            newestFirst
+          );
+        }
+
+        // Details come from the promotion index; only promotions that are new
+        // or changed since the last sync are read from the contract.
+        const data = await ctx.promotionIndex.getPromotions(
+          "v2",
+          (ids || []).map(toNumber)
+        );
+
+        return { success: true, data };
+      },
+    },
+
+    FETCH_MY_PROMOTIONS: {
+      validate: v.object({
+        payload: v.object({
+          address: v.string(),
+          options: v.optional(
+            v.object({
+              offset: v.optional(v.number()),
+              limit: v.optional(v.number()),
+              newestFirst: v.optional(v.boolean()),
+              filter: v.optional(
+                v.literal(
+                  "all",
+                  "cancelAvailable",
+                  "expiredWithUnusedVault",
+                  "vaultClaimed"
+                )
+              ),
+            })
+          ),
+        }),
+      }),
+      handle: async ({ payload: { address, options = {} } }) => {
+        if (!ethers.isAddress(address)) {
+          return rpcFailure("Valid wallet address is required.");
+        }
+
+        let contract: any;
+        try {
+          contract = getPost2EarnContract(ctx.getProvider());
+        } catch (e: any) {
+          return rpcFailure(e?.message || "Invalid Post2Earn contract address.");
+        }
+
+        const offset = BigInt(Math.max(0, options.offset ?? 0));
+        const limitNum = options.limit ?? 20;
+        const limit = BigInt(limitNum > 0 ? limitNum : 20);
+        const filterMap: Record<string, number> = {
+          all: 0,
+          cancelAvailable: 1,
+          expiredWithUnusedVault: 2,
+          vaultClaimed: 3,
+        };
+        const filterValue = filterMap[options.filter || "all"];
+
+        const promotionIds: bigint[] =
+          (await contract.getPromoterCreatedPromotions(
+            address,
+            offset,
+            limit,
+            options.newestFirst ?? true,
+            filterValue
+          )) || [];
+
+        const data = await ctx.promotionIndex.getPromotions(
+          "v2",
+          promotionIds.map(toNumber)
+        );
+
+        return { success: true, data: data.filter(isPromotion) };
+      },
+    },
+
+    FETCH_UNCLAIMED_REWARDS: {
+      validate: v.object({ payload: v.object({ address: v.string() }) }),
+      handle: async ({ payload: { address } }) => {
+        if (!ethers.isAddress(address)) {
+          return rpcFailure("Valid wallet address is required.");
+        }
+
+        const provider = ctx.getProvider();
+        // The contract only lists ids; the index knows each one's reward.
+        const engagements = await ctx.promotionIndex
+          .getEngagements(address)
+          .catch((err) => {
+            log("FETCH_UNCLAIMED_REWARDS: engagement lookup failed", err);
+            return [];
+          });
+        const contracts: [ContractSource, () => ethers.Contract][] = [
+          ["v2", () => getPost2EarnContract(provider)],
+          ["legacy", () => getLegacyPost2EarnContract(provider)],
+        ];
+        const data: UnclaimedPromotion[] = [];
+        for (const [source, getContract] of contracts) {
+          let ids: bigint[];
+          let contractAddress: string;
+          try {
+            const contract = getContract();
+            contractAddress = String(contract.target);
+            ids = await contract.getUnclaimedRewards(address);
+          } catch (err) {
+            log(`FETCH_UNCLAIMED_REWARDS: ${source} lookup failed`, err);
+            // The legacy deployment being unreachable must not hide v2 rewards.
+            if (source === "v2") {
+              return rpcFailure("Failed to fetch unclaimed rewards.");
+            }
+            continue;
+          }
+          const promotions = await ctx.promotionIndex.getPromotions(
+            source,
+            ids.map(toNumber)
+          );
+          for (const promotion of promotions.filter(isPromotion)) {
+            const engagement = engagements.find(
+              (item) =>
+                item.source === source && item.promotionId === promotion.id
+            );
+            data.push({
+              source,
+              contractAddress,
+              promotion,
+              reward: engagement?.reward,
+            });
+          }
+        }
+        return { success: true, data };
+      },
+    },
+
+    GET_REWARD_TOKEN_METADATA: {
+      validate: v.object({
+        payload: v.object({ tokenAddress: v.string() }),
+      }),
+      handle: async ({ payload: { tokenAddress } }) => {
+        if (!ethers.isAddress(tokenAddress)) {
+          return rpcFailure("Valid token address is required.");
+        }
+        try {
+          const data = await fetchErc20Metadata(ctx.getProvider(), tokenAddress);
+          return { success: true, data };
+        } catch (err) {
+          // Missing metadata only hides the symbol; it is not an error.
+          log("GET_REWARD_TOKEN_METADATA error:", err);
+          return { success: true, data: null };
+        }
+      },
+    },
+  };
+}
@@ -0,0 +1,440 @@
+import { ethers } from "ethers";
+import { AVALANCHE_CHAIN_ID } from "../../../constants";
+import { sendRawRpc } from "../../../lib/rpcProvider";
+import {
+  PROVIDER_ERRORS,
+  type ProviderRpcError,
+} from "../../../types/provider";
+import { formatAddressShort } from "../../../utils/formatters";
+import { sameAddress } from "../../features/accounts";
+import { ERC20_ABI, fetchErc20Metadata } from "../../features/erc20";
+import { feeEstimator } from "../../features/gasFees";
+import { TypedDataError } from "../../features/typedDataSigner";
+import { waitForWalletAction } from "../../features/walletActionQueue";
+import type { BackgroundContext } from "../context";
+import { rpcFailure, type RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type ProviderRpcType =
+  | "PROVIDER_REQUEST"
+  | "GET_DAPP_CONNECTIONS"
+  | "REVOKE_DAPP_CONNECTION";
+
+const CHAIN_ID_HEX = ethers.toQuantity(AVALANCHE_CHAIN_ID);
+const ERC20_INTERFACE = new ethers.Interface(ERC20_ABI);
+// The ERC-20 calls that move or unlock a wallet's tokens.
+const TOKEN_CALLS = new Set(["approve", "transfer", "transferFrom"]);
+
+// Forwarded to the RPC endpoints unchanged; they need no account or approval.
+const READ_METHODS = new Set([
+  "eth_blockNumber",
+  "eth_call",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getCode",
+  "eth_getLogs",
+  "eth_getStorageAt",
+  "eth_getTransactionByHash",
+  "eth_getTransactionCount",
+  "eth_getTransactionReceipt",
+  "eth_maxPriorityFeePerGas",
+]);
+
+class ProviderError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+const userRejected = () =>
+  new ProviderError(PROVIDER_ERRORS.USER_REJECTED, "User rejected the request.");
+
+/** Turns a declined or failed queue response into the matching provider error. */
+const queueFailure = (error?: string) =>
+  !error || error.startsWith("USER_REJECTED")
+    ? userRejected()
+    : new ProviderError(PROVIDER_ERRORS.INTERNAL, error);
+
+const toProviderError = (err: any): ProviderRpcError => {
+  if (err instanceof ProviderError) {
+    return { code: err.code, message: err.message, data: err.data };
+  }
+  if (err instanceof TypedDataError) {
+    return { code: PROVIDER_ERRORS.INVALID_PARAMS, message: err.message };
+  }
+  if (err?.rpcError) {
+    return {
+      code: Number(err.rpcError.code) || PROVIDER_ERRORS.INTERNAL,
+      message: err.rpcError.message || "RPC error",
+      data: err.rpcError.data,
+    };
+  }
+  return {
+    code: PROVIDER_ERRORS.INTERNAL,
+    message: err?.shortMessage || err?.reason || err?.message || String(err),
+  };
+};
+
+const senderOrigin = (sender: chrome.runtime.MessageSender) => {
+  const origin =
+    sender.origin ?? (sender.url ? new URL(sender.url).origin : undefined);
+  return origin && /^https:\/\//.test(origin) ? origin : null;
+};
+
+const paramAt = (params: unknown[] | undefined, index: number) => params?.[index];
+
+const requireString = (value: unknown, name: string) => {
+  if (typeof value !== "string" || !value) {
+    throw new ProviderError(PROVIDER_ERRORS.INVALID_PARAMS, `Missing ${name}.`);
+  }
+  return value;
+};
+
+/** personal_sign payloads are hex bytes by spec, but some dapps send plain text. */
+const decodeMessage = (raw: string) => {
+  if (!ethers.isHexString(raw)) {
+    return { bytes: ethers.toUtf8Bytes(raw), text: raw };
+  }
+  const bytes = ethers.getBytes(raw);
+  try {
+    return { bytes, text: ethers.toUtf8String(bytes) };
+  } catch {
+    return { bytes, text: raw };
+  }
+};
+
+export function createProviderHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<ProviderRpcType> {
+  const {
+    log,
+    autoLock,
+    txScheduler,
+    walletActions,
+    dappConnections,
+    typedDataSigner,
+  } = ctx;
+  // One connect prompt per origin, however often the page asks.
+  const pendingConnects = new Map<string, Promise<string[]>>();
+
+  const requestAccounts = (origin: string) => {
+    const pending = pendingConnects.get(origin);
+    if (pending) return pending;
+
+    const connect = (async () => {
+      const exposed = await dappConnections.getExposedAccounts(origin);
+      if (exposed.length) return exposed;
+
+      const response = await waitForWalletAction(
+        walletActions,
+        {
+          title: "Connect site",
+          description: origin,
+          details: {
+            site: origin,
+            permissions: "See your address, request transactions and signatures",
+          },
+        },
+        async () => {
+          const wallet = ctx.getWallet();
+          if (!wallet) return rpcFailure("Wallet is locked.");
+          await dappConnections.grant(origin, wallet.address);
+          return { success: true as const, accounts: [wallet.address] };
+        }
+      );
+      if (!response.success) throw queueFailure(response.error);
+      return response.accounts;
+    })().finally(() => pendingConnects.delete(origin));
+
+    pendingConnects.set(origin, connect);
+    return connect;
+  };
+
+  /** The connected account that signs for the origin; checks `from` if given. */
+  const requireAccount = async (origin: string, from?: unknown) => {
+    const [account] = await dappConnections.getExposedAccounts(origin);
+    if (!account) {
+      throw new ProviderError(
+        PROVIDER_ERRORS.UNAUTHORIZED,
+        "Connect this site with eth_requestAccounts first."
+      );
+    }
+    if (from !== undefined && !sameAddress(String(from), account)) {
+      throw new ProviderError(
+        PROVIDER_ERRORS.UNAUTHORIZED,
+        "The requested account is not connected to this site."
+      );
+    }
+    return account;
+  };
+
+  /**
+   * Review details for calldata: approve/transfer/transferFrom are decoded
+   * with the token's amount, anything else shows its selector.
+   */
+  const describeCall = async (to: string | undefined, data: string) => {
+    const call = (() => {
+      try {
+        return ERC20_INTERFACE.parseTransaction({ data });
+      } catch {
+        return null;
+      }
+    })();
+    if (!to || !call || !TOKEN_CALLS.has(call.name)) {
+      return { function: data.slice(0, 10) };
+    }
+    const token =
+      (await ctx.tokenRegistry.get(to).catch(() => null)) ??
+      (await fetchErc20Metadata(ctx.getProvider(), to).catch(() => null));
+    const amount: bigint = call.args.amount;
+    const formatted =
+      amount === ethers.MaxUint256
+        ? "Unlimited"
+        : token?.decimals == null
+          ? `${amount} (raw units)`
+          : ethers.formatUnits(amount, token.decimals);
+    const details: Record<string, string> = {
+      function: call.signature,
+      token: token?.symbol ? `${token.symbol} (${to})` : to,
+    };
+    if (call.name === "approve") {
+      details.spender = call.args.spender;
+    } else {
+      if (call.name === "transferFrom") details.from = call.args.from;
+      details.recipient = call.args.to;
+    }
+    details.amount = token?.symbol ? `${formatted} ${token.symbol}` : formatted;
+    return details;
+  };
+
+  /** Runs an approved signing step as the account the site saw. */
+  const withSigner = async <T>(
+    account: string,
+    sign: (signer: ethers.Wallet) => Promise<T>
+  ) => {
+    const wallet = ctx.getWallet();
+    if (!wallet) return rpcFailure("Wallet is locked.");
+    if (!sameAddress(wallet.address, account)) {
+      return rpcFailure("The active account changed. Please retry.");
+    }
+    autoLock.touch();
+    const result = await sign(
+      new ethers.Wallet(wallet.privateKey, wallet.provider)
+    );
+    return { success: true as const, result };
+  };
+
+  const sendTransaction = async (origin: string, params?: unknown[]) => {
+    const raw = paramAt(params, 0) as Record<string, unknown> | undefined;
+    if (!raw || typeof raw !== "object") {
+      throw new ProviderError(PROVIDER_ERRORS.INVALID_PARAMS, "Missing transaction.");
+    }
+    const account = await requireAccount(origin, raw.from);
+    const to = raw.to == null ? undefined : requireString(raw.to, "to");
+    if (to && !ethers.isAddress(to)) {
+      throw new ProviderError(PROVIDER_ERRORS.INVALID_PARAMS, "Invalid to address.");
+    }
+    const data = raw.data == null ? undefined : requireString(raw.data, "data");
+    const value = BigInt((raw.value as string | undefined) ?? 0);
+    const gas = raw.gas ?? raw.gasLimit;
+    const gasLimit = gas == null ? undefined : BigInt(gas as string);
+    const isCall = !!data && data !== "0x";
+    const tx: ethers.TransactionRequest = { to, data, value, gasLimit };
+    const callDetails = isCall ? await describeCall(to, data!) : {};
+
+    const response = await waitForWalletAction(
+      walletActions,
+      {
+        title: isCall ? "Contract interaction" : "Send AVAX",
+        description: to ? `${origin} → ${formatAddressShort(to)}` : origin,
+        details: {
+          site: origin,
+          to: to ?? "New contract",
+          ...callDetails,
+        },
+        content: isCall ? data : undefined,
+        amount: value > 0n ? ethers.formatEther(value) : undefined,
+        tokenSymbol: value > 0n ? "AVAX" : undefined,
+        estimateFee: feeEstimator(ctx.getWallet, async () => [
+          { tx, gasLimit },
+        ]),
+      },
+      () =>
+        withSigner(account, async () => {
+          const sent = await txScheduler.send({
+            label: isCall ? "Contract interaction" : "Send AVAX",
+            from: account,
+            details: {
+              source: "DAPP",
+              sourceId: origin,
+              recipient: to,
+              ...(value > 0n
+                ? { tokenSymbol: "AVAX", amount: ethers.formatEther(value) }
+                : {}),
+            },
+            build: ({ signer, nonce }) =>
+              signer.sendTransaction({ ...tx, nonce }),
+          });
+          return sent.hash;
+        })
+    );
+    if (!response.success) throw queueFailure(response.error);
+    return response.result;
+  };
+
+  const personalSign = async (origin: string, params?: unknown[]) => {
+    let [message, address] = [paramAt(params, 0), paramAt(params, 1)];
+    // Some dapps send the eth_sign order: address first.
+    if (
+      typeof message === "string" &&
+      ethers.isAddress(message) &&
+      !(typeof address === "string" && ethers.isAddress(address))
+    ) {
+      [message, address] = [address, message];
+    }
+    const account = await requireAccount(origin, address);
+    const { bytes, text } = decodeMessage(requireString(message, "message"));
+
+    const response = await waitForWalletAction(
+      walletActions,
+      {
+        title: "Sign message",
+        description: origin,
+        details: { site: origin, account: formatAddressShort(account) },
+        content: text,
+      },
+      () => withSigner(account, (signer) => signer.signMessage(bytes))
+    );
+    if (!response.success) throw queueFailure(response.error);
+    return response.result;
+  };
+
+  const signTypedData = async (origin: string, params?: unknown[]) => {
+    const account = await requireAccount(origin, paramAt(params, 0));
+    const rawData = paramAt(params, 1);
+    let typedData: any;
+    try {
+      typedData =
+        typeof rawData === "string" ? JSON.parse(rawData) : rawData;
+    } catch {
+      throw new ProviderError(PROVIDER_ERRORS.INVALID_PARAMS, "Typed data is not valid JSON.");
+    }
+    if (!typedData?.types || !typedData?.message || !typedData?.primaryType) {
+      throw new ProviderError(PROVIDER_ERRORS.INVALID_PARAMS, "Invalid typed data.");
+    }
+    const signed = await typedDataSigner.sign({
+      account,
+      domain: typedData.domain ?? {},
+      types: typedData.types,
+      primaryType: typedData.primaryType,
+      message: typedData.message,
+      title: "Sign typed data",
+      description: origin,
+      details: { site: origin, account: formatAddressShort(account) },
+    });
+    if (!signed.success) throw queueFailure(signed.error);
+    return signed.signature;
+  };
+
+  const dispatch = async (
+    origin: string,
+    method: string,
+    params?: unknown[]
+  ): Promise<unknown> => {
+    switch (method) {
+      case "eth_chainId":
+        return CHAIN_ID_HEX;
+      case "net_version":
+        return String(AVALANCHE_CHAIN_ID);
+      case "eth_accounts":
+        return dappConnections.getExposedAccounts(origin);
+      case "eth_requestAccounts":
+        return requestAccounts(origin);
+      case "wallet_requestPermissions":
+        await requestAccounts(origin);
+        return [{ parentCapability: "eth_accounts" }];
+      case "wallet_getPermissions":
+        return (await dappConnections.getExposedAccounts(origin)).length
+          ? [{ parentCapability: "eth_accounts" }]
+          : [];
+      case "wallet_revokePermissions":
+        await dappConnections.revoke(origin);
+        return null;
+      case "wallet_switchEthereumChain":
+      case "wallet_addEthereumChain": {
+        const chainId = (paramAt(params, 0) as { chainId?: string } | undefined)
+          ?.chainId;
+        if (chainId && Number(chainId) === AVALANCHE_CHAIN_ID) return null;
+        throw new ProviderError(
+          PROVIDER_ERRORS.UNRECOGNIZED_CHAIN,
+          "Arena Plus only supports Avalanche C-Chain."
+        );
+      }
+      case "eth_sendTransaction":
+        return sendTransaction(origin, params);
+      case "personal_sign":
+        return personalSign(origin, params);
+      case "eth_signTypedData_v4":
+        return signTypedData(origin, params);
+      default:
+        if (READ_METHODS.has(method)) {
+          return sendRawRpc(method, params ?? []);
+        }
+        throw new ProviderError(
+          PROVIDER_ERRORS.UNSUPPORTED_METHOD,
+          `${method} is not supported.`
+        );
+    }
+  };
+
+  return {
+    PROVIDER_REQUEST: {
+      validate: v.object({
+        method: v.string(),
+        params: v.optional(v.array(v.unknown())),
+      }),
+      handle: async ({ method, params }, sender) => {
+        const origin = senderOrigin(sender);
+        if (!origin || sender.tab?.id == null) {
+          return rpcFailure("Provider requests must come from a web page.", "UNAUTHORIZED");
+        }
+        dappConnections.trackTab(origin, sender.tab.id);
+        try {
+          return { success: true, result: await dispatch(origin, method, params) };
+        } catch (err: any) {
+          if (!(err instanceof ProviderError)) {
+            log(`Provider ${method} from ${origin} failed`, err);
+          }
+          return { success: true, error: toProviderError(err) };
+        }
+      },
+    },
+
+    GET_DAPP_CONNECTIONS: {
+      extensionPagesOnly: true,
+      validate: v.empty(),
+      handle: async () => ({
+        success: true,
+        connections: await dappConnections.list(),
+      }),
+    },
+
+    REVOKE_DAPP_CONNECTION: {
+      extensionPagesOnly: true,
+      validate: v.object({ origin: v.string() }),
+      handle: async ({ origin }) => {
+        await dappConnections.revoke(origin);
+        return { success: true, connections: await dappConnections.list() };
+      },
+    },
+  };
+}
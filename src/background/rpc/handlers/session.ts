@@ -0,0 +1,96 @@
+import { supabase } from "../../../supabaseClient";
+import { twitterLogin } from "../../auth";
+import type { BackgroundContext } from "../context";
+import { rpcFailure, type RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type SessionRpcType =
+  | "TWITTER_LOGIN"
+  | "TWITTER_LOGOUT"
+  | "CHECK_LOGIN_STATUS"
+  | "GET_BEARER_TOKEN"
+  | "GET_ARENA_USER_ID";
+
+const ARENA_URL = "https://arena.social";
+const MISSING_TOKEN_ERROR =
+  "Sync your Arena profile to interact with this feature. Open Arena Social, browse for a moment, then return here.";
+
+const readArenaCookie = async (
+  name: string,
+  log: BackgroundContext["log"]
+) => {
+  try {
+    return await chrome.cookies.get({ url: ARENA_URL, name });
+  } catch (err) {
+    log(`Failed to read Arena ${name} cookie:`, err);
+    return null;
+  }
+};
+
+export function createSessionHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<SessionRpcType> {
+  const { log } = ctx;
+
+  return {
+    TWITTER_LOGIN: {
+      validate: v.empty(),
+      handle: async () => ({ success: true, data: await twitterLogin() }),
+    },
+
+    TWITTER_LOGOUT: {
+      validate: v.empty(),
+      handle: async () => {
+        const { error } = await supabase.auth.signOut();
+        if (error) {
+          log("Error logging out:", error);
+          return rpcFailure(error.message);
+        }
+        log("User logged out successfully");
+        return { success: true };
+      },
+    },
+
+    CHECK_LOGIN_STATUS: {
+      validate: v.empty(),
+      handle: () => ({ success: true, isLoggedIn: !!ctx.getTwitterUser() }),
+    },
+
+    GET_BEARER_TOKEN: {
+      validate: v.empty(),
+      handle: async () => {
+        const cookie = await readArenaCookie("token", log);
+        const raw = cookie?.value || "";
+        if (raw) {
+          const token = raw.startsWith("Bearer ") ? raw : `Bearer ${raw}`;
+          await chrome.storage.local.set({ bearerToken: token });
+          return { success: true, token };
+        }
+
+        const { bearerToken } = await chrome.storage.local.get("bearerToken");
+        if (bearerToken) {
+          return { success: true, token: bearerToken as string };
+        }
+        return rpcFailure(MISSING_TOKEN_ERROR);
+      },
+    },
+
+    GET_ARENA_USER_ID: {
+      validate: v.empty(),
+      handle: async () => {
+        const cookie = await readArenaCookie("user", log);
+        if (cookie?.value) {
+          try {
+            const parsed = JSON.parse(decodeURIComponent(cookie.value));
+            if (parsed?.id) {
+              return { success: true, userId: String(parsed.id) };
+            }
+          } catch (e) {
+            log("Failed to parse user cookie JSON:", e);
+          }
+        }
+        return { success: true, userId: null };
+      },
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { ethers } from "ethers";
+import type { SubscribedRewardToken } from "../../../services/post2earn/types";
+import {
+  fetchActiveSubscribedTokens,
+  getPost2EarnContract,
+} from "../../features/post2earnClient";
+import { waitForReceipt } from "../../features/txScheduler";
+import type { BackgroundContext } from "../context";
+import { rpcFailure, type RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type SubscriptionRpcType = "GET_ACTIVE_SUBSCRIBED_TOKENS" | "SUBSCRIBE_TO_TOKEN";
+
+export function createSubscriptionHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<SubscriptionRpcType> {
+  const { log, autoLock, txScheduler } = ctx;
+
+  return {
+    GET_ACTIVE_SUBSCRIBED_TOKENS: {
+      validate: v.empty(),
+      handle: async () => {
+        let data: SubscribedRewardToken[];
+        try {
+          data = await fetchActiveSubscribedTokens(ctx.getProvider(), log);
+        } catch (e: any) {
+          return rpcFailure(e?.message || "Failed to load subscribed tokens.");
+        }
+        return { success: true, data };
+      },
+    },
+
+    SUBSCRIBE_TO_TOKEN: {
+      validate: v.object({
+        payload: v.object({
+          tokenAddress: v.string(),
+          arenaUserId: v.string(),
+          months: v.number(),
+        }),
+      }),
+      handle: async ({ payload }) => {
+        const wallet = ctx.getWallet();
+        if (!wallet) {
+          return rpcFailure("Wallet is locked.");
+        }
+
+        autoLock.touch();
+        try {
+          log("SUBSCRIBE_TO_TOKEN received", payload);
+          const { tokenAddress, arenaUserId, months } = payload;
+
+          if (!ethers.isAddress(tokenAddress)) {
+            return rpcFailure("Invalid token address.");
+          }
+          if (!arenaUserId) {
+            return rpcFailure("Arena User ID is required.");
+          }
+          if (!months || months < 1) {
+            return rpcFailure("Invalid duration.");
+          }
+
+          const signer = new ethers.Wallet(wallet.privateKey, wallet.provider);
+          let contract: any;
+          try {
+            contract = getPost2EarnContract(signer);
+          } catch (e: any) {
+            return rpcFailure(e?.message || "Invalid Post2Earn contract address.");
+          }
+
+          const fee: bigint = await contract.subscriptionFee();
+          const totalFee = fee * BigInt(months);
+
+          const balance: bigint = await signer.provider!.getBalance(signer.address);
+          if (balance < totalFee) {
+            return rpcFailure("Insufficient AVAX balance for subscription fee.");
+          }
+
+          const tx = await txScheduler.send({
+            label: "Subscribe to token",
+            from: signer.address,
+            dedupeKey: `subscribe:${tokenAddress.toLowerCase()}`,
+            details: {
+              source: "SUBSCRIPTION",
+              sourceId: tokenAddress,
+              tokenSymbol: "AVAX",
+              amount: ethers.formatEther(totalFee),
+            },
+            build: ({ nonce }) =>
+              contract.subscribe(tokenAddress, arenaUserId, months, {
+                value: totalFee,
+                nonce,
+              }),
+          });
+
+          waitForReceipt(tx)
+            .then(() => chrome.runtime.sendMessage({ type: "BALANCE_UPDATED" }))
+            .catch(() => undefined);
+
+          return { success: true, txHash: tx.hash };
+        } catch (err: any) {
+          const reason = err?.reason || err?.message || "Subscription failed";
+          log("Error subscribing:", reason, err);
+          return rpcFailure(reason);
+        }
+      },
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { formatAddressShort } from "../../../utils/formatters";
+import { feeEstimator } from "../../features/gasFees";
+import { MAX_PRICE_IMPACT_BPS } from "../../features/swap";
+import { waitForReceipt } from "../../features/txScheduler";
+import { waitForWalletAction } from "../../features/walletActionQueue";
+import type { BackgroundContext } from "../context";
+import {
+  rpcFailure,
+  type RpcHandlerGroup,
+  type RpcHandlerResult,
+} from "../router";
+import * as v from "../validate";
+
+type SwapRpcType =
+  | "GET_SWAP_SETTINGS"
+  | "SET_SWAP_SETTINGS"
+  | "GET_SWAP_QUOTE"
+  | "EXECUTE_SWAP";
+
+const formatBps = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+const quoteFields = {
+  tokenIn: v.string(),
+  tokenOut: v.string(),
+  amountIn: v.string(),
+};
+
+export function createSwapHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<SwapRpcType> {
+  const { log, autoLock, txScheduler, walletActions, swap } = ctx;
+
+  return {
+    GET_SWAP_SETTINGS: {
+      validate: v.empty(),
+      handle: async () => ({ success: true, settings: await swap.getSettings() }),
+    },
+
+    SET_SWAP_SETTINGS: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          routerAddress: v.optional(v.string()),
+          slippageBps: v.optional(v.number()),
+          deadlineMinutes: v.optional(v.number()),
+        }),
+      }),
+      handle: async ({ payload }) => ({
+        success: true,
+        settings: await swap.setSettings(payload),
+      }),
+    },
+
+    GET_SWAP_QUOTE: {
+      extensionPagesOnly: true,
+      validate: v.object({ payload: v.object(quoteFields) }),
+      handle: async ({ payload }) => {
+        const { quote } = await swap.prepare(payload, ctx.getWallet()?.address);
+        return { success: true, quote };
+      },
+    },
+
+    // Quotes again here; the page's quote only drives the preview.
+    EXECUTE_SWAP: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          ...quoteFields,
+          acceptHighImpact: v.optional(v.boolean()),
+        }),
+      }),
+      handle: async ({ payload }) => {
+        const wallet = ctx.getWallet();
+        if (!wallet) {
+          return rpcFailure("Wallet is locked.");
+        }
+        const owner = wallet.address;
+        const prepared = await swap.prepare(payload, owner);
+        const { quote } = prepared;
+        if (
+          quote.priceImpactBps > MAX_PRICE_IMPACT_BPS &&
+          !payload.acceptHighImpact
+        ) {
+          return rpcFailure(
+            `Price impact is ${formatBps(quote.priceImpactBps)}. Confirm the high impact to swap anyway.`
+          );
+        }
+        const label = `Swap ${quote.tokenInSymbol} for ${quote.tokenOutSymbol}`;
+
+        return waitForWalletAction(
+          walletActions,
+          {
+            title: "Swap",
+            description: `${quote.amountIn} ${quote.tokenInSymbol} for about ${quote.amountOut} ${quote.tokenOutSymbol}`,
+            details: {
+              route: quote.pathSymbols.join(" → "),
+              minimumReceived: `${quote.minimumOut} ${quote.tokenOutSymbol}`,
+              priceImpact: formatBps(quote.priceImpactBps),
+              slippage: formatBps(quote.slippageBps),
+              router: formatAddressShort(quote.routerAddress),
+              ...(quote.needsApproval ? { approval: "Approve first" } : {}),
+            },
+            amount: quote.amountIn,
+            tokenSymbol: quote.tokenInSymbol,
+            estimateFee: feeEstimator(ctx.getWallet, async () =>
+              swap.plan(prepared, owner)
+            ),
+          },
+          async (): Promise<RpcHandlerResult<"EXECUTE_SWAP">> => {
+            autoLock.touch();
+            try {
+              // Built now so the deadline counts from the user's approval.
+              const steps = swap.plan(prepared, owner);
+              let hash = "";
+              for (const [index, step] of steps.entries()) {
+                const isSwap = index === steps.length - 1;
+                const sent = await txScheduler.send({
+                  label: isSwap ? label : `Approve ${quote.tokenInSymbol}`,
+                  from: owner,
+                  details: {
+                    source: isSwap ? "SWAP" : "ALLOWANCE",
+                    recipient: quote.routerAddress,
+                    tokenSymbol: quote.tokenInSymbol,
+                    amount: quote.amountIn,
+                  },
+                  build: ({ signer, nonce }) =>
+                    signer.sendTransaction({ ...step.tx, nonce }),
+                });
+                // The swap reverts unless the approval is mined first.
+                await waitForReceipt(sent);
+                hash = sent.hash;
+              }
+              chrome.runtime.sendMessage(
+                { type: "BALANCE_UPDATED" },
+                () => void chrome.runtime.lastError
+              );
+              return { success: true, txHash: hash };
+            } catch (err: any) {
+              const reason =
+                err?.reason || err?.shortMessage || err?.message || "Swap failed";
+              log(`${label} failed:`, reason, err);
+              return rpcFailure(reason);
+            }
+          }
+        );
+      },
+    },
+  };
+}
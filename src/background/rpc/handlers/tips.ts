@@ -0,0 +1,765 @@
+import { ethers } from "ethers";
+import { ARENA_TOKEN, PLUS_TOKEN } from "../../../constants";
+import type { TipShowerRecipient } from "../../../types/rpc";
+import type { TxDetails } from "../../../types/transactions";
+import { formatAddressShort } from "../../../utils/formatters";
+import {
+  isBatchTransferAvailable,
+  planBatchTransfer,
+  sendBatchTransfer,
+} from "../../features/batchTransfer";
+import {
+  feeEstimator,
+  planErc20Transfer,
+  type PlannedTx,
+} from "../../features/gasFees";
+import { waitForReceipt } from "../../features/txScheduler";
+import type { SpendingVerdict } from "../../features/spendingPolicy";
+import { waitForWalletAction } from "../../features/walletActionQueue";
+import type { BackgroundContext } from "../context";
+import {
+  rpcFailure,
+  type RpcHandlerGroup,
+  type RpcHandlerResult,
+} from "../router";
+import * as v from "../validate";
+
+type TipRpcType =
+  | "SEND_TIP"
+  | "REQUEST_TIP_SHOWER_APPROVAL"
+  | "CANCEL_TIP_SHOWER_APPROVAL"
+  | "QUEUE_TIP_SHOWER"
+  | "TIP_SHOWER_BATCH";
+
+type TipShowerBatchPayload = {
+  recipients: TipShowerRecipient[];
+  amountPerTip: string;
+  tokenSymbol?: string;
+  tokenAddress?: string;
+  contextId?: string;
+  tabId?: number;
+};
+
+type TipShowerProgressStatus = "processing" | "completed" | "failed";
+
+type PendingTipShowerApproval = {
+  amountPerTip: string;
+  tokenSymbol: string;
+  tokenAddress?: string;
+  queueId?: string;
+  approved: boolean;
+  tabId?: number;
+};
+
+type TipResult = RpcHandlerResult<"SEND_TIP">;
+type TipShowerResult = RpcHandlerResult<"TIP_SHOWER_BATCH">;
+
+const IGNORED_MESSAGE_ERRORS = new Set<string>([
+  "The message port closed before a response was received.",
+  "Could not establish connection. Receiving end does not exist.",
+]);
+
+const recipientsValidator = v.array(
+  v.object({ handle: v.string(), address: v.string() })
+);
+
+/** One disperse call when the contract is there, else a transfer per recipient. */
+async function planTipShower(
+  provider: ethers.Provider,
+  from: string,
+  tokenAddress: string,
+  recipients: string[],
+  amountPerTip: string
+): Promise<PlannedTx[]> {
+  if (recipients.length > 1 && (await isBatchTransferAvailable(provider))) {
+    return planBatchTransfer(provider, from, tokenAddress, recipients, amountPerTip);
+  }
+  return planErc20Transfer(
+    provider,
+    tokenAddress,
+    recipients[0],
+    amountPerTip,
+    recipients.length
+  );
+}
+
+export function createTipHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<TipRpcType> {
+  const {
+    log,
+    autoLock,
+    txScheduler,
+    walletActions,
+    spendingPolicy,
+    tokenRegistry,
+  } = ctx;
+  const pendingTipShowerApprovals = new Map<string, PendingTipShowerApproval>();
+
+  /** Older callers send only a symbol; PLUS stays the default tip token. */
+  const resolveTipTokenAddress = async (
+    tokenAddress: string | undefined,
+    tokenSymbol: string
+  ) =>
+    tokenAddress ||
+    (await tokenRegistry.findBySymbol(tokenSymbol))?.address ||
+    PLUS_TOKEN.address;
+
+  /** Symbol of the token actually sent; a caller's label is never shown. */
+  const displaySymbolFor = async (tokenAddress: string) =>
+    (await tokenRegistry.get(tokenAddress))?.symbol ??
+    formatAddressShort(tokenAddress);
+
+  /** Books every tip of a shower against the policy, or none of them. */
+  const authorizeTips = async (
+    source: string | undefined,
+    tokenAddress: string,
+    recipients: string[],
+    amount: string
+  ): Promise<SpendingVerdict> => {
+    const releases: (() => void)[] = [];
+    for (const recipient of recipients) {
+      const verdict = await spendingPolicy.authorize({
+        source,
+        tokenAddress,
+        recipient,
+        amount,
+      });
+      if (!verdict.allowed) {
+        releases.forEach((release) => release());
+        return verdict;
+      }
+      releases.push(verdict.release);
+    }
+    return {
+      allowed: true,
+      release: () => releases.forEach((release) => release()),
+    };
+  };
+
+  const sendTipShowerMessage = (
+    payload: Record<string, any>,
+    context: string,
+    tabId?: number
+  ) => {
+    const sendViaRuntime = () => {
+      try {
+        chrome.runtime.sendMessage(payload, () => {
+          const message = chrome.runtime.lastError?.message;
+          if (message && !IGNORED_MESSAGE_ERRORS.has(message)) {
+            log(`Failed to send ${context}:`, message);
+          }
+        });
+      } catch (err) {
+        log(`Failed to send ${context}`, err);
+      }
+    };
+
+    if (typeof tabId === "number" && tabId >= 0) {
+      try {
+        chrome.tabs.sendMessage(tabId, payload, () => {
+          const message = chrome.runtime.lastError?.message;
+          if (!message) return;
+          if (IGNORED_MESSAGE_ERRORS.has(message)) {
+            return;
+          }
+          if (message.includes("Receiving end does not exist")) {
+            sendViaRuntime();
+          } else {
+            log(`Failed to send ${context} to tab ${tabId}:`, message);
+          }
+        });
+        return;
+      } catch (err) {
+        log(`Failed to send ${context} to tab ${tabId}`, err);
+      }
+    }
+
+    sendViaRuntime();
+  };
+
+  const notifyTipShowerProgress = (
+    contextId: string | undefined,
+    processed: number,
+    total: number,
+    status: TipShowerProgressStatus,
+    error?: string,
+    tabId?: number
+  ) => {
+    if (!contextId) return;
+    sendTipShowerMessage(
+      {
+        type: "TIP_SHOWER_PROGRESS",
+        contextId,
+        processed,
+        total,
+        status,
+        error,
+      },
+      "tip shower progress",
+      tabId
+    );
+  };
+
+  const notifyTipShowerApprovalEvent = (
+    contextId: string | undefined,
+    tabId: number | undefined,
+    type: "TIP_SHOWER_APPROVAL_GRANTED" | "TIP_SHOWER_APPROVAL_DENIED",
+    error?: string
+  ) => {
+    if (!contextId) return;
+    sendTipShowerMessage(
+      {
+        type,
+        contextId,
+        error,
+      },
+      "tip shower approval",
+      tabId
+    );
+  };
+
+  const notifyTipShowerApprovalGranted = (
+    contextId?: string,
+    tabId?: number
+  ) => notifyTipShowerApprovalEvent(contextId, tabId, "TIP_SHOWER_APPROVAL_GRANTED");
+
+  const notifyTipShowerApprovalDenied = (
+    contextId?: string,
+    tabId?: number,
+    error?: string
+  ) =>
+    notifyTipShowerApprovalEvent(
+      contextId,
+      tabId,
+      "TIP_SHOWER_APPROVAL_DENIED",
+      error
+    );
+
+  async function executeSendTip({
+    toAddress,
+    amount,
+    tokenAddress,
+    details,
+  }: {
+    toAddress: string;
+    amount: number | string;
+    tokenAddress?: string;
+    details?: TxDetails;
+  }): Promise<TipResult> {
+    const wallet = ctx.getWallet();
+    if (!wallet) {
+      return rpcFailure("Wallet is locked.");
+    }
+    autoLock.touch();
+
+    try {
+      const signer = new ethers.Wallet(wallet.privateKey, wallet.provider);
+      const token = new ethers.Contract(
+        tokenAddress || PLUS_TOKEN.address,
+        ARENA_TOKEN.abi || [],
+        signer
+      );
+
+      const decimals = await token.decimals();
+      const parsedAmount = ethers.parseUnits(String(amount), decimals);
+      const balance: bigint = await token.balanceOf(signer.address);
+      if (balance < parsedAmount) {
+        return rpcFailure("INSUFFICIENT_BALANCE");
+      }
+
+      const tx = await txScheduler.send({
+        label: "Tip",
+        from: signer.address,
+        details: { ...details, recipient: toAddress, amount: String(amount) },
+        build: ({ nonce }) => token.transfer(toAddress, parsedAmount, { nonce }),
+      });
+
+      waitForReceipt(tx)
+        .then(() => chrome.runtime.sendMessage({ type: "BALANCE_UPDATED" }))
+        .catch(() => undefined);
+
+      return { success: true, txHash: tx.hash };
+    } catch (err: any) {
+      log("Error sending tip:", err);
+      return rpcFailure(
+        err?.message ||
+        err?.reason ||
+        err?.shortMessage ||
+        "Failed to send tip"
+      );
+    }
+  }
+
+  async function executeTipShowerBatch(
+    payload: TipShowerBatchPayload
+  ): Promise<TipShowerResult> {
+    const wallet = ctx.getWallet();
+    if (!wallet) {
+      return rpcFailure("Wallet is locked.");
+    }
+    if (!payload.recipients?.length) {
+      return rpcFailure("No tip recipients provided.");
+    }
+    const tokenAddress = await resolveTipTokenAddress(
+      payload.tokenAddress,
+      payload.tokenSymbol || "PLUS"
+    );
+    const tokenSymbol = await displaySymbolFor(tokenAddress);
+    let processed = 0;
+    const tabId = payload.tabId;
+
+    try {
+      notifyTipShowerProgress(
+        payload.contextId,
+        0,
+        payload.recipients.length,
+        "processing",
+        undefined,
+        tabId
+      );
+
+      const total = payload.recipients.length;
+      if (
+        total > 1 &&
+        wallet.provider &&
+        (await isBatchTransferAvailable(wallet.provider))
+      ) {
+        autoLock.touch();
+        await sendBatchTransfer(txScheduler, {
+          signer: new ethers.Wallet(wallet.privateKey, wallet.provider),
+          tokenAddress,
+          recipients: payload.recipients.map((recipient) => recipient.address),
+          amount: payload.amountPerTip,
+          label: "Tip shower",
+          details: {
+            source: "TIP_SHOWER",
+            sourceId: payload.contextId,
+            tokenSymbol,
+          },
+        });
+        chrome.runtime.sendMessage(
+          { type: "BALANCE_UPDATED" },
+          () => void chrome.runtime.lastError
+        );
+        // Everyone was paid at once; the page still likes posts one per step.
+        for (processed = 1; processed <= total; processed += 1) {
+          notifyTipShowerProgress(
+            payload.contextId,
+            processed,
+            total,
+            processed === total ? "completed" : "processing",
+            undefined,
+            tabId
+          );
+        }
+        return { success: true };
+      }
+
+      for (const recipient of payload.recipients) {
+        const result = await executeSendTip({
+          toAddress: recipient.address,
+          amount: payload.amountPerTip,
+          tokenAddress,
+          details: {
+            source: "TIP_SHOWER",
+            sourceId: payload.contextId,
+            recipientHandle: recipient.handle,
+            tokenSymbol,
+          },
+        });
+        if (!result.success) {
+          notifyTipShowerProgress(
+            payload.contextId,
+            processed,
+            payload.recipients.length,
+            "failed",
+            result.error,
+            tabId
+          );
+          return rpcFailure(result.error || "Failed to complete tip shower.");
+        }
+        processed += 1;
+        notifyTipShowerProgress(
+          payload.contextId,
+          processed,
+          payload.recipients.length,
+          processed === payload.recipients.length ? "completed" : "processing",
+          undefined,
+          tabId
+        );
+      }
+      return { success: true };
+    } catch (err: any) {
+      log("Error sending tip shower:", err);
+      notifyTipShowerProgress(
+        payload.contextId,
+        processed,
+        payload.recipients.length,
+        "failed",
+        err?.message || String(err),
+        tabId
+      );
+      return rpcFailure(err?.message || "Tip shower failed.");
+    }
+  }
+
+  return {
+    SEND_TIP: {
+      validate: v.object({
+        toAddress: v.string(),
+        amount: v.numeric(),
+        tokenAddress: v.optional(v.string()),
+        tokenSymbol: v.optional(v.string()),
+        recipientHandle: v.optional(v.string()),
+        skipWalletApproval: v.optional(v.boolean()),
+        source: v.optional(v.string()),
+      }),
+      handle: async (request) => {
+        // Limits and labels follow the token actually transferred.
+        const tokenAddress = request.tokenAddress || PLUS_TOKEN.address;
+        const tokenSymbol = await displaySymbolFor(tokenAddress);
+        const send = () =>
+          executeSendTip({
+            ...request,
+            tokenAddress,
+            details: {
+              source: request.source || "TIP",
+              recipientHandle: request.recipientHandle,
+              tokenSymbol,
+            },
+          });
+
+        // Auto-signing is a privilege the spending policy grants per send;
+        // anything it refuses still goes out, but only with the user's OK.
+        let policyReason: string | undefined;
+        if (request.skipWalletApproval) {
+          const verdict = await spendingPolicy.authorize({
+            source: request.source,
+            tokenAddress,
+            recipient: request.toAddress,
+            amount: String(request.amount),
+          });
+          if (verdict.allowed) {
+            const result = await send();
+            if (!result.success) verdict.release();
+            return result;
+          }
+          policyReason = verdict.reason;
+        }
+        return waitForWalletAction(
+          walletActions,
+          {
+            title: "Send Tip",
+            description: request.recipientHandle
+              ? `Tip @${request.recipientHandle}`
+              : `Tip ${formatAddressShort(request.toAddress)}`,
+            details: policyReason ? { needsApproval: policyReason } : undefined,
+            amount: String(request.amount),
+            tokenSymbol,
+            estimateFee: feeEstimator(ctx.getWallet, ({ provider }) =>
+              planErc20Transfer(
+                provider,
+                tokenAddress,
+                request.toAddress,
+                String(request.amount)
+              )
+            ),
+          },
+          send
+        );
+      },
+    },
+
+    REQUEST_TIP_SHOWER_APPROVAL: {
+      validate: v.object({
+        payload: v.object({
+          contextId: v.string(),
+          count: v.numeric(),
+          amountPerTip: v.numeric(),
+          tokenSymbol: v.optional(v.string()),
+          tokenAddress: v.optional(v.string()),
+        }),
+      }),
+      handle: async ({ payload }, sender) => {
+        const contextId = payload.contextId;
+        const count = Number(payload.count);
+        const amountPerTip = String(payload.amountPerTip);
+        const requestTabId = sender.tab?.id;
+
+        if (!contextId) {
+          return rpcFailure("Missing tip shower context.");
+        }
+        if (pendingTipShowerApprovals.has(contextId)) {
+          return rpcFailure("A tip shower approval is already pending.");
+        }
+        if (!count || count <= 0) {
+          return rpcFailure("Invalid post count.");
+        }
+        if (Number(amountPerTip) <= 0) {
+          return rpcFailure("Invalid tip amount.");
+        }
+        const tokenConfig = payload.tokenAddress
+          ? await tokenRegistry.get(payload.tokenAddress)
+          : await tokenRegistry.findBySymbol(payload.tokenSymbol || "PLUS");
+        if (!tokenConfig) {
+          return rpcFailure("Unsupported token.");
+        }
+        const tokenSymbol = tokenConfig.symbol;
+
+        // Resolve right away; the decision reaches the tab as an event.
+        const queueId = walletActions.enqueue(
+          {
+            title: "Tip Shower",
+            description: count === 1 ? "Tip 1 post" : `Tip ${count} posts`,
+            amount: `${amountPerTip} x ${count}`,
+            tokenSymbol,
+            // Recipients are not known yet; paying yourself costs the same.
+            estimateFee: feeEstimator(ctx.getWallet, ({ provider, address }) =>
+              planTipShower(
+                provider,
+                address,
+                tokenConfig.address,
+                Array(count).fill(address),
+                amountPerTip
+              )
+            ),
+          },
+          async () => {
+            const pending = pendingTipShowerApprovals.get(contextId);
+            if (!pending) {
+              notifyTipShowerApprovalDenied(
+                contextId,
+                requestTabId,
+                "Tip shower request expired."
+              );
+              return rpcFailure("Tip shower request expired.");
+            }
+            pending.approved = true;
+            notifyTipShowerApprovalGranted(contextId, pending.tabId ?? requestTabId);
+            return { success: true };
+          },
+          (response: any) => {
+            if (response?.success) return;
+            const pendingEntry = pendingTipShowerApprovals.get(contextId);
+            pendingTipShowerApprovals.delete(contextId);
+            notifyTipShowerApprovalDenied(
+              contextId,
+              pendingEntry?.tabId ?? requestTabId,
+              response?.error || "Wallet approval was rejected."
+            );
+          }
+        );
+
+        pendingTipShowerApprovals.set(contextId, {
+          amountPerTip,
+          tokenSymbol,
+          tokenAddress: tokenConfig.address,
+          queueId,
+          approved: false,
+          tabId: requestTabId,
+        });
+        return { success: true };
+      },
+    },
+
+    CANCEL_TIP_SHOWER_APPROVAL: {
+      validate: v.object({
+        contextId: v.string(),
+        reason: v.optional(v.string()),
+      }),
+      handle: ({ contextId, reason }) => {
+        if (!contextId) {
+          return rpcFailure("Missing tip shower context.");
+        }
+        const pending = pendingTipShowerApprovals.get(contextId);
+        if (!pending) {
+          return rpcFailure("No pending approval to cancel.");
+        }
+        if (!pending.approved && pending.queueId) {
+          walletActions.cancelById(
+            pending.queueId,
+            reason || "Tip shower cancelled."
+          );
+        }
+        pendingTipShowerApprovals.delete(contextId);
+        return { success: true };
+      },
+    },
+
+    QUEUE_TIP_SHOWER: {
+      validate: v.object({
+        payload: v.object({
+          recipients: recipientsValidator,
+          amountPerTip: v.optional(v.numeric()),
+          tokenSymbol: v.optional(v.string()),
+          tokenAddress: v.optional(v.string()),
+          contextId: v.optional(v.string()),
+          useExistingApprovalContext: v.optional(v.boolean()),
+          source: v.optional(v.string()),
+        }),
+      }),
+      handle: async ({ payload }, sender) => {
+        const recipients = payload.recipients.filter(
+          (item) => item.handle && item.address
+        );
+
+        if (!payload.useExistingApprovalContext) {
+          if (!recipients.length) {
+            return rpcFailure("No recipients provided.");
+          }
+          const amountPerTip = String(payload.amountPerTip ?? "");
+          if (!(Number(amountPerTip) > 0)) {
+            return rpcFailure("Invalid tip amount.");
+          }
+          const tokenAddress = await resolveTipTokenAddress(
+            payload.tokenAddress,
+            payload.tokenSymbol || "PLUS"
+          );
+          const tokenSymbol = await displaySymbolFor(tokenAddress);
+          const send = () =>
+            executeTipShowerBatch({
+              recipients,
+              amountPerTip,
+              tokenAddress,
+              contextId: payload.contextId,
+              tabId: sender.tab?.id,
+            });
+
+          // Without a prior approval, a shower signs only within the
+          // spending policy, like a single auto-signed tip.
+          const verdict = await authorizeTips(
+            payload.source,
+            tokenAddress,
+            recipients.map((recipient) => recipient.address),
+            amountPerTip
+          );
+          if (verdict.allowed) {
+            const result = await send();
+            if (!result.success) verdict.release();
+            return result;
+          }
+          return waitForWalletAction(
+            walletActions,
+            {
+              title: "Tip Shower",
+              description:
+                recipients.length === 1
+                  ? "Tip 1 post"
+                  : `Tip ${recipients.length} posts`,
+              details: { needsApproval: verdict.reason },
+              amount: `${amountPerTip} x ${recipients.length}`,
+              tokenSymbol,
+              estimateFee: feeEstimator(ctx.getWallet, ({ provider, address }) =>
+                planTipShower(
+                  provider,
+                  address,
+                  tokenAddress,
+                  recipients.map((recipient) => recipient.address),
+                  amountPerTip
+                )
+              ),
+            },
+            send
+          );
+        }
+
+        const contextId = payload.contextId ?? "";
+        const pending = pendingTipShowerApprovals.get(contextId);
+        if (!pending) {
+          return rpcFailure("No pending wallet approval found.");
+        }
+        if (!pending.approved) {
+          return rpcFailure("Wallet approval is still pending.");
+        }
+        if (!recipients.length) {
+          pendingTipShowerApprovals.delete(contextId);
+          notifyTipShowerApprovalDenied(
+            contextId,
+            pending.tabId,
+            "No recipients provided."
+          );
+          return rpcFailure("No recipients provided.");
+        }
+
+        try {
+          return await executeTipShowerBatch({
+            recipients,
+            amountPerTip: pending.amountPerTip,
+            tokenSymbol: pending.tokenSymbol,
+            tokenAddress: pending.tokenAddress,
+            contextId,
+            tabId: pending.tabId,
+          });
+        } catch (err: any) {
+          notifyTipShowerApprovalDenied(
+            contextId,
+            pending.tabId,
+            err?.message || "Tip shower failed."
+          );
+          return rpcFailure(err?.message || "Tip shower failed.");
+        } finally {
+          pendingTipShowerApprovals.delete(contextId);
+        }
+      },
+    },
+
+    TIP_SHOWER_BATCH: {
+      validate: v.object({
+        payload: v.object({
+          recipients: recipientsValidator,
+          amountPerTip: v.numeric(),
+          tokenSymbol: v.optional(v.string()),
+          tokenAddress: v.optional(v.string()),
+          contextId: v.optional(v.string()),
+        }),
+      }),
+      handle: async ({ payload }, sender) => {
+        const recipients = payload.recipients.filter(
+          (item) => item.handle && item.address
+        );
+        if (!recipients.length) {
+          return rpcFailure("No recipients provided.");
+        }
+        const amountPerTip = String(payload.amountPerTip);
+        if (Number(amountPerTip) <= 0) {
+          return rpcFailure("Invalid tip amount.");
+        }
+        const tokenAddress = await resolveTipTokenAddress(
+          payload.tokenAddress,
+          payload.tokenSymbol || "PLUS"
+        );
+        const tokenSymbol = await displaySymbolFor(tokenAddress);
+        return waitForWalletAction(
+          walletActions,
+          {
+            title: "Tip Shower",
+            description:
+              recipients.length === 1
+                ? "Tip 1 post"
+                : `Tip ${recipients.length} posts`,
+            amount: `${amountPerTip} x ${recipients.length}`,
+            tokenSymbol,
+            estimateFee: feeEstimator(ctx.getWallet, ({ provider, address }) =>
+              planTipShower(
+                provider,
+                address,
+                tokenAddress,
+                recipients.map((recipient) => recipient.address),
+                amountPerTip
+              )
+            ),
+          },
+          () =>
+            executeTipShowerBatch({
+              recipients,
+              amountPerTip,
+              tokenAddress,
+              contextId: payload.contextId,
+              tabId: sender.tab?.id,
+            })
+        );
+      },
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { BackgroundContext } from "../context";
+import type { RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type TokenRpcType = "GET_TOKEN_REGISTRY" | "IMPORT_TOKEN" | "REMOVE_TOKEN";
+
+export function createTokenHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<TokenRpcType> {
+  const { tokenRegistry } = ctx;
+
+  return {
+    // Content scripts need it for the tipping token pickers.
+    GET_TOKEN_REGISTRY: {
+      validate: v.empty(),
+      handle: async () => ({ success: true, tokens: await tokenRegistry.list() }),
+    },
+
+    IMPORT_TOKEN: {
+      extensionPagesOnly: true,
+      validate: v.object({ address: v.string() }),
+      handle: async ({ address }) => {
+        const token = await tokenRegistry.importToken(address);
+        return { success: true, token, tokens: await tokenRegistry.list() };
+      },
+    },
+
+    REMOVE_TOKEN: {
+      extensionPagesOnly: true,
+      validate: v.object({ address: v.string() }),
+      handle: async ({ address }) => {
+        await tokenRegistry.removeToken(address);
+        return { success: true, tokens: await tokenRegistry.list() };
+      },
+    },
+  };
+}
@@ -0,0 +1,273 @@
+import { ethers } from "ethers";
+import type { RpcRequest } from "../../../types/rpc";
+import { formatAddressShort } from "../../../utils/formatters";
+import { ERC20_ABI } from "../../features/erc20";
+import { feeEstimator } from "../../features/gasFees";
+import { waitForReceipt } from "../../features/txScheduler";
+import { waitForWalletAction } from "../../features/walletActionQueue";
+import type { BackgroundContext } from "../context";
+import {
+  rpcFailure,
+  type RpcHandlerGroup,
+  type RpcHandlerResult,
+} from "../router";
+import * as v from "../validate";
+
+type TransactionRpcType =
+  | "SEND_TRANSFER"
+  | "GET_PENDING_TRANSACTIONS"
+  | "GET_TX_HISTORY"
+  | "GET_INCOMING_TRANSFERS"
+  | "REPLACE_PENDING_TX"
+  | "GET_WALLET_ACTION_QUEUE"
+  | "RESPOND_WALLET_ACTION";
+
+export function createTransactionHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<TransactionRpcType> {
+  const {
+    log,
+    autoLock,
+    txScheduler,
+    txJournal,
+    walletActions,
+    addressBook,
+    tokenRegistry,
+    incomingTransfers,
+  } = ctx;
+
+  async function executeSendTransfer({
+    toAddress,
+    amount,
+    tokenAddress,
+    tokenSymbol,
+    recipientHandle,
+  }: RpcRequest<"SEND_TRANSFER">["payload"]): Promise<
+    RpcHandlerResult<"SEND_TRANSFER">
+  > {
+    const wallet = ctx.getWallet();
+    if (!wallet) {
+      return rpcFailure("Wallet is locked.");
+    }
+
+    if (!ethers.isAddress(toAddress)) {
+      return rpcFailure("Invalid recipient address format");
+    }
+    if (isNaN(Number(amount)) || Number(amount) <= 0) {
+      return rpcFailure("Amount must be a positive number");
+    }
+    const token = tokenAddress
+      ? await tokenRegistry.get(tokenAddress)
+      : await tokenRegistry.findBySymbol(tokenSymbol || "AVAX");
+    if (!token) {
+      return rpcFailure("Unsupported token");
+    }
+
+    autoLock.touch();
+    try {
+      const signer = new ethers.Wallet(wallet.privateKey, wallet.provider);
+      let tx: ethers.TransactionResponse;
+
+      if (token.isNative) {
+        const parsedAmount = ethers.parseEther(amount);
+        const balance = await signer.provider!.getBalance(signer.address);
+        const feeData = await signer.provider!.getFeeData();
+        const estimatedGasCost = feeData.gasPrice
+          ? feeData.gasPrice * BigInt(21000)
+          : BigInt(0);
+        if (balance < parsedAmount + estimatedGasCost) {
+          return rpcFailure("Insufficient AVAX balance (including gas fees)");
+        }
+        tx = await txScheduler.send({
+          label: "Send AVAX",
+          from: signer.address,
+          details: {
+            source: "TRANSFER",
+            recipient: toAddress,
+            recipientHandle,
+            tokenSymbol: token.symbol,
+            amount,
+          },
+          build: ({ signer, nonce }) =>
+            signer.sendTransaction({ to: toAddress, value: parsedAmount, nonce }),
+        });
+      } else {
+        const tokenContract = new ethers.Contract(token.address, ERC20_ABI, signer);
+        const decimals = await tokenContract.decimals();
+        const parsedAmount = ethers.parseUnits(amount, decimals);
+        const balance: bigint = await tokenContract.balanceOf(signer.address);
+        if (balance < parsedAmount) {
+          return rpcFailure(`Insufficient ${token.symbol} balance`);
+        }
+        tx = await txScheduler.send({
+          label: `Send ${token.symbol}`,
+          from: signer.address,
+          details: {
+            source: "TRANSFER",
+            recipient: toAddress,
+            recipientHandle,
+            tokenSymbol: token.symbol,
+            amount,
+          },
+          build: ({ nonce }) =>
+            tokenContract.transfer(toAddress, parsedAmount, { nonce }),
+        });
+      }
+      addressBook
+        .markUsed(toAddress)
+        .catch((err) => log("Failed to update address book", err));
+      await waitForReceipt(tx);
+      chrome.runtime.sendMessage(
+        { type: "BALANCE_UPDATED" },
+        () => void chrome.runtime.lastError
+      );
+      return { success: true, txHash: tx.hash };
+    } catch (err: any) {
+      const reason =
+        err?.reason || err?.shortMessage || err?.message || "Transfer failed";
+      log("Error sending transfer:", reason, err);
+      return rpcFailure(reason);
+    }
+  }
+
+  return {
+    SEND_TRANSFER: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          toAddress: v.string(),
+          amount: v.string(),
+          tokenAddress: v.optional(v.string()),
+          tokenSymbol: v.optional(v.string()),
+          recipientHandle: v.optional(v.string()),
+        }),
+      }),
+      handle: ({ payload }) => executeSendTransfer(payload),
+    },
+
+    GET_PENDING_TRANSACTIONS: {
+      validate: v.empty(),
+      handle: () => ({
+        success: true,
+        transactions: txScheduler.getPending(),
+      }),
+    },
+
+    GET_TX_HISTORY: {
+      validate: v.object({
+        payload: v.optional(
+          v.object({
+            address: v.optional(v.string()),
+            limit: v.optional(v.number()),
+          })
+        ),
+      }),
+      handle: async ({ payload }) => {
+        const address = payload?.address ?? ctx.getWallet()?.address;
+        if (!address) {
+          return rpcFailure("Wallet is locked.");
+        }
+        const transactions = await txJournal.list({
+          address,
+          limit: payload?.limit,
+        });
+        return { success: true, transactions };
+      },
+    },
+
+    GET_INCOMING_TRANSFERS: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        address: v.optional(v.string()),
+        limit: v.optional(v.number()),
+      }),
+      handle: async ({ address, limit }) => {
+        const recipient = address ?? ctx.getWallet()?.address;
+        if (!recipient) {
+          return rpcFailure("Wallet is locked.");
+        }
+        return {
+          success: true,
+          transfers: await incomingTransfers.list(recipient, limit),
+        };
+      },
+    },
+
+    REPLACE_PENDING_TX: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          id: v.string(),
+          mode: v.literal("speed_up", "cancel"),
+        }),
+      }),
+      handle: ({ payload: { id, mode } }) => {
+        const target = txScheduler.getPending().find((tx) => tx.id === id);
+        if (!target) {
+          return rpcFailure("Transaction is no longer pending.");
+        }
+        return waitForWalletAction(
+          walletActions,
+          {
+            title:
+              mode === "speed_up" ? "Speed Up Transaction" : "Cancel Transaction",
+            description:
+              mode === "speed_up"
+                ? `Resubmit "${target.label}" with a higher network fee`
+                : `Replace "${target.label}" with an empty transaction`,
+            details: {
+              nonce: target.nonce,
+              transaction: formatAddressShort(target.hash),
+            },
+            // The only cost is the higher network fee.
+            tokenSymbol: "AVAX",
+            // Priced at today's fees; the node needs at least a 10% bump over
+            // the original, so the real fee can be a little higher.
+            estimateFee: feeEstimator(ctx.getWallet, async ({ provider, address }) => {
+              const original = target.hash
+                ? await provider.getTransaction(target.hash)
+                : null;
+              if (mode === "cancel" || !original) {
+                return [{ tx: { to: address, value: 0n }, gasLimit: 21000n }];
+              }
+              return [
+                {
+                  tx: { to: original.to, data: original.data, value: original.value },
+                  gasLimit: original.gasLimit,
+                },
+              ];
+            }),
+          },
+          async (): Promise<RpcHandlerResult<"REPLACE_PENDING_TX">> => {
+            autoLock.touch();
+            try {
+              const tx = await txScheduler.replace(id, mode);
+              return { success: true, txHash: tx.hash };
+            } catch (err: any) {
+              return rpcFailure(err?.shortMessage || err?.message || String(err));
+            }
+          },
+          { openPopup: false }
+        );
+      },
+    },
+
+    GET_WALLET_ACTION_QUEUE: {
+      validate: v.empty(),
+      handle: () => ({ success: true, queue: walletActions.getSummary() }),
+    },
+
+    // Approving from anywhere but our own pages would let a site confirm
+    // its own request.
+    RESPOND_WALLET_ACTION: {
+      extensionPagesOnly: true,
+      validate: v.object({ id: v.string(), approved: v.boolean() }),
+      handle: ({ id, approved }) => {
+        const result = walletActions.respond(id, approved);
+        return result.success
+          ? { success: true }
+          : rpcFailure(result.error || "Failed to submit decision.");
+      },
+    },
+  };
+}
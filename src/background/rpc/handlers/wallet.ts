@@ -0,0 +1,322 @@
+import type { AddAccountRequest } from "../../../types";
+import { supabase } from "../../../supabaseClient";
+import { exportV3Keystore } from "../../../utils/keystore";
+import {
+  loadAccountMeta,
+  sameAddress,
+  setAccountLabel,
+} from "../../features/accounts";
+import {
+  addAccount,
+  readWalletSecrets,
+  unlockAndInitializeWallet,
+} from "../../features/walletUnlock";
+import type { BackgroundContext } from "../context";
+import { rpcFailure, type RpcHandlerGroup } from "../router";
+import * as v from "../validate";
+
+type WalletRpcType =
+  | "GET_APP_STATE"
+  | "CHECK_WALLET_SETUP"
+  | "CHECK_WALLET_STATUS"
+  | "UNLOCK_WALLET"
+  | "LOCK_WALLET"
+  | "PROMPT_UNLOCK_WALLET"
+  | "REVEAL_PRIVATE_KEY"
+  | "EXPORT_KEYSTORE"
+  | "REVEAL_RECOVERY_PHRASE"
+  | "GET_RECOVERY_BACKUP_STATUS"
+  | "VERIFY_RECOVERY_BACKUP"
+  | "SWITCH_ACCOUNT"
+  | "ADD_ACCOUNT"
+  | "RENAME_ACCOUNT"
+  | "GET_AUTO_LOCK_STATUS"
+  | "EXTEND_AUTO_LOCK"
+  | "SET_AUTO_LOCK_POLICY"
+  | "GET_SPENDING_POLICY"
+  | "SET_SPENDING_POLICY";
+
+const addAccountRequest: v.Validator<AddAccountRequest> = (value, path) => {
+  const { kind, privateKey } = v.object({
+    kind: v.literal("derived", "imported"),
+    privateKey: v.optional(v.string()),
+  })(value, path);
+  if (kind === "derived") return { kind };
+  return { kind, privateKey: v.string()(privateKey, `${path}.privateKey`) };
+};
+
+export function createWalletHandlers(
+  ctx: BackgroundContext
+): RpcHandlerGroup<WalletRpcType> {
+  const { log, autoLock, spendingPolicy, walletActions, recoveryBackup } = ctx;
+
+  return {
+    GET_APP_STATE: {
+      validate: v.empty(),
+      handle: async () => {
+        log("Received GET_APP_STATE, fetching fresh session...");
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+        ctx.setTwitterUser(session?.user ?? null);
+        return {
+          success: true,
+          isUnlocked: !!ctx.getWallet(),
+          ...ctx.getAccountsState(),
+          twitterUser: ctx.getTwitterUser(),
+        };
+      },
+    },
+
+    CHECK_WALLET_SETUP: {
+      validate: v.empty(),
+      handle: async () => {
+        const result = await chrome.storage.local.get(["walletData"]);
+        return { success: true, isSetup: !!result.walletData };
+      },
+    },
+
+    CHECK_WALLET_STATUS: {
+      validate: v.empty(),
+      handle: () => ({
+        success: true,
+        isUnlocked: !!ctx.getWallet(),
+        hasWallet: !!ctx.getWallet(),
+      }),
+    },
+
+    UNLOCK_WALLET: {
+      validate: v.object({ password: v.string() }),
+      handle: async ({ password }) => {
+        const accounts = await unlockAndInitializeWallet(password, log);
+        const { activeAddress } = await loadAccountMeta();
+        await ctx.activateAccounts(accounts, activeAddress);
+        autoLock
+          .arm()
+          .catch((err) => log("Failed to arm auto-lock", err));
+        return { success: true, ...ctx.getAccountsState() };
+      },
+    },
+
+    LOCK_WALLET: {
+      validate: v.empty(),
+      handle: () => {
+        ctx.lockWallet("manual");
+        return { success: true };
+      },
+    },
+
+    PROMPT_UNLOCK_WALLET: {
+      validate: v.empty(),
+      handle: async () => {
+        await walletActions.openPopup();
+        return { success: true };
+      },
+    },
+
+    REVEAL_PRIVATE_KEY: {
+      extensionPagesOnly: true,
+      validate: v.object({ password: v.string() }),
+      handle: async ({ password }) => {
+        const wallet = ctx.getWallet();
+        if (!wallet) {
+          return rpcFailure("Wallet is locked.");
+        }
+        await readWalletSecrets(password, log);
+        // The keystore's own key is only the first account's.
+        const account = ctx
+          .getUnlockedAccounts()
+          .find((item) => sameAddress(item.address, wallet.address));
+        if (!account) {
+          return rpcFailure("Account not found.");
+        }
+        return { success: true, privateKey: account.privateKey };
+      },
+    },
+
+    // The wallet password proves who asks; the passphrase protects the file.
+    EXPORT_KEYSTORE: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        password: v.string(),
+        passphrase: v.string(),
+        address: v.optional(v.string()),
+      }),
+      handle: async ({ password, passphrase, address }) => {
+        const wallet = ctx.getWallet();
+        if (!wallet) {
+          return rpcFailure("Wallet is locked.");
+        }
+        if (passphrase.length < 8) {
+          return rpcFailure("Use a passphrase of at least 8 characters.");
+        }
+        if (passphrase === password) {
+          return rpcFailure("Use a passphrase different from your wallet password.");
+        }
+        await readWalletSecrets(password, log);
+        const account = ctx
+          .getUnlockedAccounts()
+          .find((item) => sameAddress(item.address, address ?? wallet.address));
+        if (!account) {
+          return rpcFailure("Account not found.");
+        }
+        autoLock.touch();
+        const keystore = await exportV3Keystore(account.privateKey, passphrase);
+        log(`Exported keystore for ${account.address}`);
+        return { success: true, keystore, address: account.address };
+      },
+    },
+
+    // The quiz is keyed to the first account, which is derived from the
+    // phrase; imported-only wallets have no phrase to back up.
+    REVEAL_RECOVERY_PHRASE: {
+      extensionPagesOnly: true,
+      validate: v.object({ password: v.string() }),
+      handle: async ({ password }) => {
+        const { secrets } = await readWalletSecrets(password, log);
+        const [first] = ctx.getUnlockedAccounts();
+        if (!secrets.mnemonic || !first) {
+          return rpcFailure("This wallet has no recovery phrase.");
+        }
+        autoLock.touch();
+        const quizIndices = recoveryBackup.startQuiz(first.address, secrets.mnemonic);
+        return { success: true, mnemonic: secrets.mnemonic, quizIndices };
+      },
+    },
+
+    GET_RECOVERY_BACKUP_STATUS: {
+      extensionPagesOnly: true,
+      validate: v.empty(),
+      handle: async () => {
+        const [first] = ctx.getUnlockedAccounts();
+        if (first?.kind !== "derived") {
+          return { success: true, hasRecoveryPhrase: false };
+        }
+        const record = await recoveryBackup.getStatus(first.address);
+        return {
+          success: true,
+          hasRecoveryPhrase: true,
+          verifiedAt: record?.verifiedAt,
+        };
+      },
+    },
+
+    VERIFY_RECOVERY_BACKUP: {
+      extensionPagesOnly: true,
+      validate: v.object({ answers: v.array(v.string()) }),
+      handle: async ({ answers }) => {
+        const [first] = ctx.getUnlockedAccounts();
+        if (!first) {
+          return rpcFailure("Wallet is locked.");
+        }
+        const { verifiedAt } = await recoveryBackup.verifyQuiz(first.address, answers);
+        return { success: true, verifiedAt };
+      },
+    },
+
+    SWITCH_ACCOUNT: {
+      extensionPagesOnly: true,
+      validate: v.object({ payload: v.object({ address: v.string() }) }),
+      handle: async ({ payload }) => {
+        if (!ctx.getWallet()) {
+          return rpcFailure("Wallet is locked.");
+        }
+        const accounts = ctx.getUnlockedAccounts();
+        const target = accounts.find((item) =>
+          sameAddress(item.address, payload.address)
+        );
+        if (!target) {
+          return rpcFailure("Account not found.");
+        }
+        await ctx.activateAccounts(accounts, target.address);
+        autoLock.touch();
+        return { success: true, ...ctx.getAccountsState() };
+      },
+    },
+
+    ADD_ACCOUNT: {
+      extensionPagesOnly: true,
+      validate: v.object({ password: v.string(), payload: addAccountRequest }),
+      handle: async ({ password, payload }) => {
+        if (!ctx.getWallet()) {
+          return rpcFailure("Wallet is locked.");
+        }
+        const { accounts, added } = await addAccount(password, payload, log);
+        await ctx.activateAccounts(accounts, added.address);
+        autoLock.touch();
+        return { success: true, ...ctx.getAccountsState() };
+      },
+    },
+
+    RENAME_ACCOUNT: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({ address: v.string(), label: v.string() }),
+      }),
+      handle: async ({ payload }) => {
+        const label = await setAccountLabel(payload.address, payload.label);
+        ctx.relabelAccount(payload.address, label);
+        return { success: true, ...ctx.getAccountsState() };
+      },
+    },
+
+    GET_AUTO_LOCK_STATUS: {
+      validate: v.empty(),
+      handle: async () => ({ success: true, status: await autoLock.getStatus() }),
+    },
+
+    // A web page must not be able to keep the wallet unlocked or turn
+    // auto-lock off.
+    EXTEND_AUTO_LOCK: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.optional(v.object({ minutes: v.optional(v.number()) })),
+      }),
+      handle: async ({ payload }) => ({
+        success: true,
+        status: await autoLock.extend(payload?.minutes),
+      }),
+    },
+
+    SET_AUTO_LOCK_POLICY: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          enabled: v.optional(v.boolean()),
+          timeoutMinutes: v.optional(v.number()),
+          lockOnSystemLock: v.optional(v.boolean()),
+          lockOnIdle: v.optional(v.boolean()),
+        }),
+      }),
+      handle: async ({ payload }) => ({
+        success: true,
+        status: await autoLock.setPolicy(payload),
+      }),
+    },
+
+    GET_SPENDING_POLICY: {
+      validate: v.empty(),
+      handle: async () => ({
+        success: true,
+        status: await spendingPolicy.getStatus(),
+      }),
+    },
+
+    // Loosening the policy from a web page would defeat it.
+    SET_SPENDING_POLICY: {
+      extensionPagesOnly: true,
+      validate: v.object({
+        payload: v.object({
+          allowedSources: v.optional(v.array(v.string())),
+          dailyCaps: v.optional(v.record(v.string())),
+          maxSingleAmounts: v.optional(v.record(v.string())),
+          recipientCooldownSeconds: v.optional(v.number()),
+        }),
+      }),
+      handle: async ({ payload }) => ({
+        success: true,
+        status: await spendingPolicy.setPolicy(payload),
+      }),
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import type {
+  RpcContract,
+  RpcErrorCode,
+  RpcFailure,
+  RpcRequest,
+  RpcResult,
+  RpcSuccess,
+  RpcType,
+} from "../../types/rpc";
+import type { LogFn } from "../core/logger";
+import type { Validator } from "./validate";
+
+/** What a handler returns; the router fills in a missing error code. */
+export type RpcHandlerResult<K extends RpcType> =
+  | RpcSuccess<RpcContract[K]["response"]>
+  | { success: false; error: string; code?: RpcErrorCode };
+
+export interface RpcHandler<K extends RpcType> {
+  /**
+   * Only our own pages (popup, welcome, approval window) may call it; content
+   * scripts have to go through the approval queue instead.
+   */
+  extensionPagesOnly?: boolean;
+  validate: Validator<RpcRequest<K>>;
+  handle: (
+    request: RpcRequest<K>,
+    sender: chrome.runtime.MessageSender
+  ) => RpcHandlerResult<K> | Promise<RpcHandlerResult<K>>;
+}
+
+export type RpcHandlerMap = { [K in RpcType]: RpcHandler<K> };
+
+/** The handlers one module contributes to the router. */
+export type RpcHandlerGroup<K extends RpcType> = Pick<RpcHandlerMap, K>;
+
+interface RpcRouterOptions {
+  log: LogFn;
+  handlers: RpcHandlerMap;
+}
+
+export const rpcFailure = (
+  error: string,
+  code: RpcErrorCode = "FAILED"
+): RpcFailure => ({ success: false, error, code });
+
+export const isExtensionPageSender = (sender: chrome.runtime.MessageSender) =>
+  sender.id === chrome.runtime.id &&
+  !!sender.url?.startsWith(chrome.runtime.getURL(""));
+
+export function createRpcRouter({ log, handlers }: RpcRouterOptions) {
+  const dispatch = async <K extends RpcType>(
+    type: K,
+    message: unknown,
+    sender: chrome.runtime.MessageSender
+  ): Promise<RpcResult<K>> => {
+    const handler = handlers[type] as RpcHandler<K>;
+    if (handler.extensionPagesOnly && !isExtensionPageSender(sender)) {
+      log(`Rejected ${type} from ${sender.url ?? "unknown sender"}`);
+      return rpcFailure("Unauthorized sender.", "UNAUTHORIZED");
+    }
+
+    let request: RpcRequest<K>;
+    try {
+      request = handler.validate(message, type);
+    } catch (err: any) {
+      log(`Rejected ${type}: ${err?.message}`);
+      return rpcFailure(err?.message || "Invalid request.", "BAD_REQUEST");
+    }
+
+    try {
+      const result = await handler.handle(request, sender);
+      return result.success ? result : { ...result, code: result.code ?? "FAILED" };
+    } catch (err: any) {
+      log(`${type} handler failed`, err);
+      return rpcFailure(err?.message || String(err));
+    }
+  };
+
+  const listener = (
+    message: any,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: unknown) => void
+  ) => {
+    const type = message?.type;
+    // Broadcasts such as BALANCE_UPDATED are not requests; leave them alone.
+    if (
+      typeof type !== "string" ||
+      !Object.prototype.hasOwnProperty.call(handlers, type)
+    ) {
+      return false;
+    }
+    dispatch(type as RpcType, message, sender).then(sendResponse);
+    return true;
+  };
+
+  return {
+    listen: () => chrome.runtime.onMessage.addListener(listener),
+  };
+}
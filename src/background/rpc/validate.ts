@@ -0,0 +1,115 @@
+// Minimal runtime checks for incoming messages. Validators only check the
+// shape of a request; handlers keep their own domain checks and messages.
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class RpcValidationError extends Error {
+  constructor(path: string, expected: string) {
+    super(`Invalid request: ${path} must be ${expected}.`);
+    this.name = "RpcValidationError";
+  }
+}
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const expect = <T>(
+  expected: string,
+  check: (value: unknown) => boolean
+): Validator<T> => (value, path) => {
+  if (!check(value)) {
+    throw new RpcValidationError(path, `${expected} (got ${describe(value)})`);
+  }
+  return value as T;
+};
+
+export const string = () =>
+  expect<string>("a string", (value) => typeof value === "string");
+
+export const number = () =>
+  expect<number>(
+    "a number",
+    (value) => typeof value === "number" && Number.isFinite(value)
+  );
+
+export const boolean = () =>
+  expect<boolean>("a boolean", (value) => typeof value === "boolean");
+
+/** Numbers that content scripts may also send as numeric strings. */
+export const numeric = () =>
+  expect<number | string>(
+    "a number or numeric string",
+    (value) =>
+      (typeof value === "number" && Number.isFinite(value)) ||
+      (typeof value === "string" &&
+        value.trim() !== "" &&
+        Number.isFinite(Number(value)))
+  );
+
+export const literal = <T extends string>(...options: T[]) =>
+  expect<T>(
+    `one of ${options.join(", ")}`,
+    (value) => options.includes(value as T)
+  );
+
+/** Accepts anything; for opaque values the handler passes along. */
+export const unknown = (): Validator<unknown> => (value) => value;
+
+export const optional =
+  <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : validator(value, path);
+
+export const array =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new RpcValidationError(path, `an array (got ${describe(value)})`);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+
+/** Plain objects with arbitrary keys, e.g. amounts by token symbol. */
+export const record =
+  <T>(item: Validator<T>): Validator<Record<string, T>> =>
+  (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new RpcValidationError(path, `an object (got ${describe(value)})`);
+    }
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = item(entry, `${path}.${key}`);
+    }
+    return result;
+  };
+
+type Shape = Record<string, Validator<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends ReturnType<S[K]> ? K : never;
+}[keyof S];
+
+export type Infer<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: ReturnType<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: ReturnType<S[K]>;
+};
+
+/** Checks the listed fields and drops everything else. */
+export const object =
+  <S extends Shape>(shape: S): Validator<Infer<S>> =>
+  (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new RpcValidationError(path, `an object (got ${describe(value)})`);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key](source[key], `${path}.${key}`);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as Infer<S>;
+  };
+
+/** Requests without fields; anything besides `type` is ignored. */
+export const empty = () => object({});
@@ -0,0 +1,113 @@
+import React from "react";
+import { AUTO_LOCK_TIMEOUT_OPTIONS, type AutoLockPolicy } from "../../types/autoLock";
+import { formatLockCountdown, useAutoLock } from "../../hooks/useAutoLock";
+
+const Toggle: React.FC<{ enabled: boolean; onClick: () => void }> = ({
+  enabled,
+  onClick,
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${enabled ? "bg-blue-600" : "bg-gray-200"
+      }`}
+  >
+    <span
+      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${enabled ? "translate-x-6" : "translate-x-1"
+        }`}
+    />
+  </button>
+);
+
+const formatTimeoutLabel = (minutes: number) =>
+  minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`;
+
+export const AutoLockSettings: React.FC = () => {
+  const { status, remainingMs, error, extend, updatePolicy } = useAutoLock();
+
+  if (!status) return null;
+
+  const { policy } = status;
+  const toggle = (key: keyof Omit<AutoLockPolicy, "timeoutMinutes">) =>
+    updatePolicy({ [key]: !policy[key] });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-slate-400">
+            Auto-lock
+          </p>
+          <p className="text-sm font-semibold text-slate-800">
+            {!policy.enabled
+              ? "Off"
+              : remainingMs != null
+                ? `Locks in ${formatLockCountdown(remainingMs)}`
+                : "Not armed"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {policy.enabled && remainingMs != null && (
+            <button
+              type="button"
+              onClick={() => void extend()}
+              className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700"
+            >
+              +15 min
+            </button>
+          )}
+          <Toggle enabled={policy.enabled} onClick={() => void toggle("enabled")} />
+        </div>
+      </div>
+
+      {policy.enabled && (
+        <div className="space-y-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Lock after inactivity
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {AUTO_LOCK_TIMEOUT_OPTIONS.map((minutes) => (
+                <button
+                  key={minutes}
+                  type="button"
+                  onClick={() => void updatePolicy({ timeoutMinutes: minutes })}
+                  className={`rounded-full px-3 py-1 text-[11px] font-semibold transition ${policy.timeoutMinutes === minutes
+                    ? "bg-gradient-to-r from-blue-500 to-emerald-500 text-white shadow"
+                    : "border border-slate-200 bg-white text-slate-500 hover:text-slate-700"
+                    }`}
+                >
+                  {formatTimeoutLabel(minutes)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600">Lock when computer locks</span>
+            <Toggle
+              enabled={policy.lockOnSystemLock}
+              onClick={() => void toggle("lockOnSystemLock")}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600">Lock when browser is idle</span>
+            <Toggle
+              enabled={policy.lockOnIdle}
+              onClick={() => void toggle("lockOnIdle")}
+            />
+          </div>
+          <p className="text-xs text-slate-400">
+            The timer restarts with every signed transaction. The wallet always
+            locks when the browser restarts.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
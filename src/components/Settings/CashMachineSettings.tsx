@@ -1,9 +1,11 @@
 import React, { useMemo } from "react";
 import { FeatureFlags } from "../../types/features";
 import { Tooltip } from "../UI/Tooltip";
-import { PARTNER_TOKENS } from "../../constants";
 import { TokenSelect } from "../UI/TokenSelect";
 import { useCommunityImages } from "../../hooks/useCommunityImages";
+import { useTokenRegistry } from "../../hooks/useTokenRegistry";
+import { findTokenBySymbol } from "../../lib/tokenRegistry";
+import { SpendingPolicySettings } from "./SpendingPolicySettings";
 
 // Hardcoded ARENA token logo (API returns incorrect dog image)
 const ARENA_LOGO_URL = `${import.meta.env.VITE_STATIC_ASSETS_URL || 'https://static.starsarena.com'}/uploads/95dc787e-19e4-3cc5-7a2b-1ec4c80f02531747905925081.png`;
@@ -12,7 +14,7 @@ interface CashMachineSettingsProps {
   features: FeatureFlags;
   toggleFeature: (feature: keyof FeatureFlags) => void;
   updateCashMachineAmount: (amount: string) => void;
-  updateCashMachineToken: (token: string) => void;
+  updateCashMachineToken: (token: { address: string; symbol: string }) => void;
   onListTokenClick: () => void;
 }
 
@@ -23,12 +25,23 @@ export const CashMachineSettings: React.FC<CashMachineSettingsProps> = ({
   updateCashMachineToken,
   onListTokenClick,
 }) => {
-  // Fetch community images for partner tokens
-  const tokenTickers = PARTNER_TOKENS.map(t => t.symbol);
+  const { tokens } = useTokenRegistry();
+  const tipTokens = useMemo(
+    () => tokens.filter((token) => token.tippable && !token.isNative),
+    [tokens]
+  );
+  // Settings saved before the registry only have the symbol.
+  const selectedAddress =
+    features.cashMachineTokenAddress ||
+    findTokenBySymbol(tipTokens, features.cashMachineToken)?.address ||
+    "";
+
+  // Fetch community images for tippable tokens
+  const tokenTickers = tipTokens.map(t => t.symbol);
   const { communities } = useCommunityImages(tokenTickers);
 
   const tipTokenOptions = useMemo(() =>
-    PARTNER_TOKENS.map((token) => {
+    tipTokens.map((token) => {
       const community = communities[token.symbol.toLowerCase()];
       // Use hardcoded URL for ARENA, then API image, then static image
       const imageUrl = token.symbol.toUpperCase() === 'ARENA'
@@ -36,12 +49,13 @@ export const CashMachineSettings: React.FC<CashMachineSettingsProps> = ({
         : (community?.photoURL || token.image || "/arena.png");
 
       return {
+        value: token.address,
         symbol: token.symbol,
         name: token.name,
         image: imageUrl,
       };
     }),
-    [communities]
+    [tipTokens, communities]
   );
 
   return (
@@ -101,12 +115,26 @@ export const CashMachineSettings: React.FC<CashMachineSettingsProps> = ({
           </label>
           <TokenSelect
             options={tipTokenOptions}
-            value={features.cashMachineToken}
-            onChange={updateCashMachineToken}
+            value={selectedAddress}
+            onChange={(address) => {
+              const token = tipTokens.find((item) => item.address === address);
+              if (token) {
+                updateCashMachineToken({ address, symbol: token.symbol });
+              }
+            }}
             placeholder="Choose token"
           />
         </div>
       </div>
+      {selectedAddress && (
+        <SpendingPolicySettings
+          tokenAddress={selectedAddress}
+          tokenSymbol={
+            tipTokens.find((token) => token.address === selectedAddress)?.symbol ??
+            features.cashMachineToken
+          }
+        />
+      )}
       <div className="text-center mt-4">
         <button
           onClick={onListTokenClick}
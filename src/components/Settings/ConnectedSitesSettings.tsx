@@ -0,0 +1,65 @@
+import React from "react";
+import { useDappConnections } from "../../hooks/useDappConnections";
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+export const ConnectedSitesSettings: React.FC = () => {
+  const { connections, error, revoke } = useDappConnections();
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+      <div>
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          Connected sites
+        </p>
+        <p className="text-sm font-semibold text-slate-800">
+          {connections.length
+            ? `${connections.length} site${connections.length === 1 ? "" : "s"} can see your address`
+            : "No sites connected"}
+        </p>
+      </div>
+
+      {connections.length > 0 && (
+        <div className="space-y-2">
+          {connections.map((connection) => (
+            <div
+              key={connection.origin}
+              className="flex items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <p
+                  className="truncate text-sm text-slate-700"
+                  title={connection.origin}
+                >
+                  {connection.origin.replace(/^https:\/\//, "")}
+                </p>
+                <p className="truncate text-xs text-slate-400">
+                  {connection.accounts.map(shortAddress).join(", ")} · since{" "}
+                  {new Date(connection.connectedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => void revoke(connection.origin)}
+                className="text-xs font-semibold text-slate-400 hover:text-rose-600"
+              >
+                Disconnect
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-slate-400">
+        Connected sites can read your active address and ask you to approve
+        transactions and signatures. They never get your keys.
+      </p>
+
+      {error && (
+        <p className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
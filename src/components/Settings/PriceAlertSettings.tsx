@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { ARENA_TOKEN } from "../../constants";
+import { usePriceAlerts } from "../../hooks/usePriceAlerts";
+import { useTokenRegistry } from "../../hooks/useTokenRegistry";
+import { sendRpc } from "../../lib/rpc";
+import {
+  PRICE_ALERT_WINDOW_OPTIONS,
+  type PriceAlert,
+  type PriceAlertCondition,
+} from "../../types/priceAlerts";
+import { formatUsd } from "../../utils/formatters";
+import { TokenSelect, type TokenSelectOption } from "../UI/TokenSelect";
+
+type AlertKind = PriceAlertCondition["kind"];
+
+const formatWindow = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60}h`;
+
+const describeCondition = (condition: PriceAlertCondition) =>
+  condition.kind === "move"
+    ? `moves ±${condition.percent}% within ${formatWindow(condition.windowMinutes)}`
+    : `${condition.kind} ${formatUsd(condition.priceUsd)}`;
+
+/**
+ * Price alert rules. The background checks them every few minutes and shows
+ * a Chrome notification, so they work with the popup closed.
+ */
+export const PriceAlertSettings: React.FC = () => {
+  const { tokens } = useTokenRegistry();
+  const { alerts, error, saveAlert, removeAlert } = usePriceAlerts();
+  const [tokenAddress, setTokenAddress] = useState(() =>
+    ethers.getAddress(ARENA_TOKEN.address)
+  );
+  const [kind, setKind] = useState<AlertKind>("above");
+  const [value, setValue] = useState("");
+  const [windowMinutes, setWindowMinutes] = useState(PRICE_ALERT_WINDOW_OPTIONS[0]);
+  const [currentPrice, setCurrentPrice] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrentPrice(null);
+    sendRpc("GET_TOKEN_PRICES", { addresses: [tokenAddress] }).then((response) => {
+      if (!response.success) return;
+      setCurrentPrice(response.prices[tokenAddress.toLowerCase()]?.priceUsd ?? null);
+    });
+  }, [tokenAddress]);
+
+  const options: TokenSelectOption[] = tokens.map((token) => ({
+    value: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    image: token.image,
+  }));
+
+  const addAlert = async () => {
+    const number = Number(value);
+    if (!value || !(number > 0) || saving) return;
+    setSaving(true);
+    const condition: PriceAlertCondition =
+      kind === "move"
+        ? { kind, percent: number, windowMinutes }
+        : { kind, priceUsd: number };
+    const saved = await saveAlert({ tokenAddress, condition });
+    setSaving(false);
+    if (saved) setValue("");
+  };
+
+  const toggle = (alert: PriceAlert) =>
+    void saveAlert({
+      id: alert.id,
+      tokenAddress: alert.tokenAddress,
+      condition: alert.condition,
+      enabled: !alert.enabled,
+    });
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+      <div>
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          Price alerts
+        </p>
+        <p className="text-sm font-semibold text-slate-800">
+          {alerts.filter((alert) => alert.enabled).length} active
+        </p>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="space-y-2">
+          {alerts.map((alert) => (
+            <div key={alert.id} className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p
+                  className={`truncate text-sm ${
+                    alert.enabled ? "text-slate-700" : "text-slate-400 line-through"
+                  }`}
+                >
+                  {alert.tokenSymbol} {describeCondition(alert.condition)}
+                </p>
+                {alert.lastTriggeredAt && (
+                  <p className="text-xs text-slate-400">
+                    Last fired {new Date(alert.lastTriggeredAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => toggle(alert)}
+                  className="text-xs font-semibold text-slate-400 hover:text-slate-700"
+                >
+                  {alert.enabled ? "Pause" : "Resume"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void removeAlert(alert.id)}
+                  className="text-xs font-semibold text-slate-400 hover:text-rose-600"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <TokenSelect options={options} value={tokenAddress} onChange={setTokenAddress} />
+        <div className="flex gap-2">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertKind)}
+            className="rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="above">Above</option>
+            <option value="below">Below</option>
+            <option value="move">Moves by</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={value}
+            placeholder={kind === "move" ? "Percent" : "Price in USD"}
+            onChange={(e) => setValue(e.target.value)}
+            className="min-w-0 flex-1 rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          {kind === "move" && (
+            <select
+              value={windowMinutes}
+              onChange={(e) => setWindowMinutes(Number(e.target.value))}
+              className="rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {PRICE_ALERT_WINDOW_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  in {formatWindow(minutes)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => void addAlert()}
+          disabled={saving || !(Number(value) > 0)}
+          className="w-full rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-2 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Add alert"}
+        </button>
+        <p className="text-xs text-slate-400">
+          {currentPrice !== null
+            ? `Now ${formatUsd(currentPrice)}. `
+            : "No DEX price for this token yet. "}
+          Checked every 5 minutes; clicking a notification opens DexScreener.
+        </p>
+      </div>
+
+      {error && (
+        <p className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { useRpcStatus } from "../../hooks/useRpcStatus";
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+export const RpcEndpointSettings: React.FC = () => {
+  const { status, checking, error, check, setEndpoints } = useRpcStatus();
+  const [draft, setDraft] = useState("");
+
+  if (!status) return null;
+
+  const { endpoints, health } = status;
+  const healthyCount = health.filter((item) => item.healthy).length;
+  const summary = !health.length
+    ? "Not checked yet"
+    : healthyCount === 0
+      ? "All endpoints failing"
+      : `${healthyCount} of ${endpoints.length} healthy`;
+
+  const addEndpoint = () => {
+    const url = draft.trim();
+    if (!url) return;
+    setDraft("");
+    void setEndpoints([...endpoints, url]);
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-slate-400">
+            RPC endpoints
+          </p>
+          <p
+            className={`text-sm font-semibold ${health.length && healthyCount === 0 ? "text-rose-600" : "text-slate-800"
+              }`}
+          >
+            {summary}
+          </p>
+        </div>
+        <button
+          type="button"
+          disabled={checking}
+          onClick={() => void check()}
+          className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700 disabled:opacity-50"
+        >
+          {checking ? "Checking..." : "Check now"}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {endpoints.map((url) => {
+          const entry = health.find((item) => item.url === url);
+          return (
+            <div key={url} className="flex items-center justify-between gap-2">
+              <div className="flex min-w-0 items-center gap-2">
+                <span
+                  className={`h-2 w-2 shrink-0 rounded-full ${!entry ? "bg-slate-300" : entry.healthy ? "bg-emerald-500" : "bg-rose-500"
+                    }`}
+                />
+                <div className="min-w-0">
+                  <p className="truncate text-sm text-slate-700" title={url}>
+                    {hostOf(url)}
+                  </p>
+                  {entry && (
+                    <p className="truncate text-xs text-slate-400">
+                      {entry.healthy
+                        ? `${entry.latencyMs} ms · block ${entry.blockNumber}`
+                        : entry.error}
+                    </p>
+                  )}
+                </div>
+              </div>
+              {endpoints.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    void setEndpoints(endpoints.filter((item) => item !== url))
+                  }
+                  className="text-xs font-semibold text-slate-400 hover:text-rose-600"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={draft}
+          placeholder="https://..."
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addEndpoint();
+          }}
+          className="min-w-0 flex-1 rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={addEndpoint}
+          className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-1 text-[11px] font-semibold text-white shadow"
+        >
+          Add
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        Requests go to the fastest healthy endpoint and fail over to the next
+        one. Endpoints are checked every 5 minutes.
+      </p>
+
+      {error && (
+        <p className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
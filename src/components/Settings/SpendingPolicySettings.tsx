@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import { useSpendingPolicy } from "../../hooks/useSpendingPolicy";
+import {
+  AUTO_SPEND_SOURCES,
+  RECIPIENT_COOLDOWN_OPTIONS,
+  type SpendingPolicy,
+} from "../../types/spendingPolicy";
+
+type AmountLimitKey = "dailyCaps" | "maxSingleAmounts";
+
+const formatCooldownLabel = (seconds: number) =>
+  seconds === 0
+    ? "Off"
+    : seconds >= 3600
+      ? `${seconds / 3600}h`
+      : seconds >= 60
+        ? `${seconds / 60}m`
+        : `${seconds}s`;
+
+interface SpendingPolicySettingsProps {
+  /** Token whose limits are shown, usually the Cash Machine tip token. */
+  tokenAddress: string;
+  /** Display only; limits are keyed by address. */
+  tokenSymbol: string;
+}
+
+export const SpendingPolicySettings: React.FC<SpendingPolicySettingsProps> = ({
+  tokenAddress,
+  tokenSymbol,
+}) => {
+  const { status, error, updatePolicy } = useSpendingPolicy();
+  const key = tokenAddress.toLowerCase();
+  const symbol = tokenSymbol.toUpperCase();
+  const [drafts, setDrafts] = useState<Record<AmountLimitKey, string>>({
+    dailyCaps: "",
+    maxSingleAmounts: "",
+  });
+
+  useEffect(() => {
+    if (!status) return;
+    setDrafts({
+      dailyCaps: status.policy.dailyCaps[key] ?? "",
+      maxSingleAmounts: status.policy.maxSingleAmounts[key] ?? "",
+    });
+  }, [status, key]);
+
+  if (!status) return null;
+
+  const { policy, spentToday } = status;
+
+  const saveLimit = (limit: AmountLimitKey) => {
+    const value = drafts[limit].trim();
+    if (value === (policy[limit][key] ?? "")) return;
+    const next: Record<string, string> = { ...policy[limit] };
+    if (value && Number(value) > 0) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    void updatePolicy({ [limit]: next } as Partial<SpendingPolicy>);
+  };
+
+  const toggleSource = (source: string) => {
+    const allowed = policy.allowedSources.includes(source);
+    void updatePolicy({
+      allowedSources: allowed
+        ? policy.allowedSources.filter((item) => item !== source)
+        : [...policy.allowedSources, source],
+    });
+  };
+
+  const limitInput = (limit: AmountLimitKey, label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">
+        {label} ({symbol})
+      </label>
+      <input
+        type="number"
+        min="0"
+        step="0.01"
+        placeholder="No limit"
+        value={drafts[limit]}
+        onChange={(e) => setDrafts((current) => ({ ...current, [limit]: e.target.value }))}
+        onBlur={() => saveLimit(limit)}
+        className="mt-1 w-full p-2.5 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+      />
+    </div>
+  );
+
+  return (
+    <div className="mt-4 space-y-3 bg-white p-4 rounded-lg border border-gray-200">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-700">Spending limits</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          Tips outside these limits wait for your approval in the wallet
+          instead of being signed automatically.
+        </p>
+      </div>
+
+      {Object.entries(AUTO_SPEND_SOURCES).map(([source, name]) => {
+        const allowed = policy.allowedSources.includes(source);
+        return (
+          <div key={source} className="flex items-center justify-between">
+            <span className="text-sm text-gray-700">
+              {name} signs without approval
+            </span>
+            <button
+              type="button"
+              onClick={() => toggleSource(source)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${allowed ? "bg-blue-600" : "bg-gray-200"
+                }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${allowed ? "translate-x-6" : "translate-x-1"
+                  }`}
+              />
+            </button>
+          </div>
+        );
+      })}
+
+      {limitInput("dailyCaps", "Daily cap")}
+      <p className="text-xs text-gray-500">
+        Spent in the last 24h: {spentToday[key] ?? "0"} {symbol}
+      </p>
+      {limitInput("maxSingleAmounts", "Max per tip")}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">
+          Wait before tipping the same user again
+        </label>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {RECIPIENT_COOLDOWN_OPTIONS.map((seconds) => (
+            <button
+              key={seconds}
+              type="button"
+              onClick={() => void updatePolicy({ recipientCooldownSeconds: seconds })}
+              className={`rounded-full px-3 py-1 text-[11px] font-semibold transition ${policy.recipientCooldownSeconds === seconds
+                ? "bg-gradient-to-r from-blue-500 to-emerald-500 text-white shadow"
+                : "border border-slate-200 bg-white text-slate-500 hover:text-slate-700"
+                }`}
+            >
+              {formatCooldownLabel(seconds)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className="rounded-lg bg-rose-50 px-3 py-2 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { useTokenRegistry } from "../../hooks/useTokenRegistry";
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+export const TokenRegistrySettings: React.FC = () => {
+  const { tokens, error, importToken, removeToken } = useTokenRegistry();
+  const [draft, setDraft] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  const imported = tokens.filter((token) => token.sources.includes("imported"));
+  const subscribedCount = tokens.filter((token) =>
+    token.sources.includes("subscribed")
+  ).length;
+
+  const addToken = async () => {
+    const address = draft.trim();
+    if (!address || importing) return;
+    setImporting(true);
+    const token = await importToken(address);
+    setImporting(false);
+    if (token) setDraft("");
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+      <div>
+        <p className="text-xs uppercase tracking-wide text-slate-400">
+          Tokens
+        </p>
+        <p className="text-sm font-semibold text-slate-800">
+          {tokens.length} tokens · {subscribedCount} from Post2Earn
+          subscriptions
+        </p>
+      </div>
+
+      {imported.length > 0 && (
+        <div className="space-y-2">
+          {imported.map((token) => (
+            <div
+              key={token.address}
+              className="flex items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm text-slate-700">
+                  {token.symbol}{" "}
+                  <span className="text-slate-400">{token.name}</span>
+                </p>
+                <p
+                  className="truncate text-xs text-slate-400"
+                  title={token.address}
+                >
+                  {shortAddress(token.address)} · {token.decimals} decimals
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => void removeToken(token.address)}
+                className="text-xs font-semibold text-slate-400 hover:text-rose-600"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          placeholder="Token contract 0x..."
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void addToken();
+          }}
+          className="min-w-0 flex-1 rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={() => void addToken()}
+          disabled={importing}
+          className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-1 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+        >
+          {importing ? "Importing..." : "Import"}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        Imported tokens show in balances, transfers and tipping. Anyone can
+        deploy a token with any name, so check the contract address first.
+      </p>
+
+      {error && (
+        <p className="rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
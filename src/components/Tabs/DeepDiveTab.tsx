@@ -1,12 +1,13 @@
 import React, { useState } from "react";
 import { ethers } from "ethers";
 import { TokenInfo } from "../../types";
-import { AVALANCHE_RPC } from "../../constants";
 import { formatTokenBalance, formatTokenAmount } from "../../utils/formatters";
 import { Spinner } from "../UI/Spinner";
 import { SearchIcon } from "../UI/SearchIcon";
 import { DevTradesModal } from "../Modals/DevTradesModal";
 import { getBearerToken } from "../../services/post2earnService";
+import { callRpc, sendRpc } from "../../lib/rpc";
+import { getSharedProvider } from "../../lib/rpcProvider";
 
 interface TokenStats {
   contractAddress: string;
@@ -103,18 +104,13 @@ export const DeepDiveTab: React.FC<DeepDiveTabProps> = ({
     try {
       const bearer = await getBearerToken();
       const authHeader = { Authorization: `Bearer ${bearer}` } as const;
-      const userRes = await fetch(
-        `https://api.starsarena.com/user/handle?handle=${encodeURIComponent(
-          username.trim()
-        )}`,
-        { headers: authHeader }
-      );
-      const userData = await userRes.json();
-      if (!userRes.ok || !userData.user) {
+      const { profile: user } = await callRpc("RESOLVE_HANDLE", {
+        handle: username.trim(),
+      });
+      if (!user) {
         throw new Error("User not found");
       }
-      const user = userData.user;
-      const userId = user.id as string;
+      const userId = user.id;
       const daysOld = user.createdOn
         ? Math.floor(
           (Date.now() - new Date(user.createdOn).getTime()) /
@@ -219,63 +215,21 @@ export const DeepDiveTab: React.FC<DeepDiveTabProps> = ({
             if (!tokenAddress) continue;
 
             // 4. Fetch presale trades from background script
-            const presaleTrades = await new Promise((resolve) => {
-              chrome.runtime.sendMessage(
-                {
-                  type: "FETCH_PRESALE_TRADES",
-                  payload: {
-                    userAddress: user.address,
-                    tokenAddress,
-                  },
-                },
-                (response) => {
-                  if (chrome.runtime.lastError) {
-                    console.error(
-                      "Error fetching presale trades:",
-                      chrome.runtime.lastError.message
-                    );
-                    resolve(undefined);
-                  } else if (response && response.success) {
-                    resolve(response.data);
-                  } else {
-                    console.error(
-                      "Failed to fetch presale trades:",
-                      response?.error
-                    );
-                    resolve(undefined);
-                  }
-                }
-              );
+            const presaleTrades = await sendRpc("FETCH_PRESALE_TRADES", {
+              payload: { userAddress: user.address, tokenAddress },
+            }).then((response) => {
+              if (response.success) return response.data;
+              console.error("Failed to fetch presale trades:", response.error);
+              return undefined;
             });
 
             // 5. Fetch live trades from background script
-            const liveTrades = await new Promise((resolve) => {
-              chrome.runtime.sendMessage(
-                {
-                  type: "FETCH_DEV_TRADES",
-                  payload: {
-                    userAddress: user.address,
-                    tokenAddress,
-                  },
-                },
-                (response) => {
-                  if (chrome.runtime.lastError) {
-                    console.error(
-                      "Error fetching live trades:",
-                      chrome.runtime.lastError.message
-                    );
-                    resolve(undefined);
-                  } else if (response && response.success) {
-                    resolve(response.data);
-                  } else {
-                    console.error(
-                      "Failed to fetch live trades:",
-                      response?.error
-                    );
-                    resolve(undefined);
-                  }
-                }
-              );
+            const liveTrades = await sendRpc("FETCH_DEV_TRADES", {
+              payload: { userAddress: user.address, tokenAddress },
+            }).then((response) => {
+              if (response.success) return response.data;
+              console.error("Failed to fetch live trades:", response.error);
+              return undefined;
             });
 
             // 3. Fetch StarsArena group stats for token
@@ -394,19 +348,16 @@ export const DeepDiveTab: React.FC<DeepDiveTabProps> = ({
 
             // 3c. Developer-specific trade summary
             try {
-              const response = await chrome.runtime.sendMessage({
-                type: "FETCH_DEV_TRADES",
+              const response = await sendRpc("FETCH_DEV_TRADES", {
                 payload: {
                   tokenAddress: tokenAddress,
                   userAddress: user.address,
-                  // devAuthToken: devAuthToken,
                 },
               });
 
-              if (response && response.success) {
-                const trades = Array.isArray(response.data)
-                  ? response.data
-                  : response.data.data;
+              if (response.success) {
+                const data: any = response.data;
+                const trades = Array.isArray(data) ? data : data.data;
                 if (Array.isArray(trades)) {
                   let tokensBought = 0;
                   let tokensSold = 0;
@@ -456,7 +407,7 @@ export const DeepDiveTab: React.FC<DeepDiveTabProps> = ({
             console.log("[DeepDive] Final tokens array", tokens);
             // Optionally fetch wallet balances for tokens if walletAddress provided
             if (walletAddress) {
-              const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
+              const provider = getSharedProvider();
               const balABI = [
                 "function balanceOf(address owner) view returns (uint256)",
                 "function decimals() view returns (uint8)",
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from "react";
-import { WalletInfo, TokenInfo } from "../../types";
+import { PublicWalletInfo, TokenInfo } from "../../types";
 import { Modal } from "../WalletInfo/Modal";
 import { DepositQRCode } from "../WalletInfo/DepositQRCode";
 import { WithdrawModal } from "../WalletInfo/WithdrawModal";
@@ -7,21 +7,38 @@ import { TokenDisplay } from "../WalletInfo/TokenDisplay";
 import { WalletExplorer } from "../WalletInfo/WalletExplorer";
 import { IconButton } from "../UI/IconButton";
 import { SupportedTokens } from "../UI/SupportedTokens";
+import { Sparkline } from "../UI/Sparkline";
 // import { useTokenVesting } from "../../hooks/useTokenVesting";
 import { TokenVestingModal } from "../Modals/TokenVestingModal";
-import { TOKENS } from "../../constants";
 import { useRewardClaims } from "../../hooks/useRewardClaims";
 import useWalletTokenBalances, { WalletTokenBalance } from "../../hooks/useWalletTokenBalances";
 import { useCommunityImages } from "../../hooks/useCommunityImages";
+import { useTokenRegistry } from "../../hooks/useTokenRegistry";
+import { useRecoveryBackup } from "../../hooks/useRecoveryBackup";
+import { priceAddressOf, usePortfolio } from "../../hooks/usePortfolio";
+import { formatUsd } from "../../utils/formatters";
+import { AutoLockSettings } from "../Settings/AutoLockSettings";
+import { RpcEndpointSettings } from "../Settings/RpcEndpointSettings";
+import { ConnectedSitesSettings } from "../Settings/ConnectedSitesSettings";
+import { TokenRegistrySettings } from "../Settings/TokenRegistrySettings";
+import { PriceAlertSettings } from "../Settings/PriceAlertSettings";
+import { PrivateKeyReveal } from "../WalletInfo/PrivateKeyReveal";
+import { KeystoreExport } from "../WalletInfo/KeystoreExport";
+import { RecoveryPhraseBackup } from "../WalletInfo/RecoveryPhraseBackup";
+import { PendingTransactions } from "../WalletInfo/PendingTransactions";
+import { TxHistory } from "../WalletInfo/TxHistory";
+import { ReceivedTransfers } from "../WalletInfo/ReceivedTransfers";
+import { AllowancesPanel } from "../WalletInfo/AllowancesPanel";
+import { SwapPanel } from "../WalletInfo/SwapPanel";
+import type { TransferRecipient } from "../WalletInfo/TransferForm";
 
 interface WalletTabProps {
-  wallet: WalletInfo | null;
+  wallet: PublicWalletInfo | null;
   tokens: TokenInfo[];
-  showPrivateKey: boolean;
-  showMnemonic: boolean;
-  setShowPrivateKey: (show: boolean) => void;
-  setShowMnemonic: (show: boolean) => void;
-  onTransfer: (e: React.FormEvent) => Promise<boolean>;
+  onTransfer: (
+    e: React.FormEvent,
+    recipient: TransferRecipient
+  ) => Promise<boolean>;
   recipientAddress: string;
   setRecipientAddress: (address: string) => void;
   transferAmount: string;
@@ -80,10 +97,6 @@ const formatTimeRemaining = (secondsRemaining: number) => {
 export const WalletTab: React.FC<WalletTabProps> = ({
   wallet,
   tokens,
-  showPrivateKey,
-  showMnemonic,
-  setShowPrivateKey,
-  setShowMnemonic,
   onTransfer,
   recipientAddress,
   setRecipientAddress,
@@ -96,15 +109,16 @@ export const WalletTab: React.FC<WalletTabProps> = ({
   refreshTokenBalances,
 }) => {
   const [activeSection, setActiveSection] = useState<
-    "tokens" | "wallet" | "rewards" | "explorer"
+    "tokens" | "swap" | "wallet" | "rewards" | "explorer"
   >("tokens");
+  const recoveryBackup = useRecoveryBackup();
 
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
   // removed supported tokens modal; we'll show inline instead
 
   // Tokens supported by the platform (displayed in the header)
-  const supportedTokens = TOKENS;
+  const { tokens: supportedTokens } = useTokenRegistry();
 
   // const { data: vestingData } = useTokenVesting(wallet?.address);
   const {
@@ -121,6 +135,7 @@ export const WalletTab: React.FC<WalletTabProps> = ({
     loading: balancesLoading,
     refresh: refreshBalances,
   } = useWalletTokenBalances(wallet, tokens);
+  const portfolio = usePortfolio(tokenBalances);
 
   // Fetch community images for all tokens
   const tokenTickers = tokenBalances
@@ -182,6 +197,7 @@ export const WalletTab: React.FC<WalletTabProps> = ({
                 {(
                   [
                     { id: "tokens", label: "Tokens" },
+                    { id: "swap", label: "Swap" },
                     { id: "wallet", label: "Wallet" },
                     { id: "rewards", label: "Rewards" },
                     { id: "explorer", label: "Explorer" },
@@ -208,6 +224,21 @@ export const WalletTab: React.FC<WalletTabProps> = ({
           {/* Tokens Section */}
           {activeSection === "tokens" && (
             <div className="space-y-4">
+              {recoveryBackup.needsBackup && (
+                <div className="flex items-center justify-between gap-3 rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-3 text-sm text-amber-700">
+                  <p>
+                    Your recovery phrase is not backed up. Without it, a lost
+                    password means lost funds.
+                  </p>
+                  <button
+                    onClick={() => setActiveSection("wallet")}
+                    className="shrink-0 rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-1 text-[11px] font-semibold text-white shadow"
+                  >
+                    Back up
+                  </button>
+                </div>
+              )}
+              <PendingTransactions />
               <div className="card-section p-5">
                 <div className="flex flex-wrap items-center justify-between gap-3">
                   <div>
@@ -221,6 +252,30 @@ export const WalletTab: React.FC<WalletTabProps> = ({
                   </span>
                 </div>
 
+                {portfolio.pricedCount > 0 && (
+                  <div className="mt-4">
+                    <p className="text-2xl font-semibold text-slate-800">
+                      {formatUsd(portfolio.totalUsd)}
+                    </p>
+                    <p
+                      className={`text-xs font-semibold ${
+                        portfolio.change24hUsd >= 0
+                          ? "text-emerald-600"
+                          : "text-rose-600"
+                      }`}
+                    >
+                      {portfolio.change24hUsd >= 0 ? "+" : "-"}
+                      {formatUsd(Math.abs(portfolio.change24hUsd))} (
+                      {portfolio.change24hPercent.toFixed(2)}%) 24h
+                      {portfolio.pricedCount < tokenBalances.length && (
+                        <span className="ml-2 font-normal text-slate-400">
+                          {tokenBalances.length - portfolio.pricedCount} unpriced
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                )}
+
                 <div className="mt-4 space-y-3">
                   {tokenBalances.length === 0 && !balancesLoading && (
                     <div className="rounded-2xl border border-dashed border-blue-200 bg-blue-50/60 p-6 text-center text-sm text-slate-500">
@@ -235,6 +290,10 @@ export const WalletTab: React.FC<WalletTabProps> = ({
 
                   {tokenBalances.map((t: WalletTokenBalance) => {
                     const community = communities[t.symbol.toLowerCase()];
+                    const priceAddress = priceAddressOf(t);
+                    const price = priceAddress
+                      ? portfolio.prices[priceAddress]
+                      : undefined;
                     return (
                     <div
                       key={t.id}
@@ -255,13 +314,23 @@ export const WalletTab: React.FC<WalletTabProps> = ({
                           </p>
                         </div>
                       </div>
-                      <div className="text-right">
-                        <p className="text-xs uppercase tracking-wide text-slate-400">
-                          Balance
-                        </p>
-                        <p className="text-base font-semibold text-slate-800">
-                          {t.formattedBalance}
-                        </p>
+                      <div className="flex items-center gap-3">
+                        {priceAddress && (
+                          <Sparkline points={portfolio.history[priceAddress] ?? []} />
+                        )}
+                        <div className="text-right">
+                          <p className="text-xs uppercase tracking-wide text-slate-400">
+                            Balance
+                          </p>
+                          <p className="text-base font-semibold text-slate-800">
+                            {t.formattedBalance}
+                          </p>
+                          {price && (
+                            <p className="text-xs text-slate-500">
+                              {formatUsd(t.numericBalance * price.priceUsd)}
+                            </p>
+                          )}
+                        </div>
                       </div>
                     </div>
                     );
@@ -332,6 +401,7 @@ export const WalletTab: React.FC<WalletTabProps> = ({
 
                 {/* End inline supported tokens */}
               </div>
+              {wallet && <ReceivedTransfers address={wallet.address} />}
             </div>
           )}
 
@@ -542,90 +612,24 @@ export const WalletTab: React.FC<WalletTabProps> = ({
                     </div>
                   </div>
 
-                  <div>
-                    <p className="text-xs uppercase tracking-wide text-slate-400">
-                      Private Key
-                    </p>
-                    <div className="mt-2 flex items-center justify-between rounded-xl border border-white/60 bg-white/80 px-4 py-3 font-mono text-sm text-slate-700 shadow-sm">
-                      <span>
-                        {showPrivateKey
-                          ? truncateAddress(wallet.privateKey)
-                          : "••••••••••••••••"}
-                      </span>
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={() => setShowPrivateKey(!showPrivateKey)}
-                          className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700"
-                        >
-                          {showPrivateKey ? "Hide" : "Show"}
-                        </button>
-                        {showPrivateKey && (
-                          <button
-                            onClick={() =>
-                              navigator.clipboard.writeText(wallet.privateKey)
-                            }
-                            className="text-blue-600 transition hover:text-blue-800"
-                            title="Copy to clipboard"
-                          >
-                            <svg
-                              xmlns="http://www.w3.org/2000/svg"
-                              className="h-5 w-5"
-                              viewBox="0 0 20 20"
-                              fill="currentColor"
-                            >
-                              <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
-                              <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
-                            </svg>
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                  </div>
+                  <RecoveryPhraseBackup
+                    status={recoveryBackup.status}
+                    onVerified={recoveryBackup.markVerified}
+                  />
 
-                  {wallet.mnemonic && (
-                    <div>
-                      <p className="text-xs uppercase tracking-wide text-slate-400">
-                        Recovery Phrase
-                      </p>
-                      <div className="mt-2 flex items-center justify-between rounded-xl border border-white/60 bg-white/80 px-4 py-3 font-mono text-sm text-slate-700 shadow-sm">
-                        <span>
-                          {showMnemonic
-                            ? truncateAddress(wallet.mnemonic)
-                            : "••••••••••••••••"}
-                        </span>
-                        <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => setShowMnemonic(!showMnemonic)}
-                            className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700"
-                          >
-                            {showMnemonic ? "Hide" : "Show"}
-                          </button>
-                          {showMnemonic && (
-                            <IconButton
-                              onClick={() =>
-                                navigator.clipboard.writeText(
-                                  wallet.mnemonic || ""
-                                )
-                              }
-                              title="Copy to clipboard"
-                              className="text-blue-600 hover:text-blue-800"
-                              icon={
-                                <svg
-                                  xmlns="http://www.w3.org/2000/svg"
-                                  className="h-5 w-5"
-                                  viewBox="0 0 20 20"
-                                  fill="currentColor"
-                                >
-                                  <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
-                                  <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
-                                </svg>
-                              }
-                            />
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  )}
+                  <PrivateKeyReveal />
+
+                  <KeystoreExport />
+
+                  <AutoLockSettings />
+
+                  <RpcEndpointSettings />
+
+                  <ConnectedSitesSettings />
+
+                  <TokenRegistrySettings />
+
+                  <PriceAlertSettings />
 
                   <div className="rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-3 text-sm text-amber-700">
                     <p className="font-semibold">Security warning</p>
@@ -639,9 +643,26 @@ export const WalletTab: React.FC<WalletTabProps> = ({
             </div>
           )}
 
+          {/* Swap Section */}
+          {activeSection === "swap" && (
+            <div className="space-y-4">
+              <SwapPanel
+                balances={tokenBalances}
+                onSwapped={() => {
+                  void refreshBalances();
+                  refreshTokenBalances?.();
+                }}
+              />
+            </div>
+          )}
+
           {/* Explorer Section */}
           {activeSection === "explorer" && wallet && (
             <div className="space-y-4">
+              <TxHistory address={wallet.address} />
+
+              <AllowancesPanel address={wallet.address} />
+
               <div className="card-section p-5">
                 <div className="flex flex-wrap items-center justify-between gap-3">
                   <div>
@@ -0,0 +1,54 @@
+import React from "react";
+import type { PriceSnapshot } from "../../types/prices";
+
+interface SparklineProps {
+  points: PriceSnapshot[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Line through recorded price snapshots. Draws nothing below two points;
+ * there is no history to show yet.
+ */
+export const Sparkline: React.FC<SparklineProps> = ({
+  points,
+  width = 64,
+  height = 20,
+  className = "",
+}) => {
+  if (points.length < 2) return null;
+
+  const prices = points.map((point) => point.priceUsd);
+  const min = Math.min(...prices);
+  const range = Math.max(...prices) - min || 1;
+  const start = points[0].timestamp;
+  const span = points[points.length - 1].timestamp - start || 1;
+  const path = points
+    .map((point) => {
+      const x = ((point.timestamp - start) / span) * width;
+      const y = height - ((point.priceUsd - min) / range) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  const rising = prices[prices.length - 1] >= prices[0];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      aria-hidden="true"
+    >
+      <polyline
+        points={path}
+        fill="none"
+        strokeWidth="1.5"
+        strokeLinejoin="round"
+        className={rising ? "stroke-emerald-500" : "stroke-rose-500"}
+      />
+    </svg>
+  );
+};
@@ -1,11 +1,11 @@
 import React, { useState } from "react";
 import { TokenDisplay } from "../WalletInfo/TokenDisplay";
-import { TokenConfig } from "../../constants";
+import type { RegistryToken } from "../../types/tokens";
 import { Modal } from "../WalletInfo/Modal";
 import { useCommunityImages } from "../../hooks/useCommunityImages";
 
 interface SupportedTokensProps {
-  tokens: TokenConfig[];
+  tokens: RegistryToken[];
   maxVisible?: number;
   useModal?: boolean; // when false, show inline-only, no modal
 }
@@ -41,7 +41,7 @@ export const SupportedTokens: React.FC<SupportedTokensProps> = ({
             const community = communities[token.symbol.toLowerCase()];
             return (
               <TokenDisplay
-                key={token.symbol}
+                key={token.address}
                 symbol={token.symbol}
                 photoURL={community?.photoURL}
                 className={`rounded-full ${useModal ? "w-5 h-5 border-[1.5px] border-white" : "w-5 h-5"}`}
@@ -66,7 +66,7 @@ export const SupportedTokens: React.FC<SupportedTokensProps> = ({
               {tokens.map((token) => {
                 const community = communities[token.symbol.toLowerCase()];
                 return (
-                  <div key={token.symbol} className="flex items-center space-x-2">
+                  <div key={token.address} className="flex items-center space-x-2">
                     <TokenDisplay 
                       symbol={token.symbol} 
                       photoURL={community?.photoURL}
@@ -10,10 +10,14 @@ import type { TokenConfig } from "../../constants";
 
 export interface TokenSelectOption
   extends Pick<TokenConfig, "symbol" | "name" | "image"> {
+  /** What `value` and `onChange` carry; defaults to the symbol. */
+  value?: string;
   description?: string;
   meta?: string;
 }
 
+const optionValue = (option: TokenSelectOption) => option.value ?? option.symbol;
+
 interface TokenSelectProps {
   options: TokenSelectOption[];
   value: string;
@@ -48,13 +52,13 @@ export const TokenSelect: React.FC<TokenSelectProps> = ({
   }, [value]);
 
   useEffect(() => {
-    if (!options.find((option) => option.symbol === internalValue)) {
+    if (!options.find((option) => optionValue(option) === internalValue)) {
       setInternalValue(value || "");
     }
   }, [options, internalValue, value]);
 
   const selectedOption = useMemo(
-    () => options.find((option) => option.symbol === internalValue),
+    () => options.find((option) => optionValue(option) === internalValue),
     [options, internalValue]
   );
 
@@ -223,12 +227,12 @@ export const TokenSelect: React.FC<TokenSelectProps> = ({
     setIsOpen((prev) => !prev);
   };
 
-  const handleOptionClick = (symbol: string) => {
-    if (symbol !== internalValue) {
-      setInternalValue(symbol);
-      onChange(symbol);
+  const handleOptionClick = (selected: string) => {
+    if (selected !== internalValue) {
+      setInternalValue(selected);
+      onChange(selected);
     } else {
-      onChange(symbol);
+      onChange(selected);
     }
     setIsOpen(false);
   };
@@ -312,12 +316,12 @@ export const TokenSelect: React.FC<TokenSelectProps> = ({
           >
             <div className="max-h-72 space-y-1 overflow-y-auto overscroll-contain pr-1">
               {options.map((option) => {
-                const isSelected = option.symbol === selectedOption?.symbol;
+                const isSelected = option === selectedOption;
                 return (
                   <button
-                    key={option.symbol}
+                    key={optionValue(option)}
                     type="button"
-                    onClick={() => handleOptionClick(option.symbol)}
+                    onClick={() => handleOptionClick(optionValue(option))}
                     className={`flex w-full items-center justify-between rounded-xl px-3 py-2 text-sm font-semibold transition focus:outline-none focus:ring-2 focus:ring-blue-400/40 ${
                       isSelected
                         ? "bg-gradient-to-r from-blue-500/15 via-white to-emerald-500/15 text-blue-700"
@@ -0,0 +1,287 @@
+import React, { useState } from "react";
+import type { PublicWalletInfo, WalletAccount } from "../../types";
+import { importV3Keystore } from "../../utils/keystore";
+
+interface AccountSwitcherProps {
+  wallet: PublicWalletInfo;
+  accounts: WalletAccount[];
+  /** Extra text after the address, e.g. the auto-lock countdown. */
+  suffix?: React.ReactNode;
+  onSwitch: (address: string) => Promise<void>;
+  onAddDerived: (password: string) => Promise<void>;
+  onImport: (privateKey: string, password: string) => Promise<void>;
+  onRename: (address: string, label: string) => Promise<void>;
+}
+
+type AddMode = "derived" | "imported" | "keystore" | null;
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+  wallet,
+  accounts,
+  suffix,
+  onSwitch,
+  onAddDerived,
+  onImport,
+  onRename,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [addMode, setAddMode] = useState<AddMode>(null);
+  const [password, setPassword] = useState("");
+  const [privateKey, setPrivateKey] = useState("");
+  const [keystoreJson, setKeystoreJson] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canDerive = accounts[0]?.kind === "derived";
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      setError(err?.message || "Something went wrong.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetAddForm = () => {
+    setAddMode(null);
+    setPassword("");
+    setPrivateKey("");
+    setKeystoreJson("");
+    setPassphrase("");
+  };
+
+  const readKeystoreFile = (file?: File) => {
+    setKeystoreJson("");
+    file?.text().then(setKeystoreJson, () => setError("Could not read the file."));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await run(async () => {
+      if (addMode === "keystore") {
+        const secrets = await importV3Keystore(keystoreJson, passphrase);
+        return onImport(secrets.privateKey, password);
+      }
+      return addMode === "imported"
+        ? onImport(privateKey, password)
+        : onAddDerived(password);
+    });
+    if (ok) {
+      resetAddForm();
+      setOpen(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent, address: string) => {
+    e.preventDefault();
+    if (await run(() => onRename(address, labelDraft))) {
+      setRenaming(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 rounded-full border border-white/60 bg-white/80 px-3 py-1.5 text-xs font-medium text-slate-500 shadow-sm backdrop-blur"
+      >
+        <span className="h-2 w-2 rounded-full bg-emerald-500" />
+        {wallet.label && (
+          <span className="font-semibold text-slate-700">{wallet.label}</span>
+        )}
+        {shortAddress(wallet.address)}
+        {suffix}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-30 mt-2 w-72 rounded-2xl border border-white/60 bg-white p-3 text-sm shadow-xl">
+          <p className="px-1 text-xs uppercase tracking-wide text-slate-400">
+            Accounts
+          </p>
+          <div className="mt-2 max-h-56 space-y-1 overflow-y-auto">
+            {accounts.map((account) => {
+              const active =
+                account.address.toLowerCase() === wallet.address.toLowerCase();
+              return (
+                <div
+                  key={account.address}
+                  className={`flex items-center justify-between rounded-xl px-3 py-2 ${active ? "bg-blue-50" : "hover:bg-slate-50"
+                    }`}
+                >
+                  {renaming === account.address ? (
+                    <form
+                      onSubmit={(e) => handleRename(e, account.address)}
+                      className="flex w-full items-center gap-2"
+                    >
+                      <input
+                        value={labelDraft}
+                        onChange={(e) => setLabelDraft(e.target.value)}
+                        maxLength={32}
+                        autoFocus
+                        className="w-full rounded-md border border-gray-300 p-1.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                      <button
+                        type="submit"
+                        disabled={busy}
+                        className="text-xs font-semibold text-blue-600"
+                      >
+                        Save
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        disabled={busy || active}
+                        onClick={() =>
+                          void run(() => onSwitch(account.address)).then(
+                            (ok) => ok && setOpen(false)
+                          )
+                        }
+                        className="min-w-0 flex-1 text-left"
+                      >
+                        <p className="truncate font-semibold text-slate-800">
+                          {account.label}
+                          {account.kind === "imported" && (
+                            <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-semibold text-slate-500">
+                              Imported
+                            </span>
+                          )}
+                        </p>
+                        <p className="font-mono text-xs text-slate-400">
+                          {shortAddress(account.address)}
+                        </p>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setRenaming(account.address);
+                          setLabelDraft(account.label);
+                        }}
+                        className="text-xs text-slate-400 hover:text-slate-600"
+                      >
+                        Rename
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {addMode ? (
+            <form onSubmit={handleAdd} className="mt-3 space-y-2 border-t border-slate-100 pt-3">
+              {addMode === "imported" && (
+                <input
+                  type="password"
+                  value={privateKey}
+                  onChange={(e) => setPrivateKey(e.target.value)}
+                  placeholder="Private key"
+                  className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              )}
+              {addMode === "keystore" && (
+                <>
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => readKeystoreFile(e.target.files?.[0])}
+                    className="w-full text-xs text-slate-500"
+                  />
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Keystore passphrase"
+                    className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </>
+              )}
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Wallet password"
+                className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={resetAddForm}
+                  className="rounded-full border border-slate-200 px-3 py-1 text-[11px] font-semibold text-slate-500"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={
+                    busy ||
+                    !password ||
+                    (addMode === "imported" && !privateKey) ||
+                    (addMode === "keystore" && (!keystoreJson || !passphrase))
+                  }
+                  className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-1 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+                >
+                  {busy
+                    ? "Working..."
+                    : addMode !== "derived"
+                      ? "Import"
+                      : "Add account"}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="mt-3 flex gap-2 border-t border-slate-100 pt-3">
+              <button
+                type="button"
+                disabled={!canDerive}
+                title={
+                  canDerive
+                    ? undefined
+                    : "This wallet has no recovery phrase to derive accounts from"
+                }
+                onClick={() => setAddMode("derived")}
+                className="flex-1 rounded-full border border-slate-200 px-3 py-1.5 text-[11px] font-semibold text-slate-600 hover:text-slate-800 disabled:opacity-50"
+              >
+                + New account
+              </button>
+              <button
+                type="button"
+                onClick={() => setAddMode("imported")}
+                className="flex-1 rounded-full border border-slate-200 px-3 py-1.5 text-[11px] font-semibold text-slate-600 hover:text-slate-800"
+              >
+                Import key
+              </button>
+              <button
+                type="button"
+                onClick={() => setAddMode("keystore")}
+                className="flex-1 rounded-full border border-slate-200 px-3 py-1.5 text-[11px] font-semibold text-slate-600 hover:text-slate-800"
+              >
+                Import file
+              </button>
+            </div>
+          )}
+
+          {error && (
+            <p className="mt-2 rounded-xl bg-rose-50 px-3 py-2 text-xs text-rose-600">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
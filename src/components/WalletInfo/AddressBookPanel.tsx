@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { useAddressBook } from "../../hooks/useAddressBook";
+import type { AddressBookEntry } from "../../types/addressBook";
+import { formatAddressShort } from "../../utils/formatters";
+
+interface AddressBookPanelProps {
+  recipientAddress: string;
+  onSelect: (address: string) => void;
+}
+
+type Draft = {
+  /** Set while editing a saved entry; its address cannot change. */
+  address?: string;
+  target: string;
+  label: string;
+  note: string;
+};
+
+const EMPTY_DRAFT: Draft = { target: "", label: "", note: "" };
+
+const entryTitle = (entry: AddressBookEntry) =>
+  entry.label ||
+  (entry.handle ? `@${entry.handle}` : formatAddressShort(entry.address));
+
+export const AddressBookPanel: React.FC<AddressBookPanelProps> = ({
+  recipientAddress,
+  onSelect,
+}) => {
+  const { entries, error, saveEntry, removeEntry } = useAddressBook();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const recipient = recipientAddress.trim();
+  const canQuickSave =
+    ethers.isAddress(recipient) &&
+    !entries.some(
+      (entry) => entry.address.toLowerCase() === recipient.toLowerCase()
+    );
+
+  const submitDraft = async () => {
+    if (!draft) return;
+    const target = draft.target.trim();
+    setSaving(true);
+    const saved = await saveEntry({
+      ...(draft.address
+        ? { address: draft.address }
+        : target.startsWith("@") || !target.startsWith("0x")
+          ? { handle: target }
+          : { address: target }),
+      label: draft.label,
+      note: draft.note,
+    });
+    setSaving(false);
+    if (saved) setDraft(null);
+  };
+
+  const inputClass =
+    "w-full rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500";
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white/80 px-3 py-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+          Address book
+        </span>
+        <div className="flex gap-3">
+          {canQuickSave && !draft && (
+            <button
+              type="button"
+              onClick={() => setDraft({ ...EMPTY_DRAFT, target: recipient })}
+              className="text-xs font-semibold text-blue-600 hover:text-blue-700"
+            >
+              Save recipient
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setDraft(draft ? null : EMPTY_DRAFT)}
+            className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+          >
+            {draft ? "Close" : "Add"}
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="mt-2 space-y-2">
+          <input
+            value={draft.target}
+            disabled={!!draft.address}
+            placeholder="0x... or @handle"
+            onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+            className={`${inputClass} disabled:bg-slate-50 disabled:text-slate-500`}
+          />
+          <input
+            value={draft.label}
+            placeholder="Label (optional)"
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            className={inputClass}
+          />
+          <textarea
+            value={draft.note}
+            rows={2}
+            placeholder="Note (optional)"
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            type="button"
+            disabled={saving || !draft.target.trim()}
+            onClick={() => void submitDraft()}
+            className="w-full rounded-lg bg-gradient-to-r from-blue-500 to-emerald-500 py-1.5 text-xs font-semibold text-white shadow disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+          {entries.map((entry) => {
+            const selected =
+              entry.address.toLowerCase() === recipient.toLowerCase();
+            return (
+              <li
+                key={entry.address}
+                className={`flex items-center gap-2 rounded-md px-2 py-1 ${selected ? "bg-blue-50" : "hover:bg-slate-50"
+                  }`}
+              >
+                <button
+                  type="button"
+                  title={entry.favorite ? "Remove from favorites" : "Add to favorites"}
+                  onClick={() =>
+                    void saveEntry({
+                      address: entry.address,
+                      favorite: !entry.favorite,
+                    })
+                  }
+                  className={entry.favorite ? "text-amber-500" : "text-slate-300 hover:text-amber-400"}
+                >
+                  ★
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onSelect(entry.address)}
+                  className="min-w-0 flex-1 text-left"
+                  title={entry.note || entry.address}
+                >
+                  <p className="truncate text-sm font-medium text-slate-700">
+                    {entryTitle(entry)}
+                  </p>
+                  <p className="truncate text-[11px] text-slate-400">
+                    {entry.label && entry.handle ? `@${entry.handle} · ` : ""}
+                    {formatAddressShort(entry.address)}
+                    {entry.note ? ` · ${entry.note}` : ""}
+                  </p>
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft({
+                      address: entry.address,
+                      target: entry.handle ? `@${entry.handle}` : entry.address,
+                      label: entry.label ?? "",
+                      note: entry.note ?? "",
+                    })
+                  }
+                  className="text-[11px] font-semibold text-slate-400 hover:text-slate-600"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void removeEntry(entry.address)}
+                  className="text-[11px] font-semibold text-slate-400 hover:text-rose-600"
+                >
+                  Remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-2 rounded-lg bg-rose-50 px-3 py-2 text-xs text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { useAllowances } from "../../hooks/useAllowances";
+import type { TokenAllowance } from "../../types/allowances";
+import { formatAddressShort } from "../../utils/formatters";
+
+const formatAmount = (allowance: TokenAllowance) => {
+  if (allowance.unlimited) return "Unlimited";
+  const value = Number(allowance.formatted);
+  return Number.isFinite(value)
+    ? value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+    : allowance.formatted;
+};
+
+interface AllowancesPanelProps {
+  address: string;
+}
+
+/**
+ * Token approvals this wallet has granted. Post2Earn approvals are read for
+ * every registry token; other spenders come from the wallet's Approval events.
+ */
+export const AllowancesPanel: React.FC<AllowancesPanelProps> = ({ address }) => {
+  const { allowances, scan, loading, error, refresh, setAllowance, isPending } =
+    useAllowances(address);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const keyOf = (allowance: TokenAllowance) =>
+    `${allowance.tokenAddress}:${allowance.spender}`;
+
+  const submitExact = async (allowance: TokenAllowance) => {
+    const amount = draft.trim();
+    if (!amount || isNaN(Number(amount)) || Number(amount) < 0) return;
+    if (await setAllowance(allowance, amount)) setEditing(null);
+  };
+
+  return (
+    <div className="card-section p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="section-title text-[0.65rem]">Approvals</p>
+          <h2 className="mt-1 text-lg font-semibold text-slate-800">
+            Token allowances
+          </h2>
+        </div>
+        <button
+          type="button"
+          onClick={() => void refresh()}
+          disabled={loading}
+          className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700 disabled:opacity-50"
+        >
+          {loading ? "Checking..." : "Refresh"}
+        </button>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {loading && !allowances.length && (
+          <p className="text-sm text-slate-400">Looking for approvals...</p>
+        )}
+        {!loading && !error && !allowances.length && (
+          <p className="text-sm text-slate-400">
+            No contract can spend your tokens.
+          </p>
+        )}
+        {allowances.map((allowance) => {
+          const key = keyOf(allowance);
+          const pending = isPending(allowance);
+          return (
+            <div
+              key={key}
+              className="space-y-2 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-semibold text-slate-800">
+                    {formatAmount(allowance)} {allowance.tokenSymbol}
+                  </p>
+                  <p
+                    className="truncate text-xs text-slate-500"
+                    title={allowance.spender}
+                  >
+                    {allowance.spenderLabel
+                      ? `${allowance.spenderLabel} · ${formatAddressShort(allowance.spender)}`
+                      : formatAddressShort(allowance.spender)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-3">
+                  <button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => {
+                      setEditing(editing === key ? null : key);
+                      setDraft(allowance.unlimited ? "" : allowance.formatted);
+                    }}
+                    className="text-xs font-semibold text-slate-400 hover:text-slate-700 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => void setAllowance(allowance, "0")}
+                    className="text-xs font-semibold text-rose-500 hover:text-rose-700 disabled:opacity-50"
+                  >
+                    {pending ? "Pending..." : "Revoke"}
+                  </button>
+                </div>
+              </div>
+              {editing === key && (
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft}
+                    placeholder={`Amount of ${allowance.tokenSymbol}`}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") void submitExact(allowance);
+                    }}
+                    className="min-w-0 flex-1 rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => void submitExact(allowance)}
+                    className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-1 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+                  >
+                    Set
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {scan && scan.scannedToBlock > 0 && (
+        <p className="mt-3 text-xs text-slate-400">
+          {scan.complete
+            ? "Other spenders are found from every approval this wallet made."
+            : `Other spenders are found from approvals since ${
+              scan.scannedFromTime
+                ? new Date(scan.scannedFromTime * 1000).toLocaleDateString()
+                : `block ${scan.scannedFromBlock.toLocaleString()}`
+            }; older ones are searched a bit more each time this list loads.`}{" "}
+          Each change is confirmed in the approval window.
+        </p>
+      )}
+
+      {error && (
+        <p className="mt-3 rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
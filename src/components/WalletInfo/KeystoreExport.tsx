@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { sendRpc } from "../../lib/rpc";
+import { keystoreFileName } from "../../utils/keystore";
+
+const downloadJson = (fileName: string, json: string) => {
+  const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads the active account as a V3 keystore file, encrypted with a
+ * passphrase the user picks here rather than the wallet password.
+ */
+export const KeystoreExport: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exported, setExported] = useState<string | null>(null);
+
+  const reset = () => {
+    setOpen(false);
+    setPassword("");
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setError(null);
+  };
+
+  const exportKeystore = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases do not match.");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    setExported(null);
+    sendRpc("EXPORT_KEYSTORE", { password, passphrase }).then((response) => {
+      setLoading(false);
+      setPassword("");
+      if (!response.success) {
+        setError(response.error || "Failed to export keystore.");
+        return;
+      }
+      const fileName = keystoreFileName(response.address);
+      downloadJson(fileName, response.keystore);
+      reset();
+      setExported(fileName);
+    });
+  };
+
+  return (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-slate-400">
+        Keystore backup
+      </p>
+      <div className="mt-2 flex items-center justify-between rounded-xl border border-white/60 bg-white/80 px-4 py-3 text-sm text-slate-700 shadow-sm">
+        <span>Encrypted JSON file (V3)</span>
+        <button
+          onClick={() => (open ? reset() : setOpen(true))}
+          className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700"
+        >
+          {open ? "Cancel" : "Export"}
+        </button>
+      </div>
+
+      {open && (
+        <form onSubmit={exportKeystore} className="mt-2 space-y-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Confirm wallet password"
+            autoFocus
+            className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="New file passphrase (8+ characters)"
+            autoComplete="new-password"
+            className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Repeat file passphrase"
+            autoComplete="new-password"
+            className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={loading || !password || !passphrase || !confirmPassphrase}
+            className="w-full rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-2 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+          >
+            {loading ? "Encrypting..." : "Download keystore"}
+          </button>
+          <p className="text-xs text-slate-400">
+            The file holds this account&apos;s private key. Anyone with the
+            file and its passphrase controls the funds.
+          </p>
+        </form>
+      )}
+
+      {exported && !open && (
+        <p className="mt-2 text-xs text-emerald-600">Saved {exported}</p>
+      )}
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from "react";
+import { usePendingTransactions } from "../../hooks/usePendingTransactions";
+import { buildContractTxExplorerUrl } from "../../services/post2earn/contractTransactions";
+
+const formatAge = (timestamp: number) => {
+  const seconds = Math.max(0, Math.floor((Date.now() - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.floor(seconds / 60)}m ago`;
+};
+
+export const PendingTransactions: React.FC = () => {
+  const { pending, actingId, error, speedUp, cancel } = usePendingTransactions();
+
+  if (!pending.length && !error) return null;
+
+  return (
+    <div className="card-section p-5">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="section-title text-[0.65rem]">Activity</p>
+          <h2 className="mt-1 text-lg font-semibold text-slate-800">
+            Pending Transactions
+          </h2>
+        </div>
+        <span className="rounded-full bg-amber-500/10 px-3 py-1 text-xs font-semibold text-amber-600">
+          {pending.length} pending
+        </span>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {pending.map((tx) => (
+          <div
+            key={tx.id}
+            className="flex items-center justify-between gap-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm"
+          >
+            <div className="min-w-0">
+              <p className="truncate text-sm font-semibold text-slate-800">
+                {tx.label}
+              </p>
+              <p className="text-xs text-slate-400">
+                Nonce {tx.nonce} · {formatAge(tx.updatedAt)}
+                {tx.hash && (
+                  <>
+                    {" · "}
+                    <a
+                      href={buildContractTxExplorerUrl(tx.hash)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      View
+                    </a>
+                  </>
+                )}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <button
+                type="button"
+                disabled={actingId === tx.id}
+                onClick={() => void speedUp(tx.id)}
+                className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-1 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+              >
+                Speed Up
+              </button>
+              <button
+                type="button"
+                disabled={actingId === tx.id}
+                onClick={() => void cancel(tx.id)}
+                className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
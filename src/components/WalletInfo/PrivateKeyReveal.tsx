@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from "react";
+import { sendRpc } from "../../lib/rpc";
+
+// How long a revealed key stays on screen before it is hidden again.
+const REVEAL_TIMEOUT_MS = 60_000;
+
+const truncateKey = (key: string) =>
+  `${key.substring(0, 6)}...${key.substring(key.length - 4)}`;
+
+export const PrivateKeyReveal: React.FC = () => {
+  const [password, setPassword] = useState("");
+  const [privateKey, setPrivateKey] = useState<string | null>(null);
+  const [prompting, setPrompting] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!privateKey) return;
+    const timer = setTimeout(() => setPrivateKey(null), REVEAL_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [privateKey]);
+
+  const hide = () => {
+    setPrivateKey(null);
+    setPrompting(false);
+    setPassword("");
+    setError(null);
+  };
+
+  const reveal = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setLoading(true);
+    setError(null);
+    sendRpc("REVEAL_PRIVATE_KEY", { password }).then((response) => {
+      setLoading(false);
+      setPassword("");
+      if (!response.success) {
+        setError(response.error || "Failed to reveal private key.");
+        return;
+      }
+      setPrivateKey(response.privateKey);
+      setPrompting(false);
+    });
+  };
+
+  return (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-slate-400">
+        Private Key
+      </p>
+      <div className="mt-2 flex items-center justify-between rounded-xl border border-white/60 bg-white/80 px-4 py-3 font-mono text-sm text-slate-700 shadow-sm">
+        <span>{privateKey ? truncateKey(privateKey) : "••••••••••••••••"}</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => (privateKey || prompting ? hide() : setPrompting(true))}
+            className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700"
+          >
+            {privateKey || prompting ? "Hide" : "Show"}
+          </button>
+          {privateKey && (
+            <button
+              onClick={() => navigator.clipboard.writeText(privateKey)}
+              className="text-blue-600 transition hover:text-blue-800"
+              title="Copy to clipboard"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+              >
+                <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
+                <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {prompting && !privateKey && (
+        <form onSubmit={reveal} className="mt-2 flex items-center gap-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Confirm wallet password"
+            autoFocus
+            className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={loading || !password}
+            className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-2 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+          >
+            {loading ? "Checking..." : "Reveal"}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from "react";
+import { useIncomingTransfers } from "../../hooks/useIncomingTransfers";
+import { buildContractTxExplorerUrl } from "../../services/post2earn/contractTransactions";
+import type { IncomingTransfer } from "../../types/incomingTransfers";
+import { formatAddressShort } from "../../utils/formatters";
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.max(0, Math.floor((Date.now() - timestamp) / 60000));
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const formatAmount = (amount: string) =>
+  Number(amount).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const Sender: React.FC<{ transfer: IncomingTransfer }> = ({ transfer }) => {
+  if (transfer.fromHandle) {
+    return (
+      <a
+        href={`https://arena.social/${transfer.fromHandle}`}
+        target="_blank"
+        rel="noreferrer"
+        className="text-blue-600 hover:text-blue-800"
+      >
+        @{transfer.fromHandle}
+      </a>
+    );
+  }
+  if (transfer.fromLabel) return <>{transfer.fromLabel}</>;
+  if (transfer.from) {
+    return <span title={transfer.from}>{formatAddressShort(transfer.from)}</span>;
+  }
+  return <>a contract</>;
+};
+
+interface ReceivedTransfersProps {
+  address: string;
+}
+
+/**
+ * Tips and transfers into the wallet, newest first, so creators can see who
+ * to thank. Senders show by Arena handle when the wallet has seen it before.
+ */
+export const ReceivedTransfers: React.FC<ReceivedTransfersProps> = ({ address }) => {
+  const { transfers, loading, error } = useIncomingTransfers(address);
+
+  return (
+    <div className="card-section p-5">
+      <div>
+        <p className="section-title text-[0.65rem]">Received</p>
+        <h2 className="mt-1 text-lg font-semibold text-slate-800">
+          Tips &amp; transfers
+        </h2>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {loading && !transfers.length && (
+          <p className="text-sm text-slate-400">Loading received transfers...</p>
+        )}
+        {!loading && !error && !transfers.length && (
+          <p className="text-sm text-slate-400">
+            Tokens and AVAX sent to this wallet will appear here.
+          </p>
+        )}
+        {transfers.map((transfer) => (
+          <div
+            key={transfer.id}
+            className="flex items-center justify-between gap-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm"
+          >
+            <div className="min-w-0">
+              <p className="truncate text-sm text-slate-700">
+                From <Sender transfer={transfer} />
+              </p>
+              <p className="text-xs text-slate-400">
+                {formatAge(transfer.receivedAt)}
+                {transfer.txHash && (
+                  <>
+                    {" · "}
+                    <a
+                      href={buildContractTxExplorerUrl(transfer.txHash)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      View
+                    </a>
+                  </>
+                )}
+              </p>
+            </div>
+            <span className="shrink-0 text-sm font-semibold text-emerald-600">
+              +{formatAmount(transfer.amount)} {transfer.tokenSymbol}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from "react";
+import { sendRpc } from "../../lib/rpc";
+import type { RecoveryBackupStatus } from "../../hooks/useRecoveryBackup";
+
+// How long the revealed phrase stays on screen before it is hidden again.
+const REVEAL_TIMEOUT_MS = 60_000;
+
+interface RecoveryPhraseBackupProps {
+  status: RecoveryBackupStatus | null;
+  onVerified: (verifiedAt: number) => void;
+}
+
+/**
+ * Shows the recovery phrase after the wallet password is entered again, then
+ * quizzes the user on a few of its words to confirm the backup.
+ */
+export const RecoveryPhraseBackup: React.FC<RecoveryPhraseBackupProps> = ({
+  status,
+  onVerified,
+}) => {
+  const [password, setPassword] = useState("");
+  const [prompting, setPrompting] = useState(false);
+  const [words, setWords] = useState<string[] | null>(null);
+  const [quizIndices, setQuizIndices] = useState<number[]>([]);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [quizzing, setQuizzing] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!words) return;
+    const hideAt = Date.now() + REVEAL_TIMEOUT_MS;
+    setSecondsLeft(REVEAL_TIMEOUT_MS / 1000);
+    const timer = setInterval(() => {
+      const left = Math.ceil((hideAt - Date.now()) / 1000);
+      if (left <= 0) {
+        setWords(null);
+      } else {
+        setSecondsLeft(left);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [words]);
+
+  if (!status?.hasRecoveryPhrase) return null;
+
+  const open = prompting || !!words || quizzing;
+
+  const reset = () => {
+    setWords(null);
+    setPrompting(false);
+    setQuizzing(false);
+    setQuizIndices([]);
+    setAnswers({});
+    setPassword("");
+    setError(null);
+  };
+
+  const reveal = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setLoading(true);
+    setError(null);
+    sendRpc("REVEAL_RECOVERY_PHRASE", { password }).then((response) => {
+      setLoading(false);
+      setPassword("");
+      if (!response.success) {
+        setError(response.error || "Failed to reveal recovery phrase.");
+        return;
+      }
+      setWords(response.mnemonic.trim().split(/\s+/));
+      setQuizIndices(response.quizIndices);
+      setAnswers({});
+      setPrompting(false);
+    });
+  };
+
+  const startQuiz = () => {
+    setWords(null);
+    setQuizzing(true);
+    setError(null);
+  };
+
+  const verify = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    sendRpc("VERIFY_RECOVERY_BACKUP", {
+      answers: quizIndices.map((index) => answers[index] ?? ""),
+    }).then((response) => {
+      setLoading(false);
+      if (!response.success) {
+        setError(response.error || "Failed to verify the backup.");
+        return;
+      }
+      reset();
+      onVerified(response.verifiedAt);
+    });
+  };
+
+  return (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-slate-400">
+        Recovery phrase
+      </p>
+      <div className="mt-2 flex items-center justify-between rounded-xl border border-white/60 bg-white/80 px-4 py-3 text-sm text-slate-700 shadow-sm">
+        {status.verifiedAt ? (
+          <span className="text-emerald-600">
+            Backed up {new Date(status.verifiedAt).toLocaleDateString()}
+          </span>
+        ) : (
+          <span className="text-amber-600">Not backed up yet</span>
+        )}
+        <button
+          onClick={() => (open ? reset() : setPrompting(true))}
+          className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700"
+        >
+          {open ? "Hide" : status.verifiedAt ? "Show" : "Back up"}
+        </button>
+      </div>
+
+      {prompting && (
+        <form onSubmit={reveal} className="mt-2 flex items-center gap-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Confirm wallet password"
+            autoFocus
+            className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={loading || !password}
+            className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-2 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+          >
+            {loading ? "Checking..." : "Reveal"}
+          </button>
+        </form>
+      )}
+
+      {words && (
+        <div className="mt-2 space-y-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+          <div className="grid grid-cols-3 gap-2">
+            {words.map((word, index) => (
+              <div
+                key={index}
+                className="rounded-md bg-slate-50 px-2 py-1 font-mono text-xs text-slate-700"
+              >
+                <span className="text-slate-400">{index + 1}.</span> {word}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400">
+            Write these words down in order. Hiding in {secondsLeft}s.
+          </p>
+          {quizIndices.length > 0 && (
+            <button
+              onClick={startQuiz}
+              className="w-full rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-2 text-[11px] font-semibold text-white shadow"
+            >
+              I wrote it down, quiz me
+            </button>
+          )}
+        </div>
+      )}
+
+      {quizzing && (
+        <form onSubmit={verify} className="mt-2 space-y-2">
+          {quizIndices.map((index, position) => (
+            <input
+              key={index}
+              type="text"
+              value={answers[index] ?? ""}
+              onChange={(e) =>
+                setAnswers((prev) => ({ ...prev, [index]: e.target.value }))
+              }
+              placeholder={`Word #${index + 1}`}
+              autoFocus={position === 0}
+              autoComplete="off"
+              spellCheck={false}
+              className="w-full rounded-md border border-gray-300 p-2.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          ))}
+          <button
+            type="submit"
+            disabled={
+              loading || quizIndices.some((index) => !answers[index]?.trim())
+            }
+            className="w-full rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-2 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+          >
+            {loading ? "Checking..." : "Confirm backup"}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { useSwap } from "../../hooks/useSwap";
+import { useTokenRegistry } from "../../hooks/useTokenRegistry";
+import type { WalletTokenBalance } from "../../hooks/useWalletTokenBalances";
+import { ARENA_TOKEN, AVAX_TOKEN } from "../../constants";
+import { findTokenByAddress } from "../../lib/tokenRegistry";
+import { buildContractTxExplorerUrl } from "../../services/post2earn/contractTransactions";
+import { TokenSelect, type TokenSelectOption } from "../UI/TokenSelect";
+
+const SLIPPAGE_PRESETS = [50, 100, 300];
+// Above this the quote gets a warning; the background asks for explicit
+// confirmation past 15%.
+const WARN_IMPACT_BPS = 300;
+const BLOCK_IMPACT_BPS = 1500;
+
+const formatBps = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+const formatAmount = (value: string) => {
+  const number = Number(value);
+  return Number.isFinite(number)
+    ? number.toLocaleString(undefined, { maximumFractionDigits: 6 })
+    : value;
+};
+
+interface SwapPanelProps {
+  balances: WalletTokenBalance[];
+  onSwapped?: () => void;
+}
+
+/**
+ * Swaps through the Uniswap V2 style router set in the swap settings. The
+ * background re-quotes and queues the approve() and swap for approval.
+ */
+export const SwapPanel: React.FC<SwapPanelProps> = ({ balances, onSwapped }) => {
+  const { tokens } = useTokenRegistry();
+  const [tokenIn, setTokenIn] = useState(() =>
+    ethers.getAddress(AVAX_TOKEN.address)
+  );
+  const [tokenOut, setTokenOut] = useState(() =>
+    ethers.getAddress(ARENA_TOKEN.address)
+  );
+  const [amountIn, setAmountIn] = useState("");
+  const [acceptHighImpact, setAcceptHighImpact] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [customSlippage, setCustomSlippage] = useState("");
+  const [routerDraft, setRouterDraft] = useState("");
+  const [lastTxHash, setLastTxHash] = useState<string | null>(null);
+
+  const request = useMemo(
+    () => (amountIn ? { tokenIn, tokenOut, amountIn } : null),
+    [tokenIn, tokenOut, amountIn]
+  );
+  const {
+    settings,
+    quote,
+    quoting,
+    swapping,
+    error,
+    updateSettings,
+    executeSwap,
+  } = useSwap(request);
+
+  useEffect(() => {
+    if (settings) setRouterDraft(settings.routerAddress);
+  }, [settings]);
+
+  useEffect(() => {
+    setAcceptHighImpact(false);
+  }, [tokenIn, tokenOut, amountIn]);
+
+  const options: TokenSelectOption[] = tokens.map((token) => ({
+    value: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    image: token.image,
+  }));
+
+  const balanceOf = (address: string) => {
+    const token = findTokenByAddress(tokens, address);
+    return balances.find((item) =>
+      token?.isNative
+        ? item.isNative
+        : item.tokenAddress?.toLowerCase() === address.toLowerCase()
+    );
+  };
+  const inBalance = balanceOf(tokenIn);
+  const exceedsBalance =
+    !!inBalance && Number(amountIn) > inBalance.numericBalance;
+
+  const impact = quote?.priceImpactBps ?? 0;
+  const blocked = impact > BLOCK_IMPACT_BPS && !acceptHighImpact;
+
+  const flip = () => {
+    setTokenIn(tokenOut);
+    setTokenOut(tokenIn);
+    setAmountIn("");
+  };
+
+  const swap = async () => {
+    setLastTxHash(null);
+    const hash = await executeSwap(impact > BLOCK_IMPACT_BPS && acceptHighImpact);
+    if (hash) {
+      setLastTxHash(hash);
+      setAmountIn("");
+      onSwapped?.();
+    }
+  };
+
+  const setSlippage = (bps: number) => {
+    setCustomSlippage("");
+    void updateSettings({ slippageBps: bps });
+  };
+
+  return (
+    <div className="card-section p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="section-title text-[0.65rem]">Swap</p>
+          <h2 className="mt-1 text-lg font-semibold text-slate-800">
+            Trade tokens
+          </h2>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowSettings((open) => !open)}
+          className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-[11px] font-semibold text-slate-500 transition hover:text-slate-700"
+        >
+          Slippage {settings ? formatBps(settings.slippageBps) : "..."}
+        </button>
+      </div>
+
+      {showSettings && settings && (
+        <div className="mt-4 space-y-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Max slippage
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {SLIPPAGE_PRESETS.map((bps) => (
+                <button
+                  key={bps}
+                  type="button"
+                  onClick={() => setSlippage(bps)}
+                  className={`rounded-full px-3 py-1 text-[11px] font-semibold ${
+                    settings.slippageBps === bps
+                      ? "bg-gradient-to-r from-blue-500 to-emerald-500 text-white shadow"
+                      : "border border-white/60 bg-white/60 text-slate-500"
+                  }`}
+                >
+                  {formatBps(bps)}
+                </button>
+              ))}
+              <input
+                type="number"
+                min="0.01"
+                max="50"
+                step="0.1"
+                value={customSlippage}
+                placeholder="Custom %"
+                onChange={(e) => setCustomSlippage(e.target.value)}
+                onBlur={() => {
+                  const bps = Math.round(Number(customSlippage) * 100);
+                  if (customSlippage && bps > 0) void updateSettings({ slippageBps: bps });
+                }}
+                className="w-24 rounded-md border border-gray-300 p-1 text-xs focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Router
+            </p>
+            <div className="mt-2 flex gap-2">
+              <input
+                type="text"
+                value={routerDraft}
+                onChange={(e) => setRouterDraft(e.target.value)}
+                className="min-w-0 flex-1 rounded-md border border-gray-300 p-2 text-xs focus:border-blue-500 focus:ring-blue-500"
+              />
+              <button
+                type="button"
+                disabled={routerDraft === settings.routerAddress}
+                onClick={() => void updateSettings({ routerAddress: routerDraft.trim() })}
+                className="rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-3 py-1 text-[11px] font-semibold text-white shadow disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-slate-400">
+              Any Uniswap V2 style router on Avalanche, e.g. LFJ or Pangolin.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-3">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span>You pay</span>
+            {inBalance && (
+              <button
+                type="button"
+                onClick={() => setAmountIn(inBalance.formattedBalance)}
+                className="hover:text-slate-600"
+              >
+                Balance: {formatAmount(inBalance.formattedBalance)}
+              </button>
+            )}
+          </div>
+          <TokenSelect options={options} value={tokenIn} onChange={setTokenIn} />
+          <input
+            type="number"
+            min="0"
+            value={amountIn}
+            placeholder="0.0"
+            onChange={(e) => setAmountIn(e.target.value)}
+            className="w-full rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={flip}
+            className="rounded-full border border-white/70 bg-white/80 px-3 py-1 text-xs font-semibold text-slate-500 hover:text-slate-700"
+          >
+            ⇅
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">You receive</p>
+          <TokenSelect options={options} value={tokenOut} onChange={setTokenOut} />
+        </div>
+
+        {quoting && <p className="text-sm text-slate-400">Fetching quote...</p>}
+        {quote && (
+          <div className="space-y-1 rounded-xl border border-white/60 bg-white/80 px-4 py-3 text-xs text-slate-500 shadow-sm">
+            <p className="text-sm font-semibold text-slate-800">
+              ≈ {formatAmount(quote.amountOut)} {quote.tokenOutSymbol}
+            </p>
+            <p>
+              Minimum received: {formatAmount(quote.minimumOut)}{" "}
+              {quote.tokenOutSymbol}
+            </p>
+            <p>Route: {quote.pathSymbols.join(" → ")}</p>
+            <p
+              className={
+                impact > BLOCK_IMPACT_BPS
+                  ? "font-semibold text-rose-600"
+                  : impact > WARN_IMPACT_BPS
+                    ? "font-semibold text-amber-600"
+                    : ""
+              }
+            >
+              Price impact: {formatBps(impact)}
+            </p>
+          </div>
+        )}
+
+        {quote && impact > WARN_IMPACT_BPS && (
+          <div
+            className={`rounded-2xl border px-4 py-3 text-sm ${
+              impact > BLOCK_IMPACT_BPS
+                ? "border-rose-200 bg-rose-50/80 text-rose-700"
+                : "border-amber-200 bg-amber-50/80 text-amber-700"
+            }`}
+          >
+            <p className="font-semibold">High price impact</p>
+            <p className="mt-1">
+              This trade moves the pool price by {formatBps(impact)}. You will
+              get noticeably less than the market rate.
+            </p>
+            {impact > BLOCK_IMPACT_BPS && (
+              <label className="mt-2 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={acceptHighImpact}
+                  onChange={(e) => setAcceptHighImpact(e.target.checked)}
+                />
+                Swap anyway
+              </label>
+            )}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => void swap()}
+          disabled={!quote || quoting || swapping || exceedsBalance || blocked}
+          className="w-full rounded-full bg-gradient-to-r from-blue-500 to-emerald-500 px-4 py-2 text-sm font-semibold text-white shadow disabled:opacity-50"
+        >
+          {swapping
+            ? "Swapping..."
+            : exceedsBalance
+              ? "Insufficient balance"
+              : quote?.needsApproval
+                ? `Approve ${quote.tokenInSymbol} & swap`
+                : "Swap"}
+        </button>
+
+        {lastTxHash && (
+          <p className="text-sm text-emerald-600">
+            Swap confirmed.{" "}
+            <a
+              href={buildContractTxExplorerUrl(lastTxHash)}
+              target="_blank"
+              rel="noreferrer"
+              className="text-blue-600 hover:text-blue-800"
+            >
+              View
+            </a>
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
-import { TOKENS_MAP } from "../../constants";
+import { useTokenRegistry } from "../../hooks/useTokenRegistry";
+import { findTokenBySymbol } from "../../lib/tokenRegistry";
 
 // Hardcoded ARENA token logo (API returns incorrect dog image)
 const ARENA_LOGO_URL = `${import.meta.env.VITE_STATIC_ASSETS_URL || 'https://static.starsarena.com'}/uploads/95dc787e-19e4-3cc5-7a2b-1ec4c80f02531747905925081.png`;
@@ -16,7 +17,8 @@ export const TokenDisplay: React.FC<TokenDisplayProps> = ({
   photoURL,
 }) => {
   const [imageError, setImageError] = useState(false);
-  const token = TOKENS_MAP[symbol];
+  const { tokens } = useTokenRegistry();
+  const token = findTokenBySymbol(tokens, symbol);
 
   // Use hardcoded URL for ARENA token, then API photoURL, then static image
   const imageUrl = symbol.toUpperCase() === 'ARENA'
@@ -1,9 +1,12 @@
 import React, { useMemo, useState } from "react";
 import { FormField } from "../UI/FormField";
-import { formatTokenBalance } from "../../utils/formatters";
-import { TOKENS_MAP } from "../../constants";
+import { formatAddressShort, formatTokenBalance } from "../../utils/formatters";
 import { TokenSelect, TokenSelectOption } from "../UI/TokenSelect";
 import { useCommunityImages } from "../../hooks/useCommunityImages";
+import { useHandleLookup } from "../../hooks/useHandleLookup";
+import { useTokenRegistry } from "../../hooks/useTokenRegistry";
+import { findTokenByAddress, findTokenBySymbol } from "../../lib/tokenRegistry";
+import { AddressBookPanel } from "./AddressBookPanel";
 
 // Hardcoded ARENA token logo (API returns incorrect dog image)
 const ARENA_LOGO_URL = `${import.meta.env.VITE_STATIC_ASSETS_URL || 'https://static.starsarena.com'}/uploads/95dc787e-19e4-3cc5-7a2b-1ec4c80f02531747905925081.png`;
@@ -15,15 +18,33 @@ export interface TokenOption {
   address?: string;
 }
 
+/**
+ * What the picker stores for a token: its registry address, so look-alikes
+ * sharing a symbol stay apart. Rows without an address fall back to the symbol.
+ */
+export const tokenOptionKey = (token: Pick<TokenOption, "address" | "symbol">) =>
+  token.address?.toLowerCase() ?? token.symbol;
+
+/** Who the form resolved the recipient field to. */
+export interface TransferRecipient {
+  address: string;
+  /** Arena handle, when the user typed @handle. */
+  handle?: string;
+}
+
 interface TransferFormProps {
   recipientAddress: string;
   setRecipientAddress: (address: string) => void;
   amount: string;
   setAmount: (amount: string) => void;
-  onSubmit: (e: React.FormEvent) => void | Promise<boolean>;
+  onSubmit: (
+    e: React.FormEvent,
+    recipient: TransferRecipient
+  ) => void | Promise<boolean>;
   onCancel: () => void;
   loading: boolean;
   tokenOptions: TokenOption[];
+  /** Key of the chosen token, see `tokenOptionKey`. */
   selectedToken: string;
   setSelectedToken: (token: string) => void;
 }
@@ -46,12 +67,16 @@ export const TransferForm: React.FC<TransferFormProps> = ({
   // Fetch community images for all tokens
   const tokenTickers = tokenOptions.map(t => t.symbol);
   const { communities } = useCommunityImages(tokenTickers);
+  const { tokens: registryTokens } = useTokenRegistry();
 
   const tokenSelectOptions: TokenSelectOption[] = useMemo(
     () =>
       tokenOptions.map((token) => {
         const community = communities[token.symbol.toLowerCase()];
-        const staticImage = TOKENS_MAP[token.symbol]?.image || "";
+        const registryToken = token.address
+          ? findTokenByAddress(registryTokens, token.address)
+          : findTokenBySymbol(registryTokens, token.symbol);
+        const staticImage = registryToken?.image || "";
 
         // Use hardcoded URL for ARENA, then API image, then static image
         const imageUrl = token.symbol.toUpperCase() === 'ARENA'
@@ -59,23 +84,40 @@ export const TransferForm: React.FC<TransferFormProps> = ({
           : (community?.photoURL || staticImage || "/arena.png");
 
         return {
+          value: tokenOptionKey(token),
           symbol: token.symbol,
-          name: TOKENS_MAP[token.symbol]?.name || token.name,
+          name: registryToken?.name || token.name,
           image: imageUrl,
           description: `${formatTokenBalance(token.balance, token.symbol)} available`,
-          meta: TOKENS_MAP[token.symbol]?.name,
+          meta: registryToken?.name,
         };
       }),
-    [tokenOptions, communities]
+    [tokenOptions, communities, registryTokens]
   );
 
   const hasTokens = tokenSelectOptions.length > 0;
+  const selectedTokenInfo = tokenOptions.find(
+    (token) => tokenOptionKey(token) === selectedToken
+  );
 
   // Derived validation
-  const isAddressLike = recipientAddress.trim().startsWith("0x") && recipientAddress.trim().length >= 42;
+  const recipientInput = recipientAddress.trim();
+  const isHandle = recipientInput.startsWith("@");
+  const handleLookup = useHandleLookup(isHandle ? recipientInput : "");
+  const resolvedProfile = isHandle ? handleLookup.profile : null;
+  const isAddressLike = recipientInput.startsWith("0x") && recipientInput.length >= 42;
+  const isRecipientValid = isHandle ? !!resolvedProfile : isAddressLike;
   const isAmountValid = parseFloat(amount || "0") > 0;
   const canSubmit =
-    !loading && hasTokens && !!selectedToken && isAddressLike && isAmountValid;
+    !loading && hasTokens && !!selectedTokenInfo && isRecipientValid && isAmountValid;
+
+  const handleSubmit = (e: React.FormEvent) =>
+    onSubmit(
+      e,
+      resolvedProfile
+        ? { address: resolvedProfile.address, handle: resolvedProfile.handle }
+        : { address: recipientInput }
+    );
 
   const handlePaste = async () => {
     try {
@@ -87,32 +129,73 @@ export const TransferForm: React.FC<TransferFormProps> = ({
   };
 
   const handleMaxAmount = () => {
-    if (!selectedToken) return;
-
-    // Find the selected token and use its balance
-    const selectedTokenInfo = tokenOptions.find(
-      (token) => token.symbol === selectedToken
-    );
     if (selectedTokenInfo) {
       setAmount(selectedTokenInfo.balance);
     }
   };
 
   return (
-    <form onSubmit={onSubmit} className="space-y-4">
+    <form onSubmit={handleSubmit} className="space-y-4">
       <FormField
-        label="Recipient Address"
+        label="Recipient"
         id="recipient"
         value={recipientAddress}
         setValue={setRecipientAddress}
         isFocused={addressFocused}
         onFocus={() => setAddressFocused(true)}
         onBlur={() => setAddressFocused(false)}
-        placeholder="0x..."
+        placeholder="0x... or @handle"
         buttonLabel="Paste"
         onButtonClick={handlePaste}
       />
 
+      {isHandle && (
+        <div className="-mt-2 rounded-lg border border-slate-200 bg-white/80 px-3 py-2 text-xs">
+          {handleLookup.status === "loading" && (
+            <p className="text-slate-500">Looking up {recipientInput}...</p>
+          )}
+          {handleLookup.status === "not_found" && (
+            <p className="text-rose-600">No Arena user found for {recipientInput}.</p>
+          )}
+          {handleLookup.status === "error" && (
+            <p className="text-rose-600">
+              Could not look up {recipientInput}: {handleLookup.error}
+            </p>
+          )}
+          {resolvedProfile && (
+            <div className="flex items-center gap-3">
+              <img
+                src={resolvedProfile.profilePicture || "/arena.png"}
+                alt=""
+                className="h-9 w-9 shrink-0 rounded-full object-cover"
+              />
+              <div className="min-w-0">
+                <p className="truncate text-sm font-semibold text-slate-800">
+                  {resolvedProfile.userName || resolvedProfile.handle}
+                  <span className="ml-1 font-normal text-slate-500">
+                    @{resolvedProfile.handle}
+                  </span>
+                </p>
+                <p className="break-all font-mono text-[11px] text-slate-600">
+                  {resolvedProfile.address}
+                </p>
+              </div>
+            </div>
+          )}
+          {resolvedProfile && (
+            <p className="mt-2 text-[11px] text-slate-500">
+              Check the name and address. Tokens go to this Arena wallet and
+              cannot be recovered if it is the wrong person.
+            </p>
+          )}
+        </div>
+      )}
+
+      <AddressBookPanel
+        recipientAddress={recipientAddress}
+        onSelect={setRecipientAddress}
+      />
+
       {/* Token Selector */}
       <div className="mb-2">
         <label className="block text-sm font-semibold text-slate-700 mb-1">
@@ -126,12 +209,12 @@ export const TransferForm: React.FC<TransferFormProps> = ({
           disabled={!hasTokens}
         />
         {hasTokens ? (
-          selectedToken && (
+          selectedTokenInfo && (
             <div className="mt-1 text-xs text-slate-500">
               Balance: {formatTokenBalance(
-                tokenOptions.find((t) => t.symbol === selectedToken)?.balance || "0",
-                selectedToken
-              )} {selectedToken}
+                selectedTokenInfo.balance,
+                selectedTokenInfo.symbol
+              )} {selectedTokenInfo.symbol}
             </div>
           )
         ) : (
@@ -192,6 +275,8 @@ export const TransferForm: React.FC<TransferFormProps> = ({
                 </svg>
                 Processing...
               </>
+            ) : resolvedProfile ? (
+              `Send to ${formatAddressShort(resolvedProfile.address)}`
             ) : (
               "Send"
             )}
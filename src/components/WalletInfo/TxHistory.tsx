@@ -0,0 +1,127 @@
+import React from "react";
+import { useTxHistory } from "../../hooks/useTxHistory";
+import { buildContractTxExplorerUrl } from "../../services/post2earn/contractTransactions";
+import type { ScheduledTx, ScheduledTxStatus } from "../../types/transactions";
+import { formatAddressShort } from "../../utils/formatters";
+
+const STATUS_STYLES: Record<ScheduledTxStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-slate-500/10 text-slate-500" },
+  submitted: { label: "Pending", className: "bg-amber-500/10 text-amber-600" },
+  confirmed: { label: "Confirmed", className: "bg-emerald-500/10 text-emerald-600" },
+  failed: { label: "Failed", className: "bg-rose-500/10 text-rose-600" },
+  replaced: { label: "Replaced", className: "bg-slate-500/10 text-slate-500" },
+};
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.max(0, Math.floor((Date.now() - timestamp) / 60000));
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const describe = (tx: ScheduledTx) => {
+  const { amount, tokenSymbol, recipientHandle, recipient, recipientCount } =
+    tx.details ?? {};
+  const value = amount ? `${amount} ${tokenSymbol ?? ""}`.trim() : null;
+  // Approvals move nothing; the recipient is the spender.
+  if (tx.details?.source === "ALLOWANCE") {
+    return [value && `Allow ${value}`, recipient && `for ${formatAddressShort(recipient)}`]
+      .filter(Boolean)
+      .join(" ");
+  }
+  const to = recipientHandle
+    ? `@${recipientHandle}`
+    : recipient
+      ? formatAddressShort(recipient)
+      : recipientCount
+        ? `${recipientCount} users`
+        : null;
+  return [value, to && `to ${to}`].filter(Boolean).join(" ");
+};
+
+interface TxHistoryProps {
+  address: string;
+}
+
+/**
+ * Everything this extension sent from the wallet, from the local journal.
+ * Works without the explorer API.
+ */
+export const TxHistory: React.FC<TxHistoryProps> = ({ address }) => {
+  const { transactions, loading, error } = useTxHistory(address);
+
+  return (
+    <div className="card-section p-5">
+      <div>
+        <p className="section-title text-[0.65rem]">Activity</p>
+        <h2 className="mt-1 text-lg font-semibold text-slate-800">
+          Sent from Arena Plus
+        </h2>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {loading && !transactions.length && (
+          <p className="text-sm text-slate-400">Loading history...</p>
+        )}
+        {!loading && !error && !transactions.length && (
+          <p className="text-sm text-slate-400">
+            Transactions you send from the extension will appear here.
+          </p>
+        )}
+        {transactions.map((tx) => {
+          const status = STATUS_STYLES[tx.status];
+          const summary = describe(tx);
+          return (
+            <div
+              key={tx.id}
+              className="flex items-center justify-between gap-3 rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-sm"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm font-semibold text-slate-800">
+                  {tx.label}
+                </p>
+                {summary && (
+                  <p className="truncate text-xs text-slate-500">{summary}</p>
+                )}
+                <p className="text-xs text-slate-400">
+                  {formatAge(tx.createdAt)}
+                  {tx.hash && (
+                    <>
+                      {" · "}
+                      <a
+                        href={buildContractTxExplorerUrl(tx.hash)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        View
+                      </a>
+                    </>
+                  )}
+                </p>
+                {tx.status === "failed" && tx.error && (
+                  <p className="truncate text-xs text-rose-500" title={tx.error}>
+                    {tx.error}
+                  </p>
+                )}
+              </div>
+              <span
+                className={`shrink-0 rounded-full px-3 py-1 text-[11px] font-semibold ${status.className}`}
+              >
+                {status.label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <p className="mt-3 rounded-xl bg-rose-50 px-4 py-3 text-sm text-rose-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
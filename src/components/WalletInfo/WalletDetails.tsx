@@ -1,17 +1,15 @@
 import React, { useState } from 'react'
 import { WalletInfo, TokenInfo } from '../../types'
-import { TransferForm } from './TransferForm'
+import { TransferForm, tokenOptionKey, type TransferRecipient } from './TransferForm'
 
 interface WalletDetailsProps {
   wallet: WalletInfo;
   tokenInfo: TokenInfo | null;
   showPrivateKey: boolean;
-  showMnemonic: boolean;
   setShowPrivateKey: (show: boolean) => void;
-  setShowMnemonic: (show: boolean) => void;
   showTransferForm: boolean;
   setShowTransferForm: (show: boolean) => void;
-  onTransfer: (e: React.FormEvent) => void;
+  onTransfer: (e: React.FormEvent, recipient: TransferRecipient) => void;
   recipientAddress: string;
   setRecipientAddress: (address: string) => void;
   transferAmount: string;
@@ -23,9 +21,7 @@ export const WalletDetails: React.FC<WalletDetailsProps> = ({
   wallet,
   tokenInfo,
   showPrivateKey,
-  showMnemonic,
   setShowPrivateKey,
-  setShowMnemonic,
   showTransferForm,
   setShowTransferForm,
   onTransfer,
@@ -36,7 +32,9 @@ export const WalletDetails: React.FC<WalletDetailsProps> = ({
   loading
 }) => {
   // Set up token selection - in this context we only have ARENA tokens available
-  const [selectedToken, setSelectedToken] = useState<string>(tokenInfo?.symbol || '');
+  const [selectedToken, setSelectedToken] = useState<string>(
+    tokenInfo ? tokenOptionKey(tokenInfo) : ''
+  );
   
   // Create token options array with just the ARENA token
   const tokenOptions = tokenInfo ? [
@@ -116,22 +114,6 @@ export const WalletDetails: React.FC<WalletDetailsProps> = ({
             </button>
           </div>
         </div>
-        {wallet.mnemonic && (
-          <div className="break-all">
-            <p className="text-xs text-gray-500">Recovery Phrase:</p>
-            <div className="relative">
-              <p className="text-sm font-mono bg-gray-50 p-2 rounded">
-                {showMnemonic ? wallet.mnemonic : '••••••••••••••••••'}
-              </p>
-              <button
-                onClick={() => setShowMnemonic(!showMnemonic)}
-                className="absolute right-2 top-2 text-xs text-gray-500 hover:text-gray-700"
-              >
-                {showMnemonic ? 'Hide' : 'Show'}
-              </button>
-            </div>
-          </div>
-        )}
         <p className="text-xs text-red-500 mt-1">
           Never share your private key or recovery phrase with anyone!
         </p>
@@ -1,8 +1,11 @@
 import React, { useEffect } from "react";
-import { TransferForm } from "./TransferForm";
+import {
+  TransferForm,
+  tokenOptionKey,
+  type TransferRecipient,
+} from "./TransferForm";
 import { TokenInfo } from "../../types";
 import { CloseButton } from "../UI/CloseButton";
-import { TOKENS_MAP } from "../../constants";
 
 interface WithdrawModalProps {
   onClose: () => void;
@@ -10,7 +13,10 @@ interface WithdrawModalProps {
   setRecipientAddress: (address: string) => void;
   transferAmount: string;
   setTransferAmount: (amount: string) => void;
-  onTransfer: (e: React.FormEvent) => Promise<boolean>;
+  onTransfer: (
+    e: React.FormEvent,
+    recipient: TransferRecipient
+  ) => Promise<boolean>;
   loading: boolean;
   transferError: string | null;
   tokens: TokenInfo[];
@@ -31,9 +37,9 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
   selectedToken,
   setSelectedToken,
 }) => {
-  // Default token preference based on TOKENS order
+  // Default token preference based on registry order
   const firstAvailable = tokens.find((t) => parseFloat(t.balance) > 0);
-  const defaultToken = firstAvailable ? firstAvailable.symbol : "";
+  const defaultToken = firstAvailable ? tokenOptionKey(firstAvailable) : "";
 
   // Use the selectedToken from props if available, otherwise use the default
   useEffect(() => {
@@ -47,14 +53,18 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
     .filter((t) => parseFloat(t.balance) > 0)
     .map((t) => ({
       symbol: t.symbol,
-      name: TOKENS_MAP[t.symbol]?.name || t.symbol,
+      // TransferForm fills in the registry name from the address.
+      name: t.symbol,
       balance: t.balance,
       address: t.address,
     }));
 
   // Handle the transfer and close modal on success
-  const handleTransfer = async (e: React.FormEvent) => {
-    const success = await onTransfer(e);
+  const handleTransfer = async (
+    e: React.FormEvent,
+    recipient: TransferRecipient
+  ) => {
+    const success = await onTransfer(e, recipient);
     if (success) {
       onClose();
     }
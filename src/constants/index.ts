@@ -1,4 +1,21 @@
 export const AVALANCHE_RPC = import.meta.env.VITE_AVAX_RPC_URL || "https://api.avax.network/ext/bc/C/rpc";
+export const AVALANCHE_CHAIN_ID = 43114;
+
+// Used until the user edits the list in the wallet settings.
+export const DEFAULT_RPC_ENDPOINTS = [
+  AVALANCHE_RPC,
+  "https://avalanche-c-chain-rpc.publicnode.com",
+  "https://avalanche.drpc.org",
+  "https://1rpc.io/avax/c",
+].filter((url, index, all) => all.indexOf(url) === index);
+
+// Disperse (disperse.app): pays many recipients in one transaction.
+export const DISPERSE_CONTRACT_ADDRESS =
+  "0xD152f549545093347A162Dce210e7293f1452150";
+
+// LFJ (Trader Joe) V1 router. Any Uniswap V2 style router can be set in the
+// swap settings instead.
+export const DEFAULT_SWAP_ROUTER = "0x60aE616a2155Ee3d9A68541Ba4544862310933d4";
 
 // ERC20 Token Interface
 export const ERC20_ABI = [
@@ -19,7 +36,9 @@ export interface TokenConfig {
   isRounded?: boolean;
 }
 
-export const TOKENS: TokenConfig[] = [
+// Shipped with the extension. The background token registry adds
+// subscribed community tokens and user imports on top of these.
+export const BUILTIN_TOKENS: TokenConfig[] = [
   {
     symbol: "AVAX",
     name: "Avalanche",
@@ -126,19 +145,12 @@ export const TOKENS: TokenConfig[] = [
   },
 ];
 
-export const TOKENS_MAP: Record<string, TokenConfig> = TOKENS.reduce(
-  (acc, token) => {
-    acc[token.symbol] = token;
-    return acc;
-  },
-  {} as Record<string, TokenConfig>
-);
+const builtinToken = (symbol: string) =>
+  BUILTIN_TOKENS.find((token) => token.symbol === symbol)!;
 
+// Built-in tokens the tipping features offer next to subscribed ones.
 export const PARTNER_SYMBOLS = ["PLUS", "MOOCH", "ATD", "AYNE"];
-export const PARTNER_TOKENS: TokenConfig[] = PARTNER_SYMBOLS.map(
-  (symbol) => TOKENS_MAP[symbol]
-).filter((token): token is TokenConfig => token !== undefined);
 
-export const ARENA_TOKEN = TOKENS_MAP["ARENA"];
-export const AVAX_TOKEN = TOKENS_MAP["AVAX"];
-export const PLUS_TOKEN = TOKENS_MAP["PLUS"];
+export const ARENA_TOKEN = builtinToken("ARENA");
+export const AVAX_TOKEN = builtinToken("AVAX");
+export const PLUS_TOKEN = builtinToken("PLUS");
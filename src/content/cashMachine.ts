@@ -1,39 +1,34 @@
-import { TOKENS_MAP } from "../constants";
 import { showToast } from "../utils/toast";
+import { sendRpc } from "../lib/rpc";
+import { findTokenBySymbol, loadTokenRegistry } from "../lib/tokenRegistry";
 
 let isEnabled = false;
 let tipAmount = "1";
 let tipToken = "PLUS";
+// Unset for settings saved before the token registry; resolved by symbol.
+let tipTokenAddress: string | undefined;
 
-async function fetchAddress(handle: string): Promise<string | null> {
+async function resolveTipTokenAddress(): Promise<string | null> {
+  if (tipTokenAddress) return tipTokenAddress;
   try {
-    console.log("[Cash Machine] Fetching address for handle:", handle);
-    const res = await fetch(
-      `https://api.starsarena.com/user/handle?handle=${encodeURIComponent(
-        handle
-      )}`
-    );
-    if (!res.ok) {
-      console.error(
-        "[Cash Machine] API request failed:",
-        res.status,
-        res.statusText
-      );
-      return null;
-    }
-    const data = await res.json();
-    console.log("[Cash Machine] API response data:", data);
-    if (!data?.user?.address) {
-      console.warn(
-        "[Cash Machine] Address not found in API response for handle:",
-        handle
-      );
-    }
-    return data?.user?.address || null;
-  } catch (e) {
-    console.error("[Cash Machine] Failed to fetch address", e);
+    const tokens = await loadTokenRegistry();
+    return findTokenBySymbol(tokens, tipToken)?.address ?? null;
+  } catch (err) {
+    console.error("[Cash Machine] Failed to load token registry", err);
+    return null;
+  }
+}
+
+async function fetchAddress(handle: string): Promise<string | null> {
+  const response = await sendRpc("RESOLVE_HANDLE", { handle });
+  if (!response.success) {
+    console.error("[Cash Machine] Failed to resolve handle", response.error);
     return null;
   }
+  if (!response.profile) {
+    console.warn("[Cash Machine] No Arena user found for handle:", handle);
+  }
+  return response.profile?.address || null;
 }
 
 function extractHandle(button: HTMLElement): string | null {
@@ -98,58 +93,64 @@ async function handleLike(e: MouseEvent) {
     return;
   }
 
+  const tokenAddress = await resolveTipTokenAddress();
+  if (!tokenAddress) {
+    showToast(`Unknown tip token ${tipToken}`);
+    return;
+  }
+
   console.log(
     `[Cash Machine] Tipping ${tipAmount} ${tipToken} to ${handle} (${address})`
   );
 
-  chrome.runtime.sendMessage(
-    {
-      type: "SEND_TIP",
-      toAddress: address,
-      amount: tipAmount,
-      tokenAddress: TOKENS_MAP[tipToken].address,
-      tokenSymbol: tipToken,
-      skipWalletApproval: true,
-      source: "CASH_MACHINE",
-      recipientHandle: handle,
-    },
-    (response) => {
-      console.log("[Cash Machine] Response from background script:", response);
-      if (response?.success) {
-        showToast(`Sent ${tipAmount} ${tipToken} to ${handle}`);
+  sendRpc("SEND_TIP", {
+    toAddress: address,
+    amount: tipAmount,
+    tokenAddress,
+    tokenSymbol: tipToken,
+    skipWalletApproval: true,
+    source: "CASH_MACHINE",
+    recipientHandle: handle,
+  }).then((response) => {
+    console.log("[Cash Machine] Response from background script:", response);
+    if (response.success) {
+      showToast(`Sent ${tipAmount} ${tipToken} to ${handle}`);
+    } else {
+      if (response.error === "INSUFFICIENT_BALANCE") {
+        showToast(
+          `${tipToken} balance exceeded your wallet balance. Please deposit to run cash machine.`
+        );
       } else {
-        if (response?.error === "INSUFFICIENT_BALANCE") {
-          showToast(
-            `${tipToken} balance exceeded your wallet balance. Please deposit to run cash machine.`
-          );
-        } else {
-          showToast(`Tip failed: ${response?.error || "unknown"}`);
-        }
-        console.error("[Cash Machine] Tip failed:", response?.error);
+        showToast(`Tip failed: ${response.error || "unknown"}`);
       }
+      console.error("[Cash Machine] Tip failed:", response.error);
     }
-  );
+  });
 }
 
 export function initCashMachine(
   initial: boolean,
   amount: string,
-  token: string
+  token: string,
+  tokenAddress?: string
 ) {
   isEnabled = initial;
   tipAmount = amount;
   tipToken = token;
+  tipTokenAddress = tokenAddress;
   document.addEventListener("click", handleLike, true);
 }
 
 export function setCashMachine(
   enabled: boolean,
   amount: string,
-  token?: string
+  token?: string,
+  tokenAddress?: string
 ) {
   isEnabled = enabled;
   tipAmount = amount;
   if (token) {
     tipToken = token;
+    tipTokenAddress = tokenAddress;
   }
 }
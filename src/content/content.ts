@@ -37,7 +37,8 @@ chrome.storage.local.get("features", (data) => {
   initCashMachine(
     features.enableCashMachine,
     features.cashMachineAmount,
-    features.cashMachineToken
+    features.cashMachineToken,
+    features.cashMachineTokenAddress
   );
   initPromotion(true);
 });
@@ -69,7 +70,8 @@ chrome.runtime.onMessage.addListener((message) => {
         setCashMachine(
           message.enabled,
           features.cashMachineAmount,
-          features.cashMachineToken
+          features.cashMachineToken,
+          features.cashMachineTokenAddress
         );
       });
     } else if (message.feature === "engageInPromotion") {
@@ -85,7 +87,12 @@ chrome.runtime.onMessage.addListener((message) => {
         cashMachineAmount: "1",
         cashMachineToken: "PLUS",
       };
-      setCashMachine(true, features.cashMachineAmount, message.token);
+      setCashMachine(
+        true,
+        features.cashMachineAmount,
+        message.token,
+        message.tokenAddress
+      );
     });
   }
   if (message.type === "AREX_SHOW_PROMOTIONS") {
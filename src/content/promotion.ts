@@ -1,4 +1,6 @@
 import { showToast } from "../utils/toast";
+import { sendRpc } from "../lib/rpc";
+import { getSharedProvider } from "../lib/rpcProvider";
 import {
   createPromotion,
   fetchTextViaBackground,
@@ -627,16 +629,13 @@ export async function openPromotionsListModal() {
         }
       };
       try {
-        chrome.runtime.sendMessage({ type: "GET_APP_STATE" }, (response) => {
-          if (chrome.runtime.lastError) {
-            console.warn(
-              "[AREX] Failed to fetch wallet address",
-              chrome.runtime.lastError.message
-            );
+        sendRpc("GET_APP_STATE").then((response) => {
+          if (!response.success) {
+            console.warn("[AREX] Failed to fetch wallet address", response.error);
             resolveFromStorage();
             return;
           }
-          if (response?.wallet?.address) {
+          if (response.wallet?.address) {
             resolve(response.wallet.address);
             return;
           }
@@ -1440,10 +1439,8 @@ export async function openPromotionsListModal() {
         // 1. Check login status
         let twitterUser: any = null;
         try {
-          const appState = await new Promise<any>((resolve) => {
-            chrome.runtime.sendMessage({ type: "GET_APP_STATE" }, resolve);
-          });
-          twitterUser = appState?.twitterUser;
+          const appState = await sendRpc("GET_APP_STATE");
+          twitterUser = appState.success ? appState.twitterUser : null;
         } catch (e) {
           console.warn("[AREX] Failed to check login status", e);
         }
@@ -2225,39 +2222,28 @@ export async function openPromotionsListModal() {
           }
 
           // Wallet is unlocked, now ensure user is logged in
-          chrome.runtime.sendMessage(
-            { type: "CHECK_LOGIN_STATUS" },
-            (loginResponse) => {
-              if (chrome.runtime.lastError) {
-                const err = `Failed to check login status: ${chrome.runtime.lastError.message}`;
-                logError(err);
-                showToast(err);
-                setActionLoading(false);
-                return;
-              }
-              if (!loginResponse || !loginResponse.isLoggedIn) {
-                showToast("Please log in first to engage in promotions.");
-                setActionLoading(false);
-                return;
-              }
-
-              // Wallet unlocked and user logged in, proceed
-              proceedWithEngagement();
+          sendRpc("CHECK_LOGIN_STATUS").then((loginResponse) => {
+            if (!loginResponse.success) {
+              const err = `Failed to check login status: ${loginResponse.error}`;
+              logError(err);
+              showToast(err);
+              setActionLoading(false);
+              return;
+            }
+            if (!loginResponse.isLoggedIn) {
+              showToast("Please log in first to engage in promotions.");
+              setActionLoading(false);
+              return;
             }
-          );
+
+            // Wallet unlocked and user logged in, proceed
+            proceedWithEngagement();
+          });
 
           function proceedWithEngagement() {
-            chrome.runtime.sendMessage(
-              { type: "GET_BEARER_TOKEN" },
+            sendRpc("GET_BEARER_TOKEN").then(
               async (response) => {
-                if (chrome.runtime.lastError) {
-                  const err = `Failed to get token: ${chrome.runtime.lastError.message}`;
-                  logError(err);
-                  showToast(err);
-                  setActionLoading(false);
-                  return;
-                }
-                if (response.error) {
+                if (!response.success) {
                   const err = `Failed to get token: ${response.error}`;
                   logError(err);
                   showToast(err);
@@ -2284,10 +2270,11 @@ export async function openPromotionsListModal() {
                 // Guard: fetch logged-in username and actual follower count in frontend
                 let followerCountActual = 0;
                 try {
-                  const appState = await new Promise<any>((resolve) => {
-                    chrome.runtime.sendMessage({ type: "GET_APP_STATE" }, resolve);
-                  });
-                  const twitterUsername = appState?.twitterUser?.user_metadata?.user_name || "";
+                  const appState = await sendRpc("GET_APP_STATE");
+                  const twitterUsername =
+                    (appState.success &&
+                      appState.twitterUser?.user_metadata?.user_name) ||
+                    "";
                   if (!twitterUsername) {
                     showToast("Please log in to verify eligibility.");
                     setActionLoading(false);
@@ -2842,20 +2829,12 @@ function openPromotionModal(postId: string | null) {
       // Get wallet address from background using GET_APP_STATE
       let walletAddress: string | null = null;
       try {
-        const appState = await new Promise<any>((resolve) => {
-          chrome.runtime.sendMessage({ type: "GET_APP_STATE" }, (response) => {
-            if (chrome.runtime.lastError) {
-              console.warn(
-                "[AREX] Failed to get app state:",
-                chrome.runtime.lastError.message
-              );
-              resolve(null);
-              return;
-            }
-            resolve(response || null);
-          });
-        });
-        walletAddress = appState?.wallet?.address || null;
+        const appState = await sendRpc("GET_APP_STATE");
+        if (appState.success) {
+          walletAddress = appState.wallet?.address || null;
+        } else {
+          console.warn("[AREX] Failed to get app state:", appState.error);
+        }
       } catch (e) {
         console.warn("[AREX] Failed to get wallet address:", e);
       }
@@ -2888,7 +2867,7 @@ function openPromotionModal(postId: string | null) {
 
         try {
           // Use ethers to fetch balance directly from blockchain
-          const provider = new ethers.JsonRpcProvider("https://api.avax.network/ext/bc/C/rpc");
+          const provider = getSharedProvider();
           const ERC20_ABI = [
             {
               constant: true,
@@ -1,3 +1,5 @@
+import { sendRpc } from "../../lib/rpc";
+
 type PromotionApprovalWaiter = {
   timeoutId: number;
   resolve: () => void;
@@ -88,27 +90,13 @@ export function requestCreatePromotionApproval(
     return Promise.resolve(false);
   }
 
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      {
-        type: "REQUEST_CREATE_PROMOTION_APPROVAL",
-        payload: {
-          contextId,
-          ...promotionData,
-        },
-      },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          console.error(
-            "Failed to request create promotion approval",
-            chrome.runtime.lastError
-          );
-          resolve(false);
-          return;
-        }
-        resolve(!!response?.success);
-      }
-    );
+  return sendRpc("REQUEST_CREATE_PROMOTION_APPROVAL", {
+    payload: { ...promotionData, contextId },
+  }).then((response) => {
+    if (!response.success) {
+      console.error("Failed to request create promotion approval", response.error);
+    }
+    return response.success;
   });
 }
 
@@ -120,23 +108,10 @@ export function cancelCreatePromotionApproval(
     return Promise.resolve();
   }
 
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      {
-        type: "CANCEL_CREATE_PROMOTION_APPROVAL",
-        contextId,
-        reason,
-      },
-      () => {
-        if (chrome.runtime.lastError) {
-          console.warn(
-            "Failed to cancel create promotion approval",
-            chrome.runtime.lastError
-          );
-        }
-        resolve();
-      }
-    );
+  return sendRpc("CANCEL_CREATE_PROMOTION_APPROVAL", { contextId, reason }).then((response) => {
+    if (!response.success && response.code === "DISCONNECTED") {
+      console.warn("Failed to cancel create promotion approval", response.error);
+    }
   });
 }
 
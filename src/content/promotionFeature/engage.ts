@@ -1,4 +1,5 @@
 import { showToast } from "../../utils/toast";
+import { sendRpc } from "../../lib/rpc";
 
 export interface EngageBackendParams {
   promotionId: string;
@@ -15,50 +16,29 @@ export async function callEngageBackend(params: EngageBackendParams): Promise<vo
     promotionId,
     engagementPostId,
     engagementType,
-    threadData,
     promotionPostId,
   } = params;
 
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage(
-      {
-        type: "ENGAGE_IN_PROMOTION",
-        payload: {
-          promotionId: promotionId.toString(),
-          engagementPostId,
-          engagementType,
-          threadData,
-          promotionPostId,
-          content: (params as any).content,
-          followerCount: (params as any).followerCount,
-        },
-      },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          showToast(
-            `[ERROR] Chrome runtime error: ${chrome.runtime.lastError.message}`
-          );
-          reject(
-            new Error(`Runtime error: ${chrome.runtime.lastError.message}`)
-          );
-          return;
-        }
-
-        if (!response) {
-          showToast("[ERROR] No response from background script");
-          reject(new Error("No response from background script"));
-          return;
-        }
-
-        if (response.success) {
-          showToast("[SUCCESS] Backend engagement completed!");
-          resolve();
-        } else {
-          showToast(`[ERROR] Backend engagement failed: ${response.error}`);
-          reject(new Error(response.error || "Engagement failed"));
-        }
-      }
-    );
+  const response = await sendRpc("ENGAGE_IN_PROMOTION", {
+    payload: {
+      promotionId: promotionId.toString(),
+      engagementPostId,
+      engagementType,
+      promotionPostId,
+      content: params.content,
+      followerCount: params.followerCount,
+    },
   });
+
+  if (response.success) {
+    showToast("[SUCCESS] Backend engagement completed!");
+    return;
+  }
+  if (response.code === "DISCONNECTED") {
+    showToast(`[ERROR] Chrome runtime error: ${response.error}`);
+    throw new Error(`Runtime error: ${response.error}`);
+  }
+  showToast(`[ERROR] Backend engagement failed: ${response.error}`);
+  throw new Error(response.error || "Engagement failed");
 }
 
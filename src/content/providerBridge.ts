@@ -0,0 +1,63 @@
+// Relays the injected page provider's requests to the background and the
+// background's provider events back to the page. The background decides
+// what the page may do from the sender's origin, never from page data.
+
+import inpageProvider from "../inpage/provider?script&module";
+import { sendRpc } from "../lib/rpc";
+import {
+  PROVIDER_BRIDGE_CHANNEL,
+  PROVIDER_ERRORS,
+  PROVIDER_PAGE_CHANNEL,
+  type ProviderBridgeMessage,
+  type ProviderPageRequest,
+} from "../types/provider";
+
+const injectProvider = () => {
+  const script = document.createElement("script");
+  script.type = "module";
+  script.src = chrome.runtime.getURL(inpageProvider);
+  script.onload = () => script.remove();
+  (document.head || document.documentElement).appendChild(script);
+};
+
+const postToPage = (message: ProviderBridgeMessage) =>
+  window.postMessage(message, window.location.origin);
+
+window.addEventListener("message", async (event) => {
+  if (event.source !== window) return;
+  const request = event.data as ProviderPageRequest;
+  if (request?.channel !== PROVIDER_PAGE_CHANNEL) return;
+
+  const response = await sendRpc("PROVIDER_REQUEST", {
+    method: request.method,
+    params: request.params,
+  });
+  if (response.success) {
+    postToPage({
+      channel: PROVIDER_BRIDGE_CHANNEL,
+      id: request.id,
+      result: response.result,
+      error: response.error,
+    });
+    return;
+  }
+  postToPage({
+    channel: PROVIDER_BRIDGE_CHANNEL,
+    id: request.id,
+    error: {
+      code:
+        response.code === "DISCONNECTED"
+          ? PROVIDER_ERRORS.DISCONNECTED
+          : PROVIDER_ERRORS.INTERNAL,
+      message: response.error,
+    },
+  });
+});
+
+chrome.runtime.onMessage.addListener((message) => {
+  if (message?.type === "PROVIDER_EVENT" && message.message) {
+    postToPage(message.message as ProviderBridgeMessage);
+  }
+});
+
+injectProvider();
@@ -1,5 +1,7 @@
-import { TOKENS_MAP, PARTNER_TOKENS } from "../constants";
 import { showToast } from "../utils/toast";
+import { sendRpc } from "../lib/rpc";
+import { findTokenByAddress, loadTokenRegistry } from "../lib/tokenRegistry";
+import type { RegistryToken } from "../types/tokens";
 import {
   getWalletStatus,
   promptAndWaitForWalletUnlock,
@@ -150,35 +152,25 @@ function requestTipShowerApproval(
   contextId: string,
   count: number,
   amountPerTip: string,
-  tokenSymbol: string
+  token: RegistryToken
 ): Promise<boolean> {
   if (typeof chrome === "undefined" || !chrome.runtime?.id) {
     return Promise.resolve(false);
   }
 
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      {
-        type: "REQUEST_TIP_SHOWER_APPROVAL",
-        payload: {
-          contextId,
-          count,
-          amountPerTip,
-          tokenSymbol,
-        },
-      },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          console.error(
-            "Failed to request tip shower approval",
-            chrome.runtime.lastError
-          );
-          resolve(false);
-          return;
-        }
-        resolve(!!response?.success);
-      }
-    );
+  return sendRpc("REQUEST_TIP_SHOWER_APPROVAL", {
+    payload: {
+      contextId,
+      count,
+      amountPerTip,
+      tokenSymbol: token.symbol,
+      tokenAddress: token.address,
+    },
+  }).then((response) => {
+    if (!response.success) {
+      console.error("Failed to request tip shower approval", response.error);
+    }
+    return response.success;
   });
 }
 
@@ -190,23 +182,10 @@ function cancelTipShowerApproval(
     return Promise.resolve();
   }
 
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      {
-        type: "CANCEL_TIP_SHOWER_APPROVAL",
-        contextId,
-        reason,
-      },
-      () => {
-        if (chrome.runtime.lastError) {
-          console.warn(
-            "Failed to cancel tip shower approval",
-            chrome.runtime.lastError
-          );
-        }
-        resolve();
-      }
-    );
+  return sendRpc("CANCEL_TIP_SHOWER_APPROVAL", { contextId, reason }).then((response) => {
+    if (!response.success && response.code === "DISCONNECTED") {
+      console.warn("Failed to cancel tip shower approval", response.error);
+    }
   });
 }
 
@@ -229,10 +208,6 @@ function openShowerModal() {
   modal.style.border = "1px solid #333";
   modal.style.width = "420px";
 
-  const options = PARTNER_TOKENS.map(
-    (token) => `<option value="${token.symbol}">${token.symbol}</option>`
-  ).join("");
-
   modal.innerHTML = `
     <h2 style="font-size:20px;font-weight:600;margin:0 0 16px; color: #fff;">Tip Shower</h2>
     <label style="display:block;margin-bottom:8px;font-size:14px; color: #aaa;">Number of posts (Max 50)</label>
@@ -242,7 +217,7 @@ function openShowerModal() {
     <label style="display:block;margin-bottom:8px;font-size:14px; color: #aaa;">Tip token</label>
     <div style="position: relative;">
       <select id="shower-token" style="width:100%;box-sizing:border-box;padding:10px 40px 10px 10px;border:1px solid #444;border-radius:8px;margin-bottom:24px;background:#101010;color:#fff;font-size:14px; -webkit-appearance: none; -moz-appearance: none; appearance: none;">
-        ${options}
+        <option value="">Loading tokens...</option>
       </select>
       <div style="position:absolute;right:12px;top:10px;pointer-events:none;">
         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#aaa" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="6 9 12 15 18 9"></polyline></svg>
@@ -255,6 +230,26 @@ function openShowerModal() {
 
   document.body.appendChild(modal);
 
+  // The registry may have gained tokens since the page loaded; re-read it.
+  let tippableTokens: RegistryToken[] = [];
+  const tokenSelect = modal.querySelector("#shower-token") as HTMLSelectElement;
+  loadTokenRegistry({ refresh: true })
+    .then((tokens) => {
+      tippableTokens = tokens.filter((token) => token.tippable && !token.isNative);
+      tokenSelect.replaceChildren(
+        ...tippableTokens.map((token) => {
+          const option = document.createElement("option");
+          option.value = token.address;
+          option.textContent = token.symbol;
+          return option;
+        })
+      );
+    })
+    .catch((err) => {
+      console.error("Failed to load tip tokens", err);
+      tokenSelect.replaceChildren(new Option("Tokens unavailable", ""));
+    });
+
   const cancel = modal.querySelector("#shower-cancel") as HTMLButtonElement;
   cancel.addEventListener("click", () => modal.remove());
   cancel.addEventListener("mouseenter", () => {
@@ -277,15 +272,16 @@ function openShowerModal() {
     const amountInput = modal.querySelector(
       "#shower-amount"
     ) as HTMLInputElement;
-    const tokenInput = modal.querySelector(
-      "#shower-token"
-    ) as HTMLSelectElement;
     const count = Math.min(
       50,
       Math.max(1, parseInt(countInput.value, 10) || 1)
     );
     const amount = amountInput.value || "1";
-    const token = tokenInput.value || "PLUS";
+    const token = findTokenByAddress(tippableTokens, tokenSelect.value);
+    if (!token) {
+      showToast("Select a token to tip with.");
+      return;
+    }
     modal.remove();
     startTipShower(count, amount, token);
   });
@@ -455,18 +451,13 @@ const generateTipShowerContextId = () => {
 async function submitTipShowerBatch(
   recipients: TipShowerRecipient[],
   amountPerTip: string,
-  tokenSymbol: string,
+  token: RegistryToken,
   contextId?: string,
   useExistingApprovalContext = false
 ): Promise<boolean> {
   if (recipients.length === 0) {
     return false;
   }
-  const tokenConfig = TOKENS_MAP[tokenSymbol];
-  if (!tokenConfig) {
-    showToast("Unsupported token selected for tip shower.");
-    return false;
-  }
   if (typeof chrome === "undefined" || !chrome.runtime?.id) {
     showToast("Extension runtime unavailable. Please reload the extension.");
     return false;
@@ -480,51 +471,44 @@ async function submitTipShowerBatch(
   currentTipShowerTotal = recipients.length;
   currentTipShowerMeta = {
     amount: amountPerTip,
-    tokenSymbol: tokenSymbol.toUpperCase(),
+    tokenSymbol: token.symbol.toUpperCase(),
   };
 
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      {
-        type: "QUEUE_TIP_SHOWER",
-        payload: {
-          recipients,
-          amountPerTip,
-          tokenSymbol,
-          tokenAddress: tokenConfig.address,
-          contextId: resolvedContextId,
-          useExistingApprovalContext,
-        },
-      },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          showToast(
-            `Failed to queue tip shower: ${chrome.runtime.lastError.message}`
-          );
-          endTipShowerSession("Failed to queue tip shower.");
-          resolve(false);
-          return;
-        }
-        if (response?.success) {
-          resolve(true);
-        } else {
-          showToast(response?.error || "Tip shower failed.");
-          endTipShowerSession("Tip shower failed.");
-          resolve(false);
-        }
-      }
-    );
+  const response = await sendRpc("QUEUE_TIP_SHOWER", {
+    payload: {
+      recipients,
+      amountPerTip,
+      tokenSymbol: token.symbol,
+      tokenAddress: token.address,
+      contextId: resolvedContextId,
+      useExistingApprovalContext,
+    },
   });
+  if (response.success) {
+    return true;
+  }
+  if (response.code === "DISCONNECTED") {
+    showToast(`Failed to queue tip shower: ${response.error}`);
+    endTipShowerSession("Failed to queue tip shower.");
+  } else {
+    showToast(response.error || "Tip shower failed.");
+    endTipShowerSession("Tip shower failed.");
+  }
+  return false;
 }
 
-async function startTipShower(count: number, amount: string, token: string) {
+async function startTipShower(
+  count: number,
+  amount: string,
+  token: RegistryToken
+) {
   if (isShowerActive) return;
   isShowerActive = true;
   (window as any).isTipShowerActive = true;
   let loaderVisible = false;
   let approvalReserved = false;
   resetTipShowerTracking();
-  const normalizedToken = token.toUpperCase();
+  const normalizedToken = token.symbol.toUpperCase();
   const sessionContextId = generateTipShowerContextId();
   currentTipShowerContextId = sessionContextId;
   currentTipShowerMeta = { amount, tokenSymbol: normalizedToken };
@@ -554,7 +538,7 @@ async function startTipShower(count: number, amount: string, token: string) {
       sessionContextId,
       count,
       amount,
-      normalizedToken
+      token
     );
     if (!approvalRequested) {
       rejectTipShowerApproval(
@@ -601,7 +585,7 @@ async function startTipShower(count: number, amount: string, token: string) {
     const submissionSuccess = await submitTipShowerBatch(
       recipients,
       amount,
-      normalizedToken,
+      token,
       sessionContextId,
       true
     );
@@ -713,21 +697,14 @@ async function collectTipTarget(
   }
   if (!handle) return null;
 
-  try {
-    const res = await fetch(
-      `https://api.starsarena.com/user/handle?handle=${encodeURIComponent(
-        handle
-      )}`
-    );
-    if (!res.ok) return null;
-    const data = await res.json();
-    const address = data?.user?.address;
-    if (!address) return null;
-    return { handle, address };
-  } catch (e) {
-    console.error("Tip target collection failed", e);
+  const response = await sendRpc("RESOLVE_HANDLE", { handle });
+  if (!response.success) {
+    console.error("Tip target collection failed", response.error);
     return null;
   }
+  const address = response.profile?.address;
+  if (!address) return null;
+  return { handle, address };
 }
 
 function syncTipShowerLikes(processedCount: number) {
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  AddressBookEntry,
+  AddressBookEntryInput,
+} from "../types/addressBook";
+import { callRpc } from "../lib/rpc";
+
+export const useAddressBook = () => {
+  const [entries, setEntries] = useState<AddressBookEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    callRpc("GET_ADDRESS_BOOK")
+      .then(({ entries }) => setEntries(entries))
+      .catch((err) => setError(err.message));
+  }, []);
+
+  /** Resolves true once saved; errors land in `error`. */
+  const saveEntry = useCallback(async (entry: AddressBookEntryInput) => {
+    try {
+      setError(null);
+      const { entries } = await callRpc("SAVE_ADDRESS_BOOK_ENTRY", { entry });
+      setEntries(entries);
+      return true;
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    }
+  }, []);
+
+  const removeEntry = useCallback(async (address: string) => {
+    try {
+      setError(null);
+      const { entries } = await callRpc("REMOVE_ADDRESS_BOOK_ENTRY", {
+        address,
+      });
+      setEntries(entries);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  return { entries, error, saveEntry, removeEntry };
+};
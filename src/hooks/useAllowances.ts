@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from "react";
+import type { AllowanceScanStatus, TokenAllowance } from "../types/allowances";
+import { callRpc } from "../lib/rpc";
+
+const allowanceKey = (allowance: Pick<TokenAllowance, "tokenAddress" | "spender">) =>
+  `${allowance.tokenAddress}:${allowance.spender}`.toLowerCase();
+
+/** Outstanding ERC-20 approvals from `address`, with revoke and set-amount. */
+export const useAllowances = (address?: string) => {
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [scan, setScan] = useState<AllowanceScanStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!address || typeof chrome === "undefined" || !chrome.runtime?.id) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await callRpc("GET_ALLOWANCES", { address });
+      setAllowances(result.allowances);
+      setScan(result.scan);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    setAllowances([]);
+    setScan(null);
+    void refresh();
+  }, [refresh]);
+
+  /** "0" revokes. Resolves once the approve() is mined and the list reloaded. */
+  const setAllowance = useCallback(
+    async (allowance: TokenAllowance, amount: string) => {
+      const key = allowanceKey(allowance);
+      setPendingKey(key);
+      setError(null);
+      try {
+        await callRpc("SET_ALLOWANCE", {
+          payload: {
+            tokenAddress: allowance.tokenAddress,
+            spender: allowance.spender,
+            amount,
+          },
+        });
+        await refresh();
+        return true;
+      } catch (err: any) {
+        setError(err.message);
+        return false;
+      } finally {
+        setPendingKey(null);
+      }
+    },
+    [refresh]
+  );
+
+  const isPending = (allowance: TokenAllowance) =>
+    pendingKey === allowanceKey(allowance);
+
+  return { allowances, scan, loading, error, refresh, setAllowance, isPending };
+};
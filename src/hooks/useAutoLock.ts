@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from "react";
+import type { AutoLockPolicy, AutoLockStatus } from "../types/autoLock";
+import { callRpc } from "../lib/rpc";
+
+export const useAutoLock = () => {
+  const [status, setStatus] = useState<AutoLockStatus | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    callRpc("GET_AUTO_LOCK_STATUS")
+      .then(({ status }) => setStatus(status))
+      .catch((err) => setError(err.message));
+
+    const listener = (message: any) => {
+      if (message.type === "AUTO_LOCK_UPDATED" && message.status) {
+        setStatus(message.status);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      chrome.runtime.onMessage.removeListener(listener);
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  const extend = useCallback(async (minutes?: number) => {
+    try {
+      setError(null);
+      const { status } = await callRpc("EXTEND_AUTO_LOCK", {
+        payload: { minutes },
+      });
+      setStatus(status);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  const updatePolicy = useCallback(async (patch: Partial<AutoLockPolicy>) => {
+    try {
+      setError(null);
+      const { status } = await callRpc("SET_AUTO_LOCK_POLICY", {
+        payload: patch,
+      });
+      setStatus(status);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  const remainingMs =
+    status?.deadline != null ? Math.max(0, status.deadline - now) : null;
+
+  return { status, remainingMs, error, extend, updatePolicy };
+};
+
+export const formatLockCountdown = (remainingMs: number) => {
+  const totalSeconds = Math.ceil(remainingMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+  return `${seconds}s`;
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DappConnection } from "../types/provider";
+import { callRpc } from "../lib/rpc";
+
+export const useDappConnections = () => {
+  const [connections, setConnections] = useState<DappConnection[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    callRpc("GET_DAPP_CONNECTIONS")
+      .then(({ connections }) => setConnections(connections))
+      .catch((err) => setError(err.message));
+  }, []);
+
+  const revoke = useCallback(async (origin: string) => {
+    try {
+      setError(null);
+      const { connections } = await callRpc("REVOKE_DAPP_CONNECTION", {
+        origin,
+      });
+      setConnections(connections);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  return { connections, error, revoke };
+};
@@ -104,11 +104,15 @@ export const useFeatures = () => {
     }
   };
 
-  const updateCashMachineToken = async (token: string) => {
+  const updateCashMachineToken = async (token: {
+    address: string;
+    symbol: string;
+  }) => {
     try {
       const updatedFeatures = {
         ...features,
-        cashMachineToken: token,
+        cashMachineToken: token.symbol,
+        cashMachineTokenAddress: token.address,
       };
       await chrome.storage.local.set({ features: updatedFeatures });
       setFeatures(updatedFeatures);
@@ -120,7 +124,8 @@ export const useFeatures = () => {
         if (tab.id) {
           chrome.tabs.sendMessage(tab.id, {
             type: "CASH_MACHINE_TOKEN",
-            token,
+            token: token.symbol,
+            tokenAddress: token.address,
           });
         }
       });
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import type { ArenaProfile } from "../types/addressBook";
+import { callRpc } from "../lib/rpc";
+
+// Wait for the user to stop typing before asking the background.
+const LOOKUP_DELAY_MS = 400;
+
+export type HandleLookupStatus =
+  | "idle"
+  | "loading"
+  | "found"
+  | "not_found"
+  | "error";
+
+/** Resolves an Arena handle (with or without the @); pass "" to clear. */
+export const useHandleLookup = (handle: string) => {
+  const [status, setStatus] = useState<HandleLookupStatus>("idle");
+  const [profile, setProfile] = useState<ArenaProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const normalized = handle.trim().replace(/^@/, "");
+    setProfile(null);
+    setError(null);
+    if (!normalized) {
+      setStatus("idle");
+      return;
+    }
+
+    setStatus("loading");
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      callRpc("RESOLVE_HANDLE", { handle: normalized })
+        .then(({ profile }) => {
+          if (cancelled) return;
+          setProfile(profile);
+          setStatus(profile ? "found" : "not_found");
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setError(err.message);
+          setStatus("error");
+        });
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [handle]);
+
+  return { status, profile, error };
+};
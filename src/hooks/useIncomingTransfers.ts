@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import type { IncomingTransfer } from "../types/incomingTransfers";
+import { sendRpc } from "../lib/rpc";
+
+const FEED_LIMIT = 50;
+
+/** Tokens and AVAX received by `address`, as seen by the background poller. */
+export const useIncomingTransfers = (address?: string) => {
+  const [transfers, setTransfers] = useState<IncomingTransfer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address || typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    sendRpc("GET_INCOMING_TRANSFERS", { address, limit: FEED_LIMIT }).then(
+      (response) => {
+        if (cancelled) return;
+        setLoading(false);
+        if (response.success) {
+          setTransfers(response.transfers);
+        } else {
+          setError(response.error || "Failed to load received transfers.");
+        }
+      }
+    );
+
+    const listener = (message: any) => {
+      if (message.type !== "INCOMING_TRANSFERS_UPDATED") return;
+      const fresh = (message.transfers as IncomingTransfer[]).filter(
+        (transfer) => transfer.recipient.toLowerCase() === address.toLowerCase()
+      );
+      if (!fresh.length) return;
+      setTransfers((current) => [...fresh, ...current].slice(0, FEED_LIMIT));
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => {
+      cancelled = true;
+      chrome.runtime.onMessage.removeListener(listener);
+    };
+  }, [address]);
+
+  return { transfers, loading, error };
+};
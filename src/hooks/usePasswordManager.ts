@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import * as CryptoJS from "crypto-js";
+import { verifyPassword as verifyKeystorePassword } from "../services/walletService";
 
 export const usePasswordManager = () => {
   const [hasStoredPassword, setHasStoredPassword] = useState(false);
@@ -10,16 +10,12 @@ export const usePasswordManager = () => {
   }, []);
 
   const checkStoredPassword = async () => {
-    const data = await chrome.storage.local.get("password");
-    setHasStoredPassword(!!data.password);
+    const data = await chrome.storage.local.get("walletData");
+    setHasStoredPassword(!!data.walletData);
   };
 
   const verifyPassword = async (password: string): Promise<boolean> => {
-    const data = await chrome.storage.local.get("password");
-    if (!data.password) return false;
-
-    const inputHash = CryptoJS.SHA256(password).toString();
-    return inputHash === data.password;
+    return verifyKeystorePassword(password);
   };
 
   const clearTempPassword = async () => {
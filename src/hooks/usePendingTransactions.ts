@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ScheduledTx, TxReplacementMode } from "../types/transactions";
+import { sendRpc } from "../lib/rpc";
+
+export const usePendingTransactions = () => {
+  const [pending, setPending] = useState<ScheduledTx[]>([]);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    sendRpc("GET_PENDING_TRANSACTIONS").then((response) => {
+      if (response.success) setPending(response.transactions);
+    });
+
+    const listener = (message: any) => {
+      if (message.type !== "TX_LIFECYCLE_UPDATED" || !message.tx) return;
+      const tx = message.tx as ScheduledTx;
+      setPending((current) => {
+        const rest = current.filter((item) => item.id !== tx.id);
+        return tx.status === "submitted" ? [tx, ...rest] : rest;
+      });
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  const replace = useCallback(
+    async (id: string, mode: TxReplacementMode) => {
+      setActingId(id);
+      setError(null);
+      const response = await sendRpc("REPLACE_PENDING_TX", {
+        payload: { id, mode },
+      });
+      setActingId(null);
+      if (!response.success && response.error !== "USER_REJECTED") {
+        setError(response.error || "Failed to replace transaction.");
+      }
+    },
+    []
+  );
+
+  return {
+    pending,
+    actingId,
+    error,
+    speedUp: (id: string) => replace(id, "speed_up"),
+    cancel: (id: string) => replace(id, "cancel"),
+  };
+};
+
+export default usePendingTransactions;
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { PriceSnapshot, TokenPrice } from "../types/prices";
+import type { WalletTokenBalance } from "./useWalletTokenBalances";
+import { AVAX_TOKEN } from "../constants";
+import { callRpc } from "../lib/rpc";
+
+// The background caches prices for a minute, so polling faster gains nothing.
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/** Lowercase address a balance is priced under; AVAX uses WAVAX. */
+export const priceAddressOf = (balance: WalletTokenBalance) =>
+  (balance.isNative ? AVAX_TOKEN.address : balance.tokenAddress)?.toLowerCase();
+
+/**
+ * USD value of `balances` with the 24h change, plus the price snapshots the
+ * wallet recorded for each token. Tokens without a DEX price are left out of
+ * the total rather than counted as zero.
+ */
+export const usePortfolio = (balances: WalletTokenBalance[]) => {
+  const [prices, setPrices] = useState<Record<string, TokenPrice>>({});
+  const [history, setHistory] = useState<Record<string, PriceSnapshot[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addressKey = Array.from(
+    new Set(
+      balances
+        .map(priceAddressOf)
+        .filter((address): address is string => !!address)
+    )
+  )
+    .sort()
+    .join(",");
+
+  const refresh = useCallback(
+    async (force = false) => {
+      if (!addressKey || typeof chrome === "undefined" || !chrome.runtime?.id) {
+        return;
+      }
+      const addresses = addressKey.split(",");
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await callRpc("GET_TOKEN_PRICES", {
+          addresses,
+          refresh: force,
+        });
+        setPrices(result.prices);
+        // Read after the price fetch, which may have recorded a new snapshot.
+        const recorded = await callRpc("GET_PRICE_HISTORY", { addresses });
+        setHistory(recorded.history);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [addressKey]
+  );
+
+  useEffect(() => {
+    void refresh();
+    const timer = setInterval(() => void refresh(), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const summary = useMemo(() => {
+    let totalUsd = 0;
+    let previousUsd = 0;
+    let pricedCount = 0;
+    for (const balance of balances) {
+      const address = priceAddressOf(balance);
+      const price = address ? prices[address] : undefined;
+      if (!price) continue;
+      const value = balance.numericBalance * price.priceUsd;
+      pricedCount += 1;
+      totalUsd += value;
+      // Without a 24h change the token counts as flat.
+      previousUsd +=
+        price.change24h === null ? value : value / (1 + price.change24h / 100);
+    }
+    const change24hUsd = totalUsd - previousUsd;
+    return {
+      totalUsd,
+      change24hUsd,
+      change24hPercent: previousUsd > 0 ? (change24hUsd / previousUsd) * 100 : 0,
+      pricedCount,
+    };
+  }, [balances, prices]);
+
+  return { ...summary, prices, history, loading, error, refresh };
+};
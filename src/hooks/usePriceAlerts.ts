@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react";
+import type { PriceAlert, PriceAlertInput } from "../types/priceAlerts";
+import { callRpc } from "../lib/rpc";
+
+export const usePriceAlerts = () => {
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+    callRpc("GET_PRICE_ALERTS")
+      .then((result) => setAlerts(result.alerts))
+      .catch((err) => setError(err.message));
+  }, []);
+
+  /** Resolves with the saved alert, or null with the reason in `error`. */
+  const saveAlert = useCallback(async (alert: PriceAlertInput) => {
+    try {
+      setError(null);
+      const result = await callRpc("SAVE_PRICE_ALERT", { alert });
+      setAlerts(result.alerts);
+      return result.alert;
+    } catch (err: any) {
+      setError(err.message);
+      return null;
+    }
+  }, []);
+
+  const removeAlert = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      const result = await callRpc("REMOVE_PRICE_ALERT", { id });
+      setAlerts(result.alerts);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  return { alerts, error, saveAlert, removeAlert };
+};
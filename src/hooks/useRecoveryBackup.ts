@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RpcContract } from "../types/rpc";
+import { callRpc } from "../lib/rpc";
+
+export type RecoveryBackupStatus =
+  RpcContract["GET_RECOVERY_BACKUP_STATUS"]["response"];
+
+/** Whether the wallet has a recovery phrase and when its backup was verified. */
+export const useRecoveryBackup = () => {
+  const [status, setStatus] = useState<RecoveryBackupStatus | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+    try {
+      const { hasRecoveryPhrase, verifiedAt } = await callRpc(
+        "GET_RECOVERY_BACKUP_STATUS"
+      );
+      setStatus({ hasRecoveryPhrase, verifiedAt });
+    } catch {
+      // Locked; the wallet view is not shown then anyway.
+      setStatus(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const markVerified = useCallback((verifiedAt: number) => {
+    setStatus({ hasRecoveryPhrase: true, verifiedAt });
+  }, []);
+
+  return {
+    status,
+    needsBackup: !!status?.hasRecoveryPhrase && !status.verifiedAt,
+    refresh,
+    markVerified,
+  };
+};
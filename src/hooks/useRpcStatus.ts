@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RpcStatus } from "../types/rpcHealth";
+import { callRpc } from "../lib/rpc";
+
+export const useRpcStatus = () => {
+  const [status, setStatus] = useState<RpcStatus | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    callRpc("GET_RPC_STATUS")
+      .then(({ status }) => setStatus(status))
+      .catch((err) => setError(err.message));
+
+    const listener = (message: any) => {
+      if (message.type === "RPC_STATUS_UPDATED" && message.status) {
+        setStatus(message.status);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  const run = useCallback(async (request: () => Promise<{ status: RpcStatus }>) => {
+    try {
+      setChecking(true);
+      setError(null);
+      const { status } = await request();
+      setStatus(status);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  const check = useCallback(() => run(() => callRpc("CHECK_RPC_HEALTH")), [run]);
+
+  const setEndpoints = useCallback(
+    (endpoints: string[]) =>
+      run(() => callRpc("SET_RPC_ENDPOINTS", { payload: { endpoints } })),
+    [run]
+  );
+
+  return { status, checking, error, check, setEndpoints };
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SpendingPolicy, SpendingPolicyStatus } from "../types/spendingPolicy";
+import { callRpc } from "../lib/rpc";
+
+export const useSpendingPolicy = () => {
+  const [status, setStatus] = useState<SpendingPolicyStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    callRpc("GET_SPENDING_POLICY")
+      .then(({ status }) => setStatus(status))
+      .catch((err) => setError(err.message));
+  }, []);
+
+  const updatePolicy = useCallback(async (patch: Partial<SpendingPolicy>) => {
+    try {
+      setError(null);
+      const { status } = await callRpc("SET_SPENDING_POLICY", {
+        payload: patch,
+      });
+      setStatus(status);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  return { status, error, updatePolicy };
+};
@@ -1,13 +1,14 @@
 import { useState } from "react";
 import { ethers } from "ethers";
 import { subscribeToToken } from "../services/post2earnService";
-import { WalletInfo } from "../types";
+import { PublicWalletInfo } from "../types";
+import { sendRpc } from "../lib/rpc";
 
 export const useSubscribe = () => {
   const [loading, setLoading] = useState(false);
   const [status, setStatus] = useState<{ type: "success" | "error"; message: string } | null>(null);
 
-  const subscribe = async (tokenAddress: string, months: number, wallet: WalletInfo | null) => {
+  const subscribe = async (tokenAddress: string, months: number, wallet: PublicWalletInfo | null) => {
     if (!wallet) {
       setStatus({ type: "error", message: "Wallet is not connected" });
       return false;
@@ -26,10 +27,8 @@ export const useSubscribe = () => {
       
       // Fetch user ID from arena.social cookie via background script
       try {
-        const response: any = await new Promise((resolve) => {
-          chrome.runtime.sendMessage({ type: "GET_ARENA_USER_ID" }, resolve);
-        });
-        if (response?.userId) {
+        const response = await sendRpc("GET_ARENA_USER_ID");
+        if (response.success && response.userId) {
           arenaUserId = response.userId;
         }
       } catch (e) {
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SwapQuote, SwapQuoteRequest, SwapSettings } from "../types/swap";
+import { callRpc } from "../lib/rpc";
+
+// Wait for the user to stop typing before asking the router.
+const QUOTE_DEBOUNCE_MS = 400;
+
+/** Swap settings, a live quote for `request` and the swap itself. */
+export const useSwap = (request: SwapQuoteRequest | null) => {
+  const [settings, setSettings] = useState<SwapSettings | null>(null);
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [swapping, setSwapping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+    callRpc("GET_SWAP_SETTINGS")
+      .then((result) => setSettings(result.settings))
+      .catch((err) => setError(err.message));
+  }, []);
+
+  const { tokenIn, tokenOut, amountIn } = request ?? {};
+  const fetchQuote = useCallback(async () => {
+    if (!tokenIn || !tokenOut || !amountIn || !(Number(amountIn) > 0)) {
+      setQuote(null);
+      return;
+    }
+    setQuoting(true);
+    setError(null);
+    try {
+      const result = await callRpc("GET_SWAP_QUOTE", {
+        payload: { tokenIn, tokenOut, amountIn },
+      });
+      setQuote(result.quote);
+    } catch (err: any) {
+      setQuote(null);
+      setError(err.message);
+    } finally {
+      setQuoting(false);
+    }
+  }, [tokenIn, tokenOut, amountIn]);
+
+  useEffect(() => {
+    setQuote(null);
+    const timer = setTimeout(() => void fetchQuote(), QUOTE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // A settings change re-quotes with the new router and slippage.
+  }, [fetchQuote, settings]);
+
+  const updateSettings = useCallback(async (patch: Partial<SwapSettings>) => {
+    try {
+      setError(null);
+      const result = await callRpc("SET_SWAP_SETTINGS", { payload: patch });
+      setSettings(result.settings);
+      return true;
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    }
+  }, []);
+
+  /** Resolves with the swap's tx hash once mined, or null with `error` set. */
+  const executeSwap = useCallback(
+    async (acceptHighImpact = false) => {
+      if (!tokenIn || !tokenOut || !amountIn) return null;
+      setSwapping(true);
+      setError(null);
+      try {
+        const { txHash } = await callRpc("EXECUTE_SWAP", {
+          payload: { tokenIn, tokenOut, amountIn, acceptHighImpact },
+        });
+        setQuote(null);
+        return txHash;
+      } catch (err: any) {
+        setError(err.message);
+        return null;
+      } finally {
+        setSwapping(false);
+      }
+    },
+    [tokenIn, tokenOut, amountIn]
+  );
+
+  return {
+    settings,
+    quote,
+    quoting,
+    swapping,
+    error,
+    refreshQuote: fetchQuote,
+    updateSettings,
+    executeSwap,
+  };
+};
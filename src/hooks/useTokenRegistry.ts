@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RegistryToken } from "../types/tokens";
+import { callRpc } from "../lib/rpc";
+import {
+  loadTokenRegistry,
+  subscribeTokenRegistry,
+} from "../lib/tokenRegistry";
+
+export const useTokenRegistry = () => {
+  const [tokens, setTokens] = useState<RegistryToken[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    let active = true;
+    loadTokenRegistry()
+      .then((list) => active && setTokens(list))
+      .catch((err) => active && setError(err.message));
+    const unsubscribe = subscribeTokenRegistry(setTokens);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  /** Resolves with the imported token, or null with the reason in `error`. */
+  const importToken = useCallback(async (address: string) => {
+    try {
+      setError(null);
+      const { token, tokens } = await callRpc("IMPORT_TOKEN", { address });
+      setTokens(tokens);
+      return token;
+    } catch (err: any) {
+      setError(err.message);
+      return null;
+    }
+  }, []);
+
+  const removeToken = useCallback(async (address: string) => {
+    try {
+      setError(null);
+      const { tokens } = await callRpc("REMOVE_TOKEN", { address });
+      setTokens(tokens);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  return { tokens, error, importToken, removeToken };
+};
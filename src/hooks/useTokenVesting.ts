@@ -2,7 +2,7 @@ import { useEffect, useState } from "react";
 import { ethers } from "ethers";
 import vestingAbi from "../contract/LinearTokenVesting.json";
 import contractAddress from "../contract/LinearTokenVestingCA.json";
-import { AVALANCHE_RPC } from "../constants";
+import { getSharedProvider } from "../lib/rpcProvider";
 
 export interface VestingData {
   totalVested: string;
@@ -23,7 +23,7 @@ export const useTokenVesting = (walletAddress?: string) => {
     try {
       setLoading(true);
       setError(null);
-      const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
+      const provider = getSharedProvider();
       const vestingContract = new ethers.Contract(
         (contractAddress as { contract_address: string }).contract_address,
         (vestingAbi as any).abi,
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import type { ScheduledTx } from "../types/transactions";
+import { sendRpc } from "../lib/rpc";
+
+const HISTORY_LIMIT = 50;
+
+/** Txs this extension sent from `address`, read from the local journal. */
+export const useTxHistory = (address?: string) => {
+  const [transactions, setTransactions] = useState<ScheduledTx[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address || typeof chrome === "undefined" || !chrome.runtime?.id) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    sendRpc("GET_TX_HISTORY", {
+      payload: { address, limit: HISTORY_LIMIT },
+    }).then((response) => {
+      if (cancelled) return;
+      setLoading(false);
+      if (response.success) {
+        setTransactions(response.transactions);
+      } else {
+        setError(response.error || "Failed to load transaction history.");
+      }
+    });
+
+    const listener = (message: any) => {
+      if (message.type !== "TX_LIFECYCLE_UPDATED" || !message.tx) return;
+      const tx = message.tx as ScheduledTx;
+      if (tx.from?.toLowerCase() !== address.toLowerCase()) return;
+      setTransactions((current) => {
+        const index = current.findIndex((item) => item.id === tx.id);
+        if (index === -1) return [tx, ...current].slice(0, HISTORY_LIMIT);
+        const next = [...current];
+        next[index] = tx;
+        return next;
+      });
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => {
+      cancelled = true;
+      chrome.runtime.onMessage.removeListener(listener);
+    };
+  }, [address]);
+
+  return { transactions, loading, error };
+};
+
+export default useTxHistory;
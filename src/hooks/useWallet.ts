@@ -1,51 +1,76 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { ethers } from "ethers";
-import { WalletInfo, TokenInfo, StoredWalletData } from "../types";
-import { AVALANCHE_RPC, TOKENS_MAP, PLUS_TOKEN, TOKENS } from "../constants";
-import * as CryptoJS from "crypto-js";
+import { PublicWalletInfo, TokenInfo, WalletAccount } from "../types";
+import { ERC20_ABI } from "../constants";
+import { encryptWalletSecrets } from "../utils/keystore";
+import { callRpc, sendRpc } from "../lib/rpc";
+import { getSharedProvider } from "../lib/rpcProvider";
+import { loadTokenRegistry } from "../lib/tokenRegistry";
+import type { WalletAccountsState } from "../types/rpc";
 
 export const useWallet = () => {
-  const [wallet, setWallet] = useState<WalletInfo | null>(null);
+  const [wallet, setWallet] = useState<PublicWalletInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [transferLoading, setTransferLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isUnlocked, setIsUnlocked] = useState(false);
   const [tokens, setTokens] = useState<TokenInfo[]>([]);
+  const [accounts, setAccounts] = useState<WalletAccount[]>([]);
+
+  // The background can lock the wallet on its own (auto-lock, idle, system lock)
+  useEffect(() => {
+    if (typeof chrome === "undefined" || !chrome.runtime?.id) return;
+    const listener = (message: any) => {
+      if (message.type === "WALLET_LOCKED") {
+        setWallet(null);
+        setIsUnlocked(false);
+        setTokens([]);
+        setAccounts([]);
+      } else if (message.type === "ACCOUNTS_UPDATED") {
+        setAccounts(message.accounts ?? []);
+        setWallet((current) =>
+          current?.address === message.wallet?.address &&
+          current?.label === message.wallet?.label
+            ? current
+            : message.wallet ?? null
+        );
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
 
   const getTokenBalance = useCallback(async (address: string) => {
     try {
-      const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
-      const tokenInfos: TokenInfo[] = [];
-
-      for (const token of TOKENS) {
-        if (token.isNative) {
-          const balanceWei = await provider.getBalance(address);
-          tokenInfos.push({
-            balance: ethers.formatEther(balanceWei),
-            symbol: token.symbol,
-            decimals: token.decimals,
-            address: token.address,
-          });
-        } else if (token.abi) {
-          const contract = new ethers.Contract(
-            token.address,
-            token.abi,
-            provider
-          );
-          const [balRaw, decimals, symbol] = await Promise.all([
-            contract.balanceOf(address),
-            contract.decimals(),
-            contract.symbol(),
-          ]);
-          tokenInfos.push({
-            balance: ethers.formatUnits(balRaw, decimals),
-            symbol,
-            decimals,
-            address: token.address,
-          });
-        }
-      }
-
+      const provider = getSharedProvider();
+      // Metadata comes from the registry, so each token costs one balance read.
+      const results = await Promise.all(
+        (await loadTokenRegistry()).map(
+          async (token): Promise<TokenInfo | null> => {
+            try {
+              const balance: bigint = token.isNative
+                ? await provider.getBalance(address)
+                : await new ethers.Contract(
+                  token.address,
+                  ERC20_ABI,
+                  provider
+                ).balanceOf(address);
+              return {
+                balance: ethers.formatUnits(balance, token.decimals),
+                symbol: token.symbol,
+                decimals: token.decimals,
+                address: token.address,
+              };
+            } catch (err) {
+              console.warn(`Failed to fetch ${token.symbol} balance`, err);
+              return null;
+            }
+          }
+        )
+      );
+      const tokenInfos = results.filter(
+        (token): token is TokenInfo => token !== null
+      );
       setTokens(tokenInfos);
     } catch (err) {
       console.error("Error fetching token balances:", err);
@@ -53,77 +78,116 @@ export const useWallet = () => {
     }
   }, []);
 
+  // Balances belong to the active account; refetch whenever it changes.
+  useEffect(() => {
+    setTokens([]);
+    if (wallet?.address) {
+      getTokenBalance(wallet.address);
+    }
+  }, [wallet?.address, getTokenBalance]);
+
   const init = useCallback(() => {
     setLoading(true);
-    chrome.runtime.sendMessage({ type: "GET_APP_STATE" }, (response) => {
-      if (response.isUnlocked && response.wallet) {
+    sendRpc("GET_APP_STATE").then((response) => {
+      if (response.success && response.isUnlocked && response.wallet) {
         setWallet(response.wallet);
+        setAccounts(response.accounts);
         setIsUnlocked(true);
-        getTokenBalance(response.wallet.address);
       } else {
         setIsUnlocked(false);
       }
       setLoading(false);
     });
-  }, [getTokenBalance]);
+  }, []);
 
   const unlockWallet = useCallback(
     async (password: string) => {
       setLoading(true);
       setError(null);
-      return new Promise((resolve, reject) => {
-        chrome.runtime.sendMessage(
-          { type: "UNLOCK_WALLET", password },
-          (response) => {
-            if (response.success && response.wallet) {
-              setWallet(response.wallet);
-              setIsUnlocked(true);
-              getTokenBalance(response.wallet.address);
-              resolve(response.wallet);
-            } else {
-              setError(response.error || "Failed to unlock wallet.");
-              setIsUnlocked(false);
-              reject(new Error(response.error || "Failed to unlock wallet."));
-            }
-            setLoading(false);
-          }
-        );
-      });
+      const response = await sendRpc("UNLOCK_WALLET", { password });
+      setLoading(false);
+      if (response.success && response.wallet) {
+        setWallet(response.wallet);
+        setAccounts(response.accounts);
+        setIsUnlocked(true);
+        return response.wallet;
+      }
+      const message =
+        (!response.success && response.error) || "Failed to unlock wallet.";
+      setError(message);
+      setIsUnlocked(false);
+      throw new Error(message);
+    },
+    []
+  );
+
+  const applyAccountsState = useCallback(
+    async (request: Promise<WalletAccountsState>) => {
+      const { accounts, wallet } = await request;
+      setAccounts(accounts);
+      setWallet(wallet);
     },
-    [getTokenBalance]
+    []
+  );
+
+  const switchAccount = useCallback(
+    (address: string) =>
+      applyAccountsState(callRpc("SWITCH_ACCOUNT", { payload: { address } })),
+    [applyAccountsState]
+  );
+
+  const addDerivedAccount = useCallback(
+    (password: string) =>
+      applyAccountsState(
+        callRpc("ADD_ACCOUNT", { password, payload: { kind: "derived" } })
+      ),
+    [applyAccountsState]
+  );
+
+  const importAccount = useCallback(
+    (privateKey: string, password: string) =>
+      applyAccountsState(
+        callRpc("ADD_ACCOUNT", {
+          password,
+          payload: { kind: "imported", privateKey },
+        })
+      ),
+    [applyAccountsState]
+  );
+
+  const renameAccount = useCallback(
+    (address: string, label: string) =>
+      applyAccountsState(
+        callRpc("RENAME_ACCOUNT", { payload: { address, label } })
+      ),
+    [applyAccountsState]
   );
 
   const lockWallet = useCallback(() => {
-    chrome.runtime.sendMessage({ type: "LOCK_WALLET" }, () => {
+    sendRpc("LOCK_WALLET").then(() => {
       setWallet(null);
       setIsUnlocked(false);
       setTokens([]);
+      setAccounts([]);
     });
   }, []);
 
   const storeWallet = useCallback(
-    async (privateKey: string, address: string, userPassword: string) => {
+    async (
+      privateKey: string,
+      address: string,
+      userPassword: string,
+      mnemonic?: string
+    ) => {
       try {
-        const encryptedPrivateKey = CryptoJS.AES.encrypt(
-          privateKey,
-          userPassword
-        ).toString();
-
-        const hashedPassword = await crypto.subtle
-          .digest("SHA-256", new TextEncoder().encode(userPassword))
-          .then((hash) => Array.from(new Uint8Array(hash)));
-
-        const walletData: StoredWalletData = {
-          encryptedPrivateKey: encryptedPrivateKey,
+        const walletData = await encryptWalletSecrets(
           address,
-          hashedPassword: hashedPassword.join(","),
-        };
+          { privateKey, mnemonic },
+          userPassword
+        );
 
         await chrome.storage.local.set({ walletData });
-
-        await chrome.storage.local.set({
-          password: CryptoJS.SHA256(userPassword).toString(),
-        });
+        await chrome.storage.local.remove("password");
       } catch (err) {
         console.error("Error storing wallet:", err);
         throw err;
@@ -145,13 +209,14 @@ export const useWallet = () => {
         }
 
         const randomWallet = ethers.Wallet.createRandom();
-        const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
+        const provider = getSharedProvider();
         const connectedWallet = randomWallet.connect(provider);
 
         await storeWallet(
           connectedWallet.privateKey,
           connectedWallet.address,
-          password
+          password,
+          randomWallet.mnemonic?.phrase
         );
 
         await unlockWallet(password);
@@ -220,7 +285,8 @@ export const useWallet = () => {
         await storeWallet(
           mnemonicWallet.privateKey,
           mnemonicWallet.address,
-          password
+          password,
+          mnemonicWallet.mnemonic?.phrase
         );
 
         await unlockWallet(password);
@@ -238,12 +304,17 @@ export const useWallet = () => {
   );
 
   const transferTokens = useCallback(
-    async (toAddress: string, amount: string, tokenSymbol?: string) => {
+    async (
+      toAddress: string,
+      amount: string,
+      token: Pick<TokenInfo, "address" | "symbol">,
+      recipientHandle?: string
+    ) => {
       try {
         setTransferLoading(true);
         setError(null);
 
-        if (!wallet?.privateKey) {
+        if (!wallet?.address) {
           throw new Error("Wallet not connected");
         }
 
@@ -255,49 +326,17 @@ export const useWallet = () => {
           throw new Error("Amount must be a positive number");
         }
 
-        const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
-        const signer = new ethers.Wallet(wallet.privateKey, provider);
-
-        const token = tokenSymbol ? TOKENS_MAP[tokenSymbol] : TOKENS[0];
-        if (!token) {
-          throw new Error("Unsupported token");
-        }
-
-        if (token.isNative) {
-          const parsedAmount = ethers.parseEther(amount);
-          const balance = await provider.getBalance(wallet.address);
-          const gasPrice = await provider.getFeeData();
-          const estimatedGasCost = gasPrice.gasPrice
-            ? gasPrice.gasPrice * BigInt(21000)
-            : BigInt(0);
-
-          if (balance < parsedAmount + estimatedGasCost) {
-            throw new Error("Insufficient AVAX balance (including gas fees)");
-          }
-
-          const tx = await signer.sendTransaction({
-            to: toAddress,
-            value: parsedAmount,
-          });
-          await tx.wait();
-        } else {
-          const tokenContract = new ethers.Contract(
-            PLUS_TOKEN.address,
-            token.abi as any,
-            signer
-          );
-
-          const decimals = await tokenContract.decimals();
-          const parsedAmount = ethers.parseUnits(amount, decimals);
-          const balance = await tokenContract.balanceOf(wallet.address);
-
-          if (balance < parsedAmount) {
-            throw new Error(`Insufficient ${token.symbol} balance`);
-          }
-
-          const tx = await tokenContract.transfer(toAddress, parsedAmount);
-          await tx.wait();
-        }
+        // The background signs and waits for the receipt. It resolves the
+        // token by address; the symbol only matters for rows without one.
+        await callRpc("SEND_TRANSFER", {
+          payload: {
+            toAddress,
+            amount,
+            tokenAddress: token.address,
+            tokenSymbol: token.symbol,
+            recipientHandle,
+          },
+        });
 
         await getTokenBalance(wallet.address);
         return true;
@@ -323,9 +362,14 @@ export const useWallet = () => {
     error,
     isUnlocked,
     tokens,
+    accounts,
     init,
     unlockWallet,
     lockWallet,
+    switchAccount,
+    addDerivedAccount,
+    importAccount,
+    renameAccount,
     createNewWallet,
     importWalletWithPrivateKey,
     importWalletWithMnemonic,
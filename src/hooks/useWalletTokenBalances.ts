@@ -3,6 +3,7 @@ import { ethers } from "ethers";
 import { Post2EarnGetters } from "../services/post2earn/getters";
 import { ARENA_TOKEN_ADDRESS } from "../utils/arenaToken";
 import { useRewardClaims } from "./useRewardClaims";
+import { getSharedProvider } from "../lib/rpcProvider";
 
 // Constants
 const ARENA_TOKEN_DECIMALS = 18;
@@ -68,12 +69,12 @@ const normalizeTokenMetadata = (
   };
 };
 
-import { WalletInfo, TokenInfo } from "../types";
+import { PublicWalletInfo, TokenInfo } from "../types";
 
 // ... (imports)
 
 const useWalletTokenBalances = (
-  wallet: WalletInfo | null | undefined,
+  wallet: PublicWalletInfo | null | undefined,
   heldTokens: TokenInfo[] = []
 ) => {
   const walletAddress = wallet?.address;
@@ -159,7 +160,7 @@ const useWalletTokenBalances = (
       return;
     }
 
-    const provider = new ethers.JsonRpcProvider(import.meta.env.VITE_AVAX_RPC_URL || "https://api.avax.network/ext/bc/C/rpc");
+    const provider = getSharedProvider();
 
     const currentRequestId = ++requestIdRef.current;
     setLoading(true);
@@ -0,0 +1,168 @@
+// Runs in the page's own JavaScript world, injected by the provider bridge
+// content script. Exposes the wallet as an EIP-1193 provider, announces it
+// over EIP-6963 and sets `window.ethereum` when no other wallet has. Every
+// request is forwarded to the background through the bridge.
+
+import { AVALANCHE_CHAIN_ID } from "../constants";
+import {
+  PROVIDER_BRIDGE_CHANNEL,
+  PROVIDER_PAGE_CHANNEL,
+  type ProviderBridgeMessage,
+  type ProviderPageRequest,
+} from "../types/provider";
+
+type Listener = (...args: any[]) => void;
+
+interface RequestArguments {
+  method: string;
+  params?: unknown[] | object;
+}
+
+const CHAIN_ID_HEX = `0x${AVALANCHE_CHAIN_ID.toString(16)}`;
+
+const PROVIDER_INFO = {
+  uuid: crypto.randomUUID(),
+  name: "Arena Plus",
+  icon:
+    "data:image/svg+xml;base64," +
+    btoa(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 96 96"><rect width="96" height="96" rx="22" fill="#2563eb"/><text x="48" y="62" font-family="Arial,sans-serif" font-size="40" font-weight="700" fill="#fff" text-anchor="middle">A+</text></svg>'
+    ),
+  rdns: "social.arena.plus",
+};
+
+class ProviderRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+  }
+}
+
+class ArenaPlusProvider {
+  readonly isArenaPlus = true;
+  chainId = CHAIN_ID_HEX;
+  selectedAddress: string | null = null;
+
+  private nextId = 1;
+  private readonly pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+  private readonly listeners = new Map<string, Set<Listener>>();
+
+  constructor() {
+    window.addEventListener("message", (event) => {
+      if (event.source !== window) return;
+      const message = event.data as ProviderBridgeMessage;
+      if (message?.channel !== PROVIDER_BRIDGE_CHANNEL) return;
+      if ("event" in message) {
+        this.handleEvent(message.event, message.data);
+        return;
+      }
+      const waiter = this.pending.get(message.id);
+      if (!waiter) return;
+      this.pending.delete(message.id);
+      if (message.error) {
+        waiter.reject(
+          new ProviderRpcError(
+            message.error.code,
+            message.error.message,
+            message.error.data
+          )
+        );
+      } else {
+        waiter.resolve(message.result);
+      }
+    });
+  }
+
+  request = async ({ method, params }: RequestArguments): Promise<unknown> => {
+    if (!method || typeof method !== "string") {
+      throw new ProviderRpcError(-32602, "Expected a method name.");
+    }
+    const id = this.nextId++;
+    const request: ProviderPageRequest = {
+      channel: PROVIDER_PAGE_CHANNEL,
+      id,
+      method,
+      params: Array.isArray(params) ? params : params ? [params] : undefined,
+    };
+    const result = await new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      window.postMessage(request, window.location.origin);
+    });
+    if (method === "eth_accounts" || method === "eth_requestAccounts") {
+      this.setAccounts(result as string[]);
+    }
+    return result;
+  };
+
+  /** Legacy connect call some older dapps still use. */
+  enable = () => this.request({ method: "eth_requestAccounts" });
+
+  isConnected = () => true;
+
+  on = (event: string, listener: Listener) => {
+    const set = this.listeners.get(event) ?? new Set<Listener>();
+    set.add(listener);
+    this.listeners.set(event, set);
+    return this;
+  };
+
+  removeListener = (event: string, listener: Listener) => {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  };
+
+  off = this.removeListener;
+
+  private emit(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (err) {
+        console.error(`[Arena Plus] ${event} listener failed`, err);
+      }
+    });
+  }
+
+  private setAccounts(accounts: string[]) {
+    const next = Array.isArray(accounts) ? accounts : [];
+    const current = this.selectedAddress ? [this.selectedAddress] : [];
+    if (next.join() === current.join()) return;
+    this.selectedAddress = next[0] ?? null;
+    this.emit("accountsChanged", next);
+  }
+
+  private handleEvent(event: string, data: unknown) {
+    if (event === "accountsChanged") {
+      this.setAccounts(data as string[]);
+      return;
+    }
+    this.emit(event, data);
+  }
+}
+
+const provider = new ArenaPlusProvider();
+
+// Leave another wallet's provider in place; dapps can still pick us via EIP-6963.
+if (!(window as any).ethereum) {
+  Object.defineProperty(window, "ethereum", {
+    value: provider,
+    configurable: true,
+  });
+  window.dispatchEvent(new Event("ethereum#initialized"));
+}
+
+const announce = () =>
+  window.dispatchEvent(
+    new CustomEvent("eip6963:announceProvider", {
+      detail: Object.freeze({ info: PROVIDER_INFO, provider }),
+    })
+  );
+
+window.addEventListener("eip6963:requestProvider", announce);
+announce();
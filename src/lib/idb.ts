@@ -0,0 +1,38 @@
+// Minimal promise wrappers around IndexedDB, usable from the service worker
+// as well as extension pages.
+
+export type UpgradeFn = (
+  db: IDBDatabase,
+  oldVersion: number,
+  transaction: IDBTransaction
+) => void;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: UpgradeFn
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error(`IndexedDB "${name}" upgrade blocked by an open connection`));
+  });
@@ -0,0 +1,39 @@
+// Records that the user proved they wrote the recovery phrase down, by
+// passing the word quiz in the welcome flow or the wallet settings. Keyed to
+// the wallet's first address so a re-created wallet starts unverified.
+
+export const RECOVERY_BACKUP_STORAGE_KEY = "recoveryBackup";
+
+export interface RecoveryBackupRecord {
+  address: string;
+  verifiedAt: number;
+}
+
+export async function readRecoveryBackup(
+  address: string
+): Promise<RecoveryBackupRecord | null> {
+  const data = await chrome.storage.local.get(RECOVERY_BACKUP_STORAGE_KEY);
+  const record = data[RECOVERY_BACKUP_STORAGE_KEY] as
+    | RecoveryBackupRecord
+    | undefined;
+  return record && record.address.toLowerCase() === address.toLowerCase()
+    ? record
+    : null;
+}
+
+export async function markRecoveryBackupVerified(
+  address: string
+): Promise<RecoveryBackupRecord> {
+  const record = { address, verifiedAt: Date.now() };
+  await chrome.storage.local.set({ [RECOVERY_BACKUP_STORAGE_KEY]: record });
+  return record;
+}
+
+/** `count` distinct word positions (0-based), ascending. */
+export function pickQuizIndices(wordCount: number, count = 3): number[] {
+  const picks = new Set<number>();
+  while (picks.size < Math.min(count, wordCount)) {
+    picks.add(crypto.getRandomValues(new Uint32Array(1))[0] % wordCount);
+  }
+  return Array.from(picks).sort((a, b) => a - b);
+}
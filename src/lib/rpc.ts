@@ -0,0 +1,68 @@
+// Typed client for the background message router. Works from extension
+// pages and content scripts alike.
+
+import type {
+  RpcContract,
+  RpcErrorCode,
+  RpcRequest,
+  RpcResult,
+  RpcSuccess,
+  RpcType,
+} from "../types/rpc";
+
+type RpcArgs<K extends RpcType> =
+  Record<never, never> extends RpcRequest<K>
+    ? [request?: RpcRequest<K>]
+    : [request: RpcRequest<K>];
+
+export class RpcError extends Error {
+  constructor(message: string, readonly code: RpcErrorCode) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+/**
+ * Sends a request and resolves with the background's envelope. Never
+ * rejects: a missing background shows up as a DISCONNECTED failure.
+ */
+export function sendRpc<K extends RpcType>(
+  type: K,
+  ...[request]: RpcArgs<K>
+): Promise<RpcResult<K>> {
+  const disconnected = (error: string): RpcResult<K> => ({
+    success: false,
+    error,
+    code: "DISCONNECTED",
+  });
+
+  return new Promise((resolve) => {
+    try {
+      chrome.runtime.sendMessage({ ...request, type }, (response) => {
+        const lastError = chrome.runtime.lastError;
+        if (lastError) {
+          resolve(disconnected(lastError.message || "Extension unavailable."));
+        } else if (!response) {
+          resolve(disconnected("No response from background"));
+        } else {
+          resolve(response as RpcResult<K>);
+        }
+      });
+    } catch (err: any) {
+      // Thrown when the extension was reloaded under a content script.
+      resolve(disconnected(err?.message || "Failed to send message"));
+    }
+  });
+}
+
+/** Like sendRpc, but resolves with the data and throws an RpcError on failure. */
+export async function callRpc<K extends RpcType>(
+  type: K,
+  ...args: RpcArgs<K>
+): Promise<RpcSuccess<RpcContract[K]["response"]>> {
+  const response = await sendRpc(type, ...args);
+  if (!response.success) {
+    throw new RpcError(response.error, response.code);
+  }
+  return response;
+}
@@ -0,0 +1,229 @@
+// Shared chain access for the background, extension pages and content
+// scripts. Reads go through an ethers FallbackProvider over the user's RPC
+// endpoints, ordered by the background's latest health check, so one
+// rate-limited node no longer takes the whole extension down.
+
+import { ethers } from "ethers";
+import { AVALANCHE_CHAIN_ID, DEFAULT_RPC_ENDPOINTS } from "../constants";
+import type { RpcEndpointHealth } from "../types/rpcHealth";
+
+export const RPC_ENDPOINTS_STORAGE_KEY = "rpcEndpoints";
+export const RPC_HEALTH_STORAGE_KEY = "rpcHealth";
+
+// Start the next endpoint if the current one has not answered by then.
+const STALL_TIMEOUT_MS = 1500;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+const RAW_RPC_TIMEOUT_MS = 10_000;
+// Endpoints further behind the best block than this count as unhealthy.
+export const MAX_BLOCK_LAG = 5;
+// A healthy endpoint only moves ahead of another one when it is faster by
+// more than this; smaller gaps are noise between health checks, and every
+// reorder rebuilds the providers.
+const REORDER_LATENCY_MARGIN_MS = 250;
+
+const network = ethers.Network.from(AVALANCHE_CHAIN_ID);
+
+let endpoints: string[] = DEFAULT_RPC_ENDPOINTS;
+let health: RpcEndpointHealth[] = [];
+let ordered: string[] = endpoints;
+let failoverProvider: ethers.FallbackProvider | null = null;
+let quorumProvider: ethers.FallbackProvider | null = null;
+const listeners = new Set<() => void>();
+
+/** Trims, drops non-http(s) URLs and duplicates; never returns an empty list. */
+export function normalizeRpcEndpoints(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return DEFAULT_RPC_ENDPOINTS;
+  const urls = raw
+    .map((item) => (typeof item === "string" ? item.trim() : ""))
+    .filter((url) => /^https?:\/\/\S+$/i.test(url))
+    .filter((url, index, all) => all.indexOf(url) === index);
+  return urls.length ? urls : DEFAULT_RPC_ENDPOINTS;
+}
+
+/**
+ * Healthy endpoints by latency, then unchecked ones, then failing ones.
+ * Starts from the current order and only swaps neighbours whose latency
+ * differs by more than the margin.
+ */
+const orderEndpoints = () => {
+  const rank = (url: string) => {
+    const entry = health.find((item) => item.url === url);
+    if (!entry) return 1;
+    return entry.healthy ? 0 : 2;
+  };
+  const latency = (url: string) =>
+    health.find((item) => item.url === url)?.latencyMs ?? Number.MAX_SAFE_INTEGER;
+  const next = [
+    ...ordered.filter((url) => endpoints.includes(url)),
+    ...endpoints.filter((url) => !ordered.includes(url)),
+  ].sort((a, b) => rank(a) - rank(b));
+  for (let swapped = true; swapped; ) {
+    swapped = false;
+    for (let i = 1; i < next.length; i++) {
+      const [a, b] = [next[i - 1], next[i]];
+      if (
+        rank(a) === rank(b) &&
+        latency(b) + REORDER_LATENCY_MARGIN_MS < latency(a)
+      ) {
+        [next[i - 1], next[i]] = [b, a];
+        swapped = true;
+      }
+    }
+  }
+  return next;
+};
+
+const buildProvider = (quorum: number) =>
+  new ethers.FallbackProvider(
+    ordered.map((url, index) => ({
+      provider: new ethers.JsonRpcProvider(url, network, {
+        staticNetwork: network,
+      }),
+      priority: index + 1,
+      weight: 1,
+      stallTimeout: STALL_TIMEOUT_MS,
+    })),
+    network,
+    { quorum: Math.min(quorum, ordered.length) }
+  );
+
+const invalidate = () => {
+  failoverProvider = null;
+  quorumProvider = null;
+  listeners.forEach((listener) => listener());
+};
+
+/** Answers from the first endpoint that responds; use it for most reads and for signing. */
+export function getSharedProvider(): ethers.Provider {
+  failoverProvider ??= buildProvider(1);
+  return failoverProvider;
+}
+
+/**
+ * Needs two endpoints to agree. For reads that decide something
+ * irreversible, like marking a tx as dropped.
+ */
+export function getQuorumProvider(): ethers.Provider {
+  quorumProvider ??= buildProvider(2);
+  return quorumProvider;
+}
+
+/** Called when the endpoint list or their order changes. */
+export function onSharedProviderChange(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const rpcCall = async (
+  url: string,
+  method: string,
+  signal: AbortSignal,
+  params: unknown[] = []
+) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(
+      response.status === 429 ? "Rate limited" : `HTTP ${response.status}`
+    );
+  }
+  const body = await response.json();
+  if (body?.error) {
+    throw Object.assign(new Error(body.error.message || "RPC error"), {
+      rpcError: body.error,
+    });
+  }
+  return body?.result;
+};
+
+/** Times an eth_blockNumber call and confirms the endpoint serves our chain. */
+export async function checkRpcEndpoint(url: string): Promise<RpcEndpointHealth> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+  try {
+    const chainId = Number(await rpcCall(url, "eth_chainId", controller.signal));
+    if (chainId !== AVALANCHE_CHAIN_ID) {
+      throw new Error(`Wrong chain (${chainId})`);
+    }
+    const started = Date.now();
+    const blockNumber = Number(
+      await rpcCall(url, "eth_blockNumber", controller.signal)
+    );
+    return {
+      url,
+      healthy: true,
+      latencyMs: Date.now() - started,
+      blockNumber,
+      checkedAt: Date.now(),
+    };
+  } catch (err: any) {
+    return {
+      url,
+      healthy: false,
+      error: err?.name === "AbortError" ? "Timed out" : err?.message || String(err),
+      checkedAt: Date.now(),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends a raw JSON-RPC request, trying endpoints in health order. Node errors
+ * (e.g. a reverted eth_call) are returned as-is, not retried elsewhere.
+ */
+export async function sendRawRpc(method: string, params: unknown[] = []) {
+  let lastError: unknown;
+  for (const url of ordered) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), RAW_RPC_TIMEOUT_MS);
+    try {
+      return await rpcCall(url, method, controller.signal, params);
+    } catch (err: any) {
+      if (err?.rpcError) throw err;
+      lastError = err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  throw lastError ?? new Error("No RPC endpoint available.");
+}
+
+const applyStored = (data: Record<string, unknown>) => {
+  const nextEndpoints =
+    RPC_ENDPOINTS_STORAGE_KEY in data
+      ? normalizeRpcEndpoints(data[RPC_ENDPOINTS_STORAGE_KEY])
+      : endpoints;
+  const nextHealth =
+    RPC_HEALTH_STORAGE_KEY in data && Array.isArray(data[RPC_HEALTH_STORAGE_KEY])
+      ? (data[RPC_HEALTH_STORAGE_KEY] as RpcEndpointHealth[])
+      : health;
+  endpoints = nextEndpoints;
+  health = nextHealth;
+  const next = orderEndpoints();
+  if (next.join() !== ordered.join()) {
+    ordered = next;
+    invalidate();
+  }
+};
+
+if (typeof chrome !== "undefined" && chrome.storage?.local) {
+  chrome.storage.local
+    .get([RPC_ENDPOINTS_STORAGE_KEY, RPC_HEALTH_STORAGE_KEY])
+    .then(applyStored)
+    .catch(() => undefined);
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== "local") return;
+    const data: Record<string, unknown> = {};
+    for (const key of [RPC_ENDPOINTS_STORAGE_KEY, RPC_HEALTH_STORAGE_KEY]) {
+      if (key in changes) data[key] = changes[key].newValue;
+    }
+    if (Object.keys(data).length) applyStored(data);
+  });
+}
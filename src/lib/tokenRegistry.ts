@@ -0,0 +1,52 @@
+// Cached read side of the background token registry, shared by extension
+// pages and content scripts. Pages drop the cache when the background
+// broadcasts TOKEN_REGISTRY_UPDATED; content scripts never get that
+// broadcast, so they ask with `refresh` when opening a picker.
+
+import type { RegistryToken } from "../types/tokens";
+import { callRpc } from "./rpc";
+
+let cached: Promise<RegistryToken[]> | null = null;
+const listeners = new Set<(tokens: RegistryToken[]) => void>();
+
+export function loadTokenRegistry(
+  options: { refresh?: boolean } = {}
+): Promise<RegistryToken[]> {
+  if (!cached || options.refresh) {
+    const request = callRpc("GET_TOKEN_REGISTRY").then(({ tokens }) => tokens);
+    cached = request;
+    request.catch(() => {
+      if (cached === request) cached = null;
+    });
+  }
+  return cached;
+}
+
+/** Calls back with the new list whenever the background reports a change. */
+export function subscribeTokenRegistry(
+  listener: (tokens: RegistryToken[]) => void
+) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const findTokenBySymbol = (tokens: RegistryToken[], symbol: string) => {
+  const wanted = symbol.toUpperCase();
+  return tokens.find((token) => token.symbol.toUpperCase() === wanted);
+};
+
+export const findTokenByAddress = (tokens: RegistryToken[], address: string) => {
+  const wanted = address.toLowerCase();
+  return tokens.find((token) => token.address.toLowerCase() === wanted);
+};
+
+if (typeof chrome !== "undefined" && chrome.runtime?.onMessage) {
+  chrome.runtime.onMessage.addListener((message) => {
+    if (message?.type !== "TOKEN_REGISTRY_UPDATED" || !listeners.size) return;
+    loadTokenRegistry({ refresh: true })
+      .then((tokens) => listeners.forEach((listener) => listener(tokens)))
+      .catch((err) => console.error("Failed to reload token registry", err));
+  });
+}
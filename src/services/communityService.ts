@@ -1,3 +1,5 @@
+import { sendRpc } from '../lib/rpc';
+
 /**
  * Service for interacting with the Arena Community API
  * Fetches community metadata including token images
@@ -25,18 +27,13 @@ export interface CommunitySearchResponse {
  */
 async function getAuthToken(): Promise<string | null> {
     try {
-        const response: any = await new Promise((resolve) => {
-            chrome.runtime.sendMessage({ type: 'GET_BEARER_TOKEN' }, resolve);
-        });
+        const response = await sendRpc('GET_BEARER_TOKEN');
 
-        if (response?.token) {
+        if (response.success) {
             return response.token;
         }
 
-        if (response?.error) {
-            console.warn('[CommunityService] Auth token error:', response.error);
-        }
-
+        console.warn('[CommunityService] Auth token error:', response.error);
         return null;
     } catch (error) {
         console.warn('[CommunityService] Failed to get auth token:', error);
@@ -3,6 +3,7 @@ import Post2EarnABI from "../../contract/Post2EarnABI.json";
 import LegacyPost2EarnABI from "../../contract/legacyPost2EarnABI.json";
 import Post2EarnCA from "../../contract/Post2EarnCA.json";
 import { ARENA_TOKEN_ADDRESS } from "../../utils/arenaToken";
+import { getSharedProvider } from "../../lib/rpcProvider";
 import type {
   EngageParams,
   CreatePromotionParams,
@@ -17,7 +18,6 @@ const {
   LEGACY_POST2_EARN_CONTRACT_ADDRESS,
 } = Post2EarnCA;
 
-const PUBLIC_RPC = import.meta.env.VITE_AVAX_RPC_URL || "https://api.avax.network/ext/bc/C/rpc";
 
 export class Post2EarnActions {
   private getters = new Post2EarnGetters();
@@ -979,7 +979,7 @@ export class Post2EarnActions {
       );
 
       // Use public provider for reads to avoid iframe/wallet delays
-      const publicProvider = new ethers.JsonRpcProvider(PUBLIC_RPC);
+      const publicProvider = getSharedProvider();
 
       let resolvedRewardToken = rewardTokenAddress;
       if (!resolvedRewardToken) {
@@ -1,7 +1,9 @@
 import { ethers } from "ethers";
 import Post2EarnABI from "../../contract/Post2EarnABI.json";
-import LegacyPost2EarnABI from "../../contract/legacyPost2EarnABI.json";
 import Post2EarnCA from "../../contract/Post2EarnCA.json";
+import { callRpc } from "../../lib/rpc";
+import { getSharedProvider } from "../../lib/rpcProvider";
+import type { OnchainPromotion } from "../../types/rpc";
 import type {
   Promotion,
   PromotionsFilterOptions,
@@ -12,12 +14,8 @@ import type {
   RewardTokenMetadata,
 } from "./types";
 
-const PUBLIC_RPC = import.meta.env.VITE_AVAX_RPC_URL || "https://api.avax.network/ext/bc/C/rpc";
 
-const {
-  POST2_EARN_CONTRACT_ADDRESS,
-  LEGACY_POST2_EARN_CONTRACT_ADDRESS,
-} = Post2EarnCA;
+const { POST2_EARN_CONTRACT_ADDRESS } = Post2EarnCA;
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 const ERC20_METADATA_ABI = [
   "function name() view returns (string)",
@@ -26,16 +24,11 @@ const ERC20_METADATA_ABI = [
   "function allowance(address owner, address spender) view returns (uint256)",
 ];
 
-const PROMOTER_FILTER_VALUES: Record<PromoterPromotionFilter, number> = {
-  all: 0,
-  cancelAvailable: 1,
-  expiredWithUnusedVault: 2,
-  vaultClaimed: 3,
-};
-
 export class Post2EarnGetters {
   private readonly HARDCODED_AUTH_TOKEN = import.meta.env.VITE_APP_AUTH_TOKEN;
-  private provider = new ethers.JsonRpcProvider(PUBLIC_RPC);
+  private get provider() {
+    return getSharedProvider();
+  }
 
   private normalizePromotion(id: number, data: any) {
     return {
@@ -326,15 +319,10 @@ export class Post2EarnGetters {
 
   async fetchAllPromotions(): Promise<Promotion[]> {
     try {
-      const contract = new ethers.Contract(POST2_EARN_CONTRACT_ADDRESS, Post2EarnABI.abi, this.provider);
-      const promotionCount = await contract.promotionCount();
-
-      const promotions = [];
-      for (let i = 0; i < Number(promotionCount); i++) {
-        const promotionData = await contract.getPromotionDetails(i);
-        promotions.push(this.normalizePromotion(i, promotionData));
-      }
-      return promotions;
+      const { data } = await callRpc("FETCH_PROMOTIONS");
+      return data
+        .filter((item): item is OnchainPromotion => !("error" in item))
+        .map((item) => this.normalizePromotion(item.id, item));
     } catch (error: any) {
       throw new Error(error?.message || "Failed to fetch promotions");
     }
@@ -344,37 +332,14 @@ export class Post2EarnGetters {
     options: PromotionsFilterOptions
   ): Promise<Promotion[]> {
     try {
-      const contract = new ethers.Contract(POST2_EARN_CONTRACT_ADDRESS, Post2EarnABI.abi, this.provider);
-      let promotionIds: bigint[] = [];
-
-      // Handle "engagers" sort key by ignoring it for now or mapping to something else if unsupported on contract
-      // Assuming similar logic to fetchAllPromotions but with specific contract methods if they exist
-
-      switch (options.sortKey) {
-        case "latest":
-          // @ts-ignore
-          promotionIds = await contract.getActivePromotionsByLatest(options.offset, options.limit);
-          break;
-        case "oldest":
-          // @ts-ignore
-          promotionIds = await contract.getActivePromotionsByOldest(options.offset, options.limit);
-          break;
-        case "vault":
-          // Mapping vault sort to latest for simplicity if specific method missing, or use getActivePromotionsByVaultAmount if available
-          // @ts-ignore
-          promotionIds = await contract.getActivePromotionsByLatest(options.offset, options.limit);
-          break;
-        default:
-          // @ts-ignore
-          promotionIds = await contract.getActivePromotionsByLatest(options.offset, options.limit);
-      }
-
-      const promotions = [];
-      for (const id of promotionIds) {
-        const promotionData = await contract.getPromotionDetails(id);
-        promotions.push(this.normalizePromotion(Number(id), promotionData));
-      }
-      return promotions;
+      // The background serves details from its promotion index, so only
+      // promotions that changed since its last sync cost contract calls.
+      const { data } = await callRpc("FETCH_PROMOTIONS_FILTERED", {
+        payload: options,
+      });
+      return data
+        .filter((item): item is OnchainPromotion => !("error" in item))
+        .map((item) => this.normalizePromotion(item.id, item));
     } catch (error: any) {
       throw new Error(error?.message || "Failed to fetch filtered promotions");
     }
@@ -385,17 +350,11 @@ export class Post2EarnGetters {
     limit: number = 10
   ): Promise<Promotion[]> {
     try {
-      const contract = new ethers.Contract(POST2_EARN_CONTRACT_ADDRESS, Post2EarnABI.abi, this.provider);
-      // @ts-ignore
-      const promotionIds = await contract.getActivePromotionsByLatest(offset, limit);
-
-      const promotions = [];
-      for (const id of promotionIds) {
-        const promotionData = await contract.getPromotionDetails(id);
-        promotions.push(this.normalizePromotion(Number(id), promotionData));
-      }
-
-      return promotions;
+      return await this.fetchPromotionsFiltered({
+        sortKey: "latest",
+        offset,
+        limit,
+      });
     } catch (error: any) {
       throw new Error(error?.message || "Failed to fetch active promotions");
     }
@@ -417,49 +376,17 @@ export class Post2EarnGetters {
         throw new Error("User address is required");
       }
 
-      const contract = new ethers.Contract(POST2_EARN_CONTRACT_ADDRESS, Post2EarnABI.abi, this.provider);
-      // @ts-ignore
-      const promotionIds: bigint[] = await contract.getUnclaimedRewards(userAddress);
-
-      let legacyPromotionIds: bigint[] = [];
-      try {
-        const legacyContract = new ethers.Contract(LEGACY_POST2_EARN_CONTRACT_ADDRESS, LegacyPost2EarnABI.abi, this.provider);
-        // @ts-ignore
-        legacyPromotionIds = await legacyContract.getUnclaimedRewards(userAddress);
-      } catch (legacyError) {
-        console.warn(
-          "[Post2Earn] Failed to fetch legacy unclaimed rewards:",
-          legacyError
-        );
-      }
-
-      const rewards: UnclaimedReward[] = [];
-
-      for (const id of promotionIds) {
-        const promotion = await contract.getPromotionDetails(id);
-        rewards.push({
-          promotionId: Number(id),
-          promotion: this.normalizePromotion(Number(id), promotion),
-          rewardAmount: promotion.rewardPerSlot?.toString?.() ?? "0",
-          source: "v2",
-          contractAddress: POST2_EARN_CONTRACT_ADDRESS,
-        });
-      }
-
-      for (const id of legacyPromotionIds) {
-        const legacyContract = new ethers.Contract(LEGACY_POST2_EARN_CONTRACT_ADDRESS, LegacyPost2EarnABI.abi, this.provider);
-        const promotion = await legacyContract.getPromotionDetails(id);
-
-        rewards.push({
-          promotionId: Number(id),
-          promotion: this.normalizePromotion(Number(id), promotion),
-          rewardAmount: promotion.rewardPerSlot?.toString?.() ?? "0",
-          source: "legacy",
-          contractAddress: LEGACY_POST2_EARN_CONTRACT_ADDRESS,
-        });
-      }
-
-      return rewards;
+      // Both deployments' details come from the background's promotion index.
+      const { data } = await callRpc("FETCH_UNCLAIMED_REWARDS", {
+        payload: { address: userAddress },
+      });
+      return data.map(({ source, contractAddress, promotion, reward }) => ({
+        promotionId: promotion.id,
+        promotion: this.normalizePromotion(promotion.id, promotion),
+        rewardAmount: reward ?? promotion.rewardPerSlot,
+        source,
+        contractAddress,
+      }));
     } catch (error: any) {
       throw new Error(error?.message || "Failed to fetch unclaimed rewards");
     }
@@ -479,28 +406,18 @@ export class Post2EarnGetters {
         throw new Error("User address is required");
       }
 
-      const offset = options?.offset ?? 0;
-      const limit = options?.limit ?? 50;
-      const newestFirst = options?.newestFirst ?? true;
-      const filterKey = options?.filter ?? "all";
-      const filterValue = PROMOTER_FILTER_VALUES[filterKey] ?? 0;
-
-      const contract = new ethers.Contract(POST2_EARN_CONTRACT_ADDRESS, Post2EarnABI.abi, this.provider);
-      // @ts-ignore
-      const promotionIds = await contract.getPromoterCreatedPromotions(
-        userAddress,
-        BigInt(offset),
-        BigInt(limit),
-        newestFirst,
-        filterValue
-      );
-
-      const promotions = [];
-      for (const id of promotionIds) {
-        const promotionData = await contract.getPromotionDetails(id);
-        promotions.push(this.normalizePromotion(Number(id), promotionData));
-      }
-      return promotions;
+      const { data } = await callRpc("FETCH_MY_PROMOTIONS", {
+        payload: {
+          address: userAddress,
+          options: {
+            offset: options?.offset ?? 0,
+            limit: options?.limit ?? 50,
+            newestFirst: options?.newestFirst ?? true,
+            filter: options?.filter ?? "all",
+          },
+        },
+      });
+      return data.map((item) => this.normalizePromotion(item.id, item));
     } catch (error: any) {
       throw new Error(error?.message || "Failed to fetch my promotions");
     }
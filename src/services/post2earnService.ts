@@ -1,10 +1,17 @@
 import {
-  CreatePromotionParams,
   CreatePromotionResult,
   EngageParams,
   PromotionsFilterOptions,
   PromoterPromotionFilter,
+  RewardTokenMetadata,
+  SubscribedRewardToken,
 } from "../services/post2earn/types";
+import { callRpc, sendRpc } from "../lib/rpc";
+import type {
+  OnchainPromotion,
+  PromotionLookupError,
+  RpcRequest,
+} from "../types/rpc";
 
 export type {
   EngageParams,
@@ -25,41 +32,15 @@ export type {
 // Re-export the service from the index file
 export { default } from "./post2earn";
 
-// Keep existing functions that wrap chrome.runtime.sendMessage for backward compatibility
+// Keep existing functions that wrap the background RPC for backward compatibility
 // or if they are used directly by components that haven't been migrated to the new service class yet.
 
 export async function createPromotion(
-  params: CreatePromotionParams
+  params: RpcRequest<"CREATE_PROMOTION">["payload"]
 ): Promise<CreatePromotionResult> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        { type: "CREATE_PROMOTION", payload: params },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-            return;
-          }
-
-          if (!response) {
-            reject(new Error("No response from background"));
-            return;
-          }
-
-          if (response?.success) {
-            resolve({
-              transactionHash: response.txHash,
-              promotionId: response.promotionId,
-            });
-          } else {
-            reject(new Error(response?.error || "Failed to create promotion"));
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
-  });
+  const { txHash } = await callRpc("CREATE_PROMOTION", { payload: params });
+  // The id is only known once the transaction is mined.
+  return { transactionHash: txHash, promotionId: null };
 }
 
 export async function uploadToGrove(metadata: any): Promise<{ uri: string }> {
@@ -71,103 +52,28 @@ export async function uploadToGrove(metadata: any): Promise<{ uri: string }> {
     return { uri: `data:application/json;base64,${base64}` };
   };
 
-  try {
-    const response: any = await new Promise((resolve) => {
-      try {
-        chrome.runtime.sendMessage(
-          { type: "UPLOAD_GROVE_JSON", payload: metadata },
-          (resp) => {
-            resolve({ resp, lastError: chrome.runtime?.lastError });
-          }
-        );
-      } catch (err) {
-        resolve({ err });
-      }
-    });
-
-    if (
-      !response?.lastError &&
-      response?.resp?.success &&
-      response?.resp?.uri
-    ) {
-      return { uri: response.resp.uri };
-    }
-
-    return toDataUri(metadata);
-  } catch {
-    return toDataUri(metadata);
+  const response = await sendRpc("UPLOAD_GROVE_JSON", { payload: metadata });
+  if (response.success && response.uri) {
+    return { uri: response.uri };
   }
+  return toDataUri(metadata);
 }
 
 export async function fetchTextViaBackground(url: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage({ type: "FETCH_TEXT", url }, (response) => {
-        if (chrome.runtime?.lastError) {
-          return reject(new Error(chrome.runtime.lastError.message));
-        }
-        if (response?.success) {
-          resolve(response.text || "");
-        } else {
-          reject(new Error(response?.error || "Failed to fetch text"));
-        }
-      });
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
-  });
+  const { text } = await callRpc("FETCH_TEXT", { url });
+  return text || "";
 }
 
 export async function engageInPromotion(params: EngageParams): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        { type: "ENGAGE_IN_PROMOTION", payload: params },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            return reject(new Error(chrome.runtime.lastError.message));
-          }
-          if (!response) {
-            return reject(new Error("No response from background"));
-          }
-          if (response.success) {
-            resolve(response.txHash);
-          } else {
-            reject(
-              new Error(response?.error || "Failed to engage in promotion")
-            );
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
-  });
+  const { txHash } = await callRpc("ENGAGE_IN_PROMOTION", { payload: params });
+  return txHash;
 }
 
 export async function cancelPromotionTx(promotionId: number): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        { type: "CANCEL_PROMOTION", payload: { promotionId } },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            return reject(new Error(chrome.runtime.lastError.message));
-          }
-          if (!response) {
-            return reject(new Error("No response from background"));
-          }
-          if (response.success) {
-            resolve(response.txHash);
-          } else {
-            reject(new Error(response?.error || "Failed to cancel promotion"));
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
+  const { txHash } = await callRpc("CANCEL_PROMOTION", {
+    payload: { promotionId },
   });
+  return txHash;
 }
 
 export async function subscribeToToken(
@@ -175,121 +81,31 @@ export async function subscribeToToken(
   arenaUserId: string,
   months: number
 ): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        {
-          type: "SUBSCRIBE_TO_TOKEN",
-          payload: { tokenAddress, arenaUserId, months },
-        },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            return reject(new Error(chrome.runtime.lastError.message));
-          }
-          if (!response) {
-            return reject(new Error("No response from background"));
-          }
-          if (response.success) {
-            resolve(response.txHash);
-          } else {
-            reject(new Error(response?.error || "Failed to subscribe to token"));
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
-  });
-}
-
-export async function repostThread(threadId: string): Promise<any> {
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage(
-      { type: "REPOST_THREAD", payload: { threadId } },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          return reject(new Error(chrome.runtime.lastError.message));
-        }
-        if (response?.success) {
-          resolve(response.data);
-        } else {
-          reject(new Error(response?.error || "Failed to repost thread"));
-        }
-      }
-    );
+  const { txHash } = await callRpc("SUBSCRIBE_TO_TOKEN", {
+    payload: { tokenAddress, arenaUserId, months },
   });
+  return txHash;
 }
 
 export async function getBearerToken(): Promise<string> {
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage({ type: "GET_BEARER_TOKEN" }, (response) => {
-      if (chrome.runtime.lastError) {
-        return reject(new Error(chrome.runtime.lastError.message));
-      }
-      if (response?.token) {
-        resolve(response.token);
-      } else if (response?.error) {
-        reject(new Error(response.error));
-      } else {
-        reject(new Error("Failed to get bearer token"));
-      }
-    });
-  });
+  const { token } = await callRpc("GET_BEARER_TOKEN");
+  return token;
 }
 
-export async function fetchAllPromotions(): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage({ type: "FETCH_PROMOTIONS" }, (response) => {
-        if (chrome.runtime?.lastError) {
-          reject(new Error(chrome.runtime.lastError.message));
-          return;
-        }
-
-        if (!response) {
-          reject(new Error("No response from background"));
-          return;
-        }
-
-        if (response.success) {
-          resolve(response.data || []);
-        } else {
-          reject(new Error(response?.error || "Failed to fetch promotions"));
-        }
-      });
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
-  });
+export async function fetchAllPromotions(): Promise<
+  (OnchainPromotion | PromotionLookupError)[]
+> {
+  const { data } = await callRpc("FETCH_PROMOTIONS");
+  return data;
 }
 
 export async function fetchPromotionsFiltered(
   options: PromotionsFilterOptions
-): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        { type: "FETCH_PROMOTIONS_FILTERED", payload: options },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-            return;
-          }
-          if (!response) {
-            reject(new Error("No response from background"));
-            return;
-          }
-          if (response.success) {
-            resolve(response.data || []);
-          } else {
-            reject(new Error(response?.error || "Failed to fetch promotions"));
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
+): Promise<(OnchainPromotion | PromotionLookupError)[]> {
+  const { data } = await callRpc("FETCH_PROMOTIONS_FILTERED", {
+    payload: options,
   });
+  return data;
 }
 
 export type MyPromotionsOptions = {
@@ -302,106 +118,33 @@ export type MyPromotionsOptions = {
 export async function fetchMyPromotions(
   address: string,
   options?: MyPromotionsOptions
-): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        {
-          type: "FETCH_MY_PROMOTIONS",
-          payload: {
-            address,
-            options: {
-              offset: options?.offset ?? 0,
-              limit: options?.limit ?? 10,
-              newestFirst: options?.newestFirst ?? true,
-              filter: options?.filter ?? "all",
-            },
-          },
-        },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-            return;
-          }
-          if (!response) {
-            reject(new Error("No response from background"));
-            return;
-          }
-          if (response.success) {
-            resolve(response.data || []);
-          } else {
-            reject(
-              new Error(response?.error || "Failed to fetch my promotions")
-            );
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
+): Promise<OnchainPromotion[]> {
+  const { data } = await callRpc("FETCH_MY_PROMOTIONS", {
+    payload: {
+      address,
+      options: {
+        offset: options?.offset ?? 0,
+        limit: options?.limit ?? 10,
+        newestFirst: options?.newestFirst ?? true,
+        filter: options?.filter ?? "all",
+      },
+    },
   });
+  return data;
 }
 
 export async function getRewardTokenMetadata(
   tokenAddress: string
-): Promise<any> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        {
-          type: "GET_REWARD_TOKEN_METADATA",
-          payload: { tokenAddress },
-        },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-            return;
-          }
-          if (!response) {
-            reject(new Error("No response from background"));
-            return;
-          }
-          if (response.success) {
-            resolve(response.data);
-          } else {
-            reject(
-              new Error(response?.error || "Failed to fetch token metadata")
-            );
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
+): Promise<RewardTokenMetadata | null> {
+  const { data } = await callRpc("GET_REWARD_TOKEN_METADATA", {
+    payload: { tokenAddress },
   });
+  return data;
 }
 
-export async function getActiveSubscribedTokens(): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    try {
-      chrome.runtime.sendMessage(
-        { type: "GET_ACTIVE_SUBSCRIBED_TOKENS" },
-        (response) => {
-          if (chrome.runtime?.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-            return;
-          }
-          if (!response) {
-            reject(new Error("No response from background"));
-            return;
-          }
-          if (response.success) {
-            resolve(response.data || []);
-          } else {
-            reject(
-              new Error(response?.error || "Failed to fetch subscribed tokens")
-            );
-          }
-        }
-      );
-    } catch (e: any) {
-      reject(new Error(e?.message || "Failed to send message"));
-    }
-  });
+export async function getActiveSubscribedTokens(): Promise<
+  SubscribedRewardToken[]
+> {
+  const { data } = await callRpc("GET_ACTIVE_SUBSCRIBED_TOKENS");
+  return data;
 }
-
@@ -1,13 +1,13 @@
 import { ethers } from 'ethers';
-import CryptoJS from 'crypto-js';
-
-
-
-// Interface for wallet data
-export interface WalletData {
-  address: string;
-  encryptedPrivateKey: string;
-}
+import type { StoredWalletData } from '../types';
+import {
+  decryptLegacyWalletData,
+  decryptWalletSecrets,
+  encryptWalletSecrets,
+  isLegacyWalletData,
+  importV3Keystore,
+  isVersionedKeystore,
+} from '../utils/keystore';
 
 // Create a new wallet
 export const createWallet = async (): Promise<ethers.HDNodeWallet> => {
@@ -43,27 +43,28 @@ export const importWalletFromMnemonic = async (phrase: string): Promise<ethers.H
   }
 };
 
-// Encrypt wallet with password
-export const encryptWallet = (wallet: ethers.HDNodeWallet | ethers.Wallet, password: string): WalletData => {
-  const privateKey = wallet.privateKey;
-  const encryptedPrivateKey = CryptoJS.AES.encrypt(privateKey, password).toString();
-  
-  return {
-    address: wallet.address,
-    encryptedPrivateKey
-  };
+// Import wallet from a V3 keystore file. The phrase is kept only when the
+// file holds the HD wallet's first account, so derived accounts still match.
+export const importWalletFromKeystore = async (json: string, passphrase: string): Promise<ethers.HDNodeWallet | ethers.Wallet> => {
+  const { address, privateKey, mnemonic } = await importV3Keystore(json, passphrase);
+  if (mnemonic) {
+    const hdWallet = ethers.Wallet.fromPhrase(mnemonic);
+    if (hdWallet.address === address) return hdWallet;
+  }
+  return new ethers.Wallet(privateKey);
+};
+
+// Encrypt wallet with password into a versioned keystore record.
+// HD wallets keep their phrase so further accounts can be derived later.
+export const encryptWallet = async (wallet: ethers.HDNodeWallet | ethers.Wallet, password: string): Promise<StoredWalletData> => {
+  const mnemonic = wallet instanceof ethers.HDNodeWallet ? wallet.mnemonic?.phrase : undefined;
+  return encryptWalletSecrets(wallet.address, { privateKey: wallet.privateKey, mnemonic }, password);
 };
 
 // Decrypt wallet with password
-export const decryptWallet = (walletData: WalletData, password: string): ethers.HDNodeWallet | ethers.Wallet => {
+export const decryptWallet = async (walletData: StoredWalletData, password: string): Promise<ethers.Wallet> => {
   try {
-    const decryptedBytes = CryptoJS.AES.decrypt(walletData.encryptedPrivateKey, password);
-    const privateKey = decryptedBytes.toString(CryptoJS.enc.Utf8);
-    
-    if (!privateKey) {
-      throw new Error('Incorrect password');
-    }
-    
+    const { privateKey } = await decryptWalletSecrets(walletData, password);
     return new ethers.Wallet(privateKey);
   } catch (error) {
     console.error('Failed to decrypt wallet:', error);
@@ -72,40 +73,38 @@ export const decryptWallet = (walletData: WalletData, password: string): ethers.
 };
 
 // Save wallet to storage
-export const saveWallet = async (walletData: WalletData): Promise<void> => {
+export const saveWallet = async (walletData: StoredWalletData): Promise<void> => {
   await chrome.storage.local.set({ walletData: walletData });
 };
 
 // Get wallet from storage
-export const getWallet = async (): Promise<WalletData | null> => {
+export const getWallet = async (): Promise<StoredWalletData | null> => {
   const result = await chrome.storage.local.get(['walletData']);
-  return result.walletData || null;
+  return isVersionedKeystore(result.walletData) ? result.walletData : null;
 };
 
-// Save password hash to storage
-export const savePasswordHash = async (password: string): Promise<void> => {
-  // Create a hash of the password, not the password itself
-  const passwordHash = CryptoJS.SHA256(password).toString();
-  await chrome.storage.local.set({ password: passwordHash });
-};
-
-// Verify password against stored hash
+// Verify password by authenticating the stored keystore
 export const verifyPassword = async (password: string): Promise<boolean> => {
-  const result = await chrome.storage.local.get(['password']);
-  const storedHash = result.password;
-  
-  if (!storedHash) {
-    return false;
+  const result = await chrome.storage.local.get(['walletData']);
+  const walletData = result.walletData;
+
+  try {
+    if (isVersionedKeystore(walletData)) {
+      await decryptWalletSecrets(walletData, password);
+      return true;
+    }
+    if (isLegacyWalletData(walletData)) {
+      decryptLegacyWalletData(walletData, password);
+      return true;
+    }
+  } catch {
+    // fall through
   }
-  
-  const inputHash = CryptoJS.SHA256(password).toString();
-  return inputHash === storedHash;
+  return false;
 };
 
 // Check if wallet is set up
 export const isWalletSetup = async (): Promise<boolean> => {
-  const result = await chrome.storage.local.get(['walletData', 'password']);
-  return !!(result.walletData && result.password);
+  const result = await chrome.storage.local.get(['walletData']);
+  return !!result.walletData;
 };
-
-
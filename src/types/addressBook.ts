@@ -0,0 +1,39 @@
+/** The parts of an Arena `/user/handle` response the extension uses. */
+export interface ArenaProfile {
+  id: string;
+  handle: string;
+  address: string;
+  userName?: string;
+  profilePicture?: string;
+  twitterHandle?: string;
+  twitterFollowers?: number;
+  followerCount?: number;
+  followingsCount?: number;
+  threadCount?: number;
+  createdOn?: string;
+}
+
+/** A saved recipient; the address is the key. */
+export interface AddressBookEntry {
+  address: string;
+  /** Arena handle without the @, when the entry came from one. */
+  handle?: string;
+  label?: string;
+  note?: string;
+  favorite: boolean;
+  createdAt: number;
+  updatedAt: number;
+  lastUsedAt?: number;
+}
+
+/**
+ * Fields a page may set when saving an entry. With only a handle, the
+ * address is resolved first.
+ */
+export interface AddressBookEntryInput {
+  address?: string;
+  handle?: string;
+  label?: string;
+  note?: string;
+  favorite?: boolean;
+}
@@ -0,0 +1,25 @@
+/** An outstanding ERC-20 approval granted by the wallet. */
+export interface TokenAllowance {
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  spender: string;
+  /** Set for spenders the extension knows, e.g. the Post2Earn contracts. */
+  spenderLabel?: string;
+  /** Raw amount in token units. */
+  amount: string;
+  formatted: string;
+  /** Max-uint approvals, which never run down in practice. */
+  unlimited: boolean;
+}
+
+export interface AllowanceScanStatus {
+  /** Last block searched for Approval events; 0 before the first scan. */
+  scannedToBlock: number;
+  /** Approvals older than this block are only found for known spenders. */
+  scannedFromBlock: number;
+  /** Unix seconds of `scannedFromBlock`, if it could be read. */
+  scannedFromTime?: number;
+  /** Searched back to the wallet's first transaction. */
+  complete: boolean;
+}
@@ -0,0 +1,27 @@
+export interface AutoLockPolicy {
+  enabled: boolean;
+  timeoutMinutes: number;
+  lockOnSystemLock: boolean;
+  lockOnIdle: boolean;
+}
+
+export const DEFAULT_AUTO_LOCK_POLICY: AutoLockPolicy = {
+  enabled: true,
+  timeoutMinutes: 30,
+  lockOnSystemLock: true,
+  lockOnIdle: false,
+};
+
+export const AUTO_LOCK_TIMEOUT_OPTIONS = [5, 15, 30, 60, 120, 240];
+
+export type AutoLockReason =
+  | "manual"
+  | "inactivity"
+  | "system_locked"
+  | "idle";
+
+export interface AutoLockStatus {
+  policy: AutoLockPolicy;
+  /** Epoch milliseconds at which the wallet locks, or null when not armed. */
+  deadline: number | null;
+}
@@ -2,7 +2,10 @@ export interface FeatureFlags {
   enableGenerateReplies: boolean;
   enableCashMachine: boolean;
   cashMachineAmount: string;
+  /** Symbol, kept for display and for settings saved before the registry. */
   cashMachineToken: string;
+  /** Registry address of the tip token; wins over the symbol when set. */
+  cashMachineTokenAddress?: string;
   geminiApiKey: string;
   enableDigestButton: boolean;
   enableFocusMode: boolean;
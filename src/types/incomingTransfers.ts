@@ -0,0 +1,20 @@
+/** A token or AVAX transfer into one of the wallet's accounts. */
+export interface IncomingTransfer {
+  /** `${txHash}:${logIndex}` for tokens, `${txHash}:native` for AVAX. */
+  id: string;
+  recipient: string;
+  /** Unset for AVAX that arrived through a contract call, e.g. an Arena tip. */
+  from?: string;
+  /** Sender's Arena handle, without the @, when the wallet knows it. */
+  fromHandle?: string;
+  /** Sender's address book label when there is no handle. */
+  fromLabel?: string;
+  /** Unset for AVAX. */
+  tokenAddress?: string;
+  tokenSymbol: string;
+  /** Whole tokens, e.g. "5.0". */
+  amount: string;
+  txHash?: string;
+  blockNumber: number;
+  receivedAt: number;
+}
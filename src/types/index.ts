@@ -3,10 +3,18 @@ import { ethers } from 'ethers'
 export interface WalletInfo {
   address: string;
   privateKey: string;
-  mnemonic: string;
   provider?: ethers.Provider;
 }
 
+/**
+ * What the background shares with extension pages about the unlocked wallet.
+ * Key material never leaves the service worker.
+ */
+export interface PublicWalletInfo {
+  address: string;
+  label?: string;
+}
+
 export interface TokenInfo {
   balance: string;
   symbol: string;
@@ -19,8 +27,115 @@ export interface TokensInfo {
   avax: TokenInfo;
 }
 
+export interface KeystoreKdfParams {
+  name: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+  salt: string;
+}
+
+export interface KeystoreCipherParams {
+  name: "AES-GCM";
+  iv: string;
+}
+
+/**
+ * Versioned, password-encrypted wallet record persisted under `walletData`.
+ * The ciphertext holds a JSON-encoded {@link WalletSecrets} payload.
+ */
 export interface StoredWalletData {
+  version: 2;
+  address: string;
+  kdf: KeystoreKdfParams;
+  cipher: KeystoreCipherParams;
+  ciphertext: string;
+}
+
+/** Pre-versioned record: CryptoJS passphrase AES over the raw private key. */
+export interface LegacyStoredWalletData {
   encryptedPrivateKey: string;
   address: string;
-  hashedPassword: string;
-}
\ No newline at end of file
+  hashedPassword?: string;
+}
+
+export interface WalletSecrets {
+  /** Key of the first account (HD index 0 when a mnemonic is present). */
+  privateKey: string;
+  mnemonic?: string;
+  /** Number of HD accounts in use, m/44'/60'/0'/0/0 .. n-1. Defaults to 1. */
+  derivedCount?: number;
+  /** Private keys imported next to the HD accounts. */
+  importedKeys?: string[];
+}
+
+export type WalletAccountKind = "derived" | "imported";
+
+/** Public description of one account in the keystore. */
+export interface WalletAccount {
+  address: string;
+  label: string;
+  kind: WalletAccountKind;
+  /** HD index for derived accounts. */
+  index?: number;
+}
+
+export type AddAccountRequest =
+  | { kind: "derived" }
+  | { kind: "imported"; privateKey: string };
+
+/** Network fee preview for a wallet action; amounts are in AVAX. */
+export interface WalletActionFee {
+  status: "estimating" | "ready" | "unavailable";
+  /** At the current base fee plus priority fee. */
+  estimated?: string;
+  /** Gas limit times max fee per gas; what the user pays at worst. */
+  max?: string;
+  gasLimit?: string;
+  baseFeeGwei?: string;
+  priorityFeeGwei?: string;
+  /** AVAX balance of the signing account. */
+  balance?: string;
+  /** The balance cannot cover the fee plus any AVAX the action sends. */
+  insufficientFunds?: boolean;
+  /** A step could not be simulated yet, e.g. it depends on an earlier one. */
+  approximate?: boolean;
+  error?: string;
+}
+
+/** One leaf value of an EIP-712 message, flattened for review. */
+export interface TypedDataReviewField {
+  /** Dotted path into the message, e.g. `order.items[0].amount`. */
+  name: string;
+  type: string;
+  value: string;
+}
+
+/** EIP-712 data awaiting a signature, as the approval prompt shows it. */
+export interface WalletActionTypedData {
+  primaryType: string;
+  domain: {
+    name?: string;
+    version?: string;
+    chainId?: string;
+    verifyingContract?: string;
+  };
+  fields: TypedDataReviewField[];
+  /** The EIP-712 digest that gets signed. */
+  digest: string;
+}
+
+/** One pending request in the background's wallet approval queue. */
+export interface WalletActionSummary {
+  id: string;
+  title: string;
+  description?: string;
+  details?: Record<string, unknown>;
+  amount?: string;
+  tokenSymbol?: string;
+  /** Message or typed data to review before signing. */
+  content?: string;
+  typedData?: WalletActionTypedData;
+  status: "queued" | "awaiting_user" | "processing";
+  position: number;
+  fee?: WalletActionFee;
+}
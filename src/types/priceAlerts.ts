@@ -0,0 +1,31 @@
+export type PriceAlertCondition =
+  | { kind: "above"; priceUsd: number }
+  | { kind: "below"; priceUsd: number }
+  /** Fires when the price moved `percent` either way within the window. */
+  | { kind: "move"; percent: number; windowMinutes: number };
+
+export interface PriceAlert {
+  id: string;
+  /** Checksummed; AVAX is watched under the WAVAX address. */
+  tokenAddress: string;
+  tokenSymbol: string;
+  condition: PriceAlertCondition;
+  enabled: boolean;
+  createdAt: number;
+  lastTriggeredAt?: number;
+  /**
+   * Threshold alerts fire once on crossing and re-arm after the price is back
+   * on the other side.
+   */
+  active?: boolean;
+}
+
+/** Without `id` a new alert is created. */
+export interface PriceAlertInput {
+  id?: string;
+  tokenAddress: string;
+  condition: PriceAlertCondition;
+  enabled?: boolean;
+}
+
+export const PRICE_ALERT_WINDOW_OPTIONS = [60, 240, 1440];
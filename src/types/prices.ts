@@ -0,0 +1,16 @@
+/** USD price of a token from its most liquid Avalanche pair on DexScreener. */
+export interface TokenPrice {
+  /** Checksummed; AVAX is priced under the WAVAX address. */
+  address: string;
+  priceUsd: number;
+  /** Percent, e.g. -3.2. Null when the pair has no 24h history. */
+  change24h: number | null;
+  fetchedAt: number;
+}
+
+/** A price recorded by the wallet itself; the charts only draw these. */
+export interface PriceSnapshot {
+  address: string;
+  priceUsd: number;
+  timestamp: number;
+}
@@ -0,0 +1,50 @@
+/** A site the user connected to the wallet through the injected provider. */
+export interface DappConnection {
+  origin: string;
+  /** Accounts the site may see and request signatures from. */
+  accounts: string[];
+  connectedAt: number;
+}
+
+/** `window.postMessage` channels between the page provider and the content bridge. */
+export const PROVIDER_PAGE_CHANNEL = "arena-plus:provider-page";
+export const PROVIDER_BRIDGE_CHANNEL = "arena-plus:provider-bridge";
+
+/** EIP-1193 and EIP-1474 error codes the provider returns to pages. */
+export const PROVIDER_ERRORS = {
+  USER_REJECTED: 4001,
+  UNAUTHORIZED: 4100,
+  UNSUPPORTED_METHOD: 4200,
+  DISCONNECTED: 4900,
+  UNRECOGNIZED_CHAIN: 4902,
+  INVALID_PARAMS: -32602,
+  INTERNAL: -32603,
+} as const;
+
+export interface ProviderRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/** Page -> bridge. */
+export interface ProviderPageRequest {
+  channel: typeof PROVIDER_PAGE_CHANNEL;
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+/** Bridge -> page: a response to a request, or a provider event. */
+export type ProviderBridgeMessage =
+  | {
+    channel: typeof PROVIDER_BRIDGE_CHANNEL;
+    id: number;
+    result?: unknown;
+    error?: ProviderRpcError;
+  }
+  | {
+    channel: typeof PROVIDER_BRIDGE_CHANNEL;
+    event: "accountsChanged" | "chainChanged" | "connect" | "disconnect";
+    data: unknown;
+  };
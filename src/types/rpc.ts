@@ -0,0 +1,547 @@
+import type { User } from "@supabase/supabase-js";
+import type {
+  AddAccountRequest,
+  PublicWalletInfo,
+  WalletAccount,
+  WalletActionSummary,
+} from "./index";
+import type {
+  AddressBookEntry,
+  AddressBookEntryInput,
+  ArenaProfile,
+} from "./addressBook";
+import type { AllowanceScanStatus, TokenAllowance } from "./allowances";
+import type { AutoLockPolicy, AutoLockStatus } from "./autoLock";
+import type { DappConnection, ProviderRpcError } from "./provider";
+import type { IncomingTransfer } from "./incomingTransfers";
+import type { PriceAlert, PriceAlertInput } from "./priceAlerts";
+import type { PriceSnapshot, TokenPrice } from "./prices";
+import type { SpendingPolicy, SpendingPolicyStatus } from "./spendingPolicy";
+import type { RpcStatus } from "./rpcHealth";
+import type { SwapQuote, SwapQuoteRequest, SwapSettings } from "./swap";
+import type { RegistryToken } from "./tokens";
+import type { ScheduledTx, TxReplacementMode } from "./transactions";
+import type {
+  ContractSource,
+  PromoterPromotionFilter,
+  PromotionsSortKey,
+  RewardTokenMetadata,
+  SubscribedRewardToken,
+} from "../services/post2earn/types";
+
+/**
+ * Message contract between extension pages, content scripts and the
+ * background. Each entry lists the fields sent next to `type` and the data
+ * returned on success. The background router needs a handler for every
+ * entry, so changing one here breaks the build for every caller instead of
+ * at runtime.
+ */
+
+export type RpcErrorCode =
+  /** The message failed validation. */
+  | "BAD_REQUEST"
+  /** The sender may not call this message type. */
+  | "UNAUTHORIZED"
+  /** The handler ran and reported or threw an error. */
+  | "FAILED"
+  /** The background did not answer, e.g. the extension was reloaded. */
+  | "DISCONNECTED";
+
+export interface RpcFailure {
+  success: false;
+  error: string;
+  code: RpcErrorCode;
+}
+
+export type RpcSuccess<T> = { success: true } & T;
+
+export type RpcResponse<T> = RpcSuccess<T> | RpcFailure;
+
+export interface WalletAccountsState {
+  wallet: PublicWalletInfo | null;
+  accounts: WalletAccount[];
+}
+
+export interface TxHashResult {
+  txHash: string;
+}
+
+/** A promotion read from the Post2Earn contract, bigints as strings. */
+export interface OnchainPromotion {
+  id: number;
+  promoter: string;
+  promotionType: number;
+  slotsAvailable: number;
+  slotsTaken: number;
+  vaultAmount: string;
+  rewardPerSlot: string;
+  minFollowers: number;
+  expiresOn: number;
+  postId: string;
+  contentURI: string;
+  contentHash: string;
+  rewardToken: string;
+  active: boolean;
+  engagementsCount: number;
+  likesMandatory?: boolean;
+}
+
+/** Stands in for a promotion whose details could not be read. */
+export interface PromotionLookupError {
+  id: number;
+  error: string;
+}
+
+/** A promotion the user engaged in and has not claimed the reward for. */
+export interface UnclaimedPromotion {
+  source: ContractSource;
+  contractAddress: string;
+  promotion: OnchainPromotion;
+  /** Wei from the user's Engaged log; unset if the index has not seen it. */
+  reward?: string;
+}
+
+export interface TipShowerRecipient {
+  handle: string;
+  address: string;
+}
+
+interface TradesRequest {
+  payload: { tokenAddress: string; userAddress: string };
+}
+
+interface PromotionApprovalFields {
+  promotionType?: number | string;
+  slots?: number | string;
+  amount?: number | string;
+  minFollowers?: number | string;
+  expiresOn?: number | string;
+  postId?: string;
+  contentURI?: string;
+  rewardTokenAddress?: string;
+  arenaUserId?: string;
+}
+
+type NoFields = Record<never, never>;
+
+export interface RpcContract {
+  // Wallet
+  GET_APP_STATE: {
+    request: NoFields;
+    response: WalletAccountsState & {
+      isUnlocked: boolean;
+      twitterUser: User | null;
+    };
+  };
+  CHECK_WALLET_SETUP: { request: NoFields; response: { isSetup: boolean } };
+  CHECK_WALLET_STATUS: {
+    request: NoFields;
+    response: { isUnlocked: boolean; hasWallet: boolean };
+  };
+  UNLOCK_WALLET: {
+    request: { password: string };
+    response: WalletAccountsState;
+  };
+  LOCK_WALLET: { request: NoFields; response: NoFields };
+  PROMPT_UNLOCK_WALLET: { request: NoFields; response: NoFields };
+  REVEAL_PRIVATE_KEY: {
+    request: { password: string };
+    response: { privateKey: string };
+  };
+  EXPORT_KEYSTORE: {
+    /** Exports the active account unless `address` names another one. */
+    request: { password: string; passphrase: string; address?: string };
+    /** Web3 Secret Storage (V3) JSON. */
+    response: { keystore: string; address: string };
+  };
+  REVEAL_RECOVERY_PHRASE: {
+    request: { password: string };
+    /** `quizIndices` are the 0-based word positions VERIFY_RECOVERY_BACKUP asks for. */
+    response: { mnemonic: string; quizIndices: number[] };
+  };
+  GET_RECOVERY_BACKUP_STATUS: {
+    request: NoFields;
+    /** `verifiedAt` is unset until the user passed the word quiz. */
+    response: { hasRecoveryPhrase: boolean; verifiedAt?: number };
+  };
+  VERIFY_RECOVERY_BACKUP: {
+    /** One word per quiz position, in order. */
+    request: { answers: string[] };
+    response: { verifiedAt: number };
+  };
+  SWITCH_ACCOUNT: {
+    request: { payload: { address: string } };
+    response: WalletAccountsState;
+  };
+  ADD_ACCOUNT: {
+    request: { password: string; payload: AddAccountRequest };
+    response: WalletAccountsState;
+  };
+  RENAME_ACCOUNT: {
+    request: { payload: { address: string; label: string } };
+    response: WalletAccountsState;
+  };
+  SEND_TRANSFER: {
+    request: {
+      payload: {
+        toAddress: string;
+        amount: string;
+        /** Registry token to send; takes precedence over the symbol. */
+        tokenAddress?: string;
+        tokenSymbol?: string;
+        /** Arena handle the address was resolved from, for the history. */
+        recipientHandle?: string;
+      };
+    };
+    response: TxHashResult;
+  };
+  GET_PENDING_TRANSACTIONS: {
+    request: NoFields;
+    response: { transactions: ScheduledTx[] };
+  };
+  /** Journal of sent txs, newest first; defaults to the active account. */
+  GET_TX_HISTORY: {
+    request: { payload?: { address?: string; limit?: number } };
+    response: { transactions: ScheduledTx[] };
+  };
+  REPLACE_PENDING_TX: {
+    request: { payload: { id: string; mode: TxReplacementMode } };
+    response: TxHashResult;
+  };
+  GET_AUTO_LOCK_STATUS: {
+    request: NoFields;
+    response: { status: AutoLockStatus };
+  };
+  EXTEND_AUTO_LOCK: {
+    request: { payload?: { minutes?: number } };
+    response: { status: AutoLockStatus };
+  };
+  SET_AUTO_LOCK_POLICY: {
+    request: { payload: Partial<AutoLockPolicy> };
+    response: { status: AutoLockStatus };
+  };
+  GET_SPENDING_POLICY: {
+    request: NoFields;
+    response: { status: SpendingPolicyStatus };
+  };
+  SET_SPENDING_POLICY: {
+    request: { payload: Partial<SpendingPolicy> };
+    response: { status: SpendingPolicyStatus };
+  };
+  GET_WALLET_ACTION_QUEUE: {
+    request: NoFields;
+    response: { queue: WalletActionSummary[] };
+  };
+  RESPOND_WALLET_ACTION: {
+    request: { id: string; approved: boolean };
+    response: NoFields;
+  };
+
+  // Arena / X session
+  TWITTER_LOGIN: { request: NoFields; response: { data: unknown } };
+  TWITTER_LOGOUT: { request: NoFields; response: NoFields };
+  CHECK_LOGIN_STATUS: { request: NoFields; response: { isLoggedIn: boolean } };
+  GET_BEARER_TOKEN: { request: NoFields; response: { token: string } };
+  GET_ARENA_USER_ID: {
+    request: NoFields;
+    response: { userId: string | null };
+  };
+
+  // Network helpers for pages that cannot fetch cross-origin
+  FETCH_DEV_TRADES: { request: TradesRequest; response: { data: unknown } };
+  FETCH_PRESALE_TRADES: { request: TradesRequest; response: { data: unknown } };
+  FETCH_ARENA_PRICE: {
+    request: NoFields;
+    response: { price: number; data?: unknown };
+  };
+  FETCH_TEXT: { request: { url: string }; response: { text: string } };
+  UPLOAD_GROVE_JSON: {
+    request: { payload?: unknown };
+    response: {
+      uri: string;
+      gatewayUrl?: string;
+      storageKey?: string;
+      /** Set when Grove failed and `uri` is an inline data URI. */
+      warning?: string;
+    };
+  };
+
+  // RPC endpoints
+  GET_RPC_STATUS: { request: NoFields; response: { status: RpcStatus } };
+  CHECK_RPC_HEALTH: { request: NoFields; response: { status: RpcStatus } };
+  SET_RPC_ENDPOINTS: {
+    request: { payload: { endpoints: string[] } };
+    response: { status: RpcStatus };
+  };
+
+  // Arena handles and the address book
+  /** Cached lookup; `profile` is null when Arena has no such user. */
+  RESOLVE_HANDLE: {
+    request: { handle: string; refresh?: boolean };
+    response: { profile: ArenaProfile | null };
+  };
+  GET_ADDRESS_BOOK: {
+    request: NoFields;
+    response: { entries: AddressBookEntry[] };
+  };
+  SAVE_ADDRESS_BOOK_ENTRY: {
+    request: { entry: AddressBookEntryInput };
+    response: { entries: AddressBookEntry[] };
+  };
+  REMOVE_ADDRESS_BOOK_ENTRY: {
+    request: { address: string };
+    response: { entries: AddressBookEntry[] };
+  };
+
+  // Injected EIP-1193 provider
+  /**
+   * A page's provider request, relayed by the content bridge. Provider
+   * errors (user rejection, unknown method...) come back in `error`.
+   */
+  PROVIDER_REQUEST: {
+    request: { method: string; params?: unknown[] };
+    response: { result?: unknown; error?: ProviderRpcError };
+  };
+  GET_DAPP_CONNECTIONS: {
+    request: NoFields;
+    response: { connections: DappConnection[] };
+  };
+  REVOKE_DAPP_CONNECTION: {
+    request: { origin: string };
+    response: { connections: DappConnection[] };
+  };
+
+  // Tips
+  SEND_TIP: {
+    request: {
+      toAddress: string;
+      amount: number | string;
+      tokenAddress?: string;
+      tokenSymbol?: string;
+      recipientHandle?: string;
+      /** Sends without the approval popup, e.g. for the cash machine. */
+      skipWalletApproval?: boolean;
+      source?: string;
+    };
+    response: TxHashResult;
+  };
+  REQUEST_TIP_SHOWER_APPROVAL: {
+    request: {
+      payload: {
+        contextId: string;
+        count: number | string;
+        amountPerTip: number | string;
+        tokenSymbol?: string;
+        tokenAddress?: string;
+      };
+    };
+    response: NoFields;
+  };
+  CANCEL_TIP_SHOWER_APPROVAL: {
+    request: { contextId: string; reason?: string };
+    response: NoFields;
+  };
+  QUEUE_TIP_SHOWER: {
+    request: {
+      payload: {
+        recipients: TipShowerRecipient[];
+        amountPerTip?: number | string;
+        tokenSymbol?: string;
+        tokenAddress?: string;
+        contextId?: string;
+        /** Spend an approval granted by REQUEST_TIP_SHOWER_APPROVAL. */
+        useExistingApprovalContext?: boolean;
+        /**
+         * Without an approval context, signs without the popup only when the
+         * spending policy allows this source.
+         */
+        source?: string;
+      };
+    };
+    response: NoFields;
+  };
+  TIP_SHOWER_BATCH: {
+    request: {
+      payload: {
+        recipients: TipShowerRecipient[];
+        amountPerTip: number | string;
+        tokenSymbol?: string;
+        tokenAddress?: string;
+        contextId?: string;
+      };
+    };
+    response: NoFields;
+  };
+
+  // Post2Earn
+  REQUEST_CREATE_PROMOTION_APPROVAL: {
+    request: {
+      payload: PromotionApprovalFields & {
+        contextId: string;
+        rewardTokenSymbol?: string;
+      };
+    };
+    response: NoFields;
+  };
+  CANCEL_CREATE_PROMOTION_APPROVAL: {
+    request: { contextId: string; reason?: string };
+    response: NoFields;
+  };
+  CREATE_PROMOTION: {
+    request: {
+      payload: PromotionApprovalFields & {
+        /** Spend an approval granted by REQUEST_CREATE_PROMOTION_APPROVAL. */
+        contextId?: string;
+        content?: string;
+      };
+    };
+    response: TxHashResult;
+  };
+  CANCEL_PROMOTION: {
+    request: { payload: { promotionId: number } };
+    response: TxHashResult & { blockNumber?: number };
+  };
+  ENGAGE_IN_PROMOTION: {
+    request: {
+      payload: {
+        promotionId: number | string;
+        engagementPostId: string;
+        promotionPostId?: string;
+        engagementType?: string;
+        content?: string;
+        followerCount?: number;
+      };
+    };
+    response: TxHashResult;
+  };
+  CLAIM_REWARD: {
+    request: { payload: { promotionId: number; source?: ContractSource } };
+    response: TxHashResult;
+  };
+  FETCH_PROMOTIONS: {
+    request: NoFields;
+    response: { data: (OnchainPromotion | PromotionLookupError)[] };
+  };
+  FETCH_PROMOTIONS_FILTERED: {
+    request: {
+      payload: {
+        sortKey?: PromotionsSortKey;
+        newestFirst?: boolean;
+        offset?: number;
+        limit?: number;
+        minVaultPlus?: string;
+        maxVaultPlus?: string;
+        minEngagers?: number;
+        maxEngagers?: number;
+      };
+    };
+    response: { data: (OnchainPromotion | PromotionLookupError)[] };
+  };
+  FETCH_MY_PROMOTIONS: {
+    request: {
+      payload: {
+        address: string;
+        options?: {
+          offset?: number;
+          limit?: number;
+          newestFirst?: boolean;
+          filter?: PromoterPromotionFilter;
+        };
+      };
+    };
+    response: { data: OnchainPromotion[] };
+  };
+  FETCH_UNCLAIMED_REWARDS: {
+    request: { payload: { address: string } };
+    response: { data: UnclaimedPromotion[] };
+  };
+  GET_REWARD_TOKEN_METADATA: {
+    request: { payload: { tokenAddress: string } };
+    response: { data: RewardTokenMetadata | null };
+  };
+  GET_TOKEN_REGISTRY: {
+    request: NoFields;
+    response: { tokens: RegistryToken[] };
+  };
+  IMPORT_TOKEN: {
+    request: { address: string };
+    response: { token: RegistryToken; tokens: RegistryToken[] };
+  };
+  REMOVE_TOKEN: {
+    request: { address: string };
+    response: { tokens: RegistryToken[] };
+  };
+  GET_ALLOWANCES: {
+    request: { address?: string };
+    response: { allowances: TokenAllowance[]; scan: AllowanceScanStatus };
+  };
+  SET_ALLOWANCE: {
+    request: {
+      payload: { tokenAddress: string; spender: string; amount: string };
+    };
+    response: TxHashResult;
+  };
+  GET_SWAP_SETTINGS: {
+    request: NoFields;
+    response: { settings: SwapSettings };
+  };
+  SET_SWAP_SETTINGS: {
+    request: { payload: Partial<SwapSettings> };
+    response: { settings: SwapSettings };
+  };
+  GET_SWAP_QUOTE: {
+    request: { payload: SwapQuoteRequest };
+    response: { quote: SwapQuote };
+  };
+  EXECUTE_SWAP: {
+    request: { payload: SwapQuoteRequest & { acceptHighImpact?: boolean } };
+    response: TxHashResult;
+  };
+  GET_TOKEN_PRICES: {
+    request: { addresses: string[]; refresh?: boolean };
+    /** Keyed by lowercase address; tokens without a DEX pair are left out. */
+    response: { prices: Record<string, TokenPrice> };
+  };
+  GET_PRICE_HISTORY: {
+    /** `since` is a ms timestamp; defaults to the last 7 days. */
+    request: { addresses: string[]; since?: number };
+    /** Oldest first, keyed by lowercase address. */
+    response: { history: Record<string, PriceSnapshot[]> };
+  };
+  GET_PRICE_ALERTS: {
+    request: NoFields;
+    response: { alerts: PriceAlert[] };
+  };
+  SAVE_PRICE_ALERT: {
+    request: { alert: PriceAlertInput };
+    response: { alert: PriceAlert; alerts: PriceAlert[] };
+  };
+  REMOVE_PRICE_ALERT: {
+    request: { id: string };
+    response: { alerts: PriceAlert[] };
+  };
+  GET_INCOMING_TRANSFERS: {
+    /** Transfers into the active account unless `address` names another. */
+    request: { address?: string; limit?: number };
+    /** Newest first. */
+    response: { transfers: IncomingTransfer[] };
+  };
+  GET_ACTIVE_SUBSCRIBED_TOKENS: {
+    request: NoFields;
+    response: { data: SubscribedRewardToken[] };
+  };
+  SUBSCRIBE_TO_TOKEN: {
+    request: {
+      payload: { tokenAddress: string; arenaUserId: string; months: number };
+    };
+    response: TxHashResult;
+  };
+}
+
+export type RpcType = keyof RpcContract;
+
+export type RpcRequest<K extends RpcType> = RpcContract[K]["request"];
+
+export type RpcResult<K extends RpcType> = RpcResponse<
+  RpcContract[K]["response"]
+>;
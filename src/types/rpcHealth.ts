@@ -0,0 +1,16 @@
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  /** Round trip of an eth_blockNumber call. */
+  latencyMs?: number;
+  blockNumber?: number;
+  error?: string;
+  checkedAt: number;
+}
+
+export interface RpcStatus {
+  /** User-editable endpoint list, in the user's order. */
+  endpoints: string[];
+  /** Latest check per endpoint; empty until the first check finishes. */
+  health: RpcEndpointHealth[];
+}
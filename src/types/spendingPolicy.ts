@@ -0,0 +1,45 @@
+/**
+ * Rules for transfers signed without a wallet approval (Cash Machine tips).
+ * A transfer that breaks any rule goes to the approval queue instead.
+ */
+export interface SpendingPolicy {
+  /** Sources allowed to sign without approval, e.g. "CASH_MACHINE". */
+  allowedSources: string[];
+  /**
+   * Most auto-signed transfers may spend per token in 24 hours, keyed by
+   * lowercase token address.
+   */
+  dailyCaps: Record<string, string>;
+  /** Largest single auto-signed transfer per lowercase token address. */
+  maxSingleAmounts: Record<string, string>;
+  /** Seconds before the same recipient can be paid again; 0 disables. */
+  recipientCooldownSeconds: number;
+}
+
+export const DEFAULT_SPENDING_POLICY: SpendingPolicy = {
+  allowedSources: ["CASH_MACHINE"],
+  dailyCaps: {},
+  maxSingleAmounts: {},
+  recipientCooldownSeconds: 0,
+};
+
+/** Sources that may ask to skip the approval, with their display names. */
+export const AUTO_SPEND_SOURCES: Record<string, string> = {
+  CASH_MACHINE: "Cash Machine",
+};
+
+export const RECIPIENT_COOLDOWN_OPTIONS = [0, 30, 60, 300, 3600];
+
+export interface SpendingPolicyStatus {
+  policy: SpendingPolicy;
+  /** Auto-signed spend per lowercase token address over the last 24 hours. */
+  spentToday: Record<string, string>;
+}
+
+export interface AutoSpendRequest {
+  source?: string;
+  /** The token actually transferred; limits are looked up by it. */
+  tokenAddress: string;
+  recipient: string;
+  amount: string;
+}
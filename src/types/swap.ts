@@ -0,0 +1,31 @@
+export interface SwapSettings {
+  /** Uniswap V2 style router, e.g. LFJ V1 or Pangolin. */
+  routerAddress: string;
+  /** Allowed drop below the quoted output, in basis points. */
+  slippageBps: number;
+  deadlineMinutes: number;
+}
+
+export interface SwapQuoteRequest {
+  tokenIn: string;
+  tokenOut: string;
+  /** Whole tokens, e.g. "1.5". */
+  amountIn: string;
+}
+
+export interface SwapQuote extends SwapQuoteRequest {
+  tokenInSymbol: string;
+  tokenOutSymbol: string;
+  /** Token addresses the router trades through; AVAX legs use WAVAX. */
+  path: string[];
+  pathSymbols: string[];
+  amountOut: string;
+  /** Least the swap accepts at the current slippage setting. */
+  minimumOut: string;
+  /** How far the trade moves the price across all pools, in basis points. */
+  priceImpactBps: number;
+  /** True when an approve() must go out before the swap. */
+  needsApproval: boolean;
+  routerAddress: string;
+  slippageBps: number;
+}
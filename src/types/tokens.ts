@@ -0,0 +1,16 @@
+export type TokenSource = "builtin" | "subscribed" | "imported";
+
+/** A token the wallet knows about, keyed by its contract address. */
+export interface RegistryToken {
+  /** Checksummed; AVAX is listed under the WAVAX address. */
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  image: string;
+  isNative?: boolean;
+  isRounded?: boolean;
+  /** Offered by Cash Machine and the tip shower. */
+  tippable: boolean;
+  sources: TokenSource[];
+}
@@ -0,0 +1,42 @@
+export type ScheduledTxStatus =
+  | "queued"
+  | "submitted"
+  | "confirmed"
+  | "failed"
+  | "replaced";
+
+export type TxReplacementMode = "speed_up" | "cancel";
+
+/** What a scheduled tx was for; kept in the local transaction journal. */
+export interface TxDetails {
+  /** What triggered the send, e.g. "CASH_MACHINE", "TIP_SHOWER" or "CLAIM_REWARD". */
+  source?: string;
+  /** Tip shower context id, promotion id or post id the send belongs to. */
+  sourceId?: string;
+  recipient?: string;
+  recipientHandle?: string;
+  /** Set on batch payouts, which have no single recipient. */
+  recipientCount?: number;
+  tokenSymbol?: string;
+  amount?: string;
+}
+
+/** Broadcast with `TX_LIFECYCLE_UPDATED` whenever a scheduled tx changes state. */
+export interface ScheduledTx {
+  id: string;
+  /** Human readable action, e.g. "Tip" or "Create promotion". */
+  label: string;
+  status: ScheduledTxStatus;
+  /** Signing account. */
+  from?: string;
+  details?: TxDetails;
+  nonce?: number;
+  hash?: string;
+  blockNumber?: number;
+  error?: string;
+  /** Set on both sides of a speed-up or cancel. */
+  replacedBy?: string;
+  replaces?: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -65,3 +65,22 @@ export const formatTokenBalance = (balance: string, symbol: string): string => {
 
   return formatTokenAmount(numBalance, decimals);
 };
+
+/**
+ * Shortens an address to its first and last characters, e.g. 0x1234...abcd
+ *
+ * @param address - The address to shorten
+ * @returns Shortened address, or "Unknown" when missing
+ */
+export const formatAddressShort = (address?: string): string => {
+  if (!address || address.length < 10) return address || "Unknown";
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+};
+
+/** US dollars with cents; sub-cent prices keep two significant digits. */
+export const formatUsd = (value: number): string => {
+  if (value !== 0 && Math.abs(value) < 0.01) {
+    return `$${value.toPrecision(2)}`;
+  }
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+};
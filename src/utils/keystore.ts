@@ -0,0 +1,193 @@
+import { ethers } from "ethers";
+import * as CryptoJS from "crypto-js";
+import type {
+  LegacyStoredWalletData,
+  StoredWalletData,
+  WalletSecrets,
+} from "../types";
+
+export const KEYSTORE_VERSION = 2;
+
+// OWASP 2023 recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const deriveKey = async (
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+) => {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    textEncoder.encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+// Binding the address as additional data stops a tampered record from
+// pairing someone else's address with our ciphertext.
+const additionalDataFor = (address: string) =>
+  textEncoder.encode(`${KEYSTORE_VERSION}:${address.toLowerCase()}`);
+
+export function isVersionedKeystore(data: unknown): data is StoredWalletData {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    (data as StoredWalletData).version === KEYSTORE_VERSION &&
+    typeof (data as StoredWalletData).ciphertext === "string"
+  );
+}
+
+export function isLegacyWalletData(
+  data: unknown
+): data is LegacyStoredWalletData {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    !("version" in data) &&
+    typeof (data as LegacyStoredWalletData).encryptedPrivateKey === "string"
+  );
+}
+
+export async function encryptWalletSecrets(
+  address: string,
+  secrets: WalletSecrets,
+  password: string
+): Promise<StoredWalletData> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalDataFor(address) },
+    key,
+    textEncoder.encode(JSON.stringify(secrets))
+  );
+
+  return {
+    version: KEYSTORE_VERSION,
+    address,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: ethers.hexlify(salt),
+    },
+    cipher: { name: "AES-GCM", iv: ethers.hexlify(iv) },
+    ciphertext: ethers.hexlify(new Uint8Array(ciphertext)),
+  };
+}
+
+export async function decryptWalletSecrets(
+  record: StoredWalletData,
+  password: string
+): Promise<WalletSecrets> {
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(
+      password,
+      ethers.getBytes(record.kdf.salt),
+      record.kdf.iterations
+    );
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: ethers.getBytes(record.cipher.iv),
+        additionalData: additionalDataFor(record.address),
+      },
+      key,
+      ethers.getBytes(record.ciphertext)
+    );
+  } catch {
+    // AES-GCM authentication failure is indistinguishable from a bad password.
+    throw new Error("Invalid password.");
+  }
+
+  const secrets = JSON.parse(textDecoder.decode(plaintext)) as WalletSecrets;
+  if (!secrets?.privateKey) {
+    throw new Error("Keystore is missing its private key.");
+  }
+  return secrets;
+}
+
+/**
+ * Decrypts a pre-versioned CryptoJS record. Only used to migrate existing
+ * wallets to the versioned format on their next unlock.
+ */
+export function decryptLegacyWalletData(
+  record: LegacyStoredWalletData,
+  password: string
+): WalletSecrets {
+  let privateKey = "";
+  try {
+    privateKey = CryptoJS.AES.decrypt(
+      record.encryptedPrivateKey,
+      password
+    ).toString(CryptoJS.enc.Utf8);
+  } catch {
+    // Malformed UTF-8 output means the password was wrong.
+  }
+  // A wrong password now and then still decrypts to valid UTF-8, so the
+  // result must also be the key of the stored address.
+  if (!ethers.isHexString(privateKey, 32)) {
+    throw new Error("Invalid password.");
+  }
+  const address = new ethers.Wallet(privateKey).address;
+  if (record.address && address.toLowerCase() !== record.address.toLowerCase()) {
+    throw new Error("Invalid password.");
+  }
+  return { privateKey };
+}
+
+/**
+ * Encrypts one account as a Web3 Secret Storage (V3) JSON file, the format
+ * geth, MetaMask and most wallets import. Only the key is included, never
+ * the recovery phrase.
+ */
+export async function exportV3Keystore(
+  privateKey: string,
+  passphrase: string
+): Promise<string> {
+  return new ethers.Wallet(privateKey).encrypt(passphrase);
+}
+
+/** Decrypts a V3 keystore file; throws on a wrong passphrase or bad file. */
+export async function importV3Keystore(
+  json: string,
+  passphrase: string
+): Promise<WalletSecrets & { address: string }> {
+  if (!ethers.isKeystoreJson(json)) {
+    throw new Error("Not a Web3 Secret Storage (V3) keystore file.");
+  }
+  let wallet: ethers.Wallet | ethers.HDNodeWallet;
+  try {
+    wallet = await ethers.Wallet.fromEncryptedJson(json, passphrase);
+  } catch {
+    throw new Error("Wrong passphrase or damaged keystore file.");
+  }
+  return {
+    address: wallet.address,
+    privateKey: wallet.privateKey,
+    mnemonic:
+      wallet instanceof ethers.HDNodeWallet ? wallet.mnemonic?.phrase : undefined,
+  };
+}
+
+/** The `UTC--<time>--<address>` file name geth gives keystore files. */
+export const keystoreFileName = (address: string) =>
+  `UTC--${new Date().toISOString().replace(/:/g, "-")}--${address
+    .slice(2)
+    .toLowerCase()}.json`;
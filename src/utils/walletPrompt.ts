@@ -1,3 +1,5 @@
+import { sendRpc } from "../lib/rpc";
+
 export type WalletStatusPayload = {
   isUnlocked?: boolean;
   hasWallet?: boolean;
@@ -16,16 +18,13 @@ export function getWalletStatus(): Promise<WalletStatusPayload | null> {
       resolve(null);
       return;
     }
-    chrome.runtime.sendMessage({ type: "CHECK_WALLET_STATUS" }, (response) => {
-      if (chrome.runtime.lastError) {
-        console.warn(
-          "[AREX] Failed to check wallet status:",
-          chrome.runtime.lastError.message
-        );
+    sendRpc("CHECK_WALLET_STATUS").then((response) => {
+      if (!response.success) {
+        console.warn("[AREX] Failed to check wallet status:", response.error);
         resolve(null);
         return;
       }
-      resolve(response || null);
+      resolve(response);
     });
   });
 }
@@ -37,20 +36,12 @@ export function promptWalletUnlock(): Promise<boolean> {
         resolve(false);
         return;
       }
-      chrome.runtime.sendMessage(
-        { type: "PROMPT_UNLOCK_WALLET" },
-        (response) => {
-          if (chrome.runtime.lastError) {
-            console.warn(
-              "[AREX] Failed to prompt wallet unlock:",
-              chrome.runtime.lastError.message
-            );
-            resolve(false);
-            return;
-          }
-          resolve(Boolean(response?.success));
+      sendRpc("PROMPT_UNLOCK_WALLET").then((response) => {
+        if (!response.success) {
+          console.warn("[AREX] Failed to prompt wallet unlock:", response.error);
         }
-      );
+        resolve(response.success);
+      });
     } catch (err) {
       console.warn("[AREX] Unexpected error prompting wallet unlock", err);
       resolve(false);
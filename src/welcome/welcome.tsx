@@ -6,11 +6,15 @@ import {
   createWallet,
   importWalletFromPrivateKey,
   importWalletFromMnemonic,
+  importWalletFromKeystore,
   encryptWallet,
   saveWallet,
-  savePasswordHash,
   isWalletSetup,
 } from "../services/walletService";
+import {
+  markRecoveryBackupVerified,
+  pickQuizIndices,
+} from "../lib/recoveryBackup";
 import { Eye, EyeOff, Copy, Check, ArrowUpRight } from "lucide-react";
 
 // Define CSS with Tailwind classes aligned to the new blue/emerald theme
@@ -43,7 +47,13 @@ function Welcome() {
   const [tab, setTab] = useState("create"); // 'create' or 'import'
   const [privateKey, setPrivateKey] = useState("");
   const [mnemonic, setMnemonic] = useState("");
-  const [importMethod, setImportMethod] = useState("privateKey"); // 'privateKey' or 'mnemonic'
+  const [importMethod, setImportMethod] = useState("privateKey"); // 'privateKey', 'mnemonic' or 'keystore'
+  const [keystoreJson, setKeystoreJson] = useState("");
+  const [keystorePassphrase, setKeystorePassphrase] = useState("");
+  // Decrypted when leaving the method step, so a wrong passphrase shows there.
+  const [keystoreWallet, setKeystoreWallet] = useState<
+    ethers.HDNodeWallet | ethers.Wallet | null
+  >(null);
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [wallet, setWallet] = useState<
@@ -104,14 +114,7 @@ function Welcome() {
     }
     setError("");
     const words = wallet.mnemonic.phrase.trim().split(/\s+/);
-    const total = words.length;
-    const picks = new Set<number>();
-    while (picks.size < Math.min(3, total)) {
-      const idx = Math.floor(Math.random() * total); // 0-based
-      picks.add(idx);
-    }
-    const selected = Array.from(picks).sort((a, b) => a - b);
-    setVerifyIndices(selected);
+    setVerifyIndices(pickQuizIndices(words.length));
     setVerifyInputs({});
     setCreateStep("verify");
   };
@@ -133,9 +136,9 @@ function Welcome() {
     setError("");
     // Persist only now (after successful verification)
     try {
-      const encryptedWallet = encryptWallet(wallet as any, password);
+      const encryptedWallet = await encryptWallet(wallet, password);
       await saveWallet(encryptedWallet);
-      await savePasswordHash(password);
+      await markRecoveryBackupVerified(wallet.address);
       setSetupComplete(true);
     } catch (err) {
       setError("Failed to save wallet. Please try again.");
@@ -209,12 +212,16 @@ function Welcome() {
           setLoading(false);
           return;
         }
-      } else {
+      } else if (importMethod === "mnemonic") {
         if (!mnemonic) {
           setError("Please enter your seed phrase");
           setLoading(false);
           return;
         }
+      } else if (!keystoreWallet) {
+        setError("Please choose a keystore file");
+        setLoading(false);
+        return;
       }
 
       if (!password) {
@@ -239,13 +246,18 @@ function Welcome() {
       const importedWallet =
         importMethod === "privateKey"
           ? await importWalletFromPrivateKey(privateKey)
-          : await importWalletFromMnemonic(mnemonic);
+          : importMethod === "mnemonic"
+            ? await importWalletFromMnemonic(mnemonic)
+            : keystoreWallet!;
       setWallet(importedWallet);
 
       // Encrypt and save wallet
-      const encryptedWallet = encryptWallet(importedWallet, password);
+      const encryptedWallet = await encryptWallet(importedWallet, password);
       await saveWallet(encryptedWallet);
-      await savePasswordHash(password);
+      // Typing the whole phrase in proves the user has it written down.
+      if (importMethod === "mnemonic") {
+        await markRecoveryBackupVerified(importedWallet.address);
+      }
 
       setSetupMessage("Wallet imported successfully!");
       setSetupComplete(true);
@@ -678,18 +690,36 @@ function Welcome() {
 
         {tab === "import" && importStep === "method" && (
           <form
-            onSubmit={(e) => {
+            onSubmit={async (e) => {
               e.preventDefault();
               if (importMethod === "privateKey") {
                 if (!privateKey.trim()) {
                   setError("Please enter a private key");
                   return;
                 }
-              } else {
+              } else if (importMethod === "mnemonic") {
                 if (!mnemonic.trim()) {
                   setError("Please enter your seed phrase");
                   return;
                 }
+              } else {
+                if (!keystoreJson || !keystorePassphrase) {
+                  setError("Please choose a keystore file and enter its passphrase");
+                  return;
+                }
+                try {
+                  setLoading(true);
+                  setError("");
+                  setKeystoreWallet(
+                    await importWalletFromKeystore(keystoreJson, keystorePassphrase)
+                  );
+                  setKeystorePassphrase("");
+                } catch (err: any) {
+                  setError(err?.message || "Failed to decrypt the keystore file");
+                  return;
+                } finally {
+                  setLoading(false);
+                }
               }
               setError("");
               setImportStep("password");
@@ -715,6 +745,15 @@ function Welcome() {
                   />
                   Seed Phrase
                 </label>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="radio"
+                    className="mr-1"
+                    checked={importMethod === "keystore"}
+                    onChange={() => setImportMethod("keystore")}
+                  />
+                  Keystore File
+                </label>
               </div>
 
               {importMethod === "privateKey" ? (
@@ -731,7 +770,7 @@ function Welcome() {
                     disabled={loading}
                   />
                 </div>
-              ) : (
+              ) : importMethod === "mnemonic" ? (
                 <div className="mb-2">
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Seed Phrase
@@ -744,6 +783,35 @@ function Welcome() {
                     disabled={loading}
                   />
                 </div>
+              ) : (
+                <div className="mb-2 space-y-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Keystore File (JSON)
+                  </label>
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => {
+                      setKeystoreJson("");
+                      setKeystoreWallet(null);
+                      e.target.files?.[0]
+                        ?.text()
+                        .then(setKeystoreJson, () =>
+                          setError("Could not read the keystore file")
+                        );
+                    }}
+                    className="w-full text-sm text-slate-600"
+                    disabled={loading}
+                  />
+                  <input
+                    type="password"
+                    value={keystorePassphrase}
+                    onChange={(e) => setKeystorePassphrase(e.target.value)}
+                    placeholder="Keystore passphrase"
+                    className={`${styles.input}`}
+                    disabled={loading}
+                  />
+                </div>
               )}
             </div>
 
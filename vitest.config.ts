@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the tests do not load the extension build.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // The devnet fixture compiles its contracts with solc-js on first use.
+    hookTimeout: 120_000,
+    testTimeout: 60_000,
+  },
+})